@@ -147,6 +147,7 @@ export default function AnalyzeScreen() {
         .from('hand_analyses')
         .select('id, input, result, created_at')
         .eq('is_deleted', mode === 'trash')
+        .is('parent_id', null)
         .order('created_at', { ascending: false })
         .limit(20);
 
@@ -7,16 +7,24 @@ import { CoachStyle } from '../../types/profile';
 import { useAuth } from '../../providers/AuthProvider';
 import { supabase } from '../../lib/supabase';
 import { ensureSession } from '../../lib/ensureSession';
-import { callEdge } from '../../lib/edge';
-import { Profile } from '../../types/database';
+import { callEdge, isLimitReachedError } from '../../lib/edge';
+import { AffiliateAccountRow, Profile } from '../../types/database';
 import { ScreenWrapper } from '../../components/ScreenWrapper';
 import { AppText } from '../../components/AppText';
 import { Card } from '../../components/Card';
 import { LeakSummary } from '../../types/leaks';
 import { DailyCheckin } from '../../types/checkin';
 import { getLeakDisplay, normalizeLeakTag } from '../../lib/leakCatalog';
+import { COOLDOWN_ROUTINE } from '../../lib/tilt';
 import { ActionPlanResponse, ActionPlanItem } from '../../types/actionPlan';
 import { getFunctionsErrorDetails } from '../../lib/functionsError';
+import {
+  AFFILIATE_MIN_HANDS,
+  AFFILIATE_MIN_RAKE_USD,
+  AFFILIATE_STATUS_TEXT,
+  AFFILIATE_WINDOW_DAYS,
+  normalizePlayerId,
+} from '../../lib/affiliate';
 
 const MISTAKE_REASON_KEYS = ['range', 'sizing', 'position', 'board', 'stack', 'unknown'] as const;
 type MistakeReasonKey = (typeof MISTAKE_REASON_KEYS)[number];
@@ -64,7 +72,7 @@ export default function ProfileScreen() {
   const [actionPlanError, setActionPlanError] = useState<string | null>(null);
 
   // Most common mistake reasons (7 days) for Coach Review
-  const [mistakeReasons7d, setMistakeReasons7d] = useState<Array<{ reason: MistakeReasonKey; count: number }>>([]);
+  const [mistakeReasons7d, setMistakeReasons7d] = useState<Array<{ reason: MistakeReasonKey; count: number; evLossBb: number }>>([]);
   const [loadingMistakeReasons, setLoadingMistakeReasons] = useState(false);
   const [mistakeReasonsError, setMistakeReasonsError] = useState<string | null>(null);
 
@@ -74,6 +82,12 @@ export default function ProfileScreen() {
   const [linkError, setLinkError] = useState<string | null>(null);
   const [linkLoading, setLinkLoading] = useState(false);
 
+  // Pokerok affiliate verification (affiliate_pro)
+  const [affiliate, setAffiliate] = useState<AffiliateAccountRow | null>(null);
+  const [pokerokInput, setPokerokInput] = useState('');
+  const [pokerokSaving, setPokerokSaving] = useState(false);
+  const [pokerokError, setPokerokError] = useState<string | null>(null);
+
   const handleLinkAccount = async () => {
     const email = linkEmail.trim();
     const password = linkPassword;
@@ -191,7 +205,7 @@ export default function ProfileScreen() {
       const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
       const { data, error } = await supabase
         .from('training_events')
-        .select('mistake_reason')
+        .select('mistake_reason, ev_loss_bb')
         .eq('user_id', user.id)
         .not('mistake_reason', 'is', null)
         .gte('created_at', sevenDaysAgo);
@@ -206,14 +220,17 @@ export default function ProfileScreen() {
         stack: 0,
         unknown: 0,
       };
-      (data ?? []).forEach((row: { mistake_reason: string | null }) => {
+      // Потерянные bb по причине: дорогие ошибки важнее частых (у ответов без EV-оценки потеря не известна)
+      const lossBb: Record<MistakeReasonKey, number> = { range: 0, sizing: 0, position: 0, board: 0, stack: 0, unknown: 0 };
+      (data ?? []).forEach((row: { mistake_reason: string | null; ev_loss_bb: number | null }) => {
         const key = normalizeMistakeReason(row.mistake_reason);
         counts[key] += 1;
+        lossBb[key] += row.ev_loss_bb ?? 0;
       });
       const top3 = (MISTAKE_REASON_KEYS as readonly MistakeReasonKey[])
         .filter((k) => counts[k] > 0)
-        .map((reason) => ({ reason, count: counts[reason] }))
-        .sort((a, b) => b.count - a.count)
+        .map((reason) => ({ reason, count: counts[reason], evLossBb: lossBb[reason] }))
+        .sort((a, b) => b.evLossBb - a.evLossBb || b.count - a.count)
         .slice(0, 3);
       setMistakeReasons7d(top3);
     } catch (err: any) {
@@ -237,6 +254,7 @@ export default function ProfileScreen() {
       checkTodayActivity();
       loadCurrentActionPlan();
       loadMistakeReasons7d();
+      loadAffiliate();
     }, [user])
   );
 
@@ -262,6 +280,7 @@ export default function ProfileScreen() {
         }
       } else {
         setProfile(data);
+        setPokerokInput((data as Profile | null)?.pokerok_id ?? '');
       }
     } catch (err: any) {
       const msg = err?.message ?? 'Ошибка загрузки профиля';
@@ -273,6 +292,51 @@ export default function ProfileScreen() {
     }
   };
 
+  const loadAffiliate = async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('affiliate_accounts')
+      .select('*')
+      .eq('user_id', user.id)
+      .maybeSingle() as { data: AffiliateAccountRow | null; error: any };
+
+    if (error) {
+      console.error('[Profile] Failed to load affiliate account:', error);
+      return;
+    }
+    setAffiliate(data);
+    if (data?.pokerok_id) setPokerokInput(data.pokerok_id);
+  };
+
+  const savePokerokId = async () => {
+    const pokerokId = normalizePlayerId(pokerokInput);
+    if (!pokerokId) {
+      setPokerokError('ID игрока: 3–32 символа, буквы, цифры, _ или -');
+      return;
+    }
+    setPokerokError(null);
+    setPokerokSaving(true);
+    try {
+      await ensureSession();
+      const data = await callEdge('affiliate-link', { pokerok_id: pokerokId });
+      await loadAffiliate();
+      if (data?.account?.status === 'pending') {
+        Alert.alert('ID сохранён', AFFILIATE_STATUS_TEXT.pending.description);
+      }
+    } catch (err: any) {
+      console.error('[Profile] affiliate-link error:', err);
+      const msg = err?.message?.includes('pokerok_id_taken')
+        ? 'Этот ID уже подтверждён для другого аккаунта'
+        : err?.message?.includes('invalid_pokerok_id')
+          ? 'Неверный ID игрока Покерок'
+          : err?.message ?? 'Не удалось сохранить ID';
+      setPokerokError(msg);
+    } finally {
+      setPokerokSaving(false);
+    }
+  };
+
   const loadTodayCheckin = async () => {
     if (!user) return;
 
@@ -373,6 +437,7 @@ export default function ProfileScreen() {
 
       const data = await callEdge('ai-daily-checkin', {
         coach_style: coachStyle,
+        tz_offset_minutes: new Date().getTimezoneOffset(),
       });
 
       setDailyCheckin(data as DailyCheckin);
@@ -408,6 +473,10 @@ export default function ProfileScreen() {
     } catch (err: any) {
       const msg = err?.message ?? 'Ошибка загрузки анализа';
       console.error('[Profile] summarize invoke error raw:', err);
+      if (isLimitReachedError(err)) {
+        Alert.alert('Лимит достигнут', msg, [{ text: 'OK', onPress: () => router.push('/paywall') }]);
+        return;
+      }
       // Handle session creation failure
       if (err?.message === 'Failed to create session') {
         setLeakError('Не удалось создать сессию. Перезапусти приложение.');
@@ -620,6 +689,72 @@ export default function ProfileScreen() {
             <AppText variant="h2" color="#F59E0B">→</AppText>
           </TouchableOpacity>
 
+          {/* Pokerok: ID игрока и статус проверки по отчётам партнёра */}
+          <Card style={styles.section}>
+            <AppText variant="h3" style={styles.sectionTitle}>PRO за игру на Покерок</AppText>
+            {affiliate ? (
+              <>
+                <View style={styles.affiliateStatusRow}>
+                  <View
+                    style={[
+                      styles.affiliateBadge,
+                      affiliate.status === 'verified' && styles.affiliateBadgeVerified,
+                      affiliate.status === 'expired' && styles.affiliateBadgeExpired,
+                    ]}
+                  >
+                    <AppText variant="label" color="#FFFFFF">
+                      {AFFILIATE_STATUS_TEXT[affiliate.status].label}
+                    </AppText>
+                  </View>
+                  {affiliate.status === 'verified' && affiliate.access_expires_at && (
+                    <AppText variant="caption" style={styles.affiliateMeta}>
+                      PRO до {new Date(affiliate.access_expires_at).toLocaleDateString('ru-RU')}
+                    </AppText>
+                  )}
+                </View>
+                <AppText variant="body" style={styles.sectionDescription}>
+                  {AFFILIATE_STATUS_TEXT[affiliate.status].description}
+                </AppText>
+                {affiliate.checked_at && (
+                  <AppText variant="caption" style={styles.affiliateMeta}>
+                    За {AFFILIATE_WINDOW_DAYS} дней: рейк ${Number(affiliate.window_rake_usd).toFixed(2)} из ${AFFILIATE_MIN_RAKE_USD} или {affiliate.window_hands} из {AFFILIATE_MIN_HANDS} рук
+                  </AppText>
+                )}
+              </>
+            ) : (
+              <AppText variant="body" style={styles.sectionDescription}>
+                Зарегистрируйтесь по кнопке «Бонус на Покерок» и укажите ID игрока — PRO откроется после проверки активности.
+              </AppText>
+            )}
+            <TextInput
+              style={styles.accountInput}
+              placeholder="ID игрока Покерок"
+              placeholderTextColor="#6B7280"
+              value={pokerokInput}
+              onChangeText={setPokerokInput}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            {pokerokError != null && (
+              <AppText variant="body" color="#FF9800" style={styles.accountError}>
+                {pokerokError}
+              </AppText>
+            )}
+            <TouchableOpacity
+              onPress={savePokerokId}
+              style={[styles.accountButton, pokerokSaving && styles.accountButtonDisabled]}
+              disabled={pokerokSaving}
+            >
+              {pokerokSaving ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <AppText variant="label" color="#FFFFFF" style={styles.accountButtonText}>
+                  {affiliate?.pokerok_id ? 'Изменить ID' : 'Сохранить ID'}
+                </AppText>
+              )}
+            </TouchableOpacity>
+          </Card>
+
           {/* Daily Check-in Section */}
           <Card style={styles.checkinSection}>
             <AppText variant="h3" style={styles.sectionTitle}>Ежедневный чек-ин</AppText>
@@ -636,6 +771,25 @@ export default function ProfileScreen() {
                   </AppText>
                 </View>
 
+                {/* Ментальные сигналы (тильт) */}
+                {dailyCheckin.mental && dailyCheckin.mental.level !== 'ok' && (
+                  <Card style={[styles.mentalCard, dailyCheckin.mental.level === 'tilt' && styles.mentalCardTilt]}>
+                    <AppText variant="label" color={dailyCheckin.mental.level === 'tilt' ? '#FF5252' : '#FF9800'}>
+                      {dailyCheckin.mental.recommendation === 'break' ? '🛑 Время для перерыва' : '🧊 Нужен кулдаун'}
+                    </AppText>
+                    {dailyCheckin.mental.signals.map((signal) => (
+                      <AppText key={signal.code} variant="body" style={styles.mentalSignal}>
+                        • {signal.message}
+                      </AppText>
+                    ))}
+                    {dailyCheckin.mental.recommendation === 'cooldown' && (
+                      <AppText variant="caption" style={styles.mentalRoutine}>
+                        {COOLDOWN_ROUTINE.map((step, i) => `${i + 1}. ${step}`).join('\n')}
+                      </AppText>
+                    )}
+                  </Card>
+                )}
+
                 {/* Focus */}
                 <View style={styles.focusContainer}>
                   {dailyCheckin.focus.tag && (
@@ -817,9 +971,9 @@ export default function ProfileScreen() {
               ) : mistakeReasons7d.length === 0 ? (
                 <AppText variant="body" color="#A7B0C0">За последние 7 дней ошибок нет.</AppText>
               ) : (
-                mistakeReasons7d.map(({ reason, count }, idx) => (
+                mistakeReasons7d.map(({ reason, count, evLossBb }, idx) => (
                   <AppText key={reason} variant="body" style={styles.mistakeReasonLine}>
-                    {idx + 1}) {mistakeReasonLabel(reason)} — {count}
+                    {idx + 1}) {mistakeReasonLabel(reason)} — {count}{evLossBb > 0 ? ` (≈${evLossBb.toFixed(1)} bb)` : ''}
                   </AppText>
                 ))
               )}
@@ -1042,6 +1196,22 @@ const styles = StyleSheet.create({
     marginTop: 4,
     opacity: 0.8,
   },
+  mentalCard: {
+    gap: 6,
+    borderWidth: 1,
+    borderColor: '#FF9800',
+  },
+  mentalCardTilt: {
+    borderColor: '#FF5252',
+  },
+  mentalSignal: {
+    opacity: 0.9,
+  },
+  mentalRoutine: {
+    marginTop: 4,
+    opacity: 0.7,
+    lineHeight: 18,
+  },
   focusContainer: {
     gap: 8,
   },
@@ -1459,6 +1629,26 @@ const styles = StyleSheet.create({
   accountError: {
     marginTop: 8,
   },
+  affiliateStatusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  affiliateBadge: {
+    backgroundColor: '#6B7280',
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  affiliateBadgeVerified: {
+    backgroundColor: '#22C55E',
+  },
+  affiliateBadgeExpired: {
+    backgroundColor: '#E53935',
+  },
+  affiliateMeta: {
+    color: '#A7B0C0',
+  },
   accountButton: {
     backgroundColor: '#4C9AFF',
     paddingVertical: 12,
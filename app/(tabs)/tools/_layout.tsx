@@ -7,6 +7,7 @@ export default function ToolsLayout() {
       <Stack.Screen name="insights" />
       <Stack.Screen name="calculator" />
       <Stack.Screen name="bankroll" />
+      <Stack.Screen name="icm" />
     </Stack>
   );
 }
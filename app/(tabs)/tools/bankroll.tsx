@@ -1,6 +1,7 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   ActivityIndicator,
+  Alert,
   KeyboardAvoidingView,
   Modal,
   Platform,
@@ -15,22 +16,34 @@ import { ScreenWrapper } from '../../../components/ScreenWrapper';
 import { AppText } from '../../../components/AppText';
 import { Card } from '../../../components/Card';
 import { supabase } from '../../../lib/supabase';
-
-// ─── Types ─────────────────────────────────────────────────────────────────
-
-type GameType = 'Cash' | 'MTT' | 'Spin';
-
-interface BankrollSession {
-  id: string;
-  user_id: string;
-  date: string;
-  game_type: GameType;
-  buy_in: number;
-  cash_out: number;
-  profit: number;
-  notes: string | null;
-  created_at: string;
-}
+import {
+  BANKROLL_GAME_TYPES,
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  bigBlindFromStakes,
+  computeBankrollStats,
+  currencySymbol,
+  formatMoney,
+  sessionCurrencies,
+  sessionCurrency,
+  sessionsInCurrency,
+  type BankrollGameType,
+  type ProfitPoint,
+} from '../../../lib/bankroll';
+import {
+  BANKROLL_PRESETS,
+  MIN_RISK_SESSIONS,
+  bankrollAdvice,
+  policyForPreset,
+  rulesFromRow,
+  rulesToRow,
+  type BankrollPolicy,
+  type BankrollPreset,
+  type BankrollRules,
+  type StakeAdvice,
+  type StakeLevel,
+} from '../../../lib/bankrollRules';
+import type { BankrollRulesRow, BankrollSessionRow } from '../../../types/database';
 
 // ─── Helpers ───────────────────────────────────────────────────────────────
 
@@ -43,55 +56,281 @@ function formatDate(iso: string): string {
   });
 }
 
+/** ISO-дата для поля ввода: ГГГГ-ММ-ДД по местному времени. */
+function toDateInput(iso: string): string {
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** ГГГГ-ММ-ДД → ISO (полдень, чтобы дата не съехала из-за часового пояса); null, если не разобрано. */
+function parseDateInput(text: string): string | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text.trim());
+  if (!m) return null;
+  const d = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]), 12);
+  return Number.isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+/** Время начала для поля ввода: ЧЧ:ММ по местному времени; пусто, если не задано. */
+function toTimeInput(iso: string | null): string {
+  if (!iso) return '';
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+/** ГГГГ-ММ-ДД + ЧЧ:ММ → ISO; null для пустого времени, 'invalid', если не разобрано. */
+function parseStartInput(date: string, time: string): string | null | 'invalid' {
+  if (time.trim() === '') return null;
+  const d = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date.trim());
+  const t = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!d || !t || Number(t[1]) > 23 || Number(t[2]) > 59) return 'invalid';
+  const start = new Date(Number(d[1]), Number(d[2]) - 1, Number(d[3]), Number(t[1]), Number(t[2]));
+  return Number.isNaN(start.getTime()) ? 'invalid' : start.toISOString();
+}
+
+/** Пустое поле → null; иначе положительное число (запятая как разделитель тоже подходит). */
+function parseOptionalNumber(text: string): number | null | 'invalid' {
+  if (text.trim() === '') return null;
+  const n = Number(text.trim().replace(',', '.'));
+  return Number.isFinite(n) && n >= 0 ? n : 'invalid';
+}
+
+function formatHours(hours: number): string {
+  return hours >= 10 ? `${Math.round(hours)} ч` : `${hours.toFixed(1)} ч`;
+}
+
+const CHART_MAX_POINTS = 60;
+
+function ProfitChart({ curve }: { curve: ProfitPoint[] }) {
+  // Последние CHART_MAX_POINTS сессий: столбики накопленного профита от нулевой линии
+  const points = curve.slice(-CHART_MAX_POINTS);
+  const hi = Math.max(0, ...points.map((p) => p.cumulative));
+  const lo = Math.min(0, ...points.map((p) => p.cumulative));
+  const range = hi - lo || 1;
+  const zero = ((0 - lo) / range) * 100;
+  return (
+    <View style={styles.chart}>
+      <View style={[styles.chartZero, { bottom: `${zero}%` }]} />
+      {points.map((p, i) => {
+        const height = Math.max(1, (Math.abs(p.cumulative) / range) * 100);
+        const bottom = p.cumulative >= 0 ? zero : zero - height;
+        return (
+          <View key={`${p.date}-${i}`} style={styles.chartSlot}>
+            <View
+              style={[
+                styles.chartBar,
+                { bottom: `${bottom}%`, height: `${height}%` },
+                p.cumulative >= 0 ? styles.chartBarPositive : styles.chartBarNegative,
+              ]}
+            />
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const PRESET_LABELS: Record<BankrollPreset | 'custom', string> = {
+  conservative: 'Консервативно',
+  standard: 'Стандарт',
+  aggressive: 'Агрессивно',
+  custom: 'Свои',
+};
+
+function stakeText(gameType: BankrollGameType, level: StakeLevel, currency: string): string {
+  return gameType === 'Cash' ? level.label : formatMoney(level.buyIn, currency);
+}
+
+/** Строка совета по лимиту для карточки и предупреждения после сессии. */
+function adviceText(a: StakeAdvice, currency: string): string {
+  const rec = a.recommended ? stakeText(a.gameType, a.recommended, currency) : null;
+  const cur = a.current ? stakeText(a.gameType, a.current, currency) : null;
+  const held = a.buyinsHeld != null ? Math.floor(a.buyinsHeld) : null;
+  switch (a.status) {
+    case 'move_down':
+      return `${a.gameType}: ${held} бай-инов ${cur} — меньше ${a.rule.moveDownBuyins}. Понизьте лимит${rec ? ` до ${rec}` : ''}.`;
+    case 'move_up':
+      return `${a.gameType}: можно подняться с ${cur} на ${rec} (${a.rule.buyins} бай-инов есть).`;
+    case 'ok':
+      return `${a.gameType}: ${cur} в пределах правил — ${held} бай-инов.`;
+    case 'below_min':
+      return `${a.gameType}: банкролла не хватает даже на минимальный лимит (нужно ${a.rule.buyins} бай-инов).`;
+    default:
+      return `${a.gameType}: рекомендуемый лимит — ${rec}.`;
+  }
+}
+
+const ADVICE_COLORS: Record<StakeAdvice['status'], string> = {
+  move_down: '#F44336',
+  below_min: '#F44336',
+  move_up: '#4CAF50',
+  ok: '#FFFFFF',
+  no_data: '#A7B0C0',
+};
+
+type RulesForm = {
+  currency: string;
+  startingBankroll: string;
+  startedAt: string;
+  preset: BankrollPreset | 'custom';
+  policy: Record<BankrollGameType, { buyins: string; moveDownBuyins: string }>;
+};
+
+function policyToForm(policy: BankrollPolicy): RulesForm['policy'] {
+  const out = {} as RulesForm['policy'];
+  for (const g of BANKROLL_GAME_TYPES) {
+    out[g] = { buyins: String(policy[g].buyins), moveDownBuyins: String(policy[g].moveDownBuyins) };
+  }
+  return out;
+}
+
+function rulesFormFrom(rules: BankrollRules | null, currency: string): RulesForm {
+  if (!rules) {
+    return {
+      currency,
+      startingBankroll: '',
+      startedAt: toDateInput(new Date().toISOString()),
+      preset: 'standard',
+      policy: policyToForm(BANKROLL_PRESETS.standard),
+    };
+  }
+  return {
+    currency: rules.currency,
+    startingBankroll: String(rules.startingBankroll),
+    startedAt: toDateInput(rules.startedAt),
+    preset: rules.preset,
+    policy: policyToForm(rules.policy),
+  };
+}
+
 // ─── Screen ───────────────────────────────────────────────────────────────
 
-const GAME_TYPES: GameType[] = ['Cash', 'MTT', 'Spin'];
+type SessionForm = {
+  gameType: BankrollGameType;
+  date: string;
+  /** ЧЧ:ММ, необязательно — нужно для сигналов о ночных сессиях. */
+  startTime: string;
+  currency: string;
+  stakes: string;
+  bigBlind: string;
+  hours: string;
+  hands: string;
+  venue: string;
+  entries: string;
+  place: string;
+  buyIn: string;
+  cashOut: string;
+  notes: string;
+};
+
+function emptyForm(currency: string): SessionForm {
+  return {
+    gameType: 'Cash',
+    date: toDateInput(new Date().toISOString()),
+    startTime: '',
+    currency,
+    stakes: '',
+    bigBlind: '',
+    hours: '',
+    hands: '',
+    venue: '',
+    entries: '',
+    place: '',
+    buyIn: '',
+    cashOut: '',
+    notes: '',
+  };
+}
+
+function formFromSession(s: BankrollSessionRow): SessionForm {
+  const num = (n: number | null) => (n == null ? '' : String(n));
+  return {
+    gameType: BANKROLL_GAME_TYPES.includes(s.game_type as BankrollGameType) ? (s.game_type as BankrollGameType) : 'Cash',
+    date: toDateInput(s.started_at ?? s.date),
+    startTime: toTimeInput(s.started_at),
+    currency: sessionCurrency(s),
+    stakes: s.stakes ?? '',
+    bigBlind: num(s.big_blind),
+    hours: s.duration_minutes ? String(Math.round((s.duration_minutes / 60) * 100) / 100) : '',
+    hands: num(s.hands_played),
+    venue: s.venue ?? '',
+    entries: num(s.entries),
+    place: num(s.finish_place),
+    buyIn: String(s.buy_in ?? ''),
+    cashOut: String(s.cash_out ?? ''),
+    notes: s.notes ?? '',
+  };
+}
 
 export default function BankrollScreen() {
   const router = useRouter();
-  const [sessions, setSessions] = useState<BankrollSession[]>([]);
+  const [sessions, setSessions] = useState<BankrollSessionRow[]>([]);
   const [loading, setLoading] = useState(true);
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
   const [modalVisible, setModalVisible] = useState(false);
-  const [gameType, setGameType] = useState<GameType>('Cash');
-  const [buyIn, setBuyIn] = useState('');
-  const [cashOut, setCashOut] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<SessionForm>(() => emptyForm(DEFAULT_CURRENCY));
+  const [formError, setFormError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
+  const [rules, setRules] = useState<BankrollRules | null>(null);
+  const [rulesModalVisible, setRulesModalVisible] = useState(false);
+  const [rulesForm, setRulesForm] = useState<RulesForm>(() => rulesFormFrom(null, DEFAULT_CURRENCY));
+  const [rulesError, setRulesError] = useState<string | null>(null);
 
-  const loadSessions = useCallback(async () => {
+  const loadSessions = useCallback(async (): Promise<BankrollSessionRow[] | null> => {
     setLoading(true);
     const { data, error } = await supabase
       .from('bankroll_sessions')
       .select('*')
       .order('date', { ascending: false });
-    if (!error) {
-      setSessions((data as BankrollSession[]) ?? []);
-    }
     setLoading(false);
+    if (error) return null;
+    const rows = (data as BankrollSessionRow[]) ?? [];
+    setSessions(rows);
+    // Валюта по умолчанию — самая частая, если выбранной нет среди сессий
+    const used = sessionCurrencies(rows);
+    setCurrency((prev) => (used.length === 0 || used.includes(prev) ? prev : used[0]));
+    return rows;
+  }, []);
+
+  const loadRules = useCallback(async () => {
+    const { data, error } = await supabase.from('bankroll_rules').select('*').maybeSingle();
+    if (!error && data) setRules(rulesFromRow(data as BankrollRulesRow));
   }, []);
 
   useEffect(() => {
     loadSessions();
-  }, [loadSessions]);
-
-  const { totalProfit, roi } = useMemo(() => {
-    const totalProfit = sessions.reduce((acc, s) => acc + Number(s.profit ?? 0), 0);
-    const totalBuyIn = sessions.reduce((acc, s) => acc + Number(s.buy_in ?? 0), 0);
-    const roiRaw = totalBuyIn > 0 ? (totalProfit / totalBuyIn) * 100 : 0;
-    const roi = Number.isNaN(roiRaw) ? 0 : roiRaw;
-    return { totalProfit, roi };
-  }, [sessions]);
-
-  const openModal = () => {
-    setGameType('Cash');
-    setBuyIn('');
-    setCashOut('');
+    loadRules();
+  }, [loadSessions, loadRules]);
+
+  const currencies = useMemo(() => sessionCurrencies(sessions), [sessions]);
+  const visibleSessions = useMemo(() => sessionsInCurrency(sessions, currency), [sessions, currency]);
+  const stats = useMemo(() => computeBankrollStats(visibleSessions), [visibleSessions]);
+  const advice = useMemo(() => (rules ? bankrollAdvice(rules, sessions) : null), [rules, sessions]);
+
+  const setField = <K extends keyof SessionForm>(key: K, value: SessionForm[K]) => {
+    setForm((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const openNew = () => {
+    setEditingId(null);
+    setForm(emptyForm(currency));
+    setFormError(null);
+    setModalVisible(true);
+  };
+
+  const openEdit = (s: BankrollSessionRow) => {
+    setEditingId(s.id);
+    setForm(formFromSession(s));
+    setFormError(null);
     setModalVisible(true);
   };
 
   const closeModal = () => {
     setModalVisible(false);
-    setBuyIn('');
-    setCashOut('');
+    setEditingId(null);
+    setFormError(null);
     setSaving(false);
   };
 
@@ -99,23 +338,175 @@ export default function BankrollScreen() {
     const { data: { session } } = await supabase.auth.getSession();
     if (!session?.user?.id) return;
 
-    const buyInNum = Number(buyIn) || 0;
-    const cashOutNum = Number(cashOut) || 0;
+    const date = parseDateInput(form.date);
+    if (!date) {
+      setFormError('Дата в формате ГГГГ-ММ-ДД');
+      return;
+    }
+    const startedAt = parseStartInput(form.date, form.startTime);
+    if (startedAt === 'invalid') {
+      setFormError('Время начала в формате ЧЧ:ММ');
+      return;
+    }
+    const bigBlind = parseOptionalNumber(form.bigBlind);
+    const hours = parseOptionalNumber(form.hours);
+    const hands = parseOptionalNumber(form.hands);
+    const entries = parseOptionalNumber(form.entries);
+    const place = parseOptionalNumber(form.place);
+    if ([bigBlind, hours, hands, entries, place].includes('invalid')) {
+      setFormError('Числовые поля — неотрицательные числа');
+      return;
+    }
+    const isCash = form.gameType === 'Cash';
+    if (!isCash && entries != null && place != null && (place as number) > (entries as number)) {
+      setFormError('Место не может быть больше числа участников');
+      return;
+    }
+
+    const values = {
+      date,
+      started_at: startedAt,
+      game_type: form.gameType,
+      currency: form.currency,
+      buy_in: Number(form.buyIn.replace(',', '.')) || 0,
+      cash_out: Number(form.cashOut.replace(',', '.')) || 0,
+      stakes: form.stakes.trim() || null,
+      // Большой блайнд из поля или из записи лимита (0.05/0.10, NL10) — для bb/100
+      big_blind: isCash ? ((bigBlind as number | null) || bigBlindFromStakes(form.stakes)) : null,
+      duration_minutes: hours ? Math.round((hours as number) * 60) : null,
+      hands_played: isCash && hands != null ? Math.round(hands as number) : null,
+      venue: form.venue.trim() || null,
+      entries: !isCash && entries ? Math.round(entries as number) : null,
+      finish_place: !isCash && place ? Math.round(place as number) : null,
+      notes: form.notes.trim() || null,
+    };
 
     setSaving(true);
-    const { error } = await supabase.from('bankroll_sessions').insert({
-      user_id: session.user.id,
-      game_type: gameType,
-      buy_in: buyInNum,
-      cash_out: cashOutNum,
-    });
+    const { error } = editingId
+      ? await supabase
+          .from('bankroll_sessions')
+          // @ts-expect-error Supabase types infer Update as never; columns are valid in DB
+          .update(values)
+          .eq('id', editingId)
+      : await supabase.from('bankroll_sessions').insert({ ...values, user_id: session.user.id } as any);
 
     setSaving(false);
-    if (error) return;
+    if (error) {
+      setFormError(error.message ?? 'Не удалось сохранить сессию');
+      return;
+    }
+    setCurrency(form.currency);
+    const savedGameType = form.gameType;
     closeModal();
-    loadSessions();
+    const rows = await loadSessions();
+    // После каждой сессии — проверка правил банкролла для этого типа игры
+    if (rules && rows) {
+      const after = bankrollAdvice(rules, rows).byGame.find((a) => a.gameType === savedGameType);
+      if (after && (after.status === 'move_down' || after.status === 'below_min')) {
+        Alert.alert('Пора понизить лимит', adviceText(after, rules.currency));
+      }
+    }
+  };
+
+  const openRules = () => {
+    setRulesForm(rulesFormFrom(rules, currency));
+    setRulesError(null);
+    setRulesModalVisible(true);
+  };
+
+  const closeRules = () => {
+    setRulesModalVisible(false);
+    setRulesError(null);
+    setSaving(false);
+  };
+
+  const selectPreset = (preset: BankrollPreset | 'custom') => {
+    setRulesForm((prev) => ({
+      ...prev,
+      preset,
+      policy: preset === 'custom' ? prev.policy : policyToForm(BANKROLL_PRESETS[preset]),
+    }));
+  };
+
+  const setPolicyField = (g: BankrollGameType, key: 'buyins' | 'moveDownBuyins', value: string) => {
+    setRulesForm((prev) => ({
+      ...prev,
+      preset: 'custom',
+      policy: { ...prev.policy, [g]: { ...prev.policy[g], [key]: value } },
+    }));
+  };
+
+  const handleSaveRules = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user?.id) return;
+
+    const startingBankroll = Number(rulesForm.startingBankroll.replace(',', '.'));
+    if (!Number.isFinite(startingBankroll) || startingBankroll < 0 || rulesForm.startingBankroll.trim() === '') {
+      setRulesError('Укажите стартовый банкролл');
+      return;
+    }
+    const startedAt = parseDateInput(rulesForm.startedAt);
+    if (!startedAt) {
+      setRulesError('Дата в формате ГГГГ-ММ-ДД');
+      return;
+    }
+    const custom = {} as BankrollPolicy;
+    for (const g of BANKROLL_GAME_TYPES) {
+      const buyins = Math.round(Number(rulesForm.policy[g].buyins));
+      const moveDownBuyins = Math.round(Number(rulesForm.policy[g].moveDownBuyins));
+      if (!(buyins > 0) || !(moveDownBuyins > 0) || moveDownBuyins > buyins) {
+        setRulesError(`${g}: бай-ины — целые числа, порог понижения не больше нормы`);
+        return;
+      }
+      custom[g] = { buyins, moveDownBuyins };
+    }
+    const next: BankrollRules = {
+      currency: rulesForm.currency,
+      startingBankroll,
+      startedAt,
+      preset: rulesForm.preset,
+      policy: policyForPreset(rulesForm.preset, custom),
+    };
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('bankroll_rules')
+      .upsert(rulesToRow(next, session.user.id) as any, { onConflict: 'user_id' });
+    setSaving(false);
+    if (error) {
+      setRulesError(error.message ?? 'Не удалось сохранить правила');
+      return;
+    }
+    setRules(next);
+    closeRules();
+  };
+
+  const handleDelete = () => {
+    if (!editingId) return;
+    const id = editingId;
+    Alert.alert('Удалить сессию?', 'Руки, импортированные в эту сессию, останутся без привязки.', [
+      { text: 'Отмена', style: 'cancel' },
+      {
+        text: 'Удалить',
+        style: 'destructive',
+        onPress: async () => {
+          setSaving(true);
+          const { error } = await supabase.from('bankroll_sessions').delete().eq('id', id);
+          setSaving(false);
+          if (error) {
+            Alert.alert('Не удалось удалить', error.message);
+            return;
+          }
+          closeModal();
+          setSessions((prev) => prev.filter((s) => s.id !== id));
+        },
+      },
+    ]);
   };
 
+  const money = (amount: number, signed = false) => formatMoney(amount, currency, signed);
+  const isCashForm = form.gameType === 'Cash';
+
   return (
     <ScreenWrapper>
       <ScrollView
@@ -137,49 +528,196 @@ export default function BankrollScreen() {
           </View>
         ) : (
           <>
+            {currencies.length > 1 && (
+              <View style={styles.currencyRow}>
+                {currencies.map((c) => (
+                  <TouchableOpacity
+                    key={c}
+                    style={[styles.chip, currency === c && styles.chipActive]}
+                    onPress={() => setCurrency(c)}
+                  >
+                    <AppText variant="label" color={currency === c ? '#0B0E14' : '#A7B0C0'}>
+                      {c} {currencySymbol(c)}
+                    </AppText>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+
             <Card style={styles.statsCard}>
               <AppText variant="label" color="#A7B0C0">Total Profit</AppText>
               <AppText
                 variant="h1"
-                style={[styles.totalProfit, totalProfit >= 0 ? styles.profitPositive : styles.profitNegative]}
+                style={[styles.totalProfit, stats.totalProfit >= 0 ? styles.profitPositive : styles.profitNegative]}
               >
-                {totalProfit >= 0 ? '+' : ''}{totalProfit.toFixed(2)} $
+                {money(stats.totalProfit, true)}
               </AppText>
               <AppText variant="body" color="#A7B0C0" style={styles.roiRow}>
-                ROI: <AppText variant="body" color="#FFFFFF">{(Number.isNaN(roi) ? 0 : roi).toFixed(1)}%</AppText>
+                ROI: <AppText variant="body" color="#FFFFFF">{(stats.roi ?? 0).toFixed(1)}%</AppText>
               </AppText>
+
+              <View style={styles.metricsGrid}>
+                <View style={styles.metric}>
+                  <AppText variant="caption" color="#65708A">В час</AppText>
+                  <AppText variant="body" color="#FFFFFF">
+                    {stats.hourly != null ? money(stats.hourly, true) : '—'}
+                  </AppText>
+                  {stats.hours > 0 && (
+                    <AppText variant="caption" color="#65708A">за {formatHours(stats.hours)}</AppText>
+                  )}
+                </View>
+                <View style={styles.metric}>
+                  <AppText variant="caption" color="#65708A">bb/100</AppText>
+                  <AppText variant="body" color="#FFFFFF">
+                    {stats.bbPer100 != null ? `${stats.bbPer100 > 0 ? '+' : ''}${stats.bbPer100.toFixed(1)}` : '—'}
+                  </AppText>
+                  {stats.handsPlayed > 0 && (
+                    <AppText variant="caption" color="#65708A">{stats.handsPlayed} рук</AppText>
+                  )}
+                </View>
+                <View style={styles.metric}>
+                  <AppText variant="caption" color="#65708A">Ст. отклонение</AppText>
+                  <AppText variant="body" color="#FFFFFF">
+                    {stats.stdDev != null ? money(stats.stdDev) : '—'}
+                  </AppText>
+                  <AppText variant="caption" color="#65708A">за сессию</AppText>
+                </View>
+                <View style={styles.metric}>
+                  <AppText variant="caption" color="#65708A">Даунстрик</AppText>
+                  <AppText variant="body" color={stats.maxDrawdown > 0 ? '#F44336' : '#FFFFFF'}>
+                    {stats.maxDrawdown > 0 ? `−${money(stats.maxDrawdown)}` : '—'}
+                  </AppText>
+                  {stats.currentDrawdown > 0 && (
+                    <AppText variant="caption" color="#65708A">сейчас −{money(stats.currentDrawdown)}</AppText>
+                  )}
+                </View>
+              </View>
+
+              {stats.avgFinishPct != null && (
+                <AppText variant="caption" color="#65708A" style={styles.roiRow}>
+                  Турниры: {stats.tournaments} · среднее место — лучше {(100 - stats.avgFinishPct).toFixed(0)}% поля
+                </AppText>
+              )}
+            </Card>
+
+            {stats.curve.length >= 2 && (
+              <Card style={styles.statsCard}>
+                <AppText variant="label" color="#A7B0C0">Профит по сессиям</AppText>
+                <ProfitChart curve={stats.curve} />
+                <View style={styles.sessionRow}>
+                  <AppText variant="caption" color="#65708A">
+                    {formatDate(stats.curve[Math.max(0, stats.curve.length - CHART_MAX_POINTS)].date)}
+                  </AppText>
+                  <AppText variant="caption" color="#65708A" style={styles.chartEnd}>
+                    {formatDate(stats.curve[stats.curve.length - 1].date)}
+                  </AppText>
+                </View>
+              </Card>
+            )}
+
+            {stats.byStakes.length > 1 && (
+              <>
+                <AppText variant="label" style={styles.sectionLabel}>По лимитам</AppText>
+                <Card style={[styles.statsCard, styles.stakesCard]}>
+                  {stats.byStakes.map((st) => (
+                    <View key={st.label} style={styles.stakeRow}>
+                      <View style={styles.stakeInfo}>
+                        <AppText variant="body" color="#FFFFFF">{st.label}</AppText>
+                        <AppText variant="caption" color="#65708A">
+                          {st.sessions} сесс.
+                          {st.hourly != null ? ` · ${money(st.hourly, true)}/ч` : ''}
+                          {st.bbPer100 != null ? ` · ${st.bbPer100.toFixed(1)} bb/100` : ''}
+                          {st.roi != null ? ` · ROI ${st.roi.toFixed(1)}%` : ''}
+                        </AppText>
+                      </View>
+                      <AppText variant="body" style={st.profit >= 0 ? styles.profitPositive : styles.profitNegative}>
+                        {money(st.profit, true)}
+                      </AppText>
+                    </View>
+                  ))}
+                </Card>
+              </>
+            )}
+
+            <AppText variant="label" style={styles.sectionLabel}>Управление банкроллом</AppText>
+            <Card style={[styles.statsCard, styles.stakesCard]}>
+              {advice ? (
+                <>
+                  <View style={styles.stakeRow}>
+                    <View style={styles.stakeInfo}>
+                      <AppText variant="caption" color="#65708A">
+                        Банкролл · {PRESET_LABELS[rules!.preset]}
+                      </AppText>
+                      <AppText variant="h3" color="#FFFFFF">{formatMoney(advice.bankroll, advice.currency)}</AppText>
+                    </View>
+                    <TouchableOpacity onPress={openRules}>
+                      <AppText variant="caption" color="#4C9AFF">Изменить</AppText>
+                    </TouchableOpacity>
+                  </View>
+                  {advice.byGame.map((a) => (
+                    <View key={a.gameType} style={styles.stakeInfo}>
+                      <AppText variant="body" color={ADVICE_COLORS[a.status]}>{adviceText(a, advice.currency)}</AppText>
+                      <AppText variant="caption" color="#65708A">
+                        {a.riskOfRuin != null
+                          ? `Риск разорения: ${a.riskOfRuin < 0.001 ? '<0.1' : (a.riskOfRuin * 100).toFixed(1)}% · ${formatMoney(a.winrate ?? 0, advice.currency, true)} за сессию`
+                          : `Риск разорения: нужно ${MIN_RISK_SESSIONS} сессий (сейчас ${a.sessions})`}
+                      </AppText>
+                    </View>
+                  ))}
+                </>
+              ) : (
+                <TouchableOpacity onPress={openRules}>
+                  <AppText variant="body" color="#4C9AFF">Задать банкролл и правила</AppText>
+                  <AppText variant="caption" color="#65708A">
+                    Рекомендуемый лимит, сигнал на понижение и риск разорения
+                  </AppText>
+                </TouchableOpacity>
+              )}
             </Card>
 
             <AppText variant="label" style={styles.sectionLabel}>Сессии</AppText>
 
-            {sessions.length === 0 ? (
+            {visibleSessions.length === 0 ? (
               <View style={styles.emptyWrap}>
                 <AppText variant="body" color="#65708A">Добавь свою первую сессию</AppText>
               </View>
             ) : (
               <View style={styles.sessionList}>
-                {sessions.map((s) => {
+                {visibleSessions.map((s) => {
                   const profit = Number(s.profit ?? 0);
                   const isPositive = profit >= 0;
+                  const details = [
+                    s.stakes,
+                    s.duration_minutes ? formatHours(s.duration_minutes / 60) : null,
+                    s.finish_place ? `${s.finish_place}${s.entries ? `/${s.entries}` : ''} место` : null,
+                    s.venue,
+                  ].filter(Boolean).join(' · ');
                   return (
-                    <Card key={s.id} style={styles.sessionCard}>
-                      <View style={styles.sessionRow}>
-                        <AppText variant="body" color="#A7B0C0">{formatDate(s.date)}</AppText>
-                        <AppText variant="label" color="#65708A">{s.game_type}</AppText>
-                      </View>
-                      <AppText
-                        variant="h3"
-                        style={[styles.sessionProfit, isPositive ? styles.profitPositive : styles.profitNegative]}
-                      >
-                        {isPositive ? '+' : ''}{profit.toFixed(2)} $
-                      </AppText>
-                    </Card>
+                    <TouchableOpacity key={s.id} activeOpacity={0.8} onPress={() => openEdit(s)}>
+                      <Card style={styles.sessionCard}>
+                        <View style={styles.sessionInfo}>
+                          <View style={styles.sessionRow}>
+                            <AppText variant="body" color="#A7B0C0">{formatDate(s.date)}</AppText>
+                            <AppText variant="label" color="#65708A">{s.game_type}</AppText>
+                          </View>
+                          {details ? (
+                            <AppText variant="caption" color="#65708A">{details}</AppText>
+                          ) : null}
+                        </View>
+                        <AppText
+                          variant="h3"
+                          style={[styles.sessionProfit, isPositive ? styles.profitPositive : styles.profitNegative]}
+                        >
+                          {formatMoney(profit, sessionCurrency(s), true)}
+                        </AppText>
+                      </Card>
+                    </TouchableOpacity>
                   );
                 })}
               </View>
             )}
 
-            <TouchableOpacity style={styles.fab} onPress={openModal} activeOpacity={0.85}>
+            <TouchableOpacity style={styles.fab} onPress={openNew} activeOpacity={0.85}>
               <AppText variant="h3" color="#0B0E14">Добавить сессию</AppText>
             </TouchableOpacity>
           </>
@@ -202,20 +740,22 @@ export default function BankrollScreen() {
               behavior={Platform.OS === 'ios' ? 'padding' : undefined}
               style={styles.modalKeyboard}
             >
-              <View style={styles.modalSheet}>
-                <AppText variant="h2" style={styles.modalTitle}>Новая сессия</AppText>
+              <ScrollView style={styles.modalSheet} keyboardShouldPersistTaps="handled">
+                <AppText variant="h2" style={styles.modalTitle}>
+                  {editingId ? 'Сессия' : 'Новая сессия'}
+                </AppText>
 
                 <AppText variant="label" style={styles.inputLabel}>Тип игры</AppText>
                 <View style={styles.gameTypeRow}>
-                  {GAME_TYPES.map((type) => (
+                  {BANKROLL_GAME_TYPES.map((type) => (
                     <TouchableOpacity
                       key={type}
-                      style={[styles.gameTypeBtn, gameType === type && styles.gameTypeBtnActive]}
-                      onPress={() => setGameType(type)}
+                      style={[styles.gameTypeBtn, form.gameType === type && styles.gameTypeBtnActive]}
+                      onPress={() => setField('gameType', type)}
                     >
                       <AppText
                         variant="body"
-                        color={gameType === type ? '#0B0E14' : '#A7B0C0'}
+                        color={form.gameType === type ? '#0B0E14' : '#A7B0C0'}
                       >
                         {type}
                       </AppText>
@@ -223,33 +763,307 @@ export default function BankrollScreen() {
                   ))}
                 </View>
 
-                <AppText variant="label" style={styles.inputLabel}>Buy-in ($)</AppText>
-                <TextInput
-                  style={styles.input}
-                  placeholder="0"
-                  placeholderTextColor="#65708A"
-                  keyboardType="numeric"
-                  value={buyIn}
-                  onChangeText={setBuyIn}
-                />
+                <AppText variant="label" style={styles.inputLabel}>Валюта</AppText>
+                <View style={styles.currencyRow}>
+                  {CURRENCIES.map((c) => (
+                    <TouchableOpacity
+                      key={c}
+                      style={[styles.chip, form.currency === c && styles.chipActive]}
+                      onPress={() => setField('currency', c)}
+                    >
+                      <AppText variant="label" color={form.currency === c ? '#0B0E14' : '#A7B0C0'}>
+                        {currencySymbol(c)}
+                      </AppText>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <View style={styles.fieldRow}>
+                  <View style={styles.field}>
+                    <AppText variant="label" style={styles.inputLabel}>Дата</AppText>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="ГГГГ-ММ-ДД"
+                      placeholderTextColor="#65708A"
+                      value={form.date}
+                      onChangeText={(t) => setField('date', t)}
+                    />
+                  </View>
+                  <View style={styles.field}>
+                    <AppText variant="label" style={styles.inputLabel}>Начало</AppText>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="ЧЧ:ММ"
+                      placeholderTextColor="#65708A"
+                      keyboardType="numbers-and-punctuation"
+                      value={form.startTime}
+                      onChangeText={(t) => setField('startTime', t)}
+                    />
+                  </View>
+                  <View style={styles.field}>
+                    <AppText variant="label" style={styles.inputLabel}>Часы</AppText>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="2.5"
+                      placeholderTextColor="#65708A"
+                      keyboardType="numeric"
+                      value={form.hours}
+                      onChangeText={(t) => setField('hours', t)}
+                    />
+                  </View>
+                </View>
+
+                <View style={styles.fieldRow}>
+                  <View style={styles.field}>
+                    <AppText variant="label" style={styles.inputLabel}>{isCashForm ? 'Лимит' : 'Турнир'}</AppText>
+                    <TextInput
+                      style={styles.input}
+                      placeholder={isCashForm ? '0.05/0.10' : 'Sunday Million'}
+                      placeholderTextColor="#65708A"
+                      value={form.stakes}
+                      onChangeText={(t) => setField('stakes', t)}
+                    />
+                  </View>
+                  <View style={styles.field}>
+                    <AppText variant="label" style={styles.inputLabel}>Клуб / сайт</AppText>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="GGPoker"
+                      placeholderTextColor="#65708A"
+                      value={form.venue}
+                      onChangeText={(t) => setField('venue', t)}
+                    />
+                  </View>
+                </View>
+
+                {isCashForm ? (
+                  <View style={styles.fieldRow}>
+                    <View style={styles.field}>
+                      <AppText variant="label" style={styles.inputLabel}>Большой блайнд</AppText>
+                      <TextInput
+                        style={styles.input}
+                        placeholder={bigBlindFromStakes(form.stakes)?.toString() ?? '0.10'}
+                        placeholderTextColor="#65708A"
+                        keyboardType="numeric"
+                        value={form.bigBlind}
+                        onChangeText={(t) => setField('bigBlind', t)}
+                      />
+                    </View>
+                    <View style={styles.field}>
+                      <AppText variant="label" style={styles.inputLabel}>Рук</AppText>
+                      <TextInput
+                        style={styles.input}
+                        placeholder="0"
+                        placeholderTextColor="#65708A"
+                        keyboardType="numeric"
+                        value={form.hands}
+                        onChangeText={(t) => setField('hands', t)}
+                      />
+                    </View>
+                  </View>
+                ) : (
+                  <View style={styles.fieldRow}>
+                    <View style={styles.field}>
+                      <AppText variant="label" style={styles.inputLabel}>Участников</AppText>
+                      <TextInput
+                        style={styles.input}
+                        placeholder="0"
+                        placeholderTextColor="#65708A"
+                        keyboardType="numeric"
+                        value={form.entries}
+                        onChangeText={(t) => setField('entries', t)}
+                      />
+                    </View>
+                    <View style={styles.field}>
+                      <AppText variant="label" style={styles.inputLabel}>Место</AppText>
+                      <TextInput
+                        style={styles.input}
+                        placeholder="0"
+                        placeholderTextColor="#65708A"
+                        keyboardType="numeric"
+                        value={form.place}
+                        onChangeText={(t) => setField('place', t)}
+                      />
+                    </View>
+                  </View>
+                )}
+
+                <View style={styles.fieldRow}>
+                  <View style={styles.field}>
+                    <AppText variant="label" style={styles.inputLabel}>Buy-in ({currencySymbol(form.currency)})</AppText>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="0"
+                      placeholderTextColor="#65708A"
+                      keyboardType="numeric"
+                      value={form.buyIn}
+                      onChangeText={(t) => setField('buyIn', t)}
+                    />
+                  </View>
+                  <View style={styles.field}>
+                    <AppText variant="label" style={styles.inputLabel}>Cash-out ({currencySymbol(form.currency)})</AppText>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="0"
+                      placeholderTextColor="#65708A"
+                      keyboardType="numeric"
+                      value={form.cashOut}
+                      onChangeText={(t) => setField('cashOut', t)}
+                    />
+                  </View>
+                </View>
 
-                <AppText variant="label" style={styles.inputLabel}>Cash-out ($)</AppText>
+                <AppText variant="label" style={styles.inputLabel}>Заметки</AppText>
                 <TextInput
                   style={styles.input}
-                  placeholder="0"
+                  placeholder="—"
                   placeholderTextColor="#65708A"
-                  keyboardType="numeric"
-                  value={cashOut}
-                  onChangeText={setCashOut}
+                  value={form.notes}
+                  onChangeText={(t) => setField('notes', t)}
                 />
 
+                {formError && (
+                  <AppText variant="caption" color="#F44336" style={styles.formError}>{formError}</AppText>
+                )}
+
+                <View style={styles.modalActions}>
+                  {editingId ? (
+                    <TouchableOpacity style={styles.deleteBtn} onPress={handleDelete} disabled={saving}>
+                      <AppText variant="body" color="#F44336">Удалить</AppText>
+                    </TouchableOpacity>
+                  ) : (
+                    <TouchableOpacity style={styles.cancelBtn} onPress={closeModal}>
+                      <AppText variant="body" color="#A7B0C0">Отмена</AppText>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    style={[styles.saveBtn, saving && styles.saveBtnDisabled]}
+                    onPress={handleSave}
+                    disabled={saving}
+                  >
+                    {saving ? (
+                      <ActivityIndicator size="small" color="#0B0E14" />
+                    ) : (
+                      <AppText variant="body" color="#0B0E14">Сохранить</AppText>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </ScrollView>
+            </KeyboardAvoidingView>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
+
+      <Modal
+        transparent
+        visible={rulesModalVisible}
+        animationType="slide"
+        onRequestClose={closeRules}
+      >
+        <TouchableOpacity
+          style={styles.modalOverlay}
+          activeOpacity={1}
+          onPress={closeRules}
+        >
+          <TouchableOpacity style={styles.modalSheetTouch} activeOpacity={1} onPress={() => {}}>
+            <KeyboardAvoidingView
+              behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+              style={styles.modalKeyboard}
+            >
+              <ScrollView style={styles.modalSheet} keyboardShouldPersistTaps="handled">
+                <AppText variant="h2" style={styles.modalTitle}>Правила банкролла</AppText>
+
+                <AppText variant="label" style={styles.inputLabel}>Валюта</AppText>
+                <View style={styles.currencyRow}>
+                  {CURRENCIES.map((c) => (
+                    <TouchableOpacity
+                      key={c}
+                      style={[styles.chip, rulesForm.currency === c && styles.chipActive]}
+                      onPress={() => setRulesForm((prev) => ({ ...prev, currency: c }))}
+                    >
+                      <AppText variant="label" color={rulesForm.currency === c ? '#0B0E14' : '#A7B0C0'}>
+                        {currencySymbol(c)}
+                      </AppText>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <View style={styles.fieldRow}>
+                  <View style={styles.field}>
+                    <AppText variant="label" style={styles.inputLabel}>Банкролл ({currencySymbol(rulesForm.currency)})</AppText>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="0"
+                      placeholderTextColor="#65708A"
+                      keyboardType="numeric"
+                      value={rulesForm.startingBankroll}
+                      onChangeText={(t) => setRulesForm((prev) => ({ ...prev, startingBankroll: t }))}
+                    />
+                  </View>
+                  <View style={styles.field}>
+                    <AppText variant="label" style={styles.inputLabel}>На дату</AppText>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="ГГГГ-ММ-ДД"
+                      placeholderTextColor="#65708A"
+                      value={rulesForm.startedAt}
+                      onChangeText={(t) => setRulesForm((prev) => ({ ...prev, startedAt: t }))}
+                    />
+                  </View>
+                </View>
+                <AppText variant="caption" color="#65708A" style={styles.formError}>
+                  К банкроллу добавляется результат сессий в этой валюте с указанной даты.
+                </AppText>
+
+                <AppText variant="label" style={styles.inputLabel}>Политика</AppText>
+                <View style={styles.currencyRow}>
+                  {(Object.keys(PRESET_LABELS) as (BankrollPreset | 'custom')[]).map((p) => (
+                    <TouchableOpacity
+                      key={p}
+                      style={[styles.chip, rulesForm.preset === p && styles.chipActive]}
+                      onPress={() => selectPreset(p)}
+                    >
+                      <AppText variant="label" color={rulesForm.preset === p ? '#0B0E14' : '#A7B0C0'}>
+                        {PRESET_LABELS[p]}
+                      </AppText>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                {BANKROLL_GAME_TYPES.map((g) => (
+                  <View key={g} style={styles.fieldRow}>
+                    <View style={styles.field}>
+                      <AppText variant="label" style={styles.inputLabel}>{g}: бай-инов</AppText>
+                      <TextInput
+                        style={styles.input}
+                        keyboardType="numeric"
+                        value={rulesForm.policy[g].buyins}
+                        onChangeText={(t) => setPolicyField(g, 'buyins', t)}
+                      />
+                    </View>
+                    <View style={styles.field}>
+                      <AppText variant="label" style={styles.inputLabel}>Понижение ниже</AppText>
+                      <TextInput
+                        style={styles.input}
+                        keyboardType="numeric"
+                        value={rulesForm.policy[g].moveDownBuyins}
+                        onChangeText={(t) => setPolicyField(g, 'moveDownBuyins', t)}
+                      />
+                    </View>
+                  </View>
+                ))}
+
+                {rulesError && (
+                  <AppText variant="caption" color="#F44336" style={styles.formError}>{rulesError}</AppText>
+                )}
+
                 <View style={styles.modalActions}>
-                  <TouchableOpacity style={styles.cancelBtn} onPress={closeModal}>
+                  <TouchableOpacity style={styles.cancelBtn} onPress={closeRules}>
                     <AppText variant="body" color="#A7B0C0">Отмена</AppText>
                   </TouchableOpacity>
                   <TouchableOpacity
                     style={[styles.saveBtn, saving && styles.saveBtnDisabled]}
-                    onPress={handleSave}
+                    onPress={handleSaveRules}
                     disabled={saving}
                   >
                     {saving ? (
@@ -259,7 +1073,7 @@ export default function BankrollScreen() {
                     )}
                   </TouchableOpacity>
                 </View>
-              </View>
+              </ScrollView>
             </KeyboardAvoidingView>
           </TouchableOpacity>
         </TouchableOpacity>
@@ -310,6 +1124,80 @@ const styles = StyleSheet.create({
   roiRow: {
     marginTop: 8,
   },
+  currencyRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    backgroundColor: '#0A0E14',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  chipActive: {
+    backgroundColor: '#4C9AFF',
+    borderColor: '#4C9AFF',
+  },
+  metricsGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 16,
+    rowGap: 12,
+  },
+  metric: {
+    width: '50%',
+    gap: 2,
+  },
+  chart: {
+    height: 120,
+    flexDirection: 'row',
+    gap: 2,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  chartZero: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 1,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  chartSlot: {
+    flex: 1,
+    height: '100%',
+  },
+  chartBar: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    borderRadius: 2,
+  },
+  chartBarPositive: {
+    backgroundColor: '#4CAF50',
+  },
+  chartBarNegative: {
+    backgroundColor: '#F44336',
+  },
+  chartEnd: {
+    marginLeft: 'auto',
+  },
+  stakesCard: {
+    gap: 12,
+  },
+  stakeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stakeInfo: {
+    flex: 1,
+    gap: 2,
+  },
   sectionLabel: {
     color: '#A7B0C0',
     marginBottom: 12,
@@ -330,6 +1218,10 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     alignItems: 'center',
   },
+  sessionInfo: {
+    flex: 1,
+    gap: 4,
+  },
   sessionRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -363,6 +1255,7 @@ const styles = StyleSheet.create({
     borderTopRightRadius: 20,
     padding: 24,
     paddingBottom: 32,
+    maxHeight: 620,
   },
   modalTitle: {
     marginBottom: 20,
@@ -392,6 +1285,16 @@ const styles = StyleSheet.create({
     backgroundColor: '#4C9AFF',
     borderColor: '#4C9AFF',
   },
+  fieldRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  field: {
+    flex: 1,
+  },
+  formError: {
+    marginBottom: 12,
+  },
   input: {
     backgroundColor: '#0A0E14',
     borderColor: 'rgba(255, 255, 255, 0.1)',
@@ -416,6 +1319,15 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: 'rgba(255, 255, 255, 0.1)',
   },
+  deleteBtn: {
+    flex: 1,
+    paddingVertical: 14,
+    alignItems: 'center',
+    borderRadius: 12,
+    backgroundColor: '#0A0E14',
+    borderWidth: 1,
+    borderColor: 'rgba(244, 67, 54, 0.4)',
+  },
   saveBtn: {
     flex: 1,
     paddingVertical: 14,
@@ -1,5 +1,6 @@
 import React, { useMemo, useState } from 'react';
 import {
+  ActivityIndicator,
   ScrollView,
   StyleSheet,
   TextInput,
@@ -10,12 +11,83 @@ import { useRouter } from 'expo-router';
 import { ScreenWrapper } from '../../../components/ScreenWrapper';
 import { AppText } from '../../../components/AppText';
 import { Card } from '../../../components/Card';
+import { cardsUnique, parseCardsFromString } from '../../../lib/poker';
+import {
+  anyTwoCards,
+  computeEquity,
+  EquityInputError,
+  type EquityInputErrorCode,
+  type EquityResult,
+  type WeightedCombo,
+} from '../../../lib/equity';
+import { expandRange, formatRange, parseRange, rangeErrorText, RangeParseError, type RangeWeights } from '../../../lib/ranges';
+import { RangeGrid } from '../../../components/RangeGrid';
+
+type CalcMode = 'outs' | 'equity';
+
+const MAX_VILLAINS = 3;
+
+const EQUITY_ERROR_TEXT: Record<EquityInputErrorCode, string> = {
+  hero_cards: 'Нужно ровно 2 карты героя',
+  board_size: 'На борде должно быть 0, 3, 4 или 5 карт',
+  no_villains: 'Добавьте хотя бы одного оппонента',
+  too_many_villains: 'Слишком много оппонентов',
+  invalid_cards: 'Карты героя и борда должны быть корректными и не повторяться',
+  villain_no_combos: 'У оппонента не осталось комбинаций',
+  no_deal: 'Диапазоны оппонентов не оставляют ни одной раздачи',
+};
+
+function equityErrorText(e: EquityInputError): string {
+  if (e.code === 'villain_no_combos' && e.villain != null) {
+    return `У оппонента ${e.villain} не осталось комбинаций с учётом известных карт`;
+  }
+  return EQUITY_ERROR_TEXT[e.code];
+}
+
+/** Villain input: exact hand ("QcQd") or range notation ("22+, A2s+, KTo+"); empty means a random hand. */
+function villainRange(text: string): WeightedCombo[] | string {
+  if (text.trim() === '') return anyTwoCards();
+  try {
+    const combos = expandRange(parseRange(text));
+    return combos.length > 0 ? combos : 'Диапазон оппонента пуст';
+  } catch (e) {
+    return e instanceof RangeParseError ? rangeErrorText(e) : 'Некорректный диапазон';
+  }
+}
+
+/** Grid weights for a villain input; unparsable text shows an empty grid. */
+function gridWeights(text: string): RangeWeights {
+  try {
+    return parseRange(text).classes;
+  } catch {
+    return {};
+  }
+}
+
+/** Villain input after a grid edit: grid classes plus any exact combos already typed. */
+function applyGridWeights(text: string, weights: RangeWeights): string {
+  let combos: WeightedCombo[] = [];
+  try {
+    combos = parseRange(text).combos;
+  } catch {
+    combos = [];
+  }
+  return formatRange({ classes: weights, combos });
+}
 
 export default function CalculatorScreen() {
   const router = useRouter();
   const [potSize, setPotSize] = useState('');
   const [callSize, setCallSize] = useState('');
   const [outs, setOuts] = useState('');
+  const [mode, setMode] = useState<CalcMode>('outs');
+  const [heroText, setHeroText] = useState('');
+  const [boardText, setBoardText] = useState('');
+  const [villainTexts, setVillainTexts] = useState<string[]>(['']);
+  const [gridOpen, setGridOpen] = useState<number | null>(null);
+  const [equityResult, setEquityResult] = useState<EquityResult | null>(null);
+  const [equityError, setEquityError] = useState<string | null>(null);
+  const [computing, setComputing] = useState(false);
 
   const potSizeNum = parseFloat(potSize) || 0;
   const callSizeNum = parseFloat(callSize) || 0;
@@ -29,13 +101,59 @@ export default function CalculatorScreen() {
     const potOdds = (callSizeNum / totalPot) * 100;
     const equityTurn = outsNum * 2;
     const equityRiver = outsNum * 4;
+    const realEquity = mode === 'equity' && equityResult ? equityResult.equity * 100 : null;
     return {
       potOdds,
       equityTurn,
       equityRiver,
-      isProfitable: equityRiver >= potOdds,
+      realEquity,
+      isProfitable: (realEquity ?? equityRiver) >= potOdds,
     };
-  }, [potSizeNum, callSizeNum, outsNum]);
+  }, [potSizeNum, callSizeNum, outsNum, mode, equityResult]);
+
+  const resetEquity = () => {
+    setEquityResult(null);
+    setEquityError(null);
+  };
+
+  const runEquity = () => {
+    resetEquity();
+    const hero = parseCardsFromString(heroText);
+    const board = parseCardsFromString(boardText);
+    if (hero.length !== 2) {
+      setEquityError('Укажите 2 карты Hero, например: AsKd');
+      return;
+    }
+    if (![0, 3, 4, 5].includes(board.length)) {
+      setEquityError('Борд: 0, 3, 4 или 5 карт');
+      return;
+    }
+    const villains: WeightedCombo[][] = [];
+    for (const text of villainTexts) {
+      const range = villainRange(text);
+      if (typeof range === 'string') {
+        setEquityError(range);
+        return;
+      }
+      villains.push(range);
+    }
+    const exactCards = villains.filter((r) => r.length === 1).flatMap((r) => r[0].cards);
+    if (!cardsUnique([...hero, ...board, ...exactCards])) {
+      setEquityError('Карты повторяются');
+      return;
+    }
+    setComputing(true);
+    // Let the spinner render before the (synchronous) calculation blocks the JS thread.
+    setTimeout(() => {
+      try {
+        setEquityResult(computeEquity({ hero, board, villains }));
+      } catch (e) {
+        setEquityError(e instanceof EquityInputError ? equityErrorText(e) : 'Не удалось посчитать эквити');
+      } finally {
+        setComputing(false);
+      }
+    }, 0);
+  };
 
   return (
     <ScreenWrapper>
@@ -81,40 +199,198 @@ export default function CalculatorScreen() {
           />
         </View>
 
-        <View style={styles.inputGroup}>
-          <AppText variant="label" style={styles.inputLabel}>
-            Количество аутов (Outs, от 1 до 20)
-          </AppText>
-          <TextInput
-            style={styles.input}
-            placeholder="Например: 9"
-            placeholderTextColor="#65708A"
-            keyboardType="numeric"
-            value={outs}
-            onChangeText={(text) => {
-              const n = parseInt(text, 10);
-              if (text === '' || (!isNaN(n) && n >= 0 && n <= 20)) {
-                setOuts(text);
-              }
-            }}
-          />
+        <View style={styles.modeRow}>
+          {(['outs', 'equity'] as CalcMode[]).map((m) => (
+            <TouchableOpacity
+              key={m}
+              style={[styles.modeButton, mode === m && styles.modeButtonActive]}
+              onPress={() => setMode(m)}
+            >
+              <AppText variant="label" color={mode === m ? '#FFFFFF' : '#A7B0C0'}>
+                {m === 'outs' ? 'По аутам' : 'Точное эквити'}
+              </AppText>
+            </TouchableOpacity>
+          ))}
         </View>
 
+        {mode === 'outs' ? (
+          <View style={styles.inputGroup}>
+            <AppText variant="label" style={styles.inputLabel}>
+              Количество аутов (Outs, от 1 до 20)
+            </AppText>
+            <TextInput
+              style={styles.input}
+              placeholder="Например: 9"
+              placeholderTextColor="#65708A"
+              keyboardType="numeric"
+              value={outs}
+              onChangeText={(text) => {
+                const n = parseInt(text, 10);
+                if (text === '' || (!isNaN(n) && n >= 0 && n <= 20)) {
+                  setOuts(text);
+                }
+              }}
+            />
+          </View>
+        ) : (
+          <>
+            <View style={styles.inputGroup}>
+              <AppText variant="label" style={styles.inputLabel}>
+                Карты Hero
+              </AppText>
+              <TextInput
+                style={styles.input}
+                placeholder="Например: AsKd"
+                placeholderTextColor="#65708A"
+                autoCapitalize="none"
+                value={heroText}
+                onChangeText={(t) => { setHeroText(t); resetEquity(); }}
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <AppText variant="label" style={styles.inputLabel}>
+                Борд (пусто = префлоп)
+              </AppText>
+              <TextInput
+                style={styles.input}
+                placeholder="Например: Qh Jh 2c"
+                placeholderTextColor="#65708A"
+                autoCapitalize="none"
+                value={boardText}
+                onChangeText={(t) => { setBoardText(t); resetEquity(); }}
+              />
+            </View>
+
+            {villainTexts.map((text, i) => (
+              <View key={i} style={styles.inputGroup}>
+                <View style={styles.villainHeader}>
+                  <AppText variant="label" style={styles.inputLabel}>
+                    Оппонент {i + 1} (пусто = случайная рука)
+                  </AppText>
+                  <View style={styles.villainActions}>
+                    <TouchableOpacity onPress={() => setGridOpen(gridOpen === i ? null : i)}>
+                      <AppText variant="caption" color="#4C9AFF">{gridOpen === i ? 'Скрыть сетку' : 'Сетка'}</AppText>
+                    </TouchableOpacity>
+                    {villainTexts.length > 1 && (
+                      <TouchableOpacity
+                        onPress={() => {
+                          setVillainTexts((prev) => prev.filter((_, j) => j !== i));
+                          setGridOpen(null);
+                          resetEquity();
+                        }}
+                      >
+                        <AppText variant="caption" color="#F44336">Удалить</AppText>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                </View>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Например: QcQd или 22+, A2s+, KTo+"
+                  placeholderTextColor="#65708A"
+                  autoCapitalize="none"
+                  value={text}
+                  onChangeText={(t) => {
+                    setVillainTexts((prev) => prev.map((v, j) => (j === i ? t : v)));
+                    resetEquity();
+                  }}
+                />
+                {gridOpen === i && (
+                  <View style={styles.gridWrap}>
+                    <RangeGrid
+                      weights={gridWeights(text)}
+                      onChange={(weights) => {
+                        const next = applyGridWeights(text, weights);
+                        setVillainTexts((prev) => prev.map((v, j) => (j === i ? next : v)));
+                        resetEquity();
+                      }}
+                    />
+                  </View>
+                )}
+              </View>
+            ))}
+
+            {villainTexts.length < MAX_VILLAINS && (
+              <TouchableOpacity
+                style={styles.addVillain}
+                onPress={() => {
+                  setVillainTexts((prev) => [...prev, '']);
+                  resetEquity();
+                }}
+              >
+                <AppText variant="body" color="#4C9AFF">+ Добавить оппонента</AppText>
+              </TouchableOpacity>
+            )}
+
+            <TouchableOpacity
+              style={[styles.computeButton, computing && styles.computeButtonDisabled]}
+              onPress={runEquity}
+              disabled={computing}
+            >
+              {computing ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <AppText variant="body" color="#FFFFFF">Рассчитать эквити</AppText>
+              )}
+            </TouchableOpacity>
+
+            {equityError && (
+              <AppText variant="caption" color="#F44336" style={styles.errorText}>
+                {equityError}
+              </AppText>
+            )}
+
+            {equityResult && (
+              <Card style={styles.resultCard}>
+                <AppText variant="body" color="#A7B0C0">
+                  Эквити Hero: <AppText variant="body" color="#FFFFFF">{(equityResult.equity * 100).toFixed(1)}%</AppText>
+                </AppText>
+                <AppText variant="caption" color="#65708A">
+                  Выигрыш {(equityResult.win * 100).toFixed(1)}% · Делёж {(equityResult.tie * 100).toFixed(1)}%
+                </AppText>
+                {equityResult.villainEquities.map((eq, i) => (
+                  <AppText key={i} variant="caption" color="#65708A">
+                    Оппонент {i + 1}: {(eq * 100).toFixed(1)}%
+                  </AppText>
+                ))}
+                <AppText variant="caption" color="#65708A">
+                  {equityResult.method === 'exact'
+                    ? `Полный перебор: ${equityResult.samples} раскладов`
+                    : `Монте-Карло: ${equityResult.samples} симуляций`}
+                </AppText>
+              </Card>
+            )}
+          </>
+        )}
+
         {result && (
           <Card style={styles.resultCard}>
             <AppText variant="body" color="#A7B0C0">
               Шансы банка: <AppText variant="body" color="#FFFFFF">{result.potOdds.toFixed(1)}%</AppText>
             </AppText>
-            <AppText variant="body" color="#A7B0C0" style={styles.resultRow}>
-              Эквити (1 улица): <AppText variant="body" color="#FFFFFF">{result.equityTurn}%</AppText>
-            </AppText>
-            <AppText variant="body" color="#A7B0C0" style={styles.resultRow}>
-              Эквити (2 улицы): <AppText variant="body" color="#FFFFFF">{result.equityRiver}%</AppText>
-            </AppText>
+            {result.realEquity != null ? (
+              <AppText variant="body" color="#A7B0C0" style={styles.resultRow}>
+                Эквити: <AppText variant="body" color="#FFFFFF">{result.realEquity.toFixed(1)}%</AppText>
+              </AppText>
+            ) : (
+              <>
+                <AppText variant="body" color="#A7B0C0" style={styles.resultRow}>
+                  Эквити (1 улица): <AppText variant="body" color="#FFFFFF">{result.equityTurn}%</AppText>
+                </AppText>
+                <AppText variant="body" color="#A7B0C0" style={styles.resultRow}>
+                  Эквити (2 улицы): <AppText variant="body" color="#FFFFFF">{result.equityRiver}%</AppText>
+                </AppText>
+              </>
+            )}
             <View style={styles.verdictRow}>
-              {result.isProfitable ? (
+              {mode === 'equity' && result.realEquity == null ? (
+                <AppText variant="body" color="#A7B0C0">
+                  Рассчитайте эквити, чтобы получить вердикт
+                </AppText>
+              ) : result.isProfitable ? (
                 <AppText variant="h3" color="#4CAF50">
-                  Выгодный колл (на 2 улицы) +EV
+                  {result.realEquity != null ? 'Выгодный колл +EV' : 'Выгодный колл (на 2 улицы) +EV'}
                 </AppText>
               ) : (
                 <AppText variant="h3" color="#F44336">
@@ -174,6 +450,53 @@ const styles = StyleSheet.create({
   resultRow: {
     marginTop: 4,
   },
+  modeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 20,
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    backgroundColor: '#1B1C22',
+    alignItems: 'center',
+  },
+  modeButtonActive: {
+    backgroundColor: '#4C9AFF',
+    borderColor: '#4C9AFF',
+  },
+  villainHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  villainActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  gridWrap: {
+    marginTop: 12,
+  },
+  addVillain: {
+    alignSelf: 'flex-start',
+    marginBottom: 20,
+  },
+  computeButton: {
+    backgroundColor: '#4C9AFF',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  computeButtonDisabled: {
+    opacity: 0.6,
+  },
+  errorText: {
+    marginBottom: 12,
+  },
   verdictRow: {
     marginTop: 16,
     paddingTop: 16,
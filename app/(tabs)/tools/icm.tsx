@@ -0,0 +1,453 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { ScreenWrapper } from '../../../components/ScreenWrapper';
+import { AppText } from '../../../components/AppText';
+import { Card } from '../../../components/Card';
+import { RangeGrid } from '../../../components/RangeGrid';
+import { classComboCount, type RangeWeights } from '../../../lib/ranges';
+import {
+  PUSH_FOLD_MAX_BB,
+  defaultCallPct,
+  icmEquities,
+  pushFoldChart,
+  pushFoldRisk,
+  tablePositions,
+  type PushFoldFormat,
+  type PushFoldTable,
+} from '../../../lib/icm';
+
+/** Выплаты по умолчанию (% призового фонда) и анте для формата. */
+const FORMAT_PRESETS: Record<PushFoldFormat, { label: string; payouts: number[]; ante: string }> = {
+  sng: { label: 'SNG', payouts: [50, 30, 20], ante: '0' },
+  mtt: { label: 'MTT', payouts: [30, 20, 14, 10, 8, 6], ante: '0.125' },
+  spin: { label: 'Spin', payouts: [100], ante: '0' },
+};
+
+const PLAYER_COUNTS = [2, 3, 4, 5, 6];
+const CALL_PCT_OPTIONS = [10, 20, 35, 50];
+const MAX_ICM_PLAYERS = 10;
+const TOTAL_COMBOS = 1326;
+
+/** Числа через запятую или пробел; null, если хоть одно не разобрано. */
+function parseNumberList(text: string): number[] | null {
+  const parts = text.split(/[\s,;]+/).filter(Boolean);
+  if (parts.length === 0) return null;
+  const values = parts.map((p) => Number(p.replace(',', '.')));
+  return values.some((v) => !Number.isFinite(v) || v < 0) ? null : values;
+}
+
+function formatMoney(x: number): string {
+  return x >= 100 ? x.toFixed(0) : x.toFixed(2);
+}
+
+function rangePct(weights: RangeWeights): number {
+  const combos = Object.entries(weights).reduce((acc, [hand, w]) => acc + classComboCount(hand) * w, 0);
+  return (combos / TOTAL_COMBOS) * 100;
+}
+
+export default function IcmScreen() {
+  const router = useRouter();
+
+  // ICM-калькулятор
+  const [stacksText, setStacksText] = useState('5000, 3000, 2000');
+  const [payoutsText, setPayoutsText] = useState('50, 30, 20');
+
+  // Пуш/фолд-чарт
+  const [format, setFormat] = useState<PushFoldFormat>('sng');
+  const [players, setPlayers] = useState(4);
+  const [stackTexts, setStackTexts] = useState<Record<string, string>>({});
+  const [heroPos, setHeroPos] = useState('BTN');
+  const [anteText, setAnteText] = useState(FORMAT_PRESETS.sng.ante);
+  const [callPct, setCallPct] = useState<number | null>(null);
+  const [chart, setChart] = useState<RangeWeights | null>(null);
+  const [chartError, setChartError] = useState<string | null>(null);
+  const [computing, setComputing] = useState(false);
+
+  const icm = useMemo(() => {
+    const stacks = parseNumberList(stacksText);
+    const payouts = parseNumberList(payoutsText);
+    if (!stacks || !payouts) return { error: 'Введите числа через запятую' };
+    if (stacks.length < 2 || stacks.length > MAX_ICM_PLAYERS) return { error: `Игроков: от 2 до ${MAX_ICM_PLAYERS}` };
+    const totalChips = stacks.reduce((a, b) => a + b, 0);
+    if (totalChips <= 0) return { error: 'Нужен хотя бы один ненулевой стек' };
+    const equities = icmEquities(stacks, payouts);
+    const pool = payouts.slice(0, stacks.length).reduce((a, b) => a + b, 0);
+    return {
+      rows: stacks.map((stack, i) => ({
+        stack,
+        chipShare: stack / totalChips,
+        equity: equities[i],
+        poolShare: pool > 0 ? equities[i] / pool : 0,
+      })),
+    };
+  }, [stacksText, payoutsText]);
+
+  const positions = tablePositions(players) ?? [];
+  const heroOptions = positions.filter((p) => p !== 'BB');
+  const activeHero = heroOptions.includes(heroPos) ? heroPos : heroOptions[0];
+
+  const table = ((): PushFoldTable | string => {
+    // Пустое поле — 10bb, как в подсказке.
+    const stacks = positions.map((p) => Number((stackTexts[p] || '10').replace(',', '.')));
+    if (stacks.some((s) => !Number.isFinite(s) || s <= 0)) return 'Стеки — положительные числа в bb';
+    if (stacks[positions.indexOf(activeHero)] > PUSH_FOLD_MAX_BB) return `Пуш/фолд считается для стека до ${PUSH_FOLD_MAX_BB}bb`;
+    const ante = Number(anteText.replace(',', '.'));
+    if (!Number.isFinite(ante) || ante < 0) return 'Анте — число в bb';
+    return { format, positions, stacks_bb: stacks, payouts: FORMAT_PRESETS[format].payouts, ante_bb: ante };
+  })();
+
+  const risk = typeof table === 'string' ? null : pushFoldRisk(table, activeHero);
+  const autoCallPct = typeof table === 'string'
+    ? null
+    : defaultCallPct(
+        Math.min(table.stacks_bb[positions.indexOf(activeHero)], table.stacks_bb[positions.indexOf('BB')]),
+        risk?.bubble_factor ?? 1,
+      );
+  const effectiveCallPct = callPct ?? autoCallPct;
+
+  const resetChart = () => {
+    setChart(null);
+    setChartError(null);
+  };
+
+  const selectFormat = (f: PushFoldFormat) => {
+    setFormat(f);
+    setAnteText(FORMAT_PRESETS[f].ante);
+    resetChart();
+  };
+
+  const buildChart = () => {
+    resetChart();
+    if (typeof table === 'string') {
+      setChartError(table);
+      return;
+    }
+    if (effectiveCallPct == null) return;
+    setComputing(true);
+    // Даём отрисоваться спиннеру до синхронного расчёта чарта.
+    setTimeout(() => {
+      try {
+        setChart(pushFoldChart(table, activeHero, effectiveCallPct));
+      } catch {
+        setChartError('Не удалось построить чарт');
+      } finally {
+        setComputing(false);
+      }
+    }, 0);
+  };
+
+  return (
+    <ScreenWrapper>
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backRow}>
+            <AppText variant="body" color="#4C9AFF">← Назад</AppText>
+          </TouchableOpacity>
+          <AppText variant="caption" color="#A7B0C0">Tools</AppText>
+          <AppText variant="h1" style={styles.title}>ICM и пуш/фолд</AppText>
+        </View>
+
+        <AppText variant="h3" style={styles.sectionTitle}>ICM-калькулятор</AppText>
+
+        <View style={styles.inputGroup}>
+          <AppText variant="label" style={styles.inputLabel}>
+            Стеки игроков (фишки)
+          </AppText>
+          <TextInput
+            style={styles.input}
+            placeholder="Например: 5000, 3000, 2000"
+            placeholderTextColor="#65708A"
+            keyboardType="numbers-and-punctuation"
+            value={stacksText}
+            onChangeText={setStacksText}
+          />
+        </View>
+
+        <View style={styles.inputGroup}>
+          <AppText variant="label" style={styles.inputLabel}>
+            Выплаты за места ($ или %)
+          </AppText>
+          <TextInput
+            style={styles.input}
+            placeholder="Например: 50, 30, 20"
+            placeholderTextColor="#65708A"
+            keyboardType="numbers-and-punctuation"
+            value={payoutsText}
+            onChangeText={setPayoutsText}
+          />
+        </View>
+
+        <Card style={styles.resultCard}>
+          {'error' in icm ? (
+            <AppText variant="caption" color="#F44336">{icm.error}</AppText>
+          ) : (
+            icm.rows.map((row, i) => (
+              <View key={i} style={styles.icmRow}>
+                <AppText variant="body" color="#A7B0C0">
+                  Игрок {i + 1}: <AppText variant="body" color="#FFFFFF">{formatMoney(row.equity)}</AppText>
+                </AppText>
+                <AppText variant="caption" color="#65708A">
+                  фишки {(row.chipShare * 100).toFixed(1)}% · фонд {(row.poolShare * 100).toFixed(1)}%
+                </AppText>
+              </View>
+            ))
+          )}
+        </Card>
+
+        <AppText variant="h3" style={[styles.sectionTitle, styles.sectionGap]}>Пуш/фолд-чарт</AppText>
+        <AppText variant="caption" color="#65708A" style={styles.sectionHint}>
+          Все сбросили до вас, против пуша решает только BB. Выплаты — типовые для формата.
+        </AppText>
+
+        <View style={styles.modeRow}>
+          {(Object.keys(FORMAT_PRESETS) as PushFoldFormat[]).map((f) => (
+            <TouchableOpacity
+              key={f}
+              style={[styles.modeButton, format === f && styles.modeButtonActive]}
+              onPress={() => selectFormat(f)}
+            >
+              <AppText variant="label" color={format === f ? '#FFFFFF' : '#A7B0C0'}>
+                {FORMAT_PRESETS[f].label}
+              </AppText>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <AppText variant="caption" color="#65708A" style={styles.sectionHint}>
+          Выплаты: {FORMAT_PRESETS[format].payouts.join(' / ')}%
+        </AppText>
+
+        <AppText variant="label" style={styles.inputLabel}>Игроков за столом</AppText>
+        <View style={styles.modeRow}>
+          {PLAYER_COUNTS.map((n) => (
+            <TouchableOpacity
+              key={n}
+              style={[styles.modeButton, players === n && styles.modeButtonActive]}
+              onPress={() => { setPlayers(n); resetChart(); }}
+            >
+              <AppText variant="label" color={players === n ? '#FFFFFF' : '#A7B0C0'}>{n}</AppText>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <AppText variant="label" style={styles.inputLabel}>Стеки, bb</AppText>
+        <View style={styles.stackGrid}>
+          {positions.map((p) => (
+            <View key={p} style={styles.stackCell}>
+              <AppText variant="caption" color="#A7B0C0">{p}</AppText>
+              <TextInput
+                style={styles.input}
+                placeholder="10"
+                placeholderTextColor="#65708A"
+                keyboardType="numeric"
+                value={stackTexts[p] ?? ''}
+                onChangeText={(t) => { setStackTexts((prev) => ({ ...prev, [p]: t })); resetChart(); }}
+              />
+            </View>
+          ))}
+        </View>
+
+        <AppText variant="label" style={styles.inputLabel}>Ваша позиция</AppText>
+        <View style={styles.modeRow}>
+          {heroOptions.map((p) => (
+            <TouchableOpacity
+              key={p}
+              style={[styles.modeButton, activeHero === p && styles.modeButtonActive]}
+              onPress={() => { setHeroPos(p); resetChart(); }}
+            >
+              <AppText variant="label" color={activeHero === p ? '#FFFFFF' : '#A7B0C0'}>{p}</AppText>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.inputGroup}>
+          <AppText variant="label" style={styles.inputLabel}>Анте, bb</AppText>
+          <TextInput
+            style={styles.input}
+            placeholder="0"
+            placeholderTextColor="#65708A"
+            keyboardType="numeric"
+            value={anteText}
+            onChangeText={(t) => { setAnteText(t); resetChart(); }}
+          />
+        </View>
+
+        <AppText variant="label" style={styles.inputLabel}>BB коллирует топ-% рук</AppText>
+        <View style={styles.modeRow}>
+          <TouchableOpacity
+            style={[styles.modeButton, callPct == null && styles.modeButtonActive]}
+            onPress={() => { setCallPct(null); resetChart(); }}
+          >
+            <AppText variant="label" color={callPct == null ? '#FFFFFF' : '#A7B0C0'}>
+              {autoCallPct != null ? `Авто ${autoCallPct}%` : 'Авто'}
+            </AppText>
+          </TouchableOpacity>
+          {CALL_PCT_OPTIONS.map((pct) => (
+            <TouchableOpacity
+              key={pct}
+              style={[styles.modeButton, callPct === pct && styles.modeButtonActive]}
+              onPress={() => { setCallPct(pct); resetChart(); }}
+            >
+              <AppText variant="label" color={callPct === pct ? '#FFFFFF' : '#A7B0C0'}>{pct}%</AppText>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <TouchableOpacity
+          style={[styles.computeButton, computing && styles.computeButtonDisabled]}
+          onPress={buildChart}
+          disabled={computing}
+        >
+          {computing ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <AppText variant="body" color="#FFFFFF">Построить чарт</AppText>
+          )}
+        </TouchableOpacity>
+
+        {chartError && (
+          <AppText variant="caption" color="#F44336" style={styles.errorText}>
+            {chartError}
+          </AppText>
+        )}
+
+        {chart && (
+          <Card style={styles.resultCard}>
+            {risk && (
+              <>
+                <AppText variant="body" color="#A7B0C0">
+                  Фактор пузыря: <AppText variant="body" color="#FFFFFF">{risk.bubble_factor}</AppText>
+                </AppText>
+                <AppText variant="caption" color="#65708A">
+                  При колле нужно {(risk.required_equity_icm * 100).toFixed(0)}% эквити по ICM
+                  (по фишкам — {(risk.required_equity_chip * 100).toFixed(0)}%)
+                </AppText>
+              </>
+            )}
+            <AppText variant="caption" color="#65708A">
+              Пуш {rangePct(chart).toFixed(1)}% рук из {activeHero} против колла топ-{effectiveCallPct}%
+            </AppText>
+            <View style={styles.gridWrap}>
+              <RangeGrid weights={chart} onChange={() => {}} disabled />
+            </View>
+          </Card>
+        )}
+      </ScrollView>
+    </ScreenWrapper>
+  );
+}
+
+const styles = StyleSheet.create({
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: 40,
+  },
+  header: {
+    marginBottom: 24,
+    gap: 4,
+  },
+  backRow: {
+    alignSelf: 'flex-start',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 32,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    marginBottom: 12,
+  },
+  sectionGap: {
+    marginTop: 32,
+  },
+  sectionHint: {
+    marginBottom: 12,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  inputLabel: {
+    marginBottom: 8,
+    color: '#A7B0C0',
+    textTransform: 'uppercase',
+  },
+  input: {
+    backgroundColor: '#1B1C22',
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 14,
+    color: '#FFFFFF',
+    fontSize: 16,
+  },
+  resultCard: {
+    backgroundColor: '#1B1C22',
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    padding: 20,
+    marginTop: 8,
+    gap: 8,
+  },
+  icmRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  modeRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 20,
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    backgroundColor: '#1B1C22',
+    alignItems: 'center',
+  },
+  modeButtonActive: {
+    backgroundColor: '#4C9AFF',
+    borderColor: '#4C9AFF',
+  },
+  stackGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 20,
+  },
+  stackCell: {
+    width: '31%',
+    gap: 4,
+  },
+  gridWrap: {
+    marginTop: 12,
+  },
+  computeButton: {
+    backgroundColor: '#4C9AFF',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  computeButtonDisabled: {
+    opacity: 0.6,
+  },
+  errorText: {
+    marginBottom: 12,
+  },
+});
@@ -73,6 +73,12 @@ export default function ToolsScreen() {
               description="Статистика сессий"
               onPress={() => router.push('/(tabs)/tools/bankroll')}
             />
+            <ToolCard
+              icon="🏆"
+              title="ICM и пуш/фолд"
+              description="$EV стеков в турнире и чарты пуша до 20bb"
+              onPress={() => router.push('/(tabs)/tools/icm')}
+            />
           </View>
         </View>
       </ScrollView>
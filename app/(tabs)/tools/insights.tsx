@@ -11,12 +11,23 @@ import { ScreenWrapper } from '../../../components/ScreenWrapper';
 import { AppText } from '../../../components/AppText';
 import { Card } from '../../../components/Card';
 import { supabase } from '../../../lib/supabase';
+import {
+  STAT_LABELS,
+  aggregateStats,
+  statDeviations,
+  type StatDeviation,
+  type StatKey,
+  type StatLine,
+  type StatsHandRow,
+  type StatsReport,
+} from '../../../lib/stats';
 
 // ─── Types ─────────────────────────────────────────────────────────────────
 
 interface SkillRating {
   leak_tag: string;
   rating: number;
+  rating_rd?: number;
   total_attempts: number;
   [key: string]: unknown;
 }
@@ -40,6 +51,22 @@ interface LeakSummaryRow {
 
 // ─── Helpers ───────────────────────────────────────────────────────────────
 
+const HUD_STATS: StatKey[] = ['vpip', 'pfr', 'three_bet', 'wtsd', 'af'];
+const STATS_HANDS_LIMIT = 5000;
+
+function formatStat(line: StatLine, stat: StatKey): string {
+  const value = line[stat];
+  if (value == null) return '—';
+  return stat === 'af' ? value.toFixed(1) : `${Math.round(value)}`;
+}
+
+function formatDeviation(d: StatDeviation): string {
+  const fmt = (n: number) => (d.stat === 'af' ? n.toFixed(1) : `${Math.round(n)}%`);
+  const where = d.scope === 'overall' ? 'в целом' : `с ${d.scope}`;
+  const verdict = d.direction === 'high' ? 'выше нормы' : 'ниже нормы';
+  return `${STAT_LABELS[d.stat]} ${where}: ${fmt(d.value)} — ${verdict} (${fmt(d.baseline)})`;
+}
+
 function formatLeakTag(tag: string): string {
   return tag
     .replace(/_/g, ' ')
@@ -62,12 +89,13 @@ export default function InsightsScreen() {
   const [error, setError] = useState<string | null>(null);
   const [skillRatings, setSkillRatings] = useState<SkillRating[]>([]);
   const [latestSummary, setLatestSummary] = useState<LeakSummaryRow | null>(null);
+  const [stats, setStats] = useState<StatsReport | null>(null);
 
   const loadData = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      const [ratingsRes, summaryRes] = await Promise.all([
+      const [ratingsRes, summaryRes, handsRes] = await Promise.all([
         supabase
           .from('skill_ratings')
           .select('*')
@@ -78,13 +106,20 @@ export default function InsightsScreen() {
           .order('created_at', { ascending: false })
           .limit(1)
           .maybeSingle(),
+        supabase
+          .from('hands')
+          .select('hero_pos, stakes, stat_flags')
+          .order('played_at', { ascending: false })
+          .limit(STATS_HANDS_LIMIT),
       ]);
 
       if (ratingsRes.error) throw new Error(ratingsRes.error.message);
       if (summaryRes.error) throw new Error(summaryRes.error.message);
+      if (handsRes.error) throw new Error(handsRes.error.message);
 
       setSkillRatings(ratingsRes.data ?? []);
       setLatestSummary(summaryRes.data ?? null);
+      setStats(aggregateStats((handsRes.data as StatsHandRow[]) ?? []));
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Не удалось загрузить данные');
     } finally {
@@ -112,6 +147,27 @@ export default function InsightsScreen() {
   }
 
   const topLeaks = latestSummary?.summary?.top_leaks ?? [];
+  const deviations = stats ? statDeviations(stats) : [];
+  const flaggedCells = new Set(deviations.map((d) => `${d.scope}:${d.stat}`));
+  const positionLines = stats ? Object.entries(stats.by_position) : [];
+  const stakesLines = stats ? Object.entries(stats.by_stakes).sort((a, b) => b[1].hands - a[1].hands) : [];
+
+  const renderStatRow = (label: string, scope: string, line: StatLine) => (
+    <View key={scope} style={styles.statRow}>
+      <AppText variant="body" style={styles.statLabelCell}>{label}</AppText>
+      <AppText variant="caption" color="#65708A" style={styles.statCell}>{line.hands}</AppText>
+      {HUD_STATS.map((stat) => (
+        <AppText
+          key={stat}
+          variant="body"
+          color={flaggedCells.has(`${scope}:${stat}`) ? '#F59E0B' : '#FFFFFF'}
+          style={styles.statCell}
+        >
+          {formatStat(line, stat)}
+        </AppText>
+      ))}
+    </View>
+  );
 
   return (
     <ScreenWrapper>
@@ -150,7 +206,7 @@ export default function InsightsScreen() {
                     {formatLeakTag(item.leak_tag)}
                   </AppText>
                   <AppText variant="body" color="#A7B0C0" style={styles.skillMeta}>
-                    Rating: {item.rating}/100 (Тренировок: {item.total_attempts ?? 0})
+                    Rating: {item.rating}/100{item.rating_rd != null ? ` ±${Math.round(item.rating_rd / 10)}` : ''} (Тренировок: {item.total_attempts ?? 0})
                   </AppText>
                   <View style={styles.progressTrack}>
                     <View
@@ -166,7 +222,50 @@ export default function InsightsScreen() {
           )}
         </View>
 
-        {/* Section 2: Top Leaks */}
+        {/* Section 2: Hand stats (HUD) */}
+        <View style={styles.section}>
+          <AppText variant="h2" style={styles.sectionTitle}>Статистика по рукам</AppText>
+          {!stats || stats.overall.hands === 0 ? (
+            <Card style={styles.emptyCard}>
+              <AppText variant="body" color="#A7B0C0" style={styles.emptyText}>
+                Импортируй историю рук, чтобы увидеть VPIP, PFR, 3bet, WTSD и AF.
+              </AppText>
+            </Card>
+          ) : (
+            <Card style={styles.statsCard}>
+              <View style={styles.statRow}>
+                <AppText variant="label" color="#65708A" style={styles.statLabelCell}> </AppText>
+                <AppText variant="label" color="#65708A" style={styles.statCell}>Рук</AppText>
+                {HUD_STATS.map((stat) => (
+                  <AppText key={stat} variant="label" color="#65708A" style={styles.statCell}>
+                    {STAT_LABELS[stat]}
+                  </AppText>
+                ))}
+              </View>
+              {renderStatRow('Все', 'overall', stats.overall)}
+              {positionLines.map(([pos, line]) => renderStatRow(pos, pos, line))}
+
+              {stakesLines.length > 1 && (
+                <>
+                  <AppText variant="label" color="#A7B0C0" style={styles.statsSubtitle}>По лимитам</AppText>
+                  {stakesLines.map(([stakes, line]) => renderStatRow(stakes, `stakes:${stakes}`, line))}
+                </>
+              )}
+
+              {deviations.length > 0 && (
+                <View style={styles.deviationList}>
+                  {deviations.slice(0, 5).map((d) => (
+                    <AppText key={`${d.scope}:${d.stat}`} variant="caption" color="#F59E0B">
+                      • {formatDeviation(d)}
+                    </AppText>
+                  ))}
+                </View>
+              )}
+            </Card>
+          )}
+        </View>
+
+        {/* Section 3: Top Leaks */}
         <View style={styles.section}>
           <AppText variant="h2" style={styles.sectionTitle}>Топ ошибки</AppText>
           {topLeaks.length === 0 ? (
@@ -293,6 +392,32 @@ const styles = StyleSheet.create({
     backgroundColor: '#4C9AFF',
     borderRadius: 4,
   },
+  statsCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderColor: 'rgba(255, 255, 255, 0.08)',
+    padding: 16,
+    borderRadius: 12,
+    gap: 6,
+  },
+  statRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  statLabelCell: {
+    flex: 1.6,
+    color: '#FFFFFF',
+  },
+  statCell: {
+    flex: 1,
+    textAlign: 'center',
+  },
+  statsSubtitle: {
+    marginTop: 10,
+  },
+  deviationList: {
+    marginTop: 10,
+    gap: 4,
+  },
   leakList: {
     gap: 12,
   },
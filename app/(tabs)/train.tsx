@@ -22,8 +22,31 @@ import { AppText } from '../../components/AppText';
 import { Card } from '../../components/Card';
 import { supabase } from '../../lib/supabase';
 import { ensureSession } from '../../lib/ensureSession';
-import { callEdge } from '../../lib/edge';
-import type { TableDrillScenario, TableDrillCorrectAction, RaiseSizingOption } from '../../types/drill';
+import { callEdge, isNetworkError } from '../../lib/edge';
+import { CardView } from '../../components/CardView';
+import { ChipStack } from '../../components/ChipStack';
+import { DEFAULT_RATING, DEFAULT_RD, difficultyForRating, targetScenarioRating } from '../../lib/rating';
+import {
+  enqueueOutbox,
+  flushOutbox,
+  gradeLocally,
+  loadPreflopCharts,
+  newClientEventId,
+  outboxSize,
+  refillScenarioPack,
+  takePackScenario,
+} from '../../lib/offlineTraining';
+import { MULTI_STREET_LEAK_TAGS, parseMultiStreetHand, stepScenario, type MultiStreetHand } from '../../lib/multiStreet';
+import {
+  dealPreflopSpot,
+  findPreflopChart,
+  gradePreflopHand,
+  preflopSpotLabel,
+  type PreflopGrade,
+  type PreflopSpot,
+} from '../../lib/preflopCharts';
+import { PUSH_FOLD_ACTIONS, dealPushFoldSpot, gradePushFold, pushFoldSpotLabel, type PushFoldGrade, type PushFoldSpot } from '../../lib/icm';
+import type { TableDrillScenario, TableDrillCorrectAction, RaiseSizingOption, PreflopDrillAction, PushFoldDrillAction } from '../../types/drill';
 import type { DrillQueueRow, Database } from '../../types/database';
 
 type DrillQueueInsert = Database['public']['Tables']['drill_queue']['Insert'];
@@ -42,105 +65,11 @@ const THEME = {
   BTN_GREY: '#374151',
 };
 
-const SUIT_SYMBOLS: Record<string, string> = { s: '♠', h: '♥', d: '♦', c: '♣' };
-const RED_SUITS = ['h', 'd'];
-const RANK_DISPLAY: Record<string, string> = {
-  A: 'A', K: 'K', Q: 'Q', J: 'J', T: 'T',
-  '9': '9', '8': '8', '7': '7', '6': '6', '5': '5', '4': '4', '3': '3', '2': '2',
-};
-
-function parseCardCode(code: string | null | undefined): { rank: string; suit: string } | null {
-  if (!code || typeof code !== 'string' || code.length < 2) return null;
-  const rank = code[0].toUpperCase();
-  const suit = code[1].toLowerCase();
-  if (!RANK_DISPLAY[rank] || !SUIT_SYMBOLS[suit]) return null;
-  return { rank, suit };
-}
-
 const SESSION_TARGET_COUNT = 5;
+const FORECAST_DAYS = 14;
+type ReviewForecastDay = { day: string; due_count: number };
 type SessionHistoryEntry = { is_correct: boolean; drill_type: string; difficulty?: string };
 
-type CardViewSize = 'sm' | 'md' | 'lg';
-const CARD_DIMENSIONS: Record<CardViewSize, {
-  width: number; height: number;
-  cornerRankSize: number; cornerSuitSize: number;
-  centerSuitSize: number; radius: number;
-}> = {
-  sm: { width: 32, height: 46, cornerRankSize: 10, cornerSuitSize: 8, centerSuitSize: 18, radius: 3 },
-  md: { width: 42, height: 60, cornerRankSize: 13, cornerSuitSize: 10, centerSuitSize: 26, radius: 4 },
-  lg: { width: 56, height: 80, cornerRankSize: 18, cornerSuitSize: 14, centerSuitSize: 36, radius: 6 },
-};
-
-function CardView({ code, size = 'md', faceDown = false }: { code?: string | null; size?: CardViewSize; faceDown?: boolean }) {
-  const dim = CARD_DIMENSIONS[size];
-  const parsed = faceDown ? null : parseCardCode(code ?? null);
-  const isRed = parsed && RED_SUITS.includes(parsed.suit);
-  const suitColor = isRed ? '#EF4444' : '#111827';
-
-  if (!parsed && !faceDown) {
-    return <View style={[cardStyles.slotEmpty, { width: dim.width, height: dim.height, borderRadius: dim.radius }]} />;
-  }
-
-  if (faceDown) {
-    return (
-      <View style={[cardStyles.faceDown, { width: dim.width, height: dim.height, borderRadius: dim.radius }]}>
-        <View style={[cardStyles.backInnerBorder, { borderRadius: Math.max(1, dim.radius - 1) }]} />
-      </View>
-    );
-  }
-
-  return (
-    <View style={[cardStyles.cardFaceUp, { width: dim.width, height: dim.height, borderRadius: dim.radius }]}>
-      <View style={cardStyles.cornerTL}>
-        <AppText variant="body" style={[cardStyles.cornerRankText, { fontSize: dim.cornerRankSize, color: suitColor }]}>{RANK_DISPLAY[parsed!.rank]}</AppText>
-      </View>
-      <View style={cardStyles.cornerBR}>
-        <AppText variant="body" style={[cardStyles.cornerRankText, { fontSize: dim.cornerRankSize, color: suitColor }]}>{RANK_DISPLAY[parsed!.rank]}</AppText>
-      </View>
-      <View style={cardStyles.centerSuit}>
-        <AppText variant="body" style={[cardStyles.suitCenterText, { fontSize: dim.centerSuitSize, color: suitColor }]}>{SUIT_SYMBOLS[parsed!.suit]}</AppText>
-      </View>
-    </View>
-  );
-}
-
-const cardStyles = StyleSheet.create({
-  slotEmpty: { backgroundColor: 'rgba(0,0,0,0.15)', borderWidth: 1, borderColor: 'rgba(255,255,255,0.1)' },
-  cardFaceUp: { backgroundColor: '#FFFFFF', borderWidth: 1, borderColor: '#D1D5DB', shadowColor: '#000', shadowOffset: { width: 0, height: 3 }, shadowOpacity: 0.3, shadowRadius: 4, elevation: 4, overflow: 'hidden' },
-  faceDown: { backgroundColor: '#1E3A8A', borderWidth: 1, borderColor: '#3B82F6', overflow: 'hidden' },
-  backInnerBorder: { position: 'absolute', top: 3, left: 3, right: 3, bottom: 3, borderWidth: 1, borderColor: 'rgba(255,255,255,0.2)', backgroundColor: '#172554' },
-  cornerTL: { position: 'absolute', top: 2, left: 4, alignItems: 'center' },
-  cornerBR: { position: 'absolute', bottom: 2, right: 4, alignItems: 'center' },
-  cornerRankText: { fontWeight: '800', lineHeight: undefined, includeFontPadding: false },
-  centerSuit: { ...StyleSheet.absoluteFillObject, justifyContent: 'center', alignItems: 'center' },
-  suitCenterText: { fontWeight: '900', lineHeight: undefined, includeFontPadding: false },
-});
-
-function ChipStack({ amountBb }: { amountBb: number }) {
-  const isSmall = amountBb <= 5;
-  const chipCount = isSmall ? 3 : Math.min(6, 3 + Math.floor(amountBb / 10));
-  const chipDiam = 18;
-  const stackWidth = 26;
-  const stackHeight = chipDiam + (chipCount - 1) * 4;
-
-  return (
-    <View style={[{ width: stackWidth, height: stackHeight, position: 'relative' }]}>
-      {Array.from({ length: chipCount }).map((_, i) => (
-        <View
-          key={i}
-          style={{
-            position: 'absolute', width: chipDiam, height: chipDiam, borderRadius: chipDiam / 2,
-            backgroundColor: isSmall ? '#D1D5DB' : '#F59E0B', borderWidth: 1.5, borderColor: '#000',
-            bottom: i * 4, left: (stackWidth - chipDiam) / 2, justifyContent: 'center', alignItems: 'center'
-          }}
-        >
-          <View style={{ width: chipDiam - 6, height: chipDiam - 6, borderRadius: (chipDiam - 6)/2, borderWidth: 1, borderColor: 'rgba(255,255,255,0.4)', borderStyle: 'dashed' }} />
-        </View>
-      ))}
-    </View>
-  );
-}
-
 function getScenarioRowId(scenario: TableDrillScenario | Record<string, unknown> | null): string | null {
   if (!scenario || typeof scenario !== 'object') return null;
   const s = scenario as Record<string, unknown>;
@@ -220,6 +149,70 @@ function normalizeScenario(raw: unknown): TableDrillScenario | null {
     correct_option: (s.correct_option ?? s.correctOption) as string | undefined,
     rule_of_thumb: (s.rule_of_thumb ?? s.ruleOfThumb) as string | undefined,
     leak_tag: (s.leak_tag ?? s.leakTag) as string | undefined,
+    villain_range: typeof s.villain_range === 'string' ? s.villain_range : undefined,
+    hero_equity: typeof s.hero_equity === 'number' ? s.hero_equity : undefined,
+    villain_cards: Array.isArray(s.villain_cards) && s.villain_cards.length === 2 ? s.villain_cards.map(String) : undefined,
+    hand_library_id: typeof (s.hand_library_id ?? s.id) === 'string' ? String(s.hand_library_id ?? s.id) : undefined,
+    grading_token: typeof s.grading_token === 'string' ? s.grading_token : undefined,
+  };
+}
+
+const PREFLOP_ACTION_LABELS: Record<PreflopDrillAction, string> = { open: 'ОПЕН', '3bet': '3-БЕТ', call: 'КОЛЛ', fold: 'ФОЛД' };
+
+/** Префлоп-спот из чарта в формате стола: без борда, оппонент — опенер (или BB, если Hero первым в банк). */
+function preflopScenario(spot: PreflopSpot, grade: PreflopGrade, leakTag: string): TableDrillScenario {
+  const openSize = spot.format === 'cash' ? 2.5 : 2;
+  return {
+    game: 'NLH',
+    hero_pos: spot.hero_pos as TableDrillScenario['hero_pos'],
+    villain_pos: (spot.opener_pos ?? 'BB') as TableDrillScenario['villain_pos'],
+    effective_stack_bb: spot.stack_bb,
+    hero_cards: spot.hero_cards,
+    board: { flop: [], turn: null, river: null },
+    pot_bb: spot.opener_pos ? 1.5 + openSize : 1.5,
+    street: 'preflop',
+    action_to_hero: spot.opener_pos ? `${spot.opener_pos} открылся до ${openSize} bb` : 'Все сбросили до вас',
+    villain_bet: spot.opener_pos ? openSize : 0,
+    explanation: grade.explanation,
+    drill_type: 'preflop_range',
+    leak_tag: leakTag,
+    format: spot.format,
+    stack_bb: spot.stack_bb,
+    opener_pos: spot.opener_pos as TableDrillScenario['opener_pos'],
+    preflop_options: spot.options,
+    preflop_accepted: grade.accepted,
+  };
+}
+
+const PUSH_FOLD_ACTION_LABELS: Record<PushFoldDrillAction, string> = { shove: 'ПУШ', fold: 'ФОЛД' };
+
+/** Пуш/фолд-спот в формате стола: все сбросили до Hero, против пуша решает только BB. */
+function pushFoldScenario(spot: PushFoldSpot, grade: PushFoldGrade, leakTag: string): TableDrillScenario {
+  const heroStack = spot.stacks_bb[spot.positions.indexOf(spot.hero_pos)];
+  const bbStack = spot.stacks_bb[spot.positions.indexOf('BB')];
+  return {
+    game: 'NLH',
+    hero_pos: spot.hero_pos as TableDrillScenario['hero_pos'],
+    villain_pos: 'BB',
+    effective_stack_bb: Math.min(heroStack, bbStack),
+    hero_cards: spot.hero_cards,
+    board: { flop: [], turn: null, river: null },
+    pot_bb: 1.5 + spot.ante_bb * spot.positions.length,
+    street: 'preflop',
+    action_to_hero: `Все сбросили до вас · BB коллирует топ-${spot.call_pct}% рук`,
+    villain_bet: 0,
+    explanation: grade.explanation,
+    drill_type: 'push_fold',
+    leak_tag: leakTag,
+    push_fold: {
+      format: spot.format,
+      positions: spot.positions,
+      stacks_bb: spot.stacks_bb,
+      payouts: spot.payouts,
+      ante_bb: spot.ante_bb,
+      call_pct: spot.call_pct,
+    },
+    push_fold_accepted: grade.accepted,
   };
 }
 
@@ -235,7 +228,22 @@ function leakTagDisplay(tag: string | null | undefined): string {
   return tag.split('_').map((w) => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase()).join(' ');
 }
 
-type TableGradeResult = { isCorrect: boolean; explanation: string };
+/** EV-оценка ответа с сервера: полоса (лучшее / близко / грубая ошибка), потеря и EV каждого действия в bb. */
+type EvFeedback = { band: 'best' | 'close' | 'blunder'; lossBb: number; evs: { fold: number; call: number; raise: number } };
+/** offline: оценено на устройстве, ответ ждёт синхронизации в outbox. */
+type TableGradeResult = { isCorrect: boolean; explanation: string; offline?: boolean; ev?: EvFeedback };
+
+/** EV-часть ответа ai-submit-table-drill-result (есть, если у сценария известны карты или диапазон оппонента). */
+function evFeedbackFrom(data: any): EvFeedback | undefined {
+  if (!data?.ev_band || !data?.action_evs) return undefined;
+  return { band: data.ev_band, lossBb: Number(data.ev_loss_bb ?? 0), evs: data.action_evs };
+}
+
+function formatEv(bb: number): string {
+  return `${bb > 0 ? '+' : ''}${bb.toFixed(1)}`;
+}
+/** Многоуличная раздача: handId связывает решения в training_events, index — текущая улица. */
+type MultiHandState = { handId: string; hand: MultiStreetHand; index: number; row: Record<string, unknown> };
 const HERO_SEAT_INDEX = 0;
 const VILLAIN_SEAT_INDEX = 3;
 const POSITION_LABELS = ['BTN', 'CO', 'HJ', 'UTG', 'BB', 'SB'];
@@ -265,14 +273,19 @@ export default function TrainScreen() {
   const [tableGradeResult, setTableGradeResult] = useState<TableGradeResult | null>(null);
   const [currentDrillRow, setCurrentDrillRow] = useState<DrillQueueRow | null>(null);
   const [dueDrills, setDueDrills] = useState<DrillQueueRow[]>([]);
+  const [reviewForecast, setReviewForecast] = useState<ReviewForecastDay[]>([]);
+  const answerShownAtRef = useRef<number | null>(null);
   const [raiseSizeBb, setRaiseSizeBb] = useState(12);
   const [currentDifficulty, setCurrentDifficulty] = useState<string | null>(null);
-  const [currentDrillType, setCurrentDrillType] = useState<'action_decision' | 'raise_sizing' | null>(null);
+  const [currentDrillType, setCurrentDrillType] = useState<'action_decision' | 'raise_sizing' | 'preflop_range' | 'push_fold' | null>(null);
   const [lastTrainingEventId, setLastTrainingEventId] = useState<string | null>(null);
   const [selectedMistakeReason, setSelectedMistakeReason] = useState<string | null>(null);
   const [showReasonSaved, setShowReasonSaved] = useState(false);
   const reasonSavedTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const refreshInProgressRef = useRef(false);
+  const [offlinePending, setOfflinePending] = useState(0);
+  const [offlinePackCount, setOfflinePackCount] = useState(0);
+  const [multiHand, setMultiHand] = useState<MultiHandState | null>(null);
 
   const [phase, setPhase] = useState<'idle' | 'answering' | 'submitting' | 'graded'>('idle');
   const submittingRef = useRef(false);
@@ -409,6 +422,16 @@ export default function TrainScreen() {
     return fresh[0] ?? null;
   }
 
+  const loadReviewForecast = useCallback(async () => {
+    const tz = Intl.DateTimeFormat().resolvedOptions().timeZone ?? 'UTC';
+    const { data, error: err } = await supabase.rpc('rpc_get_review_forecast', { days_n: FORECAST_DAYS, tz } as any);
+    if (err) {
+      console.error('rpc_get_review_forecast error', err);
+      return;
+    }
+    setReviewForecast((data ?? []) as ReviewForecastDay[]);
+  }, []);
+
   const refreshFocus = useCallback(async () => {
     try {
       const { data: rows } = await supabase.from('skill_ratings').select('leak_tag, rating, attempts_7d, correct_7d, last_practice_at');
@@ -417,22 +440,42 @@ export default function TrainScreen() {
     } catch (e) { }
   }, []);
 
+  /** Отправляет накопленные офлайн-ответы и докачивает пакет раздач и чарты префлопа для офлайна. */
+  const syncOffline = useCallback(async () => {
+    try {
+      const { sent, pending } = await flushOutbox();
+      if (sent > 0) console.log('syncOffline: replayed answers', { sent, pending });
+      setOfflinePending(pending);
+      setOfflinePackCount(await refillScenarioPack());
+      await loadPreflopCharts();
+    } catch (e) {
+      console.log('syncOffline failed', { message: String(e) });
+      setOfflinePending(await outboxSize());
+    }
+  }, []);
+
   const refreshTrain = useCallback(async () => {
     if (refreshInProgressRef.current) return;
     refreshInProgressRef.current = true;
     try {
       await ensureSession();
+      await syncOffline();
       const boot = await callEdge('ai-bootstrap-drill-queue', {});
       console.log('refreshTrain: bootstrap result', JSON.stringify(boot ?? null));
       const data = await loadDueDrills();
       console.log('refreshTrain: dueDrills loaded', JSON.stringify({ count: (data ?? []).length }));
+      void loadReviewForecast();
     } catch (e) {
+      if (isNetworkError(e)) {
+        console.log('refreshTrain: offline, using cached scenarios');
+        return;
+      }
       const msg = e instanceof Error ? e.message : 'Ошибка обновления тренировки';
       Alert.alert('Ошибка', msg);
     } finally {
       refreshInProgressRef.current = false;
     }
-  }, []);
+  }, [loadReviewForecast, syncOffline]);
 
   useFocusEffect(useCallback(() => { refreshTrain(); refreshFocus(); }, [refreshTrain, refreshFocus]));
 
@@ -455,7 +498,7 @@ export default function TrainScreen() {
       Animated.timing(heroCard2TranslateY, { toValue: 0, duration: 200, useNativeDriver: true }),
     ]).start();
 
-    const cardCount = 3 + (scenario.board.turn ? 1 : 0) + (scenario.board.river ? 1 : 0);
+    const cardCount = scenario.board.flop.length + (scenario.board.turn ? 1 : 0) + (scenario.board.river ? 1 : 0);
     boardOpacities.slice(0, cardCount).forEach((op, i) => {
       Animated.sequence([
         Animated.delay(i * 80),
@@ -590,46 +633,96 @@ export default function TrainScreen() {
     setLoading(true);
     setError(null);
     setScenario(null);
+    setMultiHand(null);
     setTableGradeResult(null);
     setCurrentDrillRow(resolvedRow);
     setCurrentDrillType(null);
     setPhase('idle');
     try {
       await ensureSession();
-      // Случайная раздача из hand_library (RPC быстрее; fallback — одна запись).
-      let handRow: Record<string, unknown> | null = null;
-      const { data: rpcDataRaw, error: rpcError } = await supabase.rpc('get_random_hand');
-      const rpcData = rpcDataRaw as unknown;
-      if (!rpcError && Array.isArray(rpcData) && rpcData.length > 0) {
-        handRow = rpcData[0] as Record<string, unknown>;
-      } else if (!rpcError && rpcData && !Array.isArray(rpcData)) {
-        handRow = rpcData as Record<string, unknown>;
+      // Раздача из hand_library под лик, тип тренировки и рейтинг игрока, без недавно сыгранных (get_training_hand).
+      // Без сети — из локального пакета раздач.
+      const leakTag = resolvedRow.leak_tag ?? 'fundamentals';
+      const drillType = resolvedRow.drill_type ?? 'action_decision';
+      if (drillType === 'preflop_range') {
+        // Префлоп: раздача и ответ — из чартов (работает и без сети по сохранённой копии).
+        const charts = await loadPreflopCharts();
+        const spot = dealPreflopSpot(charts, leakTag);
+        const chart = spot ? findPreflopChart(charts, spot) : null;
+        const grade = spot && chart ? gradePreflopHand(chart, spot.hero_cards) : null;
+        if (spot && grade) {
+          const preflop = preflopScenario(spot, grade, leakTag);
+          (preflop as Record<string, unknown>).drill_queue_id = resolvedRow.id;
+          setScenario(preflop);
+          setCurrentDrillType('preflop_range');
+          setCurrentDifficulty(null);
+          answerShownAtRef.current = Date.now();
+          setPhase('answering');
+          return;
+        }
+        // Чарты не загружены — тот же лик тренируем на обычной раздаче.
       }
-      if (!handRow) {
-        const { data: fallbackData, error: handError } = await supabase
-          .from('hand_library')
-          .select('*')
-          .limit(1)
-          .maybeSingle();
-        if (handError) {
-          setError(handError.message ?? 'Ошибка загрузки раздачи');
+      if (drillType === 'push_fold') {
+        // Пуш/фолд: стол раздаётся и оценивается по ICM на устройстве, сеть не нужна.
+        const spot = dealPushFoldSpot();
+        const grade = gradePushFold(spot);
+        if (grade) {
+          const pushFold = pushFoldScenario(spot, grade, leakTag);
+          (pushFold as Record<string, unknown>).drill_queue_id = resolvedRow.id;
+          setScenario(pushFold);
+          setCurrentDrillType('push_fold');
+          setCurrentDifficulty(null);
+          answerShownAtRef.current = Date.now();
+          setPhase('answering');
+          return;
+        }
+      }
+      const { data: skillRow, error: skillError } = await supabase
+        .from('skill_ratings')
+        .select('glicko_rating, rating_rd, last_practice_at')
+        .eq('leak_tag', leakTag)
+        .maybeSingle();
+      let handRow: Record<string, unknown> | null = null;
+      if (!isNetworkError(skillError)) {
+        const skill = skillRow as { glicko_rating: number; rating_rd: number; last_practice_at: string | null } | null;
+        const target = targetScenarioRating(
+          { rating: skill?.glicko_rating ?? DEFAULT_RATING, rd: skill?.rating_rd ?? DEFAULT_RD },
+          skill?.last_practice_at ?? null,
+        );
+        // Сервер сам ослабляет фильтры (улица, окно рейтинга, лик, недавно сыгранные), пока не найдёт раздачу.
+        const { data: rpcDataRaw, error: rpcError } = await supabase.rpc('get_training_hand', {
+          p_target: target,
+          p_leak_tag: leakTag,
+          p_drill_type: drillType === 'preflop_range' || drillType === 'push_fold' ? 'action_decision' : drillType,
+          p_multi_street: drillType === 'action_decision' ? MULTI_STREET_LEAK_TAGS.includes(leakTag) : false,
+        } as any);
+        const rpcData = rpcDataRaw as unknown;
+        if (rpcError && !isNetworkError(rpcError)) {
+          setError(rpcError.message ?? 'Ошибка загрузки раздачи');
           return;
         }
-        handRow = fallbackData as Record<string, unknown> | null;
+        if (Array.isArray(rpcData) && rpcData.length > 0) handRow = rpcData[0] as Record<string, unknown>;
       }
       if (!handRow) {
-        setError('Нет раздач в библиотеке');
+        handRow = await takePackScenario(leakTag, drillType);
+        if (handRow) setOfflinePackCount((n) => Math.max(0, n - 1));
+      }
+      if (!handRow) {
+        setError(isNetworkError(skillError) ? 'Нет подключения и нет сохранённых раздач для офлайна' : 'Нет раздач в библиотеке');
         return;
       }
-      const normalized = normalizeScenario(handRow);
+      const hand = parseMultiStreetHand(handRow);
+      const normalized = normalizeScenario(hand ? { ...handRow, ...stepScenario(hand, 0) } : handRow);
       if (!normalized) {
         setError('Неверный формат раздачи в библиотеке');
         return;
       }
       (normalized as Record<string, unknown>).drill_queue_id = resolvedRow.id;
       setScenario(normalized);
-      setCurrentDrillType(resolvedRow.drill_type === 'raise_sizing' ? 'raise_sizing' : 'action_decision');
-      setCurrentDifficulty(null);
+      setMultiHand(hand ? { handId: newClientEventId(), hand, index: 0, row: handRow } : null);
+      setCurrentDrillType(!hand && resolvedRow.drill_type === 'raise_sizing' ? 'raise_sizing' : 'action_decision');
+      setCurrentDifficulty(typeof handRow.difficulty_rating === 'number' ? difficultyForRating(handRow.difficulty_rating) : null);
+      answerShownAtRef.current = Date.now();
       setPhase('answering');
     } catch (e: any) { setError(e?.message ?? String(e)); } finally {
       setIsGenerating(false);
@@ -643,7 +736,7 @@ export default function TrainScreen() {
     return ['jwt', 'expired', 'unauthorized', 'auth'].some((k) => lower.includes(k));
   }
 
-  async function selectTableAction(userAnswer: TableDrillCorrectAction | 'check' | RaiseSizingOption) {
+  async function selectTableAction(userAnswer: TableDrillCorrectAction | 'check' | RaiseSizingOption | PreflopDrillAction | PushFoldDrillAction) {
     if (submittingRef.current) return;
     submittingRef.current = true;
 
@@ -680,14 +773,30 @@ export default function TrainScreen() {
     setLoading(true);
     setPhase('submitting');
 
-    const drillType = (currentDrillType ?? scenario.drill_type) === 'raise_sizing' ? 'raise_sizing' : 'action_decision';
+    const type = currentDrillType ?? scenario.drill_type;
+    const drillType = type === 'raise_sizing' || type === 'preflop_range' || type === 'push_fold' ? type : 'action_decision';
     const payload: Record<string, unknown> = {
       drill_queue_id: drillQueueId,
-      scenario: { ...scenario, correct_action: normalizeCorrectActionForBackend(scenario.correct_action) },
+      // preflop_range оценивается на сервере по чарту, push_fold — по ICM; correct_action не нужен
+      scenario: drillType === 'preflop_range' || drillType === 'push_fold'
+        ? scenario
+        : { ...scenario, correct_action: normalizeCorrectActionForBackend(scenario.correct_action) },
       drill_type: drillType,
     };
     payload.user_action = (String(userAnswer).toLowerCase() === 'check' ? 'call' : userAnswer) as typeof userAnswer;
     if (userAnswer === 'raise') payload.raise_size_bb = raiseSizeBb;
+    if (answerShownAtRef.current != null) payload.latency_ms = Date.now() - answerShownAtRef.current;
+    // Один id на ответ: повторная отправка (ретрай, синхронизация офлайн-очереди) не засчитывается дважды.
+    const clientEventId = newClientEventId();
+    payload.client_event_id = clientEventId;
+    payload.answered_at = new Date().toISOString();
+    if (multiHand) {
+      payload.hand_id = multiHand.handId;
+      payload.step_index = multiHand.index;
+      payload.step_count = multiHand.hand.steps.length;
+    }
+    // Раздача продолжается на следующей улице: очередь не переключаем, следующую строку не подгружаем.
+    const handContinues = multiHand != null && multiHand.index < multiHand.hand.steps.length - 1;
 
     function doRecovery() {
       setLoading(false);
@@ -696,6 +805,34 @@ export default function TrainScreen() {
       console.log('submit recovered to answering', { drillQueueId });
     }
 
+    function recordSessionAnswer(isCorrect: boolean) {
+      if (!sessionActive) return;
+      const nextIndex = Math.min(SESSION_TARGET_COUNT, sessionIndex + 1);
+      sessionIndexRef.current = nextIndex;
+      setSessionIndex(nextIndex);
+      setSessionCorrect((p) => p + (isCorrect ? 1 : 0));
+      setSessionHistory((p) => [...p, { is_correct: isCorrect, drill_type: drillType, difficulty: currentDifficulty ?? undefined }]);
+      if (nextIndex >= SESSION_TARGET_COUNT) setTableGradeResult(null);
+    }
+
+    /** Без сети: оценка на устройстве, ответ уходит в outbox и отправится при следующей синхронизации. */
+    async function gradeOffline() {
+      const isCorrect = gradeLocally(scenario!, drillType, String(payload.user_action), payload.raise_size_bb as number | undefined);
+      await enqueueOutbox(clientEventId, payload);
+      setOfflinePending((n) => n + 1);
+      setLastTrainingEventId(null);
+      setTableGradeResult({ isCorrect, explanation: (scenario?.explanation ?? '').trim(), offline: true });
+      setLoading(false);
+      setPhase('graded');
+      recordSessionAnswer(isCorrect);
+      if (handContinues) return;
+      // drill_queue перепланируется только после синхронизации: берём другую строку очереди или ту же ещё раз.
+      const nextRow = dueDrills.find((r) => r.id !== drillQueueId) ?? null;
+      lastAnsweredIdRef.current = nextRow ? drillQueueId : null;
+      if (nextRow) setCurrentDrillRow(nextRow);
+      console.log('selectTableAction graded offline', JSON.stringify({ drillQueueId, isCorrect, nextRowId: nextRow?.id ?? null }));
+    }
+
     let data: any = null;
     try {
       await ensureSession();
@@ -713,19 +850,14 @@ export default function TrainScreen() {
       setTableGradeResult({
         isCorrect: data?.correct === true,
         explanation: (scenario?.explanation ?? data?.explanation ?? '').trim(),
+        ev: evFeedbackFrom(data),
       });
       setLoading(false);
       setPhase('graded');
       lastAnsweredIdRef.current = drillQueueId;
 
-      if (sessionActive) {
-        const nextIndex = Math.min(SESSION_TARGET_COUNT, sessionIndex + 1);
-        sessionIndexRef.current = nextIndex;
-        setSessionIndex(nextIndex);
-        setSessionCorrect((p) => p + (data?.correct ? 1 : 0));
-        setSessionHistory((p) => [...p, { is_correct: data?.correct, drill_type: drillType, difficulty: currentDifficulty ?? undefined }]);
-        if (nextIndex >= SESSION_TARGET_COUNT) setTableGradeResult(null);
-      }
+      recordSessionAnswer(data?.correct === true);
+      if (handContinues) return;
 
       const answeredId = drillQueueId;
       const freshDueDrills = await loadDueDrills();
@@ -738,11 +870,16 @@ export default function TrainScreen() {
       }
       console.log('selectTableAction done', JSON.stringify({ ok: true, nextRowId: nextRow?.id ?? null }));
       void softRefreshDueDrills();
+      void loadReviewForecast();
     } catch (e: any) {
       const statusMatch = (e?.message ?? '').match(/\s(\d{3}):/);
       const statusCode = statusMatch ? parseInt(statusMatch[1], 10) : null;
       const message = e?.message ?? String(e);
       console.log('submit failed', { drillQueueId, statusCode, message, raw: e });
+      if (isNetworkError(e)) {
+        await gradeOffline();
+        return;
+      }
       Alert.alert('Ошибка', message);
 
       if (isSessionAuthError(statusCode, message)) {
@@ -760,18 +897,13 @@ export default function TrainScreen() {
           setTableGradeResult({
             isCorrect: data?.correct === true,
             explanation: (scenario?.explanation ?? data?.explanation ?? '').trim(),
+            ev: evFeedbackFrom(data),
           });
           setLoading(false);
           setPhase('graded');
           lastAnsweredIdRef.current = drillQueueId;
-          if (sessionActive) {
-            const nextIndex = Math.min(SESSION_TARGET_COUNT, sessionIndex + 1);
-            sessionIndexRef.current = nextIndex;
-            setSessionIndex(nextIndex);
-            setSessionCorrect((p) => p + (data?.correct ? 1 : 0));
-            setSessionHistory((p) => [...p, { is_correct: data?.correct, drill_type: drillType, difficulty: currentDifficulty ?? undefined }]);
-            if (nextIndex >= SESSION_TARGET_COUNT) setTableGradeResult(null);
-          }
+          recordSessionAnswer(data?.correct === true);
+          if (handContinues) return;
           const answeredId = drillQueueId;
           const freshDueDrills = await loadDueDrills();
           const nextRow = freshDueDrills.find((r) => r.id !== answeredId) ?? null;
@@ -789,6 +921,10 @@ export default function TrainScreen() {
           const statusCode2 = statusMatch2 ? parseInt(statusMatch2[1], 10) : null;
           const msg2 = e2?.message ?? String(e2);
           console.log('submit failed', { drillQueueId, statusCode: statusCode2, message: msg2, raw: e2 });
+          if (isNetworkError(e2)) {
+            await gradeOffline();
+            return;
+          }
           Alert.alert('Ошибка', msg2);
           setError(msg2);
           doRecovery();
@@ -805,6 +941,19 @@ export default function TrainScreen() {
 
   async function closeResultModal() {
     setTableGradeResult(null); setLastTrainingEventId(null); setSelectedMistakeReason(null);
+    if (multiHand && multiHand.index < multiHand.hand.steps.length - 1) {
+      const nextIndex = multiHand.index + 1;
+      const next = normalizeScenario({ ...multiHand.row, ...stepScenario(multiHand.hand, nextIndex) });
+      if (next) {
+        (next as Record<string, unknown>).drill_queue_id = scenarioRowId;
+        setMultiHand({ ...multiHand, index: nextIndex });
+        setScenario(next);
+        answerShownAtRef.current = Date.now();
+        setPhase('answering');
+        return;
+      }
+    }
+    setMultiHand(null);
     if (sessionActive && sessionIndexRef.current >= SESSION_TARGET_COUNT) { setScenario(null); return; }
     startDrill();
   }
@@ -813,7 +962,19 @@ export default function TrainScreen() {
     if (!scenario) return 'Чек на вас';
     const type = currentDrillType ?? scenario.drill_type;
     if (type === 'raise_sizing') return 'Выберите размер рейза';
-    return scenario.action_to_hero || 'Чек на вас';
+    if (type === 'preflop_range' && scenario.format && scenario.stack_bb != null) {
+      return preflopSpotLabel({
+        format: scenario.format,
+        stack_bb: scenario.stack_bb,
+        hero_pos: scenario.hero_pos,
+        opener_pos: scenario.opener_pos ?? null,
+      });
+    }
+    if (type === 'push_fold' && scenario.push_fold) {
+      return `${pushFoldSpotLabel({ ...scenario.push_fold, hero_pos: scenario.hero_pos })} · топ-${scenario.push_fold.call_pct}% коллов`;
+    }
+    const action = scenario.action_to_hero || 'Чек на вас';
+    return multiHand ? `Решение ${multiHand.index + 1}/${multiHand.hand.steps.length} · ${action}` : action;
   }
 
   function communityCards(sc: TableDrillScenario): string[] {
@@ -837,6 +998,11 @@ export default function TrainScreen() {
 
   const bottomPadding = 0; // Таббар уже учитывает safe area
 
+  const forecastToday = reviewForecast[0]?.due_count ?? 0;
+  const forecastTomorrow = reviewForecast[1]?.due_count ?? 0;
+  const forecastTotal = reviewForecast.reduce((acc, d) => acc + d.due_count, 0);
+  const forecastMax = Math.max(1, ...reviewForecast.map((d) => d.due_count));
+
   const currentBet = Number(scenario?.villain_bet ?? 0) || 0;
   // Ставка оппонента 0 — показываем «ЧЕК» вместо «КОЛЛ» и «БЕТ» вместо «РЕЙЗ»
   const isCheckToYou = currentBet === 0;
@@ -948,6 +1114,28 @@ export default function TrainScreen() {
            </TouchableOpacity>
         )}
 
+        {!scenario && !isGenerating && reviewForecast.length > 0 && (
+          <View style={styles.forecastBox}>
+            <AppText style={styles.forecastText}>
+              Повторения: сегодня {forecastToday} · завтра {forecastTomorrow} · за {FORECAST_DAYS} дн. {forecastTotal}
+            </AppText>
+            <View style={styles.forecastBars}>
+              {reviewForecast.map((d) => (
+                <View key={d.day} style={styles.forecastBarSlot}>
+                  <View style={[styles.forecastBar, { height: `${Math.max(6, (d.due_count / forecastMax) * 100)}%`, opacity: d.due_count > 0 ? 1 : 0.25 }]} />
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {!scenario && !isGenerating && (offlinePending > 0 || offlinePackCount > 0) && (
+          <AppText style={styles.offlineText}>
+            Для офлайна сохранено раздач: {offlinePackCount}
+            {offlinePending > 0 ? ` · ${offlinePending} ответов ждут синхронизации` : ''}
+          </AppText>
+        )}
+
         {isGenerating && !scenario && (
           <View style={styles.loadingRow}>
             <ActivityIndicator color={THEME.BTN_CALL} size="large" />
@@ -957,17 +1145,39 @@ export default function TrainScreen() {
 
         {tableGradeResult && scenario && (
            <View style={styles.feedbackContainer}>
-              <View style={[styles.feedbackHeader, { backgroundColor: tableGradeResult.isCorrect ? THEME.BTN_CALL : THEME.BTN_FOLD }]}>
-                 <AppText style={styles.feedbackTitle}>{tableGradeResult.isCorrect ? 'ВЕРНОЕ РЕШЕНИЕ' : 'НЕВЕРНОЕ РЕШЕНИЕ'}</AppText>
+              <View style={[styles.feedbackHeader, { backgroundColor: tableGradeResult.ev?.band === 'close' ? THEME.BTN_RAISE : tableGradeResult.isCorrect ? THEME.BTN_CALL : THEME.BTN_FOLD }]}>
+                 <AppText style={styles.feedbackTitle}>
+                   {tableGradeResult.ev?.band === 'close' ? 'БЛИЗКО К ЛУЧШЕМУ' : tableGradeResult.isCorrect ? 'ВЕРНОЕ РЕШЕНИЕ' : 'НЕВЕРНОЕ РЕШЕНИЕ'}
+                 </AppText>
               </View>
               <ScrollView style={styles.feedbackScroll} contentContainerStyle={styles.feedbackScrollContent}>
                 {scenario.action_to_hero ? (
                   <AppText style={styles.feedbackSituation}>Ситуация: {scenario.action_to_hero}</AppText>
                 ) : null}
+                {scenario.villain_range ? (
+                  <AppText style={styles.feedbackSituation}>
+                    Диапазон оппонента: {scenario.villain_range}
+                    {scenario.hero_equity != null ? ` · эквити ${(scenario.hero_equity * 100).toFixed(0)}%` : ''}
+                  </AppText>
+                ) : null}
+                {tableGradeResult.ev ? (
+                  <AppText style={styles.feedbackEv}>
+                    EV: фолд {formatEv(tableGradeResult.ev.evs.fold)} · колл {formatEv(tableGradeResult.ev.evs.call)} · рейз {formatEv(tableGradeResult.ev.evs.raise)} bb
+                    {tableGradeResult.ev.lossBb > 0 ? `\nПотеря: ${tableGradeResult.ev.lossBb.toFixed(1)} bb` : ''}
+                  </AppText>
+                ) : null}
                 <AppText style={styles.feedbackBody}>{tableGradeResult.explanation.replace(/калл/gi, 'колл')}</AppText>
+                {multiHand && multiHand.index < multiHand.hand.steps.length - 1 && multiHand.hand.steps[multiHand.index].villain_response ? (
+                  <AppText style={styles.feedbackVillain}>Дальше в раздаче: {multiHand.hand.steps[multiHand.index].villain_response}</AppText>
+                ) : null}
+                {tableGradeResult.offline ? (
+                  <AppText style={styles.feedbackOffline}>Нет сети: ответ сохранён и будет засчитан после синхронизации.</AppText>
+                ) : null}
               </ScrollView>
               <TouchableOpacity style={styles.btnNext} onPress={closeResultModal} activeOpacity={0.8}>
-                 <AppText style={styles.btnNextText}>СЛЕДУЮЩАЯ РАЗДАЧА</AppText>
+                 <AppText style={styles.btnNextText}>
+                   {multiHand && multiHand.index < multiHand.hand.steps.length - 1 ? 'СЛЕДУЮЩАЯ УЛИЦА' : 'СЛЕДУЮЩАЯ РАЗДАЧА'}
+                 </AppText>
               </TouchableOpacity>
            </View>
         )}
@@ -978,7 +1188,33 @@ export default function TrainScreen() {
               <AppText style={styles.actionHeaderText}>{actionLineText()}</AppText>
             </View>
 
-            {(currentDrillType ?? scenario!.drill_type) === 'raise_sizing' ? (
+            {(currentDrillType ?? scenario!.drill_type) === 'preflop_range' ? (
+               <View style={styles.gridRowSizing}>
+                 {(scenario!.preflop_options ?? []).map((action) => (
+                   <TouchableOpacity
+                     key={action}
+                     style={[styles.btnSizing, { backgroundColor: action === 'fold' ? THEME.BTN_FOLD : action === 'call' ? THEME.BTN_CALL : THEME.BTN_RAISE }]}
+                     onPress={() => selectTableAction(action)}
+                     disabled={isSubmitting}
+                   >
+                     <AppText style={styles.btnActionText}>{PREFLOP_ACTION_LABELS[action]}</AppText>
+                   </TouchableOpacity>
+                 ))}
+               </View>
+            ) : (currentDrillType ?? scenario!.drill_type) === 'push_fold' ? (
+               <View style={styles.gridRowSizing}>
+                 {PUSH_FOLD_ACTIONS.map((action) => (
+                   <TouchableOpacity
+                     key={action}
+                     style={[styles.btnSizing, { backgroundColor: action === 'fold' ? THEME.BTN_FOLD : THEME.BTN_RAISE }]}
+                     onPress={() => selectTableAction(action)}
+                     disabled={isSubmitting}
+                   >
+                     <AppText style={styles.btnActionText}>{PUSH_FOLD_ACTION_LABELS[action]}</AppText>
+                   </TouchableOpacity>
+                 ))}
+               </View>
+            ) : (currentDrillType ?? scenario!.drill_type) === 'raise_sizing' ? (
                <View style={styles.gridRowSizing}>
                  <TouchableOpacity style={styles.btnSizing} onPress={() => selectTableAction('2.5x')} disabled={isSubmitting}><AppText style={styles.btnActionText}>2.5x</AppText></TouchableOpacity>
                  <TouchableOpacity style={styles.btnSizing} onPress={() => selectTableAction('3x')} disabled={isSubmitting}><AppText style={styles.btnActionText}>3x</AppText></TouchableOpacity>
@@ -1135,6 +1371,12 @@ const styles = StyleSheet.create({
   loadingRow: { flexDirection: 'row', justifyContent: 'center', alignItems: 'center', gap: 12, paddingVertical: 30 },
   
   btnStart: { backgroundColor: THEME.BTN_CALL, height: 54, borderRadius: 8, justifyContent: 'center', alignItems: 'center', marginBottom: 8 },
+  forecastBox: { marginBottom: 8, gap: 6 },
+  forecastText: { color: '#9CA3AF', fontSize: 12, textAlign: 'center' },
+  forecastBars: { flexDirection: 'row', alignItems: 'flex-end', height: 28, gap: 3 },
+  forecastBarSlot: { flex: 1, height: '100%', justifyContent: 'flex-end' },
+  forecastBar: { backgroundColor: THEME.BTN_CALL, borderRadius: 2 },
+  offlineText: { color: '#F59E0B', fontSize: 12, textAlign: 'center', marginTop: 8 },
   btnStartText: { color: '#FFF', fontWeight: '900', fontSize: 18, textTransform: 'uppercase', letterSpacing: 1 },
 
   actionsContainer: { paddingBottom: 4 },
@@ -1192,6 +1434,9 @@ const styles = StyleSheet.create({
   feedbackScrollContent: { padding: 16, paddingBottom: 8 },
   feedbackSituation: { color: '#9CA3AF', fontSize: 14, textAlign: 'center', marginBottom: 12, fontStyle: 'italic' },
   feedbackBody: { color: '#E5E7EB', fontSize: 15, textAlign: 'center', lineHeight: 22, fontWeight: '500' },
+  feedbackEv: { color: '#FCD34D', fontSize: 14, textAlign: 'center', marginBottom: 12, fontWeight: '700' },
+  feedbackVillain: { color: '#4C9AFF', fontSize: 14, textAlign: 'center', marginTop: 12, fontWeight: '600' },
+  feedbackOffline: { color: '#F59E0B', fontSize: 13, textAlign: 'center', marginTop: 12 },
   btnNext: { backgroundColor: THEME.BTN_CALL, margin: 16, marginTop: 0, height: 56, borderRadius: 8, justifyContent: 'center', alignItems: 'center' },
   btnNextText: { color: '#FFF', fontWeight: '900', fontSize: 16, textTransform: 'uppercase' },
 });
\ No newline at end of file
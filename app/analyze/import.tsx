@@ -0,0 +1,586 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import * as Clipboard from 'expo-clipboard';
+import { ScreenWrapper } from '../../components/ScreenWrapper';
+import { AppText } from '../../components/AppText';
+import { Card } from '../../components/Card';
+import { supabase } from '../../lib/supabase';
+import { ensureSession } from '../../lib/ensureSession';
+import { callEdge, isLimitReachedError } from '../../lib/edge';
+import {
+  REVIEW_FLAG_LABELS,
+  groupIntoSessions,
+  parseHandHistoryFile,
+  quickFormInputFromRaw,
+  toHandInsert,
+  type ImportParseResult,
+  type SessionGroup,
+} from '../../lib/handImport';
+import type { ReviewFlag } from '../../lib/handHistory';
+import { currencyFromSymbol } from '../../lib/bankroll';
+import type { BankrollSessionRow, HandRow, Profile } from '../../types/database';
+
+type ReviewHand = Pick<
+  HandRow,
+  'id' | 'site' | 'hand_id' | 'played_at' | 'stakes' | 'hero_pos' | 'hero_cards' | 'pot_bb' | 'hero_net_bb' | 'review_flags' | 'raw_text'
+>;
+
+/** Session choice per group: null = create a new bankroll session. */
+type GroupTarget = string | null;
+
+const RECENT_SESSIONS_LIMIT = 5;
+const REVIEW_LIST_LIMIT = 100;
+
+/** Румы для поля «клуб / сайт» новой сессии банкролла. */
+const SITE_LABELS: Record<string, string> = { pokerstars: 'PokerStars', ggpoker: 'GGPoker', pokerok: 'Pokerok' };
+
+/** Длительность группы по времени первой и последней руки; null, если времени нет. */
+function sessionMinutes(group: SessionGroup): number | null {
+  if (!group.start || !group.end) return null;
+  return Math.max(1, Math.round((group.end.getTime() - group.start.getTime()) / 60000));
+}
+
+function formatDateTime(d: Date | string | null): string {
+  if (!d) return '—';
+  const date = typeof d === 'string' ? new Date(d) : d;
+  return date.toLocaleString('ru-RU', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+}
+
+function formatSigned(n: number, digits = 2): string {
+  return `${n >= 0 ? '+' : ''}${n.toFixed(digits)}`;
+}
+
+export default function ImportHandsScreen() {
+  const router = useRouter();
+  const [text, setText] = useState('');
+  const [parsed, setParsed] = useState<ImportParseResult | null>(null);
+  const [groups, setGroups] = useState<SessionGroup[]>([]);
+  const [targets, setTargets] = useState<GroupTarget[]>([]);
+  const [recentSessions, setRecentSessions] = useState<BankrollSessionRow[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [importSummary, setImportSummary] = useState<string | null>(null);
+
+  const [reviewHands, setReviewHands] = useState<ReviewHand[]>([]);
+  const [reviewLoading, setReviewLoading] = useState(true);
+  const [flaggedOnly, setFlaggedOnly] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [analyzing, setAnalyzing] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+
+  const loadRecentSessions = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('bankroll_sessions')
+      .select('*')
+      .order('date', { ascending: false })
+      .limit(RECENT_SESSIONS_LIMIT);
+    if (!error) setRecentSessions((data as BankrollSessionRow[]) ?? []);
+  }, []);
+
+  const loadReviewHands = useCallback(async () => {
+    setReviewLoading(true);
+    const { data, error } = await supabase
+      .from('hands')
+      .select('id, site, hand_id, played_at, stakes, hero_pos, hero_cards, pot_bb, hero_net_bb, review_flags, raw_text')
+      .is('analysis_id', null)
+      .order('played_at', { ascending: false })
+      .limit(REVIEW_LIST_LIMIT);
+    if (!error) setReviewHands((data as ReviewHand[]) ?? []);
+    setReviewLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadRecentSessions();
+    loadReviewHands();
+  }, [loadRecentSessions, loadReviewHands]);
+
+  // Flagged hands first, then the rest (newest first within each part)
+  const visibleReviewHands = useMemo(() => {
+    const flagged = reviewHands.filter((h) => h.review_flags.length > 0);
+    if (flaggedOnly) return flagged;
+    return [...flagged, ...reviewHands.filter((h) => h.review_flags.length === 0)];
+  }, [reviewHands, flaggedOnly]);
+
+  const handlePaste = async () => {
+    const clip = await Clipboard.getStringAsync();
+    if (clip) setText(clip);
+  };
+
+  const handleParse = () => {
+    const result = parseHandHistoryFile(text);
+    const nextGroups = groupIntoSessions(result.hands);
+    setParsed(result);
+    setGroups(nextGroups);
+    setTargets(nextGroups.map(() => null));
+    setImportSummary(null);
+    if (result.hands.length === 0) {
+      Alert.alert('Ничего не найдено', 'Не удалось распознать ни одной раздачи PokerStars, GGPoker или Pokerok.');
+    }
+  };
+
+  const setGroupTarget = (index: number, target: GroupTarget) => {
+    setTargets((prev) => prev.map((t, i) => (i === index ? target : t)));
+  };
+
+  const handleImport = async () => {
+    if (groups.length === 0) return;
+    setImporting(true);
+    try {
+      await ensureSession();
+      const { data: { session } } = await supabase.auth.getSession();
+      const userId = session?.user?.id;
+      if (!userId) throw new Error('Failed to create session');
+      let inserted = 0;
+      let total = 0;
+
+      for (let i = 0; i < groups.length; i++) {
+        const group = groups[i];
+        let sessionId = targets[i];
+
+        if (!sessionId) {
+          const { data, error } = await supabase
+            .from('bankroll_sessions')
+            .insert({
+              user_id: userId,
+              date: (group.start ?? new Date()).toISOString(),
+              started_at: group.start ? group.start.toISOString() : null,
+              game_type: group.isTournament ? 'MTT' : 'Cash',
+              buy_in: group.firstStack,
+              cash_out: Math.max(0, group.firstStack + group.net),
+              stakes: group.stakes || null,
+              big_blind: group.isTournament ? null : group.hands[0]?.hh.big_blind || null,
+              hands_played: group.isTournament ? null : group.hands.length,
+              duration_minutes: sessionMinutes(group),
+              venue: SITE_LABELS[group.hands[0]?.hh.site] ?? null,
+              currency: currencyFromSymbol(group.currency),
+              notes: `Импорт: ${group.hands.length} рук${group.stakes ? `, ${group.stakes}` : ''}`,
+            } as any)
+            .select('id')
+            .single();
+          if (error) throw error;
+          sessionId = (data as { id: string }).id;
+        }
+
+        const rows = group.hands.map((h) => toHandInsert(h, userId, sessionId));
+        const { data, error } = await supabase
+          .from('hands')
+          .upsert(rows as any, { onConflict: 'user_id,site,hand_id', ignoreDuplicates: true })
+          .select('id');
+        if (error) throw error;
+        inserted += ((data as { id: string }[]) ?? []).length;
+        total += rows.length;
+      }
+
+      const skipped = total - inserted;
+      setImportSummary(
+        `Импортировано ${inserted} рук` + (skipped > 0 ? ` · ${skipped} уже были загружены ранее` : ''),
+      );
+      setText('');
+      setParsed(null);
+      setGroups([]);
+      setTargets([]);
+      loadRecentSessions();
+      loadReviewHands();
+    } catch (err: any) {
+      console.error('[Import] error:', err);
+      Alert.alert('Ошибка', err?.message ?? 'Не удалось импортировать руки');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleAnalyzeSelected = async () => {
+    const picked = visibleReviewHands.filter((h) => selected.has(h.id));
+    if (picked.length === 0) return;
+    setAnalyzing(true);
+
+    let done = 0;
+    try {
+      await ensureSession();
+      const { data: { session } } = await supabase.auth.getSession();
+      const userId = session?.user?.id;
+      if (!userId) throw new Error('Failed to create session');
+      const { data: profileData } = await supabase
+        .from('profiles')
+        .select('coach_style')
+        .eq('id', userId)
+        .maybeSingle<Pick<Profile, 'coach_style'>>();
+      const coachStyle = profileData?.coach_style ?? 'MENTAL';
+
+      // Sequential on purpose: each call counts against the daily analysis limit
+      for (const hand of picked) {
+        setProgress(`Разбор ${done + 1} из ${picked.length}…`);
+        const input = quickFormInputFromRaw(hand.raw_text);
+        if (!input) continue;
+        const data = await callEdge('ai-analyze-hand', { input, coach_style: coachStyle });
+        await supabase
+          .from('hands')
+          // @ts-expect-error Supabase types infer Update as never; analysis_id is valid in DB
+          .update({ analysis_id: data.analysis_id })
+          .eq('id', hand.id);
+        done++;
+      }
+      Alert.alert('Готово', `Разобрано рук: ${done}. Разборы появятся в истории.`);
+    } catch (err: any) {
+      if (isLimitReachedError(err)) {
+        const msg = err?.message ?? 'Достигнут лимит разборов на сегодня. Перейдите на PRO.';
+        Alert.alert('Лимит достигнут', `${msg}\n\nУспели разобрать: ${done}.`, [
+          { text: 'OK', onPress: () => router.push('/paywall') },
+        ]);
+      } else {
+        console.error('[Import] analyze error:', err);
+        Alert.alert('Ошибка', err?.message ?? 'Неизвестная ошибка');
+      }
+    } finally {
+      setSelected(new Set());
+      setProgress(null);
+      setAnalyzing(false);
+      loadReviewHands();
+    }
+  };
+
+  const renderFlags = (flags: string[]) =>
+    flags.length > 0 ? (
+      <View style={styles.flagRow}>
+        {flags.map((f) => (
+          <View key={f} style={styles.flagChip}>
+            <AppText variant="caption" color="#FFB74D">{REVIEW_FLAG_LABELS[f as ReviewFlag] ?? f}</AppText>
+          </View>
+        ))}
+      </View>
+    ) : null;
+
+  return (
+    <ScreenWrapper>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <TouchableOpacity onPress={() => router.back()}>
+              <AppText variant="body" color="#4C9AFF">← Назад</AppText>
+            </TouchableOpacity>
+            <AppText variant="h1" style={styles.title}>Импорт сессии</AppText>
+            <AppText variant="caption" color="#A7B0C0">
+              Вставь историю рук PokerStars, GGPoker или Pokerok — руки разобьются на сессии, дубли отсеются.
+            </AppText>
+          </View>
+
+          <Card style={styles.card}>
+            <View style={styles.rowBetween}>
+              <AppText variant="label">ИСТОРИЯ РУК</AppText>
+              <TouchableOpacity onPress={handlePaste} disabled={importing}>
+                <AppText variant="body" color="#4C9AFF">Вставить из буфера</AppText>
+              </TouchableOpacity>
+            </View>
+            <TextInput
+              style={styles.textArea}
+              placeholder="PokerStars Hand #…"
+              placeholderTextColor="#65708A"
+              value={text}
+              onChangeText={setText}
+              multiline
+              textAlignVertical="top"
+              editable={!importing}
+            />
+            <TouchableOpacity
+              style={[styles.primaryButton, (!text.trim() || importing) && styles.buttonDisabled]}
+              onPress={handleParse}
+              disabled={!text.trim() || importing}
+            >
+              <AppText variant="h3" color="#FFFFFF">Разобрать файл</AppText>
+            </TouchableOpacity>
+          </Card>
+
+          {parsed && parsed.hands.length > 0 && (
+            <Card style={styles.card}>
+              <AppText variant="label">НАЙДЕНО</AppText>
+              <AppText variant="body" style={styles.summaryText}>
+                {parsed.hands.length} рук · {groups.length} сесс.
+                {parsed.duplicatesInFile > 0 ? ` · ${parsed.duplicatesInFile} дублей` : ''}
+                {parsed.unparsed > 0 ? ` · ${parsed.unparsed} не распознано` : ''}
+              </AppText>
+
+              {groups.map((group, i) => {
+                const flagged = group.hands.filter((h) => h.flags.length > 0).length;
+                return (
+                  <View key={i} style={styles.groupBlock}>
+                    <View style={styles.rowBetween}>
+                      <AppText variant="body" color="#FFFFFF">
+                        {formatDateTime(group.start)} — {formatDateTime(group.end)}
+                      </AppText>
+                      <AppText
+                        variant="body"
+                        style={group.net >= 0 ? styles.profitPositive : styles.profitNegative}
+                      >
+                        {formatSigned(group.net)}
+                      </AppText>
+                    </View>
+                    <AppText variant="caption" color="#A7B0C0">
+                      {group.isTournament ? 'Турнир' : 'Кэш'}{group.stakes ? ` · ${group.stakes}` : ''} · {group.hands.length} рук
+                      {flagged > 0 ? ` · ${flagged} на разбор` : ''}
+                    </AppText>
+                    <View style={styles.chipRow}>
+                      <TouchableOpacity
+                        style={[styles.chip, targets[i] === null && styles.chipActive]}
+                        onPress={() => setGroupTarget(i, null)}
+                      >
+                        <AppText variant="caption" color={targets[i] === null ? '#FFFFFF' : '#A7B0C0'}>
+                          Новая сессия
+                        </AppText>
+                      </TouchableOpacity>
+                      {recentSessions.map((s) => (
+                        <TouchableOpacity
+                          key={s.id}
+                          style={[styles.chip, targets[i] === s.id && styles.chipActive]}
+                          onPress={() => setGroupTarget(i, s.id)}
+                        >
+                          <AppText variant="caption" color={targets[i] === s.id ? '#FFFFFF' : '#A7B0C0'}>
+                            {new Date(s.date).toLocaleDateString('ru-RU')} · {s.game_type}
+                          </AppText>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </View>
+                );
+              })}
+
+              <TouchableOpacity
+                style={[styles.primaryButton, importing && styles.buttonDisabled]}
+                onPress={handleImport}
+                disabled={importing}
+              >
+                {importing ? (
+                  <ActivityIndicator color="#FFFFFF" />
+                ) : (
+                  <AppText variant="h3" color="#FFFFFF">Импортировать {parsed.hands.length} рук</AppText>
+                )}
+              </TouchableOpacity>
+            </Card>
+          )}
+
+          {importSummary && (
+            <Card style={styles.card}>
+              <AppText variant="body" color="#4CAF50">{importSummary}</AppText>
+            </Card>
+          )}
+
+          <Card style={styles.card}>
+            <View style={styles.rowBetween}>
+              <AppText variant="label">РУКИ НА РАЗБОР</AppText>
+              <TouchableOpacity onPress={() => setFlaggedOnly((v) => !v)}>
+                <AppText variant="caption" color="#4C9AFF">
+                  {flaggedOnly ? 'Показать все' : 'Только помеченные'}
+                </AppText>
+              </TouchableOpacity>
+            </View>
+
+            {reviewLoading ? (
+              <ActivityIndicator color="#4C9AFF" style={styles.reviewLoading} />
+            ) : visibleReviewHands.length === 0 ? (
+              <AppText variant="caption" color="#65708A" style={styles.summaryText}>
+                {flaggedOnly ? 'Нет помеченных рук без разбора' : 'Нет рук без разбора'}
+              </AppText>
+            ) : (
+              visibleReviewHands.map((h) => {
+                const isSelected = selected.has(h.id);
+                return (
+                  <TouchableOpacity
+                    key={h.id}
+                    style={[styles.handRow, isSelected && styles.handRowSelected]}
+                    onPress={() => toggleSelected(h.id)}
+                    disabled={analyzing}
+                  >
+                    <View style={[styles.checkbox, isSelected && styles.checkboxChecked]}>
+                      {isSelected && <AppText variant="caption" color="#FFFFFF">✓</AppText>}
+                    </View>
+                    <View style={styles.handInfo}>
+                      <View style={styles.rowBetween}>
+                        <AppText variant="body" color="#FFFFFF">
+                          {h.hero_cards ?? '??'} · {h.hero_pos ?? '—'}
+                        </AppText>
+                        {h.hero_net_bb != null && (
+                          <AppText
+                            variant="body"
+                            style={h.hero_net_bb >= 0 ? styles.profitPositive : styles.profitNegative}
+                          >
+                            {formatSigned(h.hero_net_bb, 1)} BB
+                          </AppText>
+                        )}
+                      </View>
+                      <AppText variant="caption" color="#65708A">
+                        {formatDateTime(h.played_at)}{h.stakes ? ` · ${h.stakes}` : ''}
+                        {h.pot_bb != null ? ` · банк ${h.pot_bb} BB` : ''}
+                      </AppText>
+                      {renderFlags(h.review_flags)}
+                    </View>
+                  </TouchableOpacity>
+                );
+              })
+            )}
+
+            <TouchableOpacity
+              style={[styles.primaryButton, (selected.size === 0 || analyzing) && styles.buttonDisabled]}
+              onPress={handleAnalyzeSelected}
+              disabled={selected.size === 0 || analyzing}
+            >
+              {analyzing ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <AppText variant="h3" color="#FFFFFF">Разобрать выбранные ({selected.size})</AppText>
+              )}
+            </TouchableOpacity>
+            {progress && (
+              <AppText variant="caption" color="#A7B0C0" style={styles.progressText}>{progress}</AppText>
+            )}
+          </Card>
+        </View>
+      </ScrollView>
+    </ScreenWrapper>
+  );
+}
+
+const styles = StyleSheet.create({
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: 40,
+  },
+  container: {
+    flex: 1,
+    gap: 16,
+  },
+  header: {
+    gap: 8,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 28,
+  },
+  card: {
+    padding: 20,
+    gap: 12,
+  },
+  rowBetween: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  textArea: {
+    backgroundColor: '#0A0E14',
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 14,
+    color: '#FFFFFF',
+    fontSize: 13,
+    minHeight: 160,
+    maxHeight: 260,
+  },
+  primaryButton: {
+    backgroundColor: '#4C9AFF',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  summaryText: {
+    marginTop: 4,
+  },
+  groupBlock: {
+    gap: 6,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.06)',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 4,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#0A0E14',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  chipActive: {
+    backgroundColor: 'rgba(76, 154, 255, 0.15)',
+    borderColor: '#4C9AFF',
+  },
+  profitPositive: {
+    color: '#4CAF50',
+  },
+  profitNegative: {
+    color: '#F44336',
+  },
+  reviewLoading: {
+    marginVertical: 16,
+  },
+  handRow: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#0A0E14',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.06)',
+  },
+  handRowSelected: {
+    borderColor: '#4C9AFF',
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: '#65708A',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 2,
+  },
+  checkboxChecked: {
+    backgroundColor: '#4C9AFF',
+    borderColor: '#4C9AFF',
+  },
+  handInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  flagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  flagChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 183, 77, 0.12)',
+  },
+  progressText: {
+    textAlign: 'center',
+  },
+});
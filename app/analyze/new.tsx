@@ -19,6 +19,8 @@ import { Card } from '../../components/Card';
 import { supabase } from '../../lib/supabase';
 import { ensureSession } from '../../lib/ensureSession';
 import { callEdge, callEdgeOcr, callEdgeParseHandText, isLimitReachedError } from '../../lib/edge';
+import { formatRange, parseRange, rangeErrorText, RangeParseError } from '../../lib/ranges';
+import { usageHint, type UsageSummary } from '../../lib/quota';
 import { CoachStyle } from '../../types/hand';
 import { Profile } from '../../types/database';
 
@@ -126,6 +128,9 @@ export default function QuickAnalyzeScreen() {
   const [heroCards, setHeroCards] = useState('');
   const [stackBb, setStackBb] = useState('');
   const [preflopAction, setPreflopAction] = useState('');
+  const [villainRange, setVillainRange] = useState('');
+  // Postflop action lines from Extract (not editable in Quick mode, sent as streets.*)
+  const [postflopStreets, setPostflopStreets] = useState<{ flop: string; turn: string; river: string }>({ flop: '', turn: '', river: '' });
   const [boardFlop, setBoardFlop] = useState('');
   const [boardTurn, setBoardTurn] = useState('');
   const [boardRiver, setBoardRiver] = useState('');
@@ -151,6 +156,8 @@ export default function QuickAnalyzeScreen() {
 
   // Quick Form defaults (load/save between sessions)
   const [quickFormDefaults, setQuickFormDefaults] = useState<QuickFormDefaults | null>(null);
+  // Дневные лимиты (get-usage): подсказка «осталось N из M» до ошибки LIMIT_REACHED
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
   const [showUsingDefaultsMessage, setShowUsingDefaultsMessage] = useState(false);
 
   const positions: Position[] = ['BTN', 'CO', 'MP', 'UTG', 'SB', 'BB'];
@@ -171,6 +178,16 @@ export default function QuickAnalyzeScreen() {
     loadProfile();
   }, []);
 
+  function loadUsage() {
+    callEdge('get-usage', {})
+      .then((data) => setUsage(data as UsageSummary))
+      .catch(() => setUsage(null));
+  }
+
+  useEffect(() => {
+    loadUsage();
+  }, []);
+
   // Load Auto-analyze preference from AsyncStorage
   useEffect(() => {
     AsyncStorage.getItem(OCR_AUTO_ANALYZE_KEY).then((value) => {
@@ -277,6 +294,7 @@ export default function QuickAnalyzeScreen() {
       } as any);
 
       const data = await callEdgeOcr(formData);
+      loadUsage();
       const extracted = typeof data?.text === 'string' ? data.text.trim() : '';
       const truncated = Boolean(data?.meta?.truncated);
       setRawText(extracted);
@@ -295,7 +313,12 @@ export default function QuickAnalyzeScreen() {
         }
       }
     } catch (err: any) {
-      if (err?.code === 'not_hand_history') {
+      if (isLimitReachedError(err)) {
+        Alert.alert('Лимит достигнут', err?.message ?? 'Достигнут лимит распознаваний на сегодня.', [
+          { text: 'OK', onPress: () => router.push('/paywall') },
+        ]);
+        setError(null);
+      } else if (err?.code === 'not_hand_history') {
         Alert.alert(
           'Не похоже на историю раздачи',
           'Попробуй другой скрин (история рук/HH).'
@@ -335,6 +358,8 @@ export default function QuickAnalyzeScreen() {
         setStakes(stakesRaw.length > 32 ? stakesRaw.slice(0, 32) : stakesRaw);
         setStackBb(hand.effective_stack_bb != null ? String(hand.effective_stack_bb) : '');
         setPreflopAction(hand.preflop || '');
+        if (hand.hero_cards) setHeroCards(hand.hero_cards);
+        setPostflopStreets({ flop: hand.flop ?? '', turn: hand.turn ?? '', river: hand.river ?? '' });
         if (hand.board != null) {
           setBoardFlop(hand.board.flop ?? '');
           setBoardTurn(hand.board.turn ?? '');
@@ -393,6 +418,14 @@ export default function QuickAnalyzeScreen() {
           return;
         }
         setBoardErrorFields({});
+        if (villainRange.trim()) {
+          try {
+            parseRange(villainRange);
+          } catch (e) {
+            Alert.alert('Диапазон оппонента', e instanceof RangeParseError ? rangeErrorText(e) : 'Некорректный диапазон');
+            return;
+          }
+        }
       }
     }
 
@@ -428,9 +461,9 @@ export default function QuickAnalyzeScreen() {
           effective_stack_bb: stackNum,
           streets: {
             preflop: preflop,
-            flop: '',
-            turn: '',
-            river: '',
+            flop: quickFormSource === 'ocr_extract' ? postflopStreets.flop : '',
+            turn: quickFormSource === 'ocr_extract' ? postflopStreets.turn : '',
+            river: quickFormSource === 'ocr_extract' ? postflopStreets.river : '',
           },
           board_structured: boardStructured,
           source: quickFormSource,
@@ -438,6 +471,7 @@ export default function QuickAnalyzeScreen() {
           hero_cards: heroCards.trim() || undefined,
           stack_bb: stackNum,
           action_preflop: preflop,
+          villain_range: villainRange.trim() ? formatRange(parseRange(villainRange)) : undefined,
         };
       }
 
@@ -490,6 +524,9 @@ export default function QuickAnalyzeScreen() {
     }
   }
 
+  const analysisUsageHint = usageHint('hand_analysis', usage?.features.hand_analysis);
+  const ocrUsageHint = usageHint('ocr', usage?.features.ocr);
+
   return (
     <ScreenWrapper>
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
@@ -579,6 +616,10 @@ export default function QuickAnalyzeScreen() {
             </TouchableOpacity>
           </View>
 
+          <TouchableOpacity onPress={() => router.push('/analyze/import')} style={styles.importLink}>
+            <AppText variant="body" color="#4C9AFF">Импортировать сессию из истории рук →</AppText>
+          </TouchableOpacity>
+
           {/* Text mode */}
           {mode === 'text' && (
             <Card style={styles.card}>
@@ -667,6 +708,9 @@ export default function QuickAnalyzeScreen() {
               <AppText variant="caption" style={styles.screenshotHint}>
                 После распознавания текст попадёт в режим «Текст» — можно отредактировать и нажать «Запустить разбор».
               </AppText>
+              {ocrUsageHint && (
+                <AppText variant="caption" style={styles.usageHint}>{ocrUsageHint}</AppText>
+              )}
             </Card>
           )}
 
@@ -806,6 +850,22 @@ export default function QuickAnalyzeScreen() {
                 />
               </View>
 
+              {/* Villain range */}
+              <View style={styles.inputGroup}>
+                <AppText variant="label" style={styles.inputLabel}>
+                  ДИАПАЗОН ОППОНЕНТА (опционально)
+                </AppText>
+                <TextInput
+                  style={styles.input}
+                  placeholder="Например: 22+, A2s+, KTo+, 76s-54s"
+                  placeholderTextColor="#65708A"
+                  autoCapitalize="none"
+                  value={villainRange}
+                  onChangeText={setVillainRange}
+                  editable={!loading}
+                />
+              </View>
+
               {/* Board: flop / turn / river */}
               <View style={[styles.inputGroup, lowConfidenceHighlight && styles.inputGroupLowConfidence]}>
                 <AppText variant="label" style={styles.inputLabel}>
@@ -863,6 +923,9 @@ export default function QuickAnalyzeScreen() {
               </AppText>
             )}
           </TouchableOpacity>
+          {analysisUsageHint && (
+            <AppText variant="caption" style={styles.usageHint}>{analysisUsageHint}</AppText>
+          )}
         </View>
       </ScrollView>
     </ScreenWrapper>
@@ -907,6 +970,9 @@ const styles = StyleSheet.create({
   modeButtonText: {
     fontWeight: '600',
   },
+  importLink: {
+    alignItems: 'center',
+  },
   card: {
     padding: 20,
   },
@@ -996,6 +1062,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontSize: 16,
   },
+  usageHint: {
+    color: '#A7B0C0',
+    textAlign: 'center',
+    marginTop: 8,
+  },
   coachStyleGrid: {
     flexDirection: 'row',
     gap: 12,
@@ -24,6 +24,7 @@ import { ScreenWrapper } from '../../components/ScreenWrapper';
 import { AppText } from '../../components/AppText';
 import { Card } from '../../components/Card';
 import { callEdge, isLimitReachedError } from '../../lib/edge';
+import { usageHint, type UsageSummary } from '../../lib/quota';
 
 /** One item from coach_memory (frontend select). similarity optional; confidence from recency. */
 type MemoryItem = {
@@ -156,6 +157,7 @@ export default function CoachChatScreen() {
   const [loading, setLoading] = useState(false);
   const [loadingContext, setLoadingContext] = useState(false);
   const [loadingThread, setLoadingThread] = useState(true);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [recording, setRecording] = useState<Audio.Recording | null>(null);
   const [isRecording, setIsRecording] = useState(false);
@@ -280,6 +282,14 @@ export default function CoachChatScreen() {
     scrollIntentRef.current = false;
   }, [messages]);
 
+  // Дневной лимит сообщений (get-usage): при открытии и после каждого ответа
+  useEffect(() => {
+    if (loading) return;
+    callEdge('get-usage', {})
+      .then((data) => setUsage(data as UsageSummary))
+      .catch(() => setUsage(null));
+  }, [loading]);
+
   // Load thread and messages: by thread_id param or last thread; handle leakTag (create/update thread.leak_tag)
   const effectiveThreadId = typeof paramThreadId === 'string' ? paramThreadId : Array.isArray(paramThreadId) ? paramThreadId[0] : undefined;
   const normalizedLeakTag = (typeof paramLeakTag === 'string' ? normalizeLeakTag(paramLeakTag) : '') || null;
@@ -822,12 +832,14 @@ export default function CoachChatScreen() {
                 mode: 'continue',
                 continue_context: { partial_assistant_text: continueContext!.partial_assistant_text },
                 coach_style: coachStyle ?? undefined,
+                tz_offset_minutes: new Date().getTimezoneOffset(),
                 stream: false,
               }
             : {
                 thread_id: threadId,
                 message: trimmed,
                 coach_style: coachStyle ?? undefined,
+                tz_offset_minutes: new Date().getTimezoneOffset(),
                 stream: false,
               }
         ),
@@ -1397,6 +1409,8 @@ export default function CoachChatScreen() {
     );
   };
 
+  const messageUsageHint = usageHint('coach_message', usage?.features.coach_message);
+
   return (
     <ScreenWrapper style={styles.wrapper}>
       <KeyboardAvoidingView
@@ -1709,6 +1723,9 @@ export default function CoachChatScreen() {
               </AppText>
             </View>
           )}
+          {messageUsageHint && (
+            <AppText variant="caption" style={styles.usageHint}>{messageUsageHint}</AppText>
+          )}
           <View style={styles.inputRow}>
             <TextInput
               style={styles.input}
@@ -2212,6 +2229,10 @@ const styles = StyleSheet.create({
     fontStyle: 'italic',
     opacity: 0.7,
   },
+  usageHint: {
+    fontSize: 12,
+    color: '#A7B0C0',
+  },
   inputRow: {
     flexDirection: 'row',
     gap: 12,
@@ -1,11 +1,46 @@
-import React, { useEffect, useState } from 'react';
-import { ActivityIndicator, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
+import React, { useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { ScreenWrapper } from '../../components/ScreenWrapper';
 import { AppText } from '../../components/AppText';
 import { Card } from '../../components/Card';
+import { HandReplayer } from '../../components/HandReplayer';
 import { supabase } from '../../lib/supabase';
-import { HandAnalysis } from '../../types/hand';
+import { ensureSession } from '../../lib/ensureSession';
+import { callEdge, isLimitReachedError } from '../../lib/edge';
+import { parseHandHistory } from '../../lib/handHistory';
+import {
+  pinCoachNotes,
+  replayFromHandHistory,
+  replayFromQuickForm,
+  type QuickFormReplayInput,
+  type Replay,
+} from '../../lib/replay';
+import {
+  DECISION_STREET_LABEL,
+  DECISION_VERDICT_LABEL,
+  totalEvLossBb,
+  worstDecisionIndex,
+  type DecisionVerdict,
+} from '../../lib/handDecisions';
+import {
+  ANALYSIS_REVISION_MODELS,
+  MAX_ANALYSIS_REVISIONS,
+  adviceStability,
+  compareRevisions,
+  recommendedAction,
+  type AnalysisRevision,
+  type AnalysisRevisionModel,
+} from '../../lib/analysisRevisions';
+import { CoachStyle, HandAnalysis } from '../../types/hand';
+
+const COACH_STYLES: CoachStyle[] = ['TOXIC', 'MENTAL', 'MATH'];
+
+const VERDICT_COLOR: Record<DecisionVerdict, string> = {
+  correct: '#4CAF50',
+  marginal: '#FF9800',
+  mistake: '#F44336',
+};
 
 export default function HandDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -13,6 +48,12 @@ export default function HandDetailScreen() {
   const [analysis, setAnalysis] = useState<HandAnalysis | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [importedRawText, setImportedRawText] = useState<string | null>(null);
+  // Revisions of this hand (first analysis + re-runs), oldest first
+  const [revisions, setRevisions] = useState<AnalysisRevision[]>([]);
+  const [rerunStyle, setRerunStyle] = useState<CoachStyle>('MATH');
+  const [rerunModel, setRerunModel] = useState<AnalysisRevisionModel | null>(null);
+  const [rerunning, setRerunning] = useState(false);
 
   useEffect(() => {
     loadAnalysis();
@@ -36,6 +77,16 @@ export default function HandDetailScreen() {
       if (fetchError) throw fetchError;
 
       setAnalysis(data);
+      const loaded = data as HandAnalysis;
+      await loadRevisions(loaded.parent_id ?? loaded.id);
+
+      // Imported hands keep the room hand history, which replays with real seats and stacks
+      const { data: handRow } = await supabase
+        .from('hands')
+        .select('raw_text')
+        .eq('analysis_id', id)
+        .maybeSingle<{ raw_text: string }>();
+      setImportedRawText(handRow?.raw_text ?? null);
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Ошибка загрузки');
     } finally {
@@ -43,6 +94,62 @@ export default function HandDetailScreen() {
     }
   }
 
+  async function loadRevisions(rootId: string) {
+    const { data, error: revisionsError } = await supabase
+      .from('hand_analyses')
+      .select('id, revision, coach_style, model, result, created_at')
+      .or(`id.eq.${rootId},parent_id.eq.${rootId}`)
+      .eq('is_deleted', false)
+      .order('revision', { ascending: true });
+    if (revisionsError) {
+      console.error('[HandDetail] Failed to load revisions:', revisionsError);
+      return;
+    }
+    setRevisions((data ?? []) as AnalysisRevision[]);
+  }
+
+  async function handleRerun() {
+    if (!analysis) return;
+    const rootId = analysis.parent_id ?? analysis.id;
+    setRerunning(true);
+    try {
+      await ensureSession();
+      await callEdge('ai-analyze-hand', {
+        revision_of: rootId,
+        coach_style: rerunStyle,
+        ...(rerunModel ? { model: rerunModel } : {}),
+      });
+      await loadRevisions(rootId);
+    } catch (err: any) {
+      const msg = err?.message ?? 'Не удалось перезапустить разбор';
+      console.error('[HandDetail] re-run error:', err);
+      if (isLimitReachedError(err)) {
+        Alert.alert('Лимит достигнут', msg, [{ text: 'OK', onPress: () => router.push('/paywall') }]);
+      } else if (msg.includes('revision_limit')) {
+        Alert.alert('Слишком много версий', `У раздачи уже ${MAX_ANALYSIS_REVISIONS} версий разбора.`);
+      } else {
+        Alert.alert('Ошибка', msg);
+      }
+    } finally {
+      setRerunning(false);
+    }
+  }
+
+  const replay = useMemo((): Replay | null => {
+    if (!analysis) return null;
+    const hh = parseHandHistory(importedRawText ?? analysis.input?.raw_text ?? '');
+    const base = hh
+      ? replayFromHandHistory(hh)
+      : replayFromQuickForm((analysis.input ?? {}) as QuickFormReplayInput);
+    if (!base || base.steps.length < 2) return null;
+    return pinCoachNotes(
+      base,
+      analysis.result?.why ?? [],
+      analysis.result?.strategy_next ?? [],
+      analysis.result?.decisions ?? [],
+    );
+  }, [analysis, importedRawText]);
+
   function formatDate(dateStr: string) {
     const date = new Date(dateStr);
     return date.toLocaleString('ru-RU', {
@@ -84,6 +191,11 @@ export default function HandDetailScreen() {
   }
 
   const { result } = analysis;
+  const decisions = result?.decisions ?? [];
+  const worstIndex = worstDecisionIndex(decisions);
+  const evLoss = totalEvLossBb(decisions);
+  const baseRevision = revisions[0] ?? null;
+  const stability = adviceStability(revisions);
   const confidenceColor =
     result?.confidence === 'HIGH' ? '#4CAF50' :
     result?.confidence === 'MEDIUM' ? '#FF9800' : '#F44336';
@@ -102,6 +214,57 @@ export default function HandDetailScreen() {
             </AppText>
           </View>
 
+          {/* Replayer */}
+          {replay && (
+            <Card style={styles.card}>
+              <AppText variant="h3" style={styles.sectionTitle}>Реплеер</AppText>
+              <HandReplayer replay={replay} />
+            </Card>
+          )}
+
+          {/* Решения Hero по улицам: где раздача пошла не так */}
+          {decisions.length > 0 && (
+            <Card style={styles.card}>
+              <AppText variant="h3" style={styles.sectionTitle}>Решения по улицам</AppText>
+              {evLoss > 0 && (
+                <AppText variant="caption" color="#F44336" style={styles.evLossTotal}>
+                  Потеря за раздачу: −{evLoss} BB
+                </AppText>
+              )}
+              {decisions.map((d, idx) => (
+                <View
+                  key={idx}
+                  style={[
+                    styles.decisionRow,
+                    { borderLeftColor: VERDICT_COLOR[d.verdict] },
+                    idx === worstIndex && styles.decisionRowWorst,
+                  ]}
+                >
+                  <View style={styles.decisionHeader}>
+                    <AppText variant="label" color="#A7B0C0">{DECISION_STREET_LABEL[d.street]}</AppText>
+                    <AppText variant="label" color={VERDICT_COLOR[d.verdict]}>
+                      {DECISION_VERDICT_LABEL[d.verdict]}
+                      {d.ev_loss_bb > 0 ? ` · −${d.ev_loss_bb} BB` : ''}
+                    </AppText>
+                  </View>
+                  <AppText variant="body">
+                    {d.hero_action}
+                    {d.verdict !== 'correct' && d.recommended_action !== d.hero_action ? ` → ${d.recommended_action}` : ''}
+                  </AppText>
+                  {!!d.comment && (
+                    <AppText variant="caption" color="#A7B0C0">{d.comment}</AppText>
+                  )}
+                  {d.leak_tag && d.verdict === 'mistake' && (
+                    <AppText variant="caption" style={styles.leakTag}>{d.leak_tag}</AppText>
+                  )}
+                  {idx === worstIndex && (
+                    <AppText variant="caption" color="#F44336">Здесь раздача пошла не так</AppText>
+                  )}
+                </View>
+              ))}
+            </Card>
+          )}
+
           {/* Input data */}
           {analysis?.input?.raw_text && (
             <Card style={styles.card}>
@@ -130,6 +293,107 @@ export default function HandDetailScreen() {
             </View>
           </Card>
 
+          {/* Сравнение версий: перезапуск с другим стилем/моделью и дифф рекомендаций */}
+          <Card style={styles.card}>
+            <AppText variant="h3" style={styles.sectionTitle}>Сравнение версий</AppText>
+            <AppText variant="caption" color="#A7B0C0" style={styles.compareHint}>
+              Перезапустите разбор с другим стилем или моделью и проверьте, стабилен ли совет.
+            </AppText>
+            <View style={styles.chipRow}>
+              {COACH_STYLES.map((style) => (
+                <TouchableOpacity
+                  key={style}
+                  onPress={() => setRerunStyle(style)}
+                  style={[styles.chip, rerunStyle === style && styles.chipActive]}
+                >
+                  <AppText variant="label" color={rerunStyle === style ? '#FFFFFF' : '#A7B0C0'}>{style}</AppText>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.chipRow}>
+              {[null, ...ANALYSIS_REVISION_MODELS].map((model) => (
+                <TouchableOpacity
+                  key={model ?? 'default'}
+                  onPress={() => setRerunModel(model)}
+                  style={[styles.chip, rerunModel === model && styles.chipActive]}
+                >
+                  <AppText variant="label" color={rerunModel === model ? '#FFFFFF' : '#A7B0C0'}>
+                    {model ?? 'Модель по умолчанию'}
+                  </AppText>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TouchableOpacity
+              onPress={handleRerun}
+              style={[styles.rerunButton, (rerunning || revisions.length >= MAX_ANALYSIS_REVISIONS) && styles.rerunButtonDisabled]}
+              disabled={rerunning || revisions.length >= MAX_ANALYSIS_REVISIONS}
+            >
+              {rerunning ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <AppText variant="label" color="#FFFFFF">Перезапустить разбор</AppText>
+              )}
+            </TouchableOpacity>
+
+            {stability && revisions.length > 1 && (
+              <AppText
+                variant="body"
+                color={stability.agreeing === stability.total ? '#4CAF50' : '#FF9800'}
+                style={styles.stability}
+              >
+                {stability.agreeing === stability.total
+                  ? `Совет стабилен: ${stability.action} во всех ${stability.total} версиях`
+                  : `Совет меняется: ${stability.action} в ${stability.agreeing} из ${stability.total} версий`}
+              </AppText>
+            )}
+
+            {revisions.length > 1 && baseRevision && (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.revisionRow}>
+                {revisions.map((rev) => {
+                  const diff = rev.id === baseRevision.id ? null : compareRevisions(baseRevision.result, rev.result);
+                  return (
+                    <View
+                      key={rev.id}
+                      style={[styles.revisionColumn, rev.id === analysis.id && styles.revisionColumnCurrent]}
+                    >
+                      <AppText variant="label" color="#FFFFFF">
+                        Версия {rev.revision}{rev.coach_style ? ` · ${rev.coach_style}` : ''}
+                      </AppText>
+                      <AppText variant="caption" color="#65708A">{rev.model ?? '—'}</AppText>
+                      <AppText
+                        variant="h3"
+                        color={diff && (diff.actionChanged || diff.sizingChanged) ? '#F44336' : '#FFFFFF'}
+                      >
+                        {recommendedAction(rev.result)}
+                      </AppText>
+                      {diff && (diff.actionChanged || diff.sizingChanged) && (
+                        <AppText variant="caption" color="#A7B0C0">
+                          было {recommendedAction(baseRevision.result)}
+                        </AppText>
+                      )}
+                      <AppText variant="caption" color={diff?.confidenceChanged ? '#FF9800' : '#A7B0C0'}>
+                        Уверенность: {rev.result.confidence}
+                      </AppText>
+                      {!!rev.result.leak_link?.tag && (
+                        <AppText variant="caption" color={diff?.leakTagChanged ? '#FF9800' : '#A7B0C0'}>
+                          {rev.result.leak_link.tag}
+                        </AppText>
+                      )}
+                      {(diff?.decisionChanges ?? []).map((c) => (
+                        <AppText key={c.street} variant="caption" color="#FF9800">
+                          {DECISION_STREET_LABEL[c.street]}: {c.from ?? '—'} → {c.to ?? '—'}
+                        </AppText>
+                      ))}
+                      {diff && !diff.actionChanged && !diff.sizingChanged && diff.decisionChanges.length === 0 && (
+                        <AppText variant="caption" color="#4CAF50">Совпадает с версией {baseRevision.revision}</AppText>
+                      )}
+                    </View>
+                  );
+                })}
+              </ScrollView>
+            )}
+          </Card>
+
           {/* Why */}
           <Card style={styles.card}>
             <AppText variant="h3" style={styles.sectionTitle}>Почему?</AppText>
@@ -264,4 +528,73 @@ const styles = StyleSheet.create({
   leakTag: {
     fontStyle: 'italic',
   },
+  evLossTotal: {
+    marginTop: -4,
+    marginBottom: 12,
+  },
+  decisionRow: {
+    borderLeftWidth: 3,
+    borderRadius: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.03)',
+    padding: 10,
+    gap: 4,
+    marginBottom: 8,
+  },
+  decisionRowWorst: {
+    backgroundColor: 'rgba(244, 67, 54, 0.08)',
+  },
+  decisionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  compareHint: {
+    marginTop: -4,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  chipActive: {
+    backgroundColor: '#4C9AFF',
+    borderColor: '#4C9AFF',
+  },
+  rerunButton: {
+    backgroundColor: '#4C9AFF',
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  rerunButtonDisabled: {
+    opacity: 0.6,
+  },
+  stability: {
+    marginTop: 12,
+  },
+  revisionRow: {
+    gap: 10,
+    marginTop: 12,
+  },
+  revisionColumn: {
+    width: 200,
+    padding: 12,
+    gap: 4,
+    borderRadius: 12,
+    backgroundColor: '#0A0E14',
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  revisionColumnCurrent: {
+    borderColor: '#4C9AFF',
+  },
 });
@@ -45,6 +45,7 @@ export default function WeekProgressScreen() {
         .select('id', { count: 'exact', head: false })
         .eq('user_id', user.id)
         .eq('is_deleted', false)
+        .is('parent_id', null)
         .gte('created_at', startDateTimeUTC);
 
       if (handsError) throw handsError;
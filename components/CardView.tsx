@@ -0,0 +1,67 @@
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+import { AppText } from './AppText';
+import { parseCard } from '../lib/poker';
+
+const SUIT_SYMBOLS: Record<string, string> = { s: '♠', h: '♥', d: '♦', c: '♣' };
+const RED_SUITS = ['h', 'd'];
+const RANK_DISPLAY: Record<string, string> = {
+  A: 'A', K: 'K', Q: 'Q', J: 'J', T: 'T',
+  '9': '9', '8': '8', '7': '7', '6': '6', '5': '5', '4': '4', '3': '3', '2': '2',
+};
+
+export type CardViewSize = 'sm' | 'md' | 'lg';
+const CARD_DIMENSIONS: Record<CardViewSize, {
+  width: number; height: number;
+  cornerRankSize: number; cornerSuitSize: number;
+  centerSuitSize: number; radius: number;
+}> = {
+  sm: { width: 32, height: 46, cornerRankSize: 10, cornerSuitSize: 8, centerSuitSize: 18, radius: 3 },
+  md: { width: 42, height: 60, cornerRankSize: 13, cornerSuitSize: 10, centerSuitSize: 26, radius: 4 },
+  lg: { width: 56, height: 80, cornerRankSize: 18, cornerSuitSize: 14, centerSuitSize: 36, radius: 6 },
+};
+
+export function CardView({ code, size = 'md', faceDown = false }: { code?: string | null; size?: CardViewSize; faceDown?: boolean }) {
+  const dim = CARD_DIMENSIONS[size];
+  const parsed = faceDown ? null : parseCard(code ?? null);
+  const isRed = parsed && RED_SUITS.includes(parsed.suit);
+  const suitColor = isRed ? '#EF4444' : '#111827';
+
+  if (!parsed && !faceDown) {
+    return <View style={[cardStyles.slotEmpty, { width: dim.width, height: dim.height, borderRadius: dim.radius }]} />;
+  }
+
+  if (faceDown) {
+    return (
+      <View style={[cardStyles.faceDown, { width: dim.width, height: dim.height, borderRadius: dim.radius }]}>
+        <View style={[cardStyles.backInnerBorder, { borderRadius: Math.max(1, dim.radius - 1) }]} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[cardStyles.cardFaceUp, { width: dim.width, height: dim.height, borderRadius: dim.radius }]}>
+      <View style={cardStyles.cornerTL}>
+        <AppText variant="body" style={[cardStyles.cornerRankText, { fontSize: dim.cornerRankSize, color: suitColor }]}>{RANK_DISPLAY[parsed!.rank]}</AppText>
+      </View>
+      <View style={cardStyles.cornerBR}>
+        <AppText variant="body" style={[cardStyles.cornerRankText, { fontSize: dim.cornerRankSize, color: suitColor }]}>{RANK_DISPLAY[parsed!.rank]}</AppText>
+      </View>
+      <View style={cardStyles.centerSuit}>
+        <AppText variant="body" style={[cardStyles.suitCenterText, { fontSize: dim.centerSuitSize, color: suitColor }]}>{SUIT_SYMBOLS[parsed!.suit]}</AppText>
+      </View>
+    </View>
+  );
+}
+
+const cardStyles = StyleSheet.create({
+  slotEmpty: { backgroundColor: 'rgba(0,0,0,0.15)', borderWidth: 1, borderColor: 'rgba(255,255,255,0.1)' },
+  cardFaceUp: { backgroundColor: '#FFFFFF', borderWidth: 1, borderColor: '#D1D5DB', shadowColor: '#000', shadowOffset: { width: 0, height: 3 }, shadowOpacity: 0.3, shadowRadius: 4, elevation: 4, overflow: 'hidden' },
+  faceDown: { backgroundColor: '#1E3A8A', borderWidth: 1, borderColor: '#3B82F6', overflow: 'hidden' },
+  backInnerBorder: { position: 'absolute', top: 3, left: 3, right: 3, bottom: 3, borderWidth: 1, borderColor: 'rgba(255,255,255,0.2)', backgroundColor: '#172554' },
+  cornerTL: { position: 'absolute', top: 2, left: 4, alignItems: 'center' },
+  cornerBR: { position: 'absolute', bottom: 2, right: 4, alignItems: 'center' },
+  cornerRankText: { fontWeight: '800', lineHeight: undefined, includeFontPadding: false },
+  centerSuit: { ...StyleSheet.absoluteFillObject, justifyContent: 'center', alignItems: 'center' },
+  suitCenterText: { fontWeight: '900', lineHeight: undefined, includeFontPadding: false },
+});
@@ -0,0 +1,27 @@
+import React from 'react';
+import { View } from 'react-native';
+
+export function ChipStack({ amountBb }: { amountBb: number }) {
+  const isSmall = amountBb <= 5;
+  const chipCount = isSmall ? 3 : Math.min(6, 3 + Math.floor(amountBb / 10));
+  const chipDiam = 18;
+  const stackWidth = 26;
+  const stackHeight = chipDiam + (chipCount - 1) * 4;
+
+  return (
+    <View style={[{ width: stackWidth, height: stackHeight, position: 'relative' }]}>
+      {Array.from({ length: chipCount }).map((_, i) => (
+        <View
+          key={i}
+          style={{
+            position: 'absolute', width: chipDiam, height: chipDiam, borderRadius: chipDiam / 2,
+            backgroundColor: isSmall ? '#D1D5DB' : '#F59E0B', borderWidth: 1.5, borderColor: '#000',
+            bottom: i * 4, left: (stackWidth - chipDiam) / 2, justifyContent: 'center', alignItems: 'center'
+          }}
+        >
+          <View style={{ width: chipDiam - 6, height: chipDiam - 6, borderRadius: (chipDiam - 6)/2, borderWidth: 1, borderColor: 'rgba(255,255,255,0.4)', borderStyle: 'dashed' }} />
+        </View>
+      ))}
+    </View>
+  );
+}
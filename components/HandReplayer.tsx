@@ -0,0 +1,316 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Animated, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { AppText } from './AppText';
+import { CardView } from './CardView';
+import { ChipStack } from './ChipStack';
+import type { Replay, ReplayNote } from '../lib/replay';
+
+type Props = {
+  replay: Replay;
+};
+
+const AUTOPLAY_MS = 1200;
+const TABLE_HEIGHT = 240;
+
+const NOTE_LABEL: Record<ReplayNote['kind'], string> = { why: 'Почему', next: 'Дальше', mistake: 'Ошибка' };
+const NOTE_COLOR: Record<ReplayNote['kind'], string> = { why: '#4C9AFF', next: '#F59E0B', mistake: '#F44336' };
+
+/** Seat centre on an ellipse around the table, Hero at the bottom; values are % of the table box. */
+function seatPosition(offset: number, count: number): { left: number; top: number } {
+  const angle = Math.PI / 2 + (2 * Math.PI * offset) / count;
+  return { left: 50 + 42 * Math.cos(angle), top: 50 + 40 * Math.sin(angle) };
+}
+
+/** Step-by-step table replayer: seats, stacks, bets, pot and board per action, with pinned coach notes. */
+export function HandReplayer({ replay }: Props) {
+  const [stepIndex, setStepIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const fade = useRef(new Animated.Value(1)).current;
+
+  const lastIndex = replay.steps.length - 1;
+  const step = replay.steps[Math.min(stepIndex, lastIndex)];
+  const isLast = stepIndex >= lastIndex;
+
+  useEffect(() => {
+    fade.setValue(0);
+    Animated.timing(fade, { toValue: 1, duration: 250, useNativeDriver: true }).start();
+  }, [stepIndex, fade]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (isLast) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStepIndex((i) => Math.min(i + 1, lastIndex)), AUTOPLAY_MS);
+    return () => clearTimeout(timer);
+  }, [playing, stepIndex, isLast, lastIndex]);
+
+  const go = (index: number) => {
+    setPlaying(false);
+    setStepIndex(Math.max(0, Math.min(lastIndex, index)));
+  };
+
+  const noteSteps = replay.steps.map((s, i) => (s.notes.length > 0 ? i : -1)).filter((i) => i >= 0);
+
+  return (
+    <View>
+      <View style={styles.table}>
+        <View style={styles.felt} />
+
+        <View style={styles.center}>
+          <View style={styles.boardRow}>
+            {Array.from({ length: 5 }).map((_, i) => (
+              <CardView key={i} code={step.board[i] ?? null} size="sm" />
+            ))}
+          </View>
+          <AppText variant="label" color="#FFFFFF" style={styles.potText}>Банк: {step.potBb}bb</AppText>
+        </View>
+
+        {replay.seats.map((seat, i) => {
+          const state = step.seats[i];
+          const offset = (i - replay.heroIndex + replay.seats.length) % replay.seats.length;
+          const pos = seatPosition(offset, replay.seats.length);
+          const isActor = step.actor === i;
+          const showCards = seat.cards && (seat.isHero || isLast);
+          return (
+            <View
+              key={`${seat.name}-${i}`}
+              style={[styles.seat, { left: `${pos.left}%`, top: `${pos.top}%` }, state.folded && styles.seatFolded]}
+            >
+              <View style={styles.seatCards}>
+                <CardView code={showCards ? seat.cards![0] : null} faceDown={!showCards} size="sm" />
+                <CardView code={showCards ? seat.cards![1] : null} faceDown={!showCards} size="sm" />
+              </View>
+              <View style={[styles.seatPlate, isActor && styles.seatPlateActive, seat.isHero && styles.seatPlateHero]}>
+                <AppText variant="caption" color="#FFFFFF" style={styles.seatName} numberOfLines={1}>
+                  {seat.isHero ? 'Hero' : seat.position ?? seat.name}
+                </AppText>
+                <AppText variant="caption" color="#A7B0C0" style={styles.seatStack}>
+                  {state.allIn ? 'ALL-IN' : state.stackBb != null ? `${state.stackBb}bb` : '—'}
+                </AppText>
+              </View>
+              {state.betBb > 0 && (
+                <View style={styles.bet}>
+                  <ChipStack amountBb={state.betBb} />
+                  <AppText variant="caption" color="#FFFFFF">{state.betBb}</AppText>
+                </View>
+              )}
+            </View>
+          );
+        })}
+      </View>
+
+      <Animated.View style={[styles.actionBox, { opacity: fade }]}>
+        <AppText variant="caption" color="#65708A">
+          Шаг {stepIndex + 1} / {replay.steps.length}
+        </AppText>
+        <AppText variant="h3" color="#FFFFFF">{step.label}</AppText>
+      </Animated.View>
+
+      <View style={styles.controls}>
+        <TouchableOpacity style={styles.controlBtn} onPress={() => go(0)}>
+          <AppText variant="body" color="#FFFFFF">⏮</AppText>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.controlBtn} onPress={() => go(stepIndex - 1)}>
+          <AppText variant="body" color="#FFFFFF">◀</AppText>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.controlBtn, styles.playBtn]}
+          onPress={() => {
+            if (isLast) setStepIndex(0);
+            setPlaying((p) => !p);
+          }}
+        >
+          <AppText variant="body" color="#FFFFFF">{playing ? '❚❚' : '▶'}</AppText>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.controlBtn} onPress={() => go(stepIndex + 1)}>
+          <AppText variant="body" color="#FFFFFF">▶</AppText>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.controlBtn} onPress={() => go(lastIndex)}>
+          <AppText variant="body" color="#FFFFFF">⏭</AppText>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.timeline}>
+        {replay.steps.map((s, i) => (
+          <TouchableOpacity
+            key={i}
+            style={[
+              styles.tick,
+              i <= stepIndex && styles.tickPassed,
+              s.notes.length > 0 && styles.tickNote,
+              s.notes.some((n) => n.kind === 'mistake') && styles.tickMistake,
+            ]}
+            onPress={() => go(i)}
+          />
+        ))}
+      </View>
+
+      {step.notes.length > 0 ? (
+        <View style={styles.notes}>
+          {step.notes.map((note, i) => (
+            <View
+              key={i}
+              style={[styles.note, note.kind === 'next' && styles.noteNext, note.kind === 'mistake' && styles.noteMistake]}
+            >
+              <AppText variant="caption" color={NOTE_COLOR[note.kind]}>
+                {NOTE_LABEL[note.kind]}
+              </AppText>
+              <AppText variant="body">{note.text}</AppText>
+            </View>
+          ))}
+        </View>
+      ) : noteSteps.length > 0 ? (
+        <AppText variant="caption" color="#65708A" style={styles.notesHint}>
+          Отмеченные шаги на шкале содержат комментарии тренера
+        </AppText>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  table: {
+    height: TABLE_HEIGHT,
+    marginHorizontal: 8,
+    marginVertical: 24,
+  },
+  felt: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: '#0D4232',
+    borderRadius: TABLE_HEIGHT / 2,
+    borderWidth: 6,
+    borderColor: '#111216',
+  },
+  center: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+  },
+  boardRow: {
+    flexDirection: 'row',
+    gap: 3,
+  },
+  potText: {
+    backgroundColor: 'rgba(0, 0, 0, 0.35)',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  seat: {
+    position: 'absolute',
+    width: 76,
+    marginLeft: -38,
+    marginTop: -40,
+    alignItems: 'center',
+  },
+  seatFolded: {
+    opacity: 0.35,
+  },
+  seatCards: {
+    flexDirection: 'row',
+    gap: 2,
+    marginBottom: -10,
+    transform: [{ scale: 0.8 }],
+  },
+  seatPlate: {
+    minWidth: 68,
+    backgroundColor: '#111216',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#2A2C35',
+    paddingVertical: 2,
+    paddingHorizontal: 4,
+    alignItems: 'center',
+  },
+  seatPlateActive: {
+    borderColor: '#F59E0B',
+  },
+  seatPlateHero: {
+    backgroundColor: '#172554',
+  },
+  seatName: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  seatStack: {
+    fontSize: 11,
+  },
+  bet: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 2,
+    marginTop: 2,
+  },
+  actionBox: {
+    alignItems: 'center',
+    gap: 4,
+    minHeight: 48,
+  },
+  controls: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 10,
+    marginTop: 12,
+  },
+  controlBtn: {
+    width: 44,
+    height: 40,
+    borderRadius: 8,
+    backgroundColor: '#1B1C22',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  playBtn: {
+    backgroundColor: '#059669',
+  },
+  timeline: {
+    flexDirection: 'row',
+    gap: 2,
+    marginTop: 12,
+  },
+  tick: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(255, 255, 255, 0.12)',
+  },
+  tickPassed: {
+    backgroundColor: '#4C9AFF',
+  },
+  tickNote: {
+    height: 10,
+    marginTop: -2,
+    borderWidth: 1,
+    borderColor: '#F59E0B',
+  },
+  tickMistake: {
+    borderColor: '#F44336',
+  },
+  notes: {
+    marginTop: 12,
+    gap: 8,
+  },
+  note: {
+    backgroundColor: 'rgba(76, 154, 255, 0.08)',
+    borderLeftWidth: 3,
+    borderLeftColor: '#4C9AFF',
+    borderRadius: 8,
+    padding: 10,
+    gap: 2,
+  },
+  noteNext: {
+    backgroundColor: 'rgba(245, 158, 11, 0.08)',
+    borderLeftColor: '#F59E0B',
+  },
+  noteMistake: {
+    backgroundColor: 'rgba(244, 67, 54, 0.08)',
+    borderLeftColor: '#F44336',
+  },
+  notesHint: {
+    marginTop: 12,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,84 @@
+import React from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+import { AppText } from './AppText';
+import { HAND_CLASS_GRID, classComboCount, type HandClass, type RangeWeights } from '../lib/ranges';
+
+type Props = {
+  weights: RangeWeights;
+  onChange: (next: RangeWeights) => void;
+  disabled?: boolean;
+};
+
+/** Tap cycle for a cell: out → full → half → out. */
+function nextWeight(current: number): number {
+  if (current <= 0) return 1;
+  if (current >= 1) return 0.5;
+  return 0;
+}
+
+function cellColor(weight: number, isPair: boolean): string {
+  if (weight >= 1) return '#4C9AFF';
+  if (weight > 0) return 'rgba(76, 154, 255, 0.45)';
+  return isPair ? '#232530' : '#1B1C22';
+}
+
+/** 13x13 starting-hand grid editor: pairs on the diagonal, suited above, offsuit below. */
+export function RangeGrid({ weights, onChange, disabled = false }: Props) {
+  const toggle = (hand: HandClass) => {
+    const next = { ...weights };
+    const w = nextWeight(weights[hand] ?? 0);
+    if (w > 0) next[hand] = w;
+    else delete next[hand];
+    onChange(next);
+  };
+
+  const combos = Object.entries(weights).reduce((acc, [hand, w]) => acc + classComboCount(hand) * w, 0);
+
+  return (
+    <View>
+      {HAND_CLASS_GRID.map((row, r) => (
+        <View key={r} style={styles.row}>
+          {row.map((hand, c) => {
+            const w = weights[hand] ?? 0;
+            return (
+              <TouchableOpacity
+                key={hand}
+                style={[styles.cell, { backgroundColor: cellColor(w, r === c) }]}
+                onPress={() => toggle(hand)}
+                disabled={disabled}
+              >
+                <AppText variant="label" color={w > 0 ? '#FFFFFF' : '#65708A'} style={styles.cellText}>
+                  {hand}
+                </AppText>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      ))}
+      <AppText variant="caption" style={styles.summary}>
+        {Number(combos.toFixed(1))} комбо · {((combos / 1326) * 100).toFixed(1)}% рук
+      </AppText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+  },
+  cell: {
+    flex: 1,
+    aspectRatio: 1,
+    margin: 0.5,
+    borderRadius: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cellText: {
+    fontSize: 8,
+    lineHeight: 10,
+  },
+  summary: {
+    marginTop: 8,
+  },
+});
@@ -25,7 +25,6 @@ function profileToRow(p: PlayerProfile) {
     goals: p.goals,
     weak_areas: p.weakAreas,
     coach_style: p.coachStyle,
-    subscription_tier: p.subscriptionTier ?? 'free',
     pokerok_id: p.pokerokId ?? null,
   };
 }
@@ -0,0 +1,4 @@
+/**
+ * App entry point for the shared Pokerok affiliate rules (status labels, activity thresholds, player id format).
+ */
+export * from '../supabase/functions/_shared/affiliate';
@@ -0,0 +1,4 @@
+/**
+ * App entry point for the shared hand-analysis revision helpers (re-run models, diff against the first analysis).
+ */
+export * from '../supabase/functions/_shared/analysisRevisions';
@@ -0,0 +1,229 @@
+import type { BankrollSessionRow } from '../types/database';
+
+/**
+ * Bankroll analytics over bankroll_sessions rows: profit, ROI, hourly rate, bb/100, the cumulative profit curve,
+ * per-stake breakdown, session standard deviation and drawdown. Amounts are never summed across currencies —
+ * callers pass the sessions of one currency (see sessionsInCurrency).
+ */
+
+export type BankrollGameType = 'Cash' | 'MTT' | 'Spin';
+
+export const BANKROLL_GAME_TYPES: BankrollGameType[] = ['Cash', 'MTT', 'Spin'];
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const CURRENCY_SYMBOLS: Record<string, string> = {
+  USD: '$',
+  EUR: '€',
+  GBP: '£',
+  RUB: '₽',
+  KZT: '₸',
+  UAH: '₴',
+};
+
+export const CURRENCIES = Object.keys(CURRENCY_SYMBOLS);
+
+export type ProfitPoint = {
+  date: string;
+  /** Profit of this session. */
+  profit: number;
+  /** Running total after this session. */
+  cumulative: number;
+};
+
+export type StakeStats = {
+  /** Stakes label (cash) or game type + buy-in (tournaments). */
+  label: string;
+  sessions: number;
+  profit: number;
+  roi: number | null;
+  hours: number;
+  hourly: number | null;
+  bbPer100: number | null;
+};
+
+export type BankrollStats = {
+  sessions: number;
+  totalProfit: number;
+  totalBuyIn: number;
+  /** Profit / total buy-ins, %; null without buy-ins. */
+  roi: number | null;
+  /** Hours over sessions with a duration. */
+  hours: number;
+  /** Profit per hour over sessions with a duration; null when none has one. */
+  hourly: number | null;
+  /** Cash sessions with a big blind and a hand count: big blinds won per 100 hands. */
+  bbPer100: number | null;
+  handsPlayed: number;
+  /** Sample standard deviation of session results; null under two sessions. */
+  stdDev: number | null;
+  /** Largest fall of the cumulative profit from a previous peak (≥ 0). */
+  maxDrawdown: number;
+  /** Fall from the peak to the latest total (≥ 0). */
+  currentDrawdown: number;
+  /** Tournaments with entries and a place: average finish as a share of the field (0 = winner). */
+  avgFinishPct: number | null;
+  tournaments: number;
+  curve: ProfitPoint[];
+  byStakes: StakeStats[];
+};
+
+export function currencySymbol(code: string | null | undefined): string {
+  const c = (code ?? DEFAULT_CURRENCY).toUpperCase();
+  return CURRENCY_SYMBOLS[c] ?? c;
+}
+
+/** ISO code for a hand-history currency symbol ("$", "€"); the default currency when unknown. */
+export function currencyFromSymbol(symbol: string | null | undefined): string {
+  if (!symbol) return DEFAULT_CURRENCY;
+  const match = Object.entries(CURRENCY_SYMBOLS).find(([, s]) => s === symbol);
+  return match ? match[0] : DEFAULT_CURRENCY;
+}
+
+export function formatMoney(amount: number, currency: string | null | undefined, signed = false): string {
+  const sign = signed && amount > 0 ? '+' : '';
+  return `${sign}${amount.toFixed(2)} ${currencySymbol(currency)}`;
+}
+
+/** Big blind from a stakes label: "0.05/0.10", "$1/$2" or "NL10" (100bb buy-in); null when not recognised. */
+export function bigBlindFromStakes(stakes: string | null | undefined): number | null {
+  const text = (stakes ?? '').trim().replace(/,/g, '.');
+  const blinds = /([\d.]+)\s*\/\s*[^\d]*([\d.]+)/.exec(text);
+  if (blinds) {
+    const bb = Number(blinds[2]);
+    return Number.isFinite(bb) && bb > 0 ? bb : null;
+  }
+  const nl = /^(?:NL|PL)\s*([\d.]+)$/i.exec(text);
+  if (nl) {
+    const bb = Number(nl[1]) / 100;
+    return Number.isFinite(bb) && bb > 0 ? bb : null;
+  }
+  return null;
+}
+
+export function sessionCurrency(s: Pick<BankrollSessionRow, 'currency'>): string {
+  return (s.currency || DEFAULT_CURRENCY).toUpperCase();
+}
+
+/** Currencies used, most sessions first. */
+export function sessionCurrencies(sessions: BankrollSessionRow[]): string[] {
+  const counts = new Map<string, number>();
+  for (const s of sessions) counts.set(sessionCurrency(s), (counts.get(sessionCurrency(s)) ?? 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([c]) => c);
+}
+
+export function sessionsInCurrency(sessions: BankrollSessionRow[], currency: string): BankrollSessionRow[] {
+  return sessions.filter((s) => sessionCurrency(s) === currency);
+}
+
+function round2(x: number): number {
+  return Math.round(x * 100) / 100;
+}
+
+function profitOf(s: BankrollSessionRow): number {
+  return Number(s.profit ?? Number(s.cash_out ?? 0) - Number(s.buy_in ?? 0));
+}
+
+function stakeLabel(s: BankrollSessionRow): string {
+  if (s.game_type === 'Cash') return s.stakes?.trim() || 'Cash';
+  const buyIn = Number(s.buy_in ?? 0);
+  return `${s.game_type} ${s.stakes?.trim() || (buyIn > 0 ? buyIn.toFixed(2).replace(/\.00$/, '') : '')}`.trim();
+}
+
+type Totals = { profit: number; buyIn: number; minutes: number; timedProfit: number; bbWon: number; hands: number };
+
+function addTotals(t: Totals, s: BankrollSessionRow): void {
+  const profit = profitOf(s);
+  t.profit += profit;
+  t.buyIn += Number(s.buy_in ?? 0);
+  if (s.duration_minutes && s.duration_minutes > 0) {
+    t.minutes += s.duration_minutes;
+    t.timedProfit += profit;
+  }
+  const bb = Number(s.big_blind ?? 0);
+  if (s.game_type === 'Cash' && bb > 0 && s.hands_played && s.hands_played > 0) {
+    t.bbWon += profit / bb;
+    t.hands += s.hands_played;
+  }
+}
+
+function emptyTotals(): Totals {
+  return { profit: 0, buyIn: 0, minutes: 0, timedProfit: 0, bbWon: 0, hands: 0 };
+}
+
+function rates(t: Totals) {
+  return {
+    roi: t.buyIn > 0 ? round2((t.profit / t.buyIn) * 100) : null,
+    hours: round2(t.minutes / 60),
+    hourly: t.minutes > 0 ? round2(t.timedProfit / (t.minutes / 60)) : null,
+    bbPer100: t.hands > 0 ? round2((t.bbWon / t.hands) * 100) : null,
+  };
+}
+
+/** Stats for sessions of one currency. */
+export function computeBankrollStats(sessions: BankrollSessionRow[]): BankrollStats {
+  const chronological = [...sessions].sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime() || a.created_at.localeCompare(b.created_at),
+  );
+
+  const totals = emptyTotals();
+  const stakes = new Map<string, { totals: Totals; sessions: number }>();
+  const curve: ProfitPoint[] = [];
+  let cumulative = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  let finishSum = 0;
+  let finishCount = 0;
+  let tournaments = 0;
+
+  for (const s of chronological) {
+    const profit = profitOf(s);
+    addTotals(totals, s);
+
+    const label = stakeLabel(s);
+    const entry = stakes.get(label) ?? { totals: emptyTotals(), sessions: 0 };
+    addTotals(entry.totals, s);
+    entry.sessions += 1;
+    stakes.set(label, entry);
+
+    cumulative = round2(cumulative + profit);
+    curve.push({ date: s.date, profit: round2(profit), cumulative });
+    peak = Math.max(peak, cumulative);
+    maxDrawdown = Math.max(maxDrawdown, peak - cumulative);
+
+    if (s.game_type !== 'Cash') {
+      tournaments += 1;
+      if (s.entries && s.entries > 1 && s.finish_place && s.finish_place <= s.entries) {
+        finishSum += (s.finish_place - 1) / (s.entries - 1);
+        finishCount += 1;
+      }
+    }
+  }
+
+  const n = chronological.length;
+  let stdDev: number | null = null;
+  if (n >= 2) {
+    const mean = totals.profit / n;
+    const variance = chronological.reduce((acc, s) => acc + (profitOf(s) - mean) ** 2, 0) / (n - 1);
+    stdDev = round2(Math.sqrt(variance));
+  }
+
+  const byStakes: StakeStats[] = [...stakes.entries()]
+    .map(([label, { totals: t, sessions: count }]) => ({ label, sessions: count, profit: round2(t.profit), ...rates(t) }))
+    .sort((a, b) => b.sessions - a.sessions || b.profit - a.profit);
+
+  return {
+    sessions: n,
+    totalProfit: round2(totals.profit),
+    totalBuyIn: round2(totals.buyIn),
+    ...rates(totals),
+    handsPlayed: totals.hands,
+    stdDev,
+    maxDrawdown: round2(maxDrawdown),
+    currentDrawdown: round2(peak - cumulative),
+    avgFinishPct: finishCount > 0 ? Math.round((finishSum / finishCount) * 1000) / 10 : null,
+    tournaments,
+    curve,
+    byStakes,
+  };
+}
@@ -0,0 +1,216 @@
+import type { BankrollRulesRow, BankrollSessionRow } from '../types/database';
+import { BANKROLL_GAME_TYPES, sessionCurrency, type BankrollGameType } from './bankroll';
+
+/**
+ * Bankroll management rules over bankroll_rules + bankroll_sessions: the current bankroll, the stake the buy-in
+ * policy allows per game type, move-up / move-down status and risk of ruin from the measured per-session winrate
+ * and variance.
+ */
+
+export type BankrollPreset = 'conservative' | 'standard' | 'aggressive';
+
+/** Buy-ins to hold for a stake, and the level under which the stake is too high. */
+export type BuyinRule = { buyins: number; moveDownBuyins: number };
+
+export type BankrollPolicy = Record<BankrollGameType, BuyinRule>;
+
+export const BANKROLL_PRESETS: Record<BankrollPreset, BankrollPolicy> = {
+  conservative: {
+    Cash: { buyins: 50, moveDownBuyins: 35 },
+    MTT: { buyins: 200, moveDownBuyins: 150 },
+    Spin: { buyins: 150, moveDownBuyins: 100 },
+  },
+  standard: {
+    Cash: { buyins: 30, moveDownBuyins: 20 },
+    MTT: { buyins: 100, moveDownBuyins: 70 },
+    Spin: { buyins: 100, moveDownBuyins: 60 },
+  },
+  aggressive: {
+    Cash: { buyins: 20, moveDownBuyins: 15 },
+    MTT: { buyins: 50, moveDownBuyins: 35 },
+    Spin: { buyins: 50, moveDownBuyins: 35 },
+  },
+};
+
+/** label: NLx for cash, the buy-in amount for tournaments. */
+export type StakeLevel = { label: string; buyIn: number };
+
+/** Cash: NLx = 100bb buy-in of x / 100 per big blind. */
+export const CASH_STAKES: StakeLevel[] = [2, 5, 10, 25, 50, 100, 200, 500, 1000, 2000].map((nl) => ({
+  label: `NL${nl}`,
+  buyIn: nl,
+}));
+
+/** Typical tournament buy-ins (MTT average buy-in, Spin buy-in). */
+export const TOURNAMENT_BUYINS: Record<Exclude<BankrollGameType, 'Cash'>, number[]> = {
+  MTT: [1, 2.2, 5.5, 11, 22, 33, 55, 109, 215, 530, 1050],
+  Spin: [0.25, 1, 2, 5, 10, 25, 50, 100, 250],
+};
+
+/** Fewer sessions than this give no risk-of-ruin estimate. */
+export const MIN_RISK_SESSIONS = 10;
+
+/** Tournament sessions averaged for the current buy-in. */
+const ABI_SESSIONS = 20;
+
+export type BankrollRules = {
+  currency: string;
+  startingBankroll: number;
+  startedAt: string;
+  preset: BankrollPreset | 'custom';
+  policy: BankrollPolicy;
+};
+
+export type StakeStatus = 'move_up' | 'ok' | 'move_down' | 'below_min' | 'no_data';
+
+export type StakeAdvice = {
+  gameType: BankrollGameType;
+  rule: BuyinRule;
+  /** Stake the user plays now: last cash big blind × 100, or the recent average tournament buy-in. */
+  current: StakeLevel | null;
+  /** Buy-ins of the current stake the bankroll holds. */
+  buyinsHeld: number | null;
+  /** Highest stake the policy allows; null when the bankroll is below the smallest one. */
+  recommended: StakeLevel | null;
+  status: StakeStatus;
+  sessions: number;
+  /** Mean result per session, in currency. */
+  winrate: number | null;
+  /** Probability of losing the whole bankroll at this winrate and variance, 0…1; null without enough sessions. */
+  riskOfRuin: number | null;
+};
+
+export type BankrollAdvice = {
+  currency: string;
+  bankroll: number;
+  /** Profit since started_at. */
+  profit: number;
+  byGame: StakeAdvice[];
+};
+
+export function policyForPreset(preset: BankrollPreset | 'custom', custom?: BankrollPolicy): BankrollPolicy {
+  return preset === 'custom' ? custom ?? BANKROLL_PRESETS.standard : BANKROLL_PRESETS[preset];
+}
+
+export function rulesFromRow(row: BankrollRulesRow): BankrollRules {
+  return {
+    currency: row.currency,
+    startingBankroll: Number(row.starting_bankroll ?? 0),
+    startedAt: row.started_at,
+    preset: row.preset,
+    policy: {
+      Cash: { buyins: row.cash_buyins, moveDownBuyins: row.cash_move_down_buyins },
+      MTT: { buyins: row.mtt_buyins, moveDownBuyins: row.mtt_move_down_buyins },
+      Spin: { buyins: row.spin_buyins, moveDownBuyins: row.spin_move_down_buyins },
+    },
+  };
+}
+
+export function rulesToRow(rules: BankrollRules, userId: string): BankrollRulesRow {
+  return {
+    user_id: userId,
+    currency: rules.currency,
+    starting_bankroll: rules.startingBankroll,
+    started_at: rules.startedAt,
+    preset: rules.preset,
+    cash_buyins: rules.policy.Cash.buyins,
+    cash_move_down_buyins: rules.policy.Cash.moveDownBuyins,
+    mtt_buyins: rules.policy.MTT.buyins,
+    mtt_move_down_buyins: rules.policy.MTT.moveDownBuyins,
+    spin_buyins: rules.policy.Spin.buyins,
+    spin_move_down_buyins: rules.policy.Spin.moveDownBuyins,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+/** Sessions that count toward the bankroll: same currency, dated from started_at. */
+export function rulesSessions(rules: BankrollRules, sessions: BankrollSessionRow[]): BankrollSessionRow[] {
+  const from = new Date(rules.startedAt).getTime();
+  return sessions.filter((s) => sessionCurrency(s) === rules.currency.toUpperCase() && new Date(s.date).getTime() >= from);
+}
+
+/**
+ * Risk of ruin for a bankroll B with mean result μ and standard deviation σ per session (normal approximation):
+ * exp(−2μB / σ²); 1 when μ ≤ 0.
+ */
+export function riskOfRuin(mean: number, stdDev: number, bankroll: number): number {
+  if (bankroll <= 0 || mean <= 0) return 1;
+  if (stdDev <= 0) return 0;
+  return Math.min(1, Math.exp((-2 * mean * bankroll) / (stdDev * stdDev)));
+}
+
+function round2(x: number): number {
+  return Math.round(x * 100) / 100;
+}
+
+function ladder(gameType: BankrollGameType): StakeLevel[] {
+  if (gameType === 'Cash') return CASH_STAKES;
+  return TOURNAMENT_BUYINS[gameType].map((b) => ({ label: String(b), buyIn: b }));
+}
+
+function currentStake(gameType: BankrollGameType, sessions: BankrollSessionRow[]): StakeLevel | null {
+  const latestFirst = [...sessions].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  if (gameType === 'Cash') {
+    const last = latestFirst.find((s) => Number(s.big_blind ?? 0) > 0);
+    if (!last) return null;
+    const buyIn = round2(Number(last.big_blind) * 100);
+    return { label: last.stakes?.trim() || `NL${buyIn}`, buyIn };
+  }
+  const recent = latestFirst.filter((s) => Number(s.buy_in ?? 0) > 0).slice(0, ABI_SESSIONS);
+  if (recent.length === 0) return null;
+  const abi = round2(recent.reduce((acc, s) => acc + Number(s.buy_in), 0) / recent.length);
+  return { label: String(abi), buyIn: abi };
+}
+
+function adviceFor(gameType: BankrollGameType, rule: BuyinRule, bankroll: number, sessions: BankrollSessionRow[]): StakeAdvice {
+  const levels = ladder(gameType);
+  const allowed = levels.filter((l) => l.buyIn * rule.buyins <= bankroll);
+  const recommended = allowed.length > 0 ? allowed[allowed.length - 1] : null;
+  const current = currentStake(gameType, sessions);
+  const buyinsHeld = current && current.buyIn > 0 ? round2(bankroll / current.buyIn) : null;
+
+  let status: StakeStatus;
+  if (current && buyinsHeld != null && buyinsHeld < rule.moveDownBuyins) status = 'move_down';
+  else if (!recommended) status = 'below_min';
+  else if (!current) status = 'no_data';
+  else if (recommended.buyIn > current.buyIn) status = 'move_up';
+  else status = 'ok';
+
+  const profits = sessions.map((s) => Number(s.profit ?? 0));
+  const n = profits.length;
+  const mean = n > 0 ? profits.reduce((a, b) => a + b, 0) / n : null;
+  let risk: number | null = null;
+  if (mean != null && n >= MIN_RISK_SESSIONS) {
+    const variance = profits.reduce((acc, p) => acc + (p - mean) ** 2, 0) / (n - 1);
+    risk = Math.round(riskOfRuin(mean, Math.sqrt(variance), bankroll) * 10000) / 10000;
+  }
+
+  return {
+    gameType,
+    rule,
+    current,
+    buyinsHeld,
+    recommended,
+    status,
+    sessions: n,
+    winrate: mean != null ? round2(mean) : null,
+    riskOfRuin: risk,
+  };
+}
+
+/** Advice per game type the user has played since started_at (Cash and MTT when nothing is logged yet). */
+export function bankrollAdvice(rules: BankrollRules, sessions: BankrollSessionRow[]): BankrollAdvice {
+  const counted = rulesSessions(rules, sessions);
+  const profit = round2(counted.reduce((acc, s) => acc + Number(s.profit ?? 0), 0));
+  const bankroll = round2(rules.startingBankroll + profit);
+  const played = BANKROLL_GAME_TYPES.filter((g) => counted.some((s) => s.game_type === g));
+  const gameTypes: BankrollGameType[] = played.length > 0 ? played : ['Cash', 'MTT'];
+  return {
+    currency: rules.currency,
+    bankroll,
+    profit,
+    byGame: gameTypes.map((g) =>
+      adviceFor(g, rules.policy[g], bankroll, counted.filter((s) => s.game_type === g)),
+    ),
+  };
+}
@@ -12,6 +12,16 @@ export function isLimitReachedError(e: unknown): boolean {
   return e instanceof Error && (e as Error & { code?: string }).code === LIMIT_REACHED;
 }
 
+/**
+ * True for connection failures: the error thrown by callEdge* when offline, or a Supabase query error
+ * ("TypeError: Network request failed").
+ */
+export function isNetworkError(e: unknown): boolean {
+  const message = e instanceof Error ? e.message : (e as { message?: unknown } | null)?.message;
+  if (typeof message !== 'string') return false;
+  return message === NETWORK_ERROR_MESSAGE || /network request failed|failed to fetch/i.test(message);
+}
+
 /**
  * Wraps fetch and converts network/connection failures into a user-friendly Russian error.
  * Use this for all Edge Function requests so offline scenarios show a clear message.
@@ -92,7 +102,7 @@ export type OcrSuccess = { text: string; meta?: { truncated?: boolean } };
  *
  * @param formData - FormData with 'file' (image) and 'mode' = 'hand_history'
  * @returns Parsed JSON { text, meta?: { truncated } }
- * @throws Error with optional .code = 'not_hand_history' | 'ocr_empty' for 422 responses
+ * @throws Error with optional .code = 'not_hand_history' | 'ocr_empty' for 422 responses, LIMIT_REACHED for 403 limit_reached
  */
 export async function callEdgeOcr(formData: FormData): Promise<OcrSuccess> {
   const { data: { session }, error: sessionError } = await supabase.auth.getSession();
@@ -126,7 +136,7 @@ export async function callEdgeOcr(formData: FormData): Promise<OcrSuccess> {
       try {
         const data = JSON.parse(bodyText) as { error?: string; detail?: string };
         const err = new Error(data.detail ?? data.error ?? bodyText) as Error & { code?: string };
-        err.code = data.error;
+        err.code = data.error === 'limit_reached' ? LIMIT_REACHED : data.error;
         throw err;
       } catch (e) {
         if (e instanceof Error && 'code' in e) throw e;
@@ -146,6 +156,8 @@ export async function callEdgeOcr(formData: FormData): Promise<OcrSuccess> {
 export type ParseHandMeta = {
   confidence: 'LOW' | 'MEDIUM' | 'HIGH';
   source_message: string;
+  /** 'deterministic' = native HH parser (PokerStars/GG/Pokerok), 'llm' = fallback extractor */
+  parser?: 'deterministic' | 'llm';
 };
 
 export type ParseHandSuccess = {
@@ -160,6 +172,7 @@ export type ParseHandSuccess = {
     turn: string | null;
     river: string | null;
     board: { flop: string; turn: string; river: string } | null;
+    hero_cards?: string | null;
   };
   meta: ParseHandMeta;
 };
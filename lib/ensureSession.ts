@@ -1,3 +1,4 @@
+import { isAuthRetryableFetchError } from '@supabase/supabase-js';
 import { supabase } from './supabase';
 
 /**
@@ -16,6 +17,12 @@ export async function ensureSession(): Promise<void> {
   if (token) {
     const { data: userData1, error: userError1 } = await supabase.auth.getUser();
     
+    if (userError1 && isAuthRetryableFetchError(userError1)) {
+      // Offline: the token cannot be checked, keep the stored session for offline training.
+      console.log('[ensureSession] step 2: getUser() network error, keeping local session');
+      return;
+    }
+
     if (userError1) {
       console.log('[ensureSession] step 2: getUser() error:', userError1.message);
       console.log('[ensureSession] step 3: signing out locally (invalid token)');
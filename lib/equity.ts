@@ -0,0 +1,4 @@
+/**
+ * App entry point for the shared equity engine (exact enumeration on turn/river, Monte Carlo otherwise).
+ */
+export * from '../supabase/functions/_shared/equity';
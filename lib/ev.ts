@@ -0,0 +1,4 @@
+/**
+ * App entry point for the shared EV grading helpers (fold / call / raise EV vs the villain's cards or range).
+ */
+export * from '../supabase/functions/_shared/ev';
@@ -0,0 +1,4 @@
+/**
+ * App entry point for the shared hand-analysis decision verdicts (labels, worst mistake, EV loss totals).
+ */
+export * from '../supabase/functions/_shared/handDecisions';
@@ -0,0 +1,4 @@
+/**
+ * App entry point for the shared hand-history parser (PokerStars / GGPoker / Pokerok text exports).
+ */
+export * from '../supabase/functions/_shared/handHistory';
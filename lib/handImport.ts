@@ -0,0 +1,175 @@
+import {
+  handHistoryToQuickForm,
+  heroNet,
+  parseHandHistory,
+  potBb,
+  reviewFlags,
+  splitHandHistories,
+  type ParsedHandHistory,
+  type ReviewFlag,
+} from './handHistory';
+import { heroStatFlags } from './stats';
+import type { Database } from '../types/database';
+
+type HandInsert = Database['public']['Tables']['hands']['Insert'];
+
+export type ImportedHand = {
+  hh: ParsedHandHistory;
+  raw: string;
+  /** Dedupe key: site + room hand ID. */
+  key: string;
+  flags: ReviewFlag[];
+  net: number | null;
+  netBb: number | null;
+  potBb: number | null;
+  playedAt: Date | null;
+};
+
+export type ImportParseResult = {
+  hands: ImportedHand[];
+  duplicatesInFile: number;
+  unparsed: number;
+};
+
+export type SessionGroup = {
+  hands: ImportedHand[];
+  start: Date | null;
+  end: Date | null;
+  stakes: string;
+  isTournament: boolean;
+  currency: string | null;
+  /** Hero result over the group, in currency / chips. */
+  net: number;
+  /** Hero stack at the first hand — used as the buy-in of an auto-created bankroll session. */
+  firstStack: number;
+};
+
+/** A break longer than this starts a new session. */
+export const SESSION_GAP_MINUTES = 60;
+
+export const REVIEW_FLAG_LABELS: Record<ReviewFlag, string> = {
+  big_pot: 'Большой банк',
+  all_in: 'Олл-ин',
+  river_fold: 'Фолд на ривере',
+};
+
+function parsePlayedAt(s: string | null): Date | null {
+  if (!s) return null;
+  const d = new Date(s);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+/** Split, parse and dedupe (by site + hand ID) a pasted hand-history file. */
+export function parseHandHistoryFile(text: string): ImportParseResult {
+  const seen = new Set<string>();
+  const hands: ImportedHand[] = [];
+  let duplicatesInFile = 0;
+  let unparsed = 0;
+
+  for (const raw of splitHandHistories(text)) {
+    const hh = parseHandHistory(raw);
+    if (!hh || !hh.hero) {
+      unparsed++;
+      continue;
+    }
+    const key = `${hh.site}:${hh.hand_id}`;
+    if (seen.has(key)) {
+      duplicatesInFile++;
+      continue;
+    }
+    seen.add(key);
+    const net = heroNet(hh);
+    hands.push({
+      hh,
+      raw,
+      key,
+      flags: reviewFlags(hh),
+      net,
+      netBb: net != null && hh.big_blind > 0 ? Number((net / hh.big_blind).toFixed(1)) : null,
+      potBb: potBb(hh),
+      playedAt: parsePlayedAt(hh.played_at),
+    });
+  }
+  return { hands, duplicatesInFile, unparsed };
+}
+
+/** Group hands into playing sessions: same stakes/format, no break longer than SESSION_GAP_MINUTES. */
+export function groupIntoSessions(hands: ImportedHand[]): SessionGroup[] {
+  const sorted = [...hands].sort((a, b) => (a.playedAt?.getTime() ?? 0) - (b.playedAt?.getTime() ?? 0));
+  const groups: SessionGroup[] = [];
+  let current: SessionGroup | null = null;
+
+  for (const h of sorted) {
+    const gapMs = current?.end && h.playedAt ? h.playedAt.getTime() - current.end.getTime() : 0;
+    const sameGame = current && current.stakes === h.hh.stakes && current.isTournament === h.hh.is_tournament;
+    if (!current || !sameGame || gapMs > SESSION_GAP_MINUTES * 60 * 1000) {
+      const heroStack = h.hh.players.find((p) => p.is_hero)?.stack ?? 0;
+      current = {
+        hands: [],
+        start: h.playedAt,
+        end: h.playedAt,
+        stakes: h.hh.stakes,
+        isTournament: h.hh.is_tournament,
+        currency: h.hh.currency,
+        net: 0,
+        firstStack: heroStack,
+      };
+      groups.push(current);
+    }
+    current.hands.push(h);
+    current.end = h.playedAt ?? current.end;
+    current.net = Math.round((current.net + (h.net ?? 0)) * 100) / 100;
+  }
+  return groups;
+}
+
+/** Row for the hands table. */
+export function toHandInsert(h: ImportedHand, userId: string, sessionId: string | null): HandInsert {
+  const hero = h.hh.players.find((p) => p.is_hero);
+  return {
+    user_id: userId,
+    session_id: sessionId,
+    site: h.hh.site,
+    hand_id: h.hh.hand_id,
+    played_at: h.playedAt ? h.playedAt.toISOString() : null,
+    game: h.hh.game,
+    stakes: h.hh.stakes || null,
+    big_blind: h.hh.big_blind,
+    is_tournament: h.hh.is_tournament,
+    hero_pos: hero?.position ?? null,
+    hero_cards: h.hh.hero_cards.length > 0 ? h.hh.hero_cards.join('') : null,
+    board: h.hh.board,
+    pot_bb: h.potBb,
+    hero_net: h.net,
+    hero_net_bb: h.netBb,
+    review_flags: h.flags,
+    raw_text: h.raw,
+    stat_flags: heroStatFlags(h.hh),
+  };
+}
+
+/** ai-analyze-hand quick_form input for a stored hand, or null if its raw text no longer parses. */
+export function quickFormInputFromRaw(raw: string): Record<string, unknown> | null {
+  const hh = parseHandHistory(raw);
+  if (!hh) return null;
+  const { hand } = handHistoryToQuickForm(hh);
+  return {
+    mode: 'quick_form',
+    game: hand.game === 'UNKNOWN' ? undefined : hand.game,
+    stakes: hand.stakes ?? undefined,
+    hero_pos: hand.hero_pos,
+    effective_stack_bb: hand.effective_stack_bb,
+    streets: {
+      preflop: hand.preflop,
+      flop: hand.flop ?? '',
+      turn: hand.turn ?? '',
+      river: hand.river ?? '',
+    },
+    board_structured: hand.board,
+    source: 'hh_import',
+    position: hand.hero_pos !== 'UNKNOWN' ? hand.hero_pos : undefined,
+    hero_cards: hand.hero_cards ?? undefined,
+    stack_bb: hand.effective_stack_bb,
+    action_preflop: hand.preflop,
+  };
+}
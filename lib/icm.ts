@@ -0,0 +1,4 @@
+/**
+ * App entry point for the shared ICM helpers (prize-pool equity, push/fold charts and push_fold drills).
+ */
+export * from '../supabase/functions/_shared/icm';
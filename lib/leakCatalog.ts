@@ -89,6 +89,12 @@ export const LEAK_CATALOG: Record<string, LeakCatalogItem> = {
     short: 'Sizing errors',
     description: 'Неправильные размеры ставок'
   },
+  push_fold_icm: {
+    tag: 'push_fold_icm',
+    title: 'Пуш/фолд с учётом ICM',
+    short: 'Push/fold ICM',
+    description: 'Пуши и фолды короткого стека без учёта призовых выплат'
+  },
 };
 
 /**
@@ -0,0 +1,4 @@
+/**
+ * App entry point for the shared multi-street drill helpers (hand parsing, per-step scenarios).
+ */
+export * from '../supabase/functions/_shared/multiStreet';
@@ -0,0 +1,235 @@
+/**
+ * Offline training: a cached pack of hand_library scenarios that can be graded on the device (the rows carry
+ * correct_action / correct_option), the preflop range charts, and a persistent outbox of answers that is replayed to
+ * ai-submit-table-drill-result once the network is back. Every answer gets a client_event_id, so the server
+ * recognises a replay it has already applied and does not count the answer twice.
+ */
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { supabase } from './supabase';
+import { callEdge, isNetworkError } from './edge';
+import { DEFAULT_RATING, DEFAULT_RD, targetScenarioRating } from './rating';
+import { parsePreflopChart, type PreflopChart } from './preflopCharts';
+import { evSpotFromScenario, gradeByEv } from './ev';
+import type { PreflopDrillAction, PushFoldDrillAction, TableDrillScenario } from '../types/drill';
+
+const PACK_KEY = 'offline_training_pack_v1';
+const OUTBOX_KEY = 'offline_training_outbox_v1';
+const CHARTS_KEY = 'offline_preflop_charts_v1';
+
+export const PACK_SIZE = 40;
+/** The pack is refilled when fewer scenarios than this are left. */
+const PACK_REFILL_BELOW = 10;
+/** Items the server keeps rejecting (not a network error) are dropped after this many attempts. */
+const MAX_SEND_ATTEMPTS = 5;
+
+export type HandLibraryRow = Record<string, unknown>;
+
+export type OutboxItem = {
+  client_event_id: string;
+  /** Body for ai-submit-table-drill-result, client_event_id and answered_at included. */
+  payload: Record<string, unknown>;
+  created_at: string;
+  attempts: number;
+};
+
+export type FlushResult = { sent: number; dropped: number; pending: number };
+
+// AsyncStorage read-modify-write is not atomic: serialise every change to the pack and the outbox.
+let lock: Promise<unknown> = Promise.resolve();
+function withLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = lock.then(fn, fn);
+  lock = run.catch(() => undefined);
+  return run;
+}
+
+async function readList<T>(key: string): Promise<T[]> {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function writeList<T>(key: string, list: T[]): Promise<void> {
+  await AsyncStorage.setItem(key, JSON.stringify(list));
+}
+
+export function newClientEventId(): string {
+  return Crypto.randomUUID();
+}
+
+// ─── Scenario pack ─────────────────────────────────────────────────────────
+
+/**
+ * Top the pack up to PACK_SIZE with scenarios near the user's average rating. No-op when the pack is still
+ * full enough (unless force). Returns the pack size; network failures leave the pack as it was.
+ */
+export async function refillScenarioPack(force = false): Promise<number> {
+  const current = await readList<HandLibraryRow>(PACK_KEY);
+  if (!force && current.length >= PACK_REFILL_BELOW) return current.length;
+
+  const { data: ratings } = await supabase.from('skill_ratings').select('glicko_rating, rating_rd, last_practice_at');
+  const rows = (ratings ?? []) as { glicko_rating: number; rating_rd: number; last_practice_at: string | null }[];
+  const avg = (pick: (r: (typeof rows)[number]) => number, fallback: number) =>
+    rows.length > 0 ? rows.reduce((sum, r) => sum + pick(r), 0) / rows.length : fallback;
+  const lastPracticeAt = rows.map((r) => r.last_practice_at).filter(Boolean).sort().pop() ?? null;
+  const target = targetScenarioRating(
+    { rating: avg((r) => r.glicko_rating, DEFAULT_RATING), rd: avg((r) => r.rating_rd, DEFAULT_RD) },
+    lastPracticeAt,
+  );
+
+  const { data, error } = await supabase.rpc('get_hand_pack', { p_target: target, p_limit: PACK_SIZE } as any);
+  if (error || !Array.isArray(data)) {
+    if (error && !isNetworkError(error)) console.error('get_hand_pack error', error);
+    return current.length;
+  }
+
+  return withLock(async () => {
+    const pack = await readList<HandLibraryRow>(PACK_KEY);
+    const seen = new Set(pack.map((r) => r.id));
+    for (const row of data as HandLibraryRow[]) {
+      if (pack.length >= PACK_SIZE) break;
+      if (!seen.has(row.id)) {
+        pack.push(row);
+        seen.add(row.id);
+      }
+    }
+    await writeList(PACK_KEY, pack);
+    return pack.length;
+  });
+}
+
+/** Remove and return one cached scenario, preferring the drill's leak_tag and drill_type. */
+export function takePackScenario(leakTag?: string | null, drillType?: string | null): Promise<HandLibraryRow | null> {
+  return withLock(async () => {
+    const pack = await readList<HandLibraryRow>(PACK_KEY);
+    if (pack.length === 0) return null;
+    const typeOf = (r: HandLibraryRow) => (r.drill_type as string | null) ?? 'action_decision';
+    const wantType = drillType ?? 'action_decision';
+    let index = pack.findIndex((r) => r.leak_tag === leakTag && typeOf(r) === wantType);
+    if (index < 0) index = pack.findIndex((r) => typeOf(r) === wantType);
+    if (index < 0) index = 0;
+    const [row] = pack.splice(index, 1);
+    await writeList(PACK_KEY, pack);
+    return row;
+  });
+}
+
+// ─── Preflop charts ────────────────────────────────────────────────────────
+
+/**
+ * All preflop_charts rows (a few dozen). A successful fetch refreshes the device copy; without network the
+ * last copy is used, so preflop_range drills are dealt and graded offline too.
+ */
+export async function loadPreflopCharts(): Promise<PreflopChart[]> {
+  const { data, error } = await supabase
+    .from('preflop_charts')
+    .select('format, stack_bb, hero_pos, opener_pos, raise_range, call_range');
+  if (!error && Array.isArray(data) && data.length > 0) {
+    const charts = (data as Record<string, unknown>[])
+      .map(parsePreflopChart)
+      .filter((c): c is PreflopChart => c != null);
+    await writeList(CHARTS_KEY, charts);
+    return charts;
+  }
+  if (error && !isNetworkError(error)) console.error('preflop_charts error', error);
+  return readList<PreflopChart>(CHARTS_KEY);
+}
+
+/**
+ * Grade an answer the way ai-submit-table-drill-result does: by EV loss when the scenario has the villain's cards
+ * or range (a close answer counts), otherwise against correct_action (check counts as call).
+ */
+export function gradeLocally(
+  scenario: TableDrillScenario,
+  drillType: 'action_decision' | 'raise_sizing' | 'preflop_range' | 'push_fold',
+  userAction: string,
+  raiseToBb?: number | null,
+): boolean {
+  if (drillType === 'preflop_range') return (scenario.preflop_accepted ?? []).includes(userAction as PreflopDrillAction);
+  if (drillType === 'push_fold') return (scenario.push_fold_accepted ?? []).includes(userAction as PushFoldDrillAction);
+  if (drillType === 'raise_sizing') return userAction === scenario.correct_option;
+  const spot = evSpotFromScenario(scenario as unknown as Record<string, unknown>);
+  const ev = spot ? gradeByEv(spot, userAction, raiseToBb) : null;
+  if (ev) return ev.band !== 'blunder';
+  const action = userAction.toLowerCase() === 'check' ? 'call' : userAction.toLowerCase();
+  return action === (scenario.correct_action ?? 'call');
+}
+
+// ─── Outbox ────────────────────────────────────────────────────────────────
+
+export async function outboxSize(): Promise<number> {
+  return (await readList<OutboxItem>(OUTBOX_KEY)).length;
+}
+
+export function enqueueOutbox(clientEventId: string, payload: Record<string, unknown>): Promise<void> {
+  return withLock(async () => {
+    const outbox = await readList<OutboxItem>(OUTBOX_KEY);
+    if (outbox.some((i) => i.client_event_id === clientEventId)) return;
+    outbox.push({
+      client_event_id: clientEventId,
+      payload: { ...payload, client_event_id: clientEventId },
+      created_at: new Date().toISOString(),
+      attempts: 0,
+    });
+    await writeList(OUTBOX_KEY, outbox);
+  });
+}
+
+let flushing: Promise<FlushResult> | null = null;
+
+/**
+ * Replay queued answers in order. Stops at the first network failure (the rest stays queued); items the
+ * server rejects are retried on later flushes and dropped after MAX_SEND_ATTEMPTS. Concurrent calls share one run.
+ */
+export function flushOutbox(): Promise<FlushResult> {
+  if (!flushing) {
+    flushing = runFlush().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+async function runFlush(): Promise<FlushResult> {
+  const items = await readList<OutboxItem>(OUTBOX_KEY);
+  const done = new Set<string>();
+  const failed = new Set<string>();
+  let sent = 0;
+
+  for (const item of items) {
+    try {
+      await callEdge('ai-submit-table-drill-result', item.payload);
+      done.add(item.client_event_id);
+      sent++;
+    } catch (e) {
+      if (isNetworkError(e) || (e instanceof Error && e.message === 'No active session')) break;
+      console.warn('flushOutbox: submission rejected', { client_event_id: item.client_event_id, message: String(e) });
+      failed.add(item.client_event_id);
+    }
+  }
+
+  return withLock(async () => {
+    const outbox = await readList<OutboxItem>(OUTBOX_KEY);
+    let dropped = 0;
+    const next: OutboxItem[] = [];
+    for (const item of outbox) {
+      if (done.has(item.client_event_id)) continue;
+      if (failed.has(item.client_event_id)) {
+        const attempts = item.attempts + 1;
+        if (attempts >= MAX_SEND_ATTEMPTS) {
+          dropped++;
+          continue;
+        }
+        next.push({ ...item, attempts });
+      } else {
+        next.push(item);
+      }
+    }
+    await writeList(OUTBOX_KEY, next);
+    return { sent, dropped, pending: next.length };
+  });
+}
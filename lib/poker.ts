@@ -0,0 +1,5 @@
+/**
+ * App entry point for the shared poker engine (card parsing, board helpers, hand evaluator).
+ * The implementation lives in supabase/functions/_shared/poker.ts so Edge Functions and the app grade hands identically.
+ */
+export * from '../supabase/functions/_shared/poker';
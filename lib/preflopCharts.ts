@@ -0,0 +1,4 @@
+/**
+ * App entry point for the shared preflop chart helpers (dealing and grading preflop_range drills).
+ */
+export * from '../supabase/functions/_shared/preflopCharts';
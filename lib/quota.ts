@@ -0,0 +1,4 @@
+/**
+ * App entry point for the shared AI usage limits (per-tier daily quotas, get-usage summary, hint text).
+ */
+export * from '../supabase/functions/_shared/quota/limits';
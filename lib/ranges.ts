@@ -0,0 +1,4 @@
+/**
+ * App entry point for the shared range notation module (parsing, combo expansion, 13x13 grid mapping).
+ */
+export * from '../supabase/functions/_shared/ranges';
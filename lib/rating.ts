@@ -0,0 +1,4 @@
+/**
+ * App entry point for the shared Glicko-style skill rating helpers (target scenario rating, 0..100 display).
+ */
+export * from '../supabase/functions/_shared/rating';
@@ -0,0 +1,368 @@
+/**
+ * Hand replayer model: turns a saved analysis input (a parsed hand history or the Quick Form street lines)
+ * into table snapshots, one per action, and pins the coach's bullets to the step they talk about.
+ */
+
+import { parseCardsFromString, type CardCode, type Street } from './poker';
+import type { ParsedHandHistory } from './handHistory';
+import type { HandDecision } from './handDecisions';
+
+export type ReplaySeat = {
+  name: string;
+  position: string | null;
+  isHero: boolean;
+  /** Face-up cards (Hero, or shown at showdown); null = face down. */
+  cards: CardCode[] | null;
+  /** Starting stack in big blinds, null when unknown. */
+  stackBb: number | null;
+};
+
+export type ReplaySeatState = {
+  stackBb: number | null;
+  /** Chips in front of the seat on the current street. */
+  betBb: number;
+  folded: boolean;
+  allIn: boolean;
+};
+
+export type ReplayNote = { kind: 'why' | 'next' | 'mistake'; text: string };
+
+export type ReplayStep = {
+  street: Street;
+  /** Seat index of the actor; null for deal / new-street steps. */
+  actor: number | null;
+  /** Human-readable action, e.g. "Hero (CO) raises to 3bb". */
+  label: string;
+  /** Pot including the bets in front of the players. */
+  potBb: number;
+  board: CardCode[];
+  seats: ReplaySeatState[];
+  notes: ReplayNote[];
+};
+
+export type Replay = {
+  seats: ReplaySeat[];
+  heroIndex: number;
+  steps: ReplayStep[];
+};
+
+type ReplayActionType = 'post' | 'ante' | 'fold' | 'check' | 'call' | 'bet' | 'raise' | 'uncalled';
+
+type ReplayAction = {
+  street: Street;
+  seat: number;
+  type: ReplayActionType;
+  /** Chips added (post/ante/call/bet) or returned (uncalled), in bb; null = infer (call to the current bet). */
+  amountBb: number | null;
+  /** Street total for raises, in bb. */
+  toBb: number | null;
+  allIn: boolean;
+};
+
+const STREETS: Street[] = ['preflop', 'flop', 'turn', 'river'];
+const BOARD_SIZE: Record<Street, number> = { preflop: 0, flop: 3, turn: 4, river: 5 };
+const STREET_LABELS: Record<Street, string> = { preflop: 'Префлоп', flop: 'Флоп', turn: 'Тёрн', river: 'Ривер' };
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+function fmtBb(n: number): string {
+  return `${round1(n)}bb`;
+}
+
+function seatLabel(seat: ReplaySeat): string {
+  if (seat.isHero) return seat.position ? `Hero (${seat.position})` : 'Hero';
+  return seat.position ?? seat.name;
+}
+
+function actionLabel(seat: ReplaySeat, a: ReplayAction, added: number, to: number): string {
+  const who = seatLabel(seat);
+  const allIn = a.allIn ? ' all-in' : '';
+  switch (a.type) {
+    case 'post': return `${who} posts ${fmtBb(added)}`;
+    case 'ante': return `${who} posts ante ${fmtBb(added)}`;
+    case 'fold': return `${who} folds`;
+    case 'check': return `${who} checks`;
+    case 'call': return `${who} calls ${fmtBb(added)}${allIn}`;
+    case 'bet': return `${who} bets ${fmtBb(added)}${allIn}`;
+    case 'raise': return `${who} raises to ${fmtBb(to)}${allIn}`;
+    case 'uncalled': return `${fmtBb(added)} returned to ${who}`;
+  }
+}
+
+/** Play the actions through a simple chip model and snapshot the table after each one. */
+function simulate(seats: ReplaySeat[], actions: ReplayAction[], board: CardCode[]): ReplayStep[] {
+  const state: ReplaySeatState[] = seats.map((s) => ({ stackBb: s.stackBb, betBb: 0, folded: false, allIn: false }));
+  let pot = 0;
+  let street = 'preflop' as Street;
+  const steps: ReplayStep[] = [];
+  const snapshot = (actor: number | null, label: string) => {
+    steps.push({
+      street,
+      actor,
+      label,
+      potBb: round1(pot + state.reduce((acc, s) => acc + s.betBb, 0)),
+      board: board.slice(0, BOARD_SIZE[street]),
+      seats: state.map((s) => ({ ...s })),
+      notes: [],
+    });
+  };
+  const put = (seat: number, amount: number) => {
+    const s = state[seat];
+    s.betBb = round1(s.betBb + amount);
+    if (s.stackBb != null) s.stackBb = round1(Math.max(0, s.stackBb - amount));
+  };
+  const startStreet = (next: Street) => {
+    pot += state.reduce((acc, s) => acc + s.betBb, 0);
+    state.forEach((s) => { s.betBb = 0; });
+    street = next;
+    const cards = board.slice(BOARD_SIZE[STREETS[STREETS.indexOf(next) - 1]], BOARD_SIZE[next]);
+    snapshot(null, cards.length > 0 ? `${STREET_LABELS[next]}: ${cards.join(' ')}` : STREET_LABELS[next]);
+  };
+
+  snapshot(null, 'Раздача');
+  for (const a of actions) {
+    while (STREETS.indexOf(a.street) > STREETS.indexOf(street)) {
+      startStreet(STREETS[STREETS.indexOf(street) + 1]);
+    }
+    const s = state[a.seat];
+    const maxBet = Math.max(0, ...state.map((x) => x.betBb));
+    let added = 0;
+    let to = s.betBb;
+    switch (a.type) {
+      case 'ante':
+        added = a.amountBb ?? 0;
+        if (s.stackBb != null) s.stackBb = round1(Math.max(0, s.stackBb - added));
+        pot += added;
+        break;
+      case 'post':
+      case 'bet':
+        added = a.amountBb ?? 0;
+        put(a.seat, added);
+        break;
+      case 'call':
+        added = a.amountBb ?? Math.max(0, maxBet - s.betBb);
+        put(a.seat, added);
+        break;
+      case 'raise':
+        to = a.toBb ?? s.betBb + (a.amountBb ?? 0);
+        added = Math.max(0, to - s.betBb);
+        put(a.seat, added);
+        break;
+      case 'uncalled':
+        added = Math.min(a.amountBb ?? 0, s.betBb);
+        s.betBb = round1(s.betBb - added);
+        if (s.stackBb != null) s.stackBb = round1(s.stackBb + added);
+        break;
+      case 'fold':
+        s.folded = true;
+        break;
+      case 'check':
+        break;
+    }
+    if (a.allIn || (s.stackBb != null && s.stackBb <= 0 && added > 0)) s.allIn = true;
+    snapshot(a.seat, actionLabel(seats[a.seat], a, added, to));
+  }
+
+  // Deal the rest of the recorded board (e.g. after an all-in or when the input stops at a street header).
+  while (BOARD_SIZE[street] < board.length && street !== 'river') {
+    startStreet(STREETS[STREETS.indexOf(street) + 1]);
+  }
+  return steps;
+}
+
+// ─── From a parsed hand history ───
+
+/** Replay from a room hand history: real seats, stacks, blinds and antes. */
+export function replayFromHandHistory(hh: ParsedHandHistory): Replay | null {
+  const bb = hh.big_blind > 0 ? hh.big_blind : 1;
+  const seats: ReplaySeat[] = hh.players.map((p) => ({
+    name: p.name,
+    position: p.position,
+    isHero: p.is_hero,
+    cards: p.cards,
+    stackBb: round1(p.stack / bb),
+  }));
+  const heroIndex = seats.findIndex((s) => s.isHero);
+  if (heroIndex < 0) return null;
+
+  const index = new Map(hh.players.map((p, i) => [p.name, i]));
+  const actions: ReplayAction[] = [];
+  for (const a of hh.actions) {
+    const seat = index.get(a.player);
+    if (seat == null) continue;
+    const type: ReplayActionType =
+      a.type === 'post_ante' ? 'ante' : a.type.startsWith('post') ? 'post' : (a.type as ReplayActionType);
+    actions.push({
+      street: a.street,
+      seat,
+      type,
+      amountBb: Math.abs(a.amount) / bb,
+      toBb: a.to != null ? a.to / bb : null,
+      allIn: a.all_in,
+    });
+  }
+  return { seats, heroIndex, steps: simulate(seats, actions, hh.board) };
+}
+
+// ─── From Quick Form street lines ───
+
+export type QuickFormReplayInput = {
+  hero_pos?: string | null;
+  position?: string | null;
+  hero_cards?: string | null;
+  effective_stack_bb?: number | null;
+  stack_bb?: number | null;
+  streets?: { preflop?: string | null; flop?: string | null; turn?: string | null; river?: string | null } | null;
+  action_preflop?: string | null;
+  board_structured?: { flop?: string | null; turn?: string | null; river?: string | null } | null;
+  board?: string | null;
+};
+
+const POSITIONS = ['UTG', 'UTG1', 'UTG2', 'MP', 'MP1', 'LJ', 'HJ', 'CO', 'BTN', 'SB', 'BB'];
+/** A number with an optional "bb", not glued to a word (so "3bet" is not an amount). */
+const AMOUNT_RE = /(\d+(?:[.,]\d+)?)\s*(?:bb|бб)?(?![\p{L}\d.,])/iu;
+
+type ParsedChunk = { who: string; isHero: boolean; type: ReplayActionType; amount: number | null; allIn: boolean };
+
+/** "Hero (CO) raises to 3bb", "UTG open 2.5bb", "BB calls", "SB 3bet 9bb" → one action, or null. */
+function parseChunk(chunk: string, heroPos: string | null): ParsedChunk | null {
+  const text = chunk.trim().replace(/^\(pot [^)]*\)\s*/i, '');
+  const m = /^(hero(?:\s*\(([A-Z0-9+]+)\))?|[A-Z]{2,3}\d?)\s+(.+)$/i.exec(text);
+  if (!m) return null;
+  const whoRaw = m[1].toUpperCase();
+  const isHero = whoRaw.startsWith('HERO');
+  const who = isHero ? (m[2]?.toUpperCase() ?? heroPos ?? 'HERO') : whoRaw;
+  if (!isHero && !POSITIONS.includes(who)) return null;
+
+  const rest = m[3].toLowerCase();
+  const amountMatch = AMOUNT_RE.exec(rest);
+  const amount = amountMatch ? parseFloat(amountMatch[1].replace(',', '.')) : null;
+  const allIn = /all[- ]?in|олл[- ]?ин|ва-банк/.test(rest);
+  let type: ReplayActionType | null = null;
+  if (/^(folds?|фолд)/.test(rest)) type = 'fold';
+  else if (/^(checks?|чек)/.test(rest)) type = 'check';
+  else if (/^(calls?|limps?|колл|лимп)/.test(rest)) type = 'call';
+  else if (/^(bets?|бет|donks?|cbets?|c-bets?)/.test(rest)) type = 'bet';
+  else if (/^(raises?|opens?|open-raises?|3-?bets?|4-?bets?|5-?bets?|isos?|рейз|опен|шов|jams?|shoves?|all[- ]?in)/.test(rest)) type = 'raise';
+  if (!type) return null;
+  return { who, isHero, type, amount, allIn };
+}
+
+/** Replay from Quick Form input. Seats are Hero plus every position named in the actions; stacks = effective stack. */
+export function replayFromQuickForm(input: QuickFormReplayInput): Replay | null {
+  const heroPos = (input.hero_pos ?? input.position ?? '').toUpperCase() || null;
+  const streetText: Record<Street, string> = {
+    preflop: input.streets?.preflop ?? input.action_preflop ?? '',
+    flop: input.streets?.flop ?? '',
+    turn: input.streets?.turn ?? '',
+    river: input.streets?.river ?? '',
+  };
+
+  const parsed: { street: Street; chunk: ParsedChunk }[] = [];
+  for (const street of STREETS) {
+    for (const raw of streetText[street].split(/[,;\n]+/)) {
+      const chunk = parseChunk(raw, heroPos);
+      if (chunk) parsed.push({ street, chunk });
+    }
+  }
+  if (parsed.length === 0) return null;
+
+  const stack = input.effective_stack_bb ?? input.stack_bb ?? null;
+  const names = new Set<string>();
+  const seats: ReplaySeat[] = [];
+  const addSeat = (position: string, isHero: boolean) => {
+    const key = isHero ? 'HERO' : position;
+    if (names.has(key)) return;
+    names.add(key);
+    seats.push({ name: isHero ? 'Hero' : position, position, isHero, cards: null, stackBb: stack });
+  };
+  if (heroPos) addSeat(heroPos, true);
+  for (const { chunk } of parsed) addSeat(chunk.who, chunk.isHero || chunk.who === heroPos);
+  if (!seats.some((s) => s.isHero)) addSeat('HERO', true);
+  for (const blind of ['SB', 'BB']) addSeat(blind, blind === heroPos);
+  seats.sort((a, b) => POSITIONS.indexOf(a.position ?? '') - POSITIONS.indexOf(b.position ?? ''));
+
+  const heroIndex = seats.findIndex((s) => s.isHero);
+  const heroCards = parseCardsFromString(input.hero_cards ?? '');
+  if (heroCards.length === 2) seats[heroIndex].cards = heroCards;
+  const seatOf = (who: string, isHero: boolean) =>
+    isHero || who === heroPos ? heroIndex : seats.findIndex((s) => !s.isHero && s.position === who);
+
+  const actions: ReplayAction[] = [];
+  const sbIndex = seats.findIndex((s) => s.position === 'SB');
+  const bbIndex = seats.findIndex((s) => s.position === 'BB');
+  if (sbIndex >= 0) actions.push({ street: 'preflop', seat: sbIndex, type: 'post', amountBb: 0.5, toBb: null, allIn: false });
+  if (bbIndex >= 0) actions.push({ street: 'preflop', seat: bbIndex, type: 'post', amountBb: 1, toBb: null, allIn: false });
+  for (const { street, chunk } of parsed) {
+    const seat = seatOf(chunk.who, chunk.isHero);
+    if (seat < 0) continue;
+    // A raise without "to" in free text ("UTG open 2.5bb") is still a street total.
+    actions.push({
+      street,
+      seat,
+      type: chunk.type,
+      amountBb: chunk.type === 'raise' ? null : chunk.amount,
+      toBb: chunk.type === 'raise' ? chunk.amount : null,
+      allIn: chunk.allIn,
+    });
+  }
+
+  const b = input.board_structured;
+  const board = parseCardsFromString(b ? `${b.flop ?? ''}${b.turn ?? ''}${b.river ?? ''}` : input.board ?? '');
+  return { seats, heroIndex, steps: simulate(seats, actions, board) };
+}
+
+// ─── Coach notes ───
+
+const STREET_MENTION: [Street, RegExp][] = [
+  ['preflop', /префлоп|preflop|pre-flop/i],
+  ['river', /ривер|river/i],
+  ['turn', /т[её]рн|turn/i],
+  ['flop', /(^|[^а-яё])флоп|(^|[^a-z-])flop/i],
+];
+
+function mentionedStreet(text: string): Street | null {
+  for (const [street, re] of STREET_MENTION) if (re.test(text)) return street;
+  return null;
+}
+
+/**
+ * Attach the coach's bullets to replay steps. "why" bullets naming a street go to Hero's last action on it,
+ * the rest to the final step (the decision point); "strategy_next" bullets go to the start of the street they name
+ * when it was played, otherwise to the final step. Mistakes from the decision verdicts go first on Hero's action
+ * on their street, so the timeline marks where the hand went wrong.
+ */
+export function pinCoachNotes(
+  replay: Replay,
+  why: string[],
+  strategyNext: string[],
+  decisions: HandDecision[] = [],
+): Replay {
+  const steps = replay.steps.map((s) => ({ ...s, notes: [] as ReplayNote[] }));
+  const last = steps.length - 1;
+  const heroStepOn = (street: Street) => {
+    for (let i = last; i >= 0; i--) if (steps[i].street === street && steps[i].actor === replay.heroIndex) return i;
+    return -1;
+  };
+  const streetStart = (street: Street) => steps.findIndex((s) => s.street === street);
+
+  for (const d of decisions) {
+    if (d.verdict !== 'mistake') continue;
+    const idx = Math.max(heroStepOn(d.street), streetStart(d.street));
+    const text = `${d.hero_action} → лучше ${d.recommended_action} (−${d.ev_loss_bb} BB)${d.comment ? `. ${d.comment}` : ''}`;
+    steps[idx >= 0 ? idx : last].notes.push({ kind: 'mistake', text });
+  }
+  for (const text of why) {
+    const street = mentionedStreet(text);
+    const idx = street ? Math.max(heroStepOn(street), streetStart(street)) : -1;
+    steps[idx >= 0 ? idx : last].notes.push({ kind: 'why', text });
+  }
+  for (const text of strategyNext) {
+    const street = mentionedStreet(text);
+    const idx = street ? streetStart(street) : -1;
+    steps[idx >= 0 ? idx : last].notes.push({ kind: 'next', text });
+  }
+  return { ...replay, steps };
+}
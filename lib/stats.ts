@@ -0,0 +1,4 @@
+/**
+ * App entry point for the shared hero stats engine (VPIP / PFR / 3bet / WTSD / AF from imported hands).
+ */
+export * from '../supabase/functions/_shared/stats';
@@ -0,0 +1,4 @@
+/**
+ * App entry point for the shared tilt detection (mental signals from bankroll sessions and drill answers).
+ */
+export * from '../supabase/functions/_shared/tilt';
@@ -7,7 +7,6 @@ import Purchases, {
 } from 'react-native-purchases';
 import type { Offerings } from 'react-native-purchases';
 import { useAuth } from './AuthProvider';
-import { supabase } from '../lib/supabase';
 
 const PRO_ENTITLEMENT_ID = 'pro';
 
@@ -28,16 +27,6 @@ type RevenueCatContextType = {
 
 const RevenueCatContext = createContext<RevenueCatContextType | null>(null);
 
-// Supabase client generics can infer 'never' for table methods; payload matches profiles.Update
-async function updateSupabaseSubscriptionTier(userId: string, tier: 'pro' | 'free') {
-  const { error } = await supabase
-    .from('profiles')
-    // @ts-expect-error - profiles update payload is correct per types/database.ts
-    .update({ subscription_tier: tier })
-    .eq('id', userId);
-  if (error) throw error;
-}
-
 export function RevenueCatProvider({ children }: { children: React.ReactNode }) {
   const { user } = useAuth();
   const [isReady, setIsReady] = useState(false);
@@ -179,11 +168,8 @@ export function RevenueCatProvider({ children }: { children: React.ReactNode })
       try {
         const { customerInfo: info } = await Purchases.purchasePackage(pkg);
         setCustomerInfo(info);
-        const hasPro = typeof info.entitlements.active[PRO_ENTITLEMENT_ID] !== 'undefined';
-        if (hasPro) {
-          await updateSupabaseSubscriptionTier(user.id, 'pro');
-        }
-        return hasPro;
+        // profiles.subscription_tier is written only by the revenuecat-webhook edge function
+        return typeof info.entitlements.active[PRO_ENTITLEMENT_ID] !== 'undefined';
       } catch (err: unknown) {
         const rcErr = err as { userCancelled?: boolean; code?: string };
         const cancelled =
@@ -201,11 +187,7 @@ export function RevenueCatProvider({ children }: { children: React.ReactNode })
     try {
       const info = await Purchases.restorePurchases();
       setCustomerInfo(info);
-      const hasPro = typeof info.entitlements.active[PRO_ENTITLEMENT_ID] !== 'undefined';
-      if (hasPro) {
-        await updateSupabaseSubscriptionTier(user.id, 'pro');
-      }
-      return hasPro;
+      return typeof info.entitlements.active[PRO_ENTITLEMENT_ID] !== 'undefined';
     } catch (err) {
       throw err;
     }
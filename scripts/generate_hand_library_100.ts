@@ -1,18 +1,16 @@
 /**
  * Генерация первых 100 задач для hand_library: gpt-4o, распределение 30% флоп / 30% терн / 40% ривер.
  * GTO-анализ на русском (шансы банка, блокеры, SPR). Готовые руки (стрит, флеш, фулл-хаус) в explanation называются готовыми.
- * Валидация комбинаций через pokersolver — hero_hand_rank и начало explanation задаются только по решению солвера.
+ * Валидация комбинаций через общий движок (_shared/poker) — hero_hand_rank и начало explanation задаются только по его оценке.
  * Запуск: npx tsx scripts/generate_hand_library_100.ts
  *
  * .env: OPENAI_API_KEY, EXPO_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY
  */
 
-// @ts-ignore — CommonJS модуль
-const Hand = require('pokersolver').Hand;
-
 import { createClient } from '@supabase/supabase-js';
 import * as dotenv from 'dotenv';
 import * as path from 'path';
+import { boardCardsForStreet, heroHandLabel } from '../supabase/functions/_shared/poker';
 
 dotenv.config({ path: path.resolve(__dirname, '../.env') });
 
@@ -24,41 +22,15 @@ const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
 
 const POSITIONS = ['BTN', 'SB', 'BB', 'CO', 'HJ', 'UTG', 'MP'];
 
-/** Привести карту к формату pokersolver: ранг + масть в нижнем регистре, например 'Ad', 'Th', '7s'. */
-function toPokersolverCard(s: string): string {
-  if (!s || typeof s !== 'string') return '';
-  const t = s.trim();
-  if (t.length < 2) return '';
-  const rank = t[0].toUpperCase();
-  const suit = (t[t.length - 1] || '').toLowerCase();
-  if (!['s', 'h', 'd', 'c'].includes(suit)) return '';
-  return rank + suit;
-}
-
-/** Все карты на текущей улице: hero_cards + board до street включительно. */
-function getCardsForStreet(
+/** Лучшая рука Hero на текущей улице по общему движку (_shared/poker): hero_cards + board до street включительно. */
+function solveHandRank(
   heroCards: [string, string],
   board: { flop: [string, string, string]; turn: string | null; river: string | null },
   street: 'flop' | 'turn' | 'river'
-): string[] {
-  const hero = heroCards.map(toPokersolverCard).filter(Boolean);
-  const flop = (board.flop || []).map(toPokersolverCard).filter(Boolean);
-  const cards = [...hero, ...flop];
-  if (street === 'turn' && board.turn) cards.push(toPokersolverCard(board.turn));
-  if (street === 'river' && board.river) cards.push(toPokersolverCard(board.river));
-  return cards;
-}
-
-/** Решить лучшую руку через pokersolver. Карты: минимум 5 (флоп) или до 7 (ривер). */
-function solveHandRank(cards: string[]): string | null {
-  const normalized = cards.map(toPokersolverCard).filter(Boolean);
-  if (normalized.length < 5) return null;
-  try {
-    const solved = Hand.solve(normalized, 'standard');
-    return solved?.name ?? null;
-  } catch {
-    return null;
-  }
+): string | null {
+  const boardCards = boardCardsForStreet(board, street);
+  if (boardCards.length < 3) return null;
+  return heroHandLabel(heroCards, boardCards);
 }
 
 /** Только эти колонки есть в таблице hand_library (реальная схема). */
@@ -322,21 +294,21 @@ async function fetchBatchFromGPT(
 async function generateBatch(street: 'flop' | 'turn' | 'river', count: number, batchLabel: string): Promise<HandRow[]> {
   const rows = await fetchBatchFromGPT(street, count, batchLabel);
 
-  // Валидация комбинаций через pokersolver: перезаписываем hero_hand_rank и начало explanation
+  // Валидация комбинаций через _shared/poker: перезаписываем hero_hand_rank и начало explanation
   const MAX_RETRY_PER_SLOT = 2;
   const validatedRows: HandRow[] = [];
 
   for (let i = 0; i < rows.length; i++) {
     const row = rows[i];
-    const cards = getCardsForStreet(row.hero_cards, row.board, row.street);
-    const actualRank = solveHandRank(cards);
+    const actualRank = solveHandRank(row.hero_cards, row.board, row.street);
     const rank = actualRank ?? 'High Card';
 
     const aiRankNorm = (row.hero_hand_rank || '').trim().replace(/\s+/g, ' ');
     const match =
       aiRankNorm === rank ||
-      (rank === 'One Pair' && (aiRankNorm === 'Pair' || aiRankNorm === 'One Pair')) ||
-      (rank === 'Three of a Kind' && (aiRankNorm === 'Set' || aiRankNorm === 'Three of a Kind'));
+      (rank === 'Pair' && (aiRankNorm === 'Pair' || aiRankNorm === 'One Pair')) ||
+      ((rank === 'Set' || rank === 'Trips' || rank === 'Three of a Kind') &&
+        (aiRankNorm === 'Set' || aiRankNorm === 'Trips' || aiRankNorm === 'Three of a Kind'));
 
     if (!match && validatedRows.length < rows.length) {
       let replaced = false;
@@ -344,13 +316,12 @@ async function generateBatch(street: 'flop' | 'turn' | 'river', count: number, b
         const retryBatch = await fetchBatchFromGPT(street, 1, `${batchLabel} retry slot ${i}`);
         if (retryBatch.length > 0) {
           const r = retryBatch[0];
-          const retryCards = getCardsForStreet(r.hero_cards, r.board, r.street);
-          const retryRank = solveHandRank(retryCards) ?? 'High Card';
+          const retryRank = solveHandRank(r.hero_cards, r.board, r.street) ?? 'High Card';
           r.hero_hand_rank = retryRank;
           r.explanation = `У Hero ${retryRank}. ${r.explanation || ''}`.trim();
           validatedRows.push(r);
           replaced = true;
-          console.warn(`${batchLabel} slot ${i}: ИИ написал "${row.hero_hand_rank}", pokersolver: "${rank}". Заменён на повторно сгенерированную задачу.`);
+          console.warn(`${batchLabel} slot ${i}: ИИ написал "${row.hero_hand_rank}", движок: "${rank}". Заменён на повторно сгенерированную задачу.`);
           break;
         }
       }
@@ -358,7 +329,7 @@ async function generateBatch(street: 'flop' | 'turn' | 'river', count: number, b
         row.hero_hand_rank = rank;
         row.explanation = `У Hero ${rank}. ${row.explanation || ''}`.trim();
         validatedRows.push(row);
-        console.warn(`${batchLabel} slot ${i}: ИИ написал "${row.hero_hand_rank}", pokersolver: "${rank}". Исправлено на значение солвера.`);
+        console.warn(`${batchLabel} slot ${i}: ИИ написал "${row.hero_hand_rank}", движок: "${rank}". Исправлено на значение солвера.`);
       }
     } else {
       row.hero_hand_rank = rank;
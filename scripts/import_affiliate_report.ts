@@ -0,0 +1,299 @@
+/**
+ * Импорт отчёта партнёрки Покерок и выдача/снятие affiliate_pro. Правила — _shared/affiliate.ts.
+ *
+ * Запуск: npm run affiliate:import -- [отчёт.csv] [--dry-run]
+ *   отчёт.csv   CSV (разделитель , или ;) с заголовком: player_id и date (или period_start/period_end),
+ *               по желанию anid (id пользователя из ссылки на пейволле), rake, hands
+ *   без файла   только перепроверить статусы (истёкшие за отсутствием активности → expired, тир → free)
+ *   --dry-run   показать сопоставление и новые статусы, ничего не записывая
+ *
+ * Строка отчёта привязывается к пользователю по anid, иначе по pokerok_id из affiliate_accounts (если его заявил
+ * через affiliate-link ровно один пользователь). profiles.pokerok_id не используется: его пишет клиент, и кто угодно
+ * мог бы вписать чужой ID. Повторный импорт того же периода перезаписывает цифры, а не суммирует их.
+ * Строки прошлых отчётов без пользователя (ID привязали позже) при каждом запуске сопоставляются заново.
+ *
+ * .env: EXPO_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY (affiliate_* и тир в profiles пишет только service_role).
+ */
+import fs from 'fs';
+import path from 'path';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import {
+  AFFILIATE_WINDOW_DAYS,
+  decideAffiliateStatus,
+  matchReportRow,
+  parseAffiliateReportCsv,
+  type AffiliateActivity,
+  type AffiliateDecision,
+  type AffiliateReportRow,
+  type ReportMatch,
+} from '../supabase/functions/_shared/affiliate';
+import { effectiveTier } from '../supabase/functions/_shared/quota/limits';
+
+dotenv.config({ path: path.resolve(__dirname, '../.env') });
+
+type Row = Record<string, unknown>;
+
+const PAGE_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('Нужны EXPO_PUBLIC_SUPABASE_URL и SUPABASE_SERVICE_ROLE_KEY в .env');
+  process.exit(1);
+}
+const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+async function selectAll(table: string, columns: string, filter?: (q: any) => any): Promise<Row[]> {
+  const out: Row[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let q = supabase.from(table).select(columns).range(from, from + PAGE_SIZE - 1);
+    if (filter) q = filter(q);
+    const { data, error } = await q;
+    if (error) throw new Error(`${table}: ${error.message}`);
+    out.push(...((data ?? []) as unknown as Row[]));
+    if (!data || data.length < PAGE_SIZE) return out;
+  }
+}
+
+/** Пользователи, на которых можно сопоставить строки: id из anid и владельцы pokerok_id в affiliate_accounts. */
+async function loadMatchContext(rows: AffiliateReportRow[]) {
+  const anids = [...new Set(rows.map((r) => r.anid).filter((a): a is string => a != null))];
+  const knownUserIds = new Set<string>();
+  for (let i = 0; i < anids.length; i += 200) {
+    const found = await selectAll('profiles', 'id', (q) => q.in('id', anids.slice(i, i + 200)));
+    for (const p of found) knownUserIds.add(String(p.id));
+  }
+
+  const playerIdOwners = new Map<string, string[]>();
+  // affiliate_accounts пишет только service_role (affiliate-link проверяет, что ID не подтверждён за другим)
+  const withId = await selectAll('affiliate_accounts', 'user_id, pokerok_id', (q) => q.not('pokerok_id', 'is', null));
+  for (const a of withId) {
+    const key = String(a.pokerok_id).trim();
+    playerIdOwners.set(key, [...(playerIdOwners.get(key) ?? []), String(a.user_id)]);
+  }
+  return { knownUserIds, playerIdOwners };
+}
+
+async function importRows(rows: AffiliateReportRow[], matches: ReportMatch[], source: string) {
+  const payload = rows.map((r, i) => ({
+    player_id: r.playerId,
+    anid: r.anid,
+    user_id: matches[i]?.userId ?? null,
+    matched_by: matches[i]?.matchedBy ?? null,
+    period_start: r.periodStart,
+    period_end: r.periodEnd,
+    rake_usd: r.rakeUsd,
+    hands: r.hands,
+    source,
+    imported_at: new Date().toISOString(),
+  }));
+  for (let i = 0; i < payload.length; i += 500) {
+    const { error } = await supabase
+      .from('affiliate_activity')
+      .upsert(payload.slice(i, i + 500), { onConflict: 'player_id,period_start,period_end' });
+    if (error) throw new Error(`affiliate_activity: ${error.message}`);
+  }
+}
+
+type Rematch = { row: AffiliateReportRow; match: NonNullable<ReportMatch> };
+
+/** Ранее импортированные строки без пользователя, которые теперь сопоставляются по anid или affiliate_accounts. */
+async function rematchUnowned(): Promise<Rematch[]> {
+  const columns = 'player_id, anid, period_start, period_end, rake_usd, hands';
+  const unowned = await selectAll('affiliate_activity', columns, (q) => q.is('user_id', null));
+  const rows: AffiliateReportRow[] = unowned.map((a) => ({
+    playerId: String(a.player_id),
+    anid: a.anid != null ? String(a.anid) : null,
+    periodStart: String(a.period_start),
+    periodEnd: String(a.period_end),
+    rakeUsd: Number(a.rake_usd) || 0,
+    hands: Number(a.hands) || 0,
+  }));
+  if (rows.length === 0) return [];
+
+  const { knownUserIds, playerIdOwners } = await loadMatchContext(rows);
+  const out: Rematch[] = [];
+  for (const row of rows) {
+    const match = matchReportRow(row, knownUserIds, playerIdOwners);
+    if (match) out.push({ row, match });
+  }
+  return out;
+}
+
+async function assignRematched(rematched: Rematch[]) {
+  for (const { row, match } of rematched) {
+    const { error } = await supabase
+      .from('affiliate_activity')
+      .update({ user_id: match.userId, matched_by: match.matchedBy })
+      .eq('player_id', row.playerId)
+      .eq('period_start', row.periodStart)
+      .eq('period_end', row.periodEnd)
+      .is('user_id', null);
+    if (error) throw new Error(`affiliate_activity: ${error.message}`);
+  }
+}
+
+/** Статус по активности пользователя + запись в affiliate_accounts и тира в profiles. */
+async function applyDecision(
+  userId: string,
+  account: Row | undefined,
+  decision: AffiliateDecision,
+  matchedPlayerId: string | null,
+  matchedBy: string | null,
+  now: Date,
+) {
+  const { error: accountError } = await supabase.from('affiliate_accounts').upsert(
+    {
+      user_id: userId,
+      pokerok_id: (account?.pokerok_id as string | null) ?? matchedPlayerId,
+      status: decision.status,
+      matched_by: matchedBy ?? (account?.matched_by as string | null) ?? null,
+      verified_at:
+        (account?.verified_at as string | null) ?? (decision.status === 'verified' ? now.toISOString() : null),
+      access_expires_at: decision.accessExpiresAt,
+      window_rake_usd: decision.windowRakeUsd,
+      window_hands: decision.windowHands,
+      last_activity_at: decision.lastActivityAt,
+      checked_at: now.toISOString(),
+      updated_at: now.toISOString(),
+    },
+    { onConflict: 'user_id' },
+  );
+  if (accountError) throw new Error(`affiliate_accounts: ${accountError.message}`);
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('subscription_tier, subscription_expires_at')
+    .eq('id', userId)
+    .maybeSingle();
+  if (profileError) throw new Error(`profiles: ${profileError.message}`);
+  if (!profile) return 'нет профиля';
+
+  const tier = effectiveTier(profile.subscription_tier, profile.subscription_expires_at, now);
+  // Оплаченный PRO из стора не трогаем: его ведёт revenuecat-webhook
+  if (tier === 'pro') return 'PRO по подписке';
+
+  if (decision.status === 'verified') {
+    const { error } = await supabase
+      .from('profiles')
+      .update({
+        subscription_tier: 'affiliate_pro',
+        subscription_status: 'affiliate',
+        subscription_expires_at: decision.accessExpiresAt,
+      })
+      .eq('id', userId);
+    if (error) throw new Error(`profiles: ${error.message}`);
+    return `affiliate_pro до ${decision.accessExpiresAt?.slice(0, 10)}`;
+  }
+
+  if (profile.subscription_tier === 'affiliate_pro') {
+    const { error } = await supabase
+      .from('profiles')
+      .update({ subscription_tier: 'free', subscription_status: 'affiliate_expired', subscription_expires_at: null })
+      .eq('id', userId);
+    if (error) throw new Error(`profiles: ${error.message}`);
+    return 'affiliate_pro снят';
+  }
+  return 'без изменений';
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const file = args.find((a) => !a.startsWith('--'));
+  const now = new Date();
+
+  let rows: AffiliateReportRow[] = [];
+  let matches: ReportMatch[] = [];
+  if (file) {
+    const filePath = path.resolve(process.cwd(), file);
+    const { rows: parsed, issues } = parseAffiliateReportCsv(fs.readFileSync(filePath, 'utf-8'));
+    for (const issue of issues) console.warn(`  строка ${issue.line}: ${issue.message}`);
+    rows = parsed;
+
+    const { knownUserIds, playerIdOwners } = await loadMatchContext(rows);
+    matches = rows.map((r) => matchReportRow(r, knownUserIds, playerIdOwners));
+    const matched = matches.filter(Boolean).length;
+    console.log(
+      `Отчёт ${path.basename(filePath)}: строк ${rows.length}, сопоставлено ${matched}, без пользователя ${rows.length - matched}, ошибок ${issues.length}`,
+    );
+    if (!dryRun) await importRows(rows, matches, path.basename(filePath));
+  } else {
+    console.log('Файл не указан — только перепроверка статусов');
+  }
+
+  // Рейк до привязки ID: строки прошлых отчётов без пользователя, которые теперь сопоставляются
+  const rematched = await rematchUnowned();
+  if (rematched.length > 0) {
+    console.log(`Сопоставлено строк прошлых отчётов: ${rematched.length}`);
+    if (!dryRun) await assignRematched(rematched);
+  }
+
+  // Кого перепроверить: все аккаунты + пользователи из этого отчёта и заново сопоставленных строк
+  const accounts = await selectAll('affiliate_accounts', '*');
+  const accountByUser = new Map(accounts.map((a) => [String(a.user_id), a]));
+  const reportMatch = new Map<string, { playerId: string; matchedBy: string }>();
+  for (const { row, match } of rematched) {
+    reportMatch.set(match.userId, { playerId: row.playerId, matchedBy: match.matchedBy });
+  }
+  rows.forEach((r, i) => {
+    const m = matches[i];
+    if (m) reportMatch.set(m.userId, { playerId: r.playerId, matchedBy: m.matchedBy });
+  });
+  const userIds = [...new Set([...accountByUser.keys(), ...reportMatch.keys()])];
+
+  // Окна хватает с запасом: статус смотрит на последние AFFILIATE_WINDOW_DAYS дней до каждой даты отчёта
+  const since = new Date(now.getTime() - 2 * AFFILIATE_WINDOW_DAYS * DAY_MS).toISOString().slice(0, 10);
+  const counts: Record<string, number> = { pending: 0, verified: 0, expired: 0 };
+  for (const userId of userIds) {
+    const stored = await selectAll('affiliate_activity', 'period_end, rake_usd, hands', (q) =>
+      q.eq('user_id', userId).gte('period_end', since),
+    );
+    const activity: AffiliateActivity[] = stored.map((a) => ({
+      periodEnd: String(a.period_end),
+      rakeUsd: Number(a.rake_usd) || 0,
+      hands: Number(a.hands) || 0,
+    }));
+    // В dry-run строки отчёта и заново сопоставленные строки ещё не записаны — учитываем их напрямую
+    if (dryRun) {
+      rows.forEach((r, i) => {
+        if (matches[i]?.userId === userId) activity.push({ periodEnd: r.periodEnd, rakeUsd: r.rakeUsd, hands: r.hands });
+      });
+      for (const { row, match } of rematched) {
+        // Тот же период из текущего отчёта перезапишет старую строку
+        const overridden = rows.some(
+          (r) => r.playerId === row.playerId && r.periodStart === row.periodStart && r.periodEnd === row.periodEnd,
+        );
+        if (match.userId === userId && row.periodEnd >= since && !overridden) {
+          activity.push({ periodEnd: row.periodEnd, rakeUsd: row.rakeUsd, hands: row.hands });
+        }
+      }
+    }
+
+    const account = accountByUser.get(userId);
+    const decision = decideAffiliateStatus(activity, account?.verified_at != null, now);
+    counts[decision.status] += 1;
+    const previous = (account?.status as string | undefined) ?? 'нет';
+
+    if (dryRun) {
+      console.log(`  ${userId}: ${previous} → ${decision.status} (рейк $${decision.windowRakeUsd}, рук ${decision.windowHands})`);
+      continue;
+    }
+    const match = reportMatch.get(userId);
+    const tierNote = await applyDecision(userId, account, decision, match?.playerId ?? null, match?.matchedBy ?? null, now);
+    if (previous !== decision.status || decision.status === 'verified') {
+      console.log(`  ${userId}: ${previous} → ${decision.status}; ${tierNote}`);
+    }
+  }
+
+  console.log(
+    `\n${dryRun ? '[dry-run] ' : ''}Аккаунтов: ${userIds.length} — verified ${counts.verified}, pending ${counts.pending}, expired ${counts.expired}`,
+  );
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
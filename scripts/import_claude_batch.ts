@@ -2,8 +2,7 @@ import fs from 'fs';
 import path from 'path';
 import { createClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
-// @ts-ignore
-import { Hand } from 'pokersolver';
+import { heroHandLabel } from '../supabase/functions/_shared/poker';
 
 dotenv.config({ path: path.resolve(__dirname, '../.env') });
 
@@ -17,24 +16,9 @@ if (!supabaseUrl || !supabaseAnonKey) {
 
 const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
-// 1. Починенный маппинг карт: '10' -> 'T' для pokersolver
-function toPokersolverCard(card: string): string {
-  if (!card) return '';
-  let rank = card.slice(0, -1);
-  const suit = card.slice(-1).toLowerCase();
-  if (rank === '10') rank = 'T';
-  return rank + suit;
-}
-
-// 2. Математическое определение ранга руки
-function solveHandRank(cards: string[]): string {
-  const normalized = cards.map(toPokersolverCard).filter(c => c !== '');
-  try {
-    const solved = Hand.solve(normalized, 'standard');
-    return solved.name; // Возвращает "Straight", "Three of a Kind", "Pair" и т.д.
-  } catch (e) {
-    return 'High Card';
-  }
+// Математическое определение ранга руки (общий движок _shared/poker: '10' -> 'T', "Set"/"Trips" различаются)
+function solveHandRank(heroCards: string[], board: string[]): string {
+  return heroHandLabel(heroCards, board);
 }
 
 async function importBatch() {
@@ -56,9 +40,8 @@ async function importBatch() {
   for (let i = 0; i < tasks.length; i++) {
     const task = tasks[i];
     
-    // Собираем все карты для проверки
-    const allCards = [...task.hero_cards, ...task.board];
-    const solverRank = solveHandRank(allCards);
+    // Проверяем ранг руки по картам Hero и борда
+    const solverRank = solveHandRank(task.hero_cards, task.board);
     const claudeRank = task.hero_hand_rank || '';
 
     // Логика исправления ранга: слушаем солвера, если он нашел комбинацию
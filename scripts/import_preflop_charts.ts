@@ -0,0 +1,72 @@
+/**
+ * Загрузка чартов префлопа в preflop_charts (тренировка preflop_range).
+ * Запуск: npm run seed:preflop-charts [-- файл.json]   (по умолчанию preflop_charts.json)
+ * .env: EXPO_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY — у приложения только чтение таблицы.
+ * Повторный запуск обновляет чарты с тем же format / stack_bb / hero_pos / opener_pos.
+ */
+import fs from 'fs';
+import path from 'path';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { PREFLOP_STACK_DEPTHS, parsePreflopChart } from '../supabase/functions/_shared/preflopCharts';
+
+dotenv.config({ path: path.resolve(__dirname, '../.env') });
+
+const supabaseUrl = (process.env.EXPO_PUBLIC_SUPABASE_URL ?? '').replace(/"/g, '').replace(/\/$/, '');
+const serviceRoleKey = (process.env.SUPABASE_SERVICE_ROLE_KEY ?? '').replace(/"/g, '');
+
+if (!supabaseUrl || !serviceRoleKey) {
+  console.error('ОШИБКА: Переменные EXPO_PUBLIC_SUPABASE_URL или SUPABASE_SERVICE_ROLE_KEY не найдены в .env');
+  process.exit(1);
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+async function importCharts() {
+  const fileName = process.argv[2] || 'preflop_charts.json';
+  const filePath = path.resolve(process.cwd(), fileName);
+
+  if (!fs.existsSync(filePath)) {
+    console.error(`Файл не найден: ${filePath}`);
+    return;
+  }
+
+  const rawCharts = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (!Array.isArray(rawCharts)) {
+    console.error(`${fileName}: ожидается массив чартов`);
+    return;
+  }
+
+  const rows = [];
+  for (let i = 0; i < rawCharts.length; i++) {
+    // Проверяем тот же разбор, что и при раздаче/оценке: битый диапазон не должен попасть в базу
+    const chart = parsePreflopChart(rawCharts[i]);
+    if (!chart) {
+      console.error(`Чарт ${i + 1}: неверный формат или диапазон — пропущен`, rawCharts[i]);
+      continue;
+    }
+    if (!PREFLOP_STACK_DEPTHS.some((d) => d.format === chart.format && d.stack_bb === chart.stack_bb)) {
+      console.warn(`Чарт ${i + 1}: ${chart.format} ${chart.stack_bb}bb нет в PREFLOP_STACK_DEPTHS`);
+    }
+    rows.push({
+      ...chart,
+      opener_pos: chart.opener_pos ?? '',
+      updated_at: new Date().toISOString(),
+    });
+  }
+
+  console.log(`Загружаем ${rows.length} из ${rawCharts.length} чартов из ${fileName}...`);
+
+  const { data, error } = await supabase
+    .from('preflop_charts')
+    .upsert(rows, { onConflict: 'format,stack_bb,hero_pos,opener_pos' })
+    .select('id');
+
+  if (error) {
+    console.error('Ошибка записи в preflop_charts:', error.message);
+  } else {
+    console.log(`Успех! В базе ${data.length} чартов.`);
+  }
+}
+
+importCharts().catch(console.error);
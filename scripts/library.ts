@@ -0,0 +1,306 @@
+/**
+ * Управление hand_library: одна точка входа вместо разрозненных проверок в generate_tasks / generate_hand_library_100 /
+ * import_claude_batch. Проверки сценариев — _shared/scenarioValidation.ts.
+ *
+ * Запуск: npm run library -- <команда> [аргументы]
+ *   validate [файл.json]              проверить файл или (без файла) всю hand_library; код выхода 1 при ошибках
+ *   import <файл.json> [--dry-run] [--fix-ranks]
+ *                                     загрузить задачи: с ошибками и дубли (в файле и в базе) пропускаются;
+ *                                     --fix-ranks переписывает hero_hand_rank по движку вместо ошибки
+ *   dedupe [--apply]                  найти дубли по каноническому хэшу спота; --apply удаляет лишние копии
+ *   stats [файл.json]                 покрытие leak_tag × street × позиция Hero — где библиотеке не хватает спотов
+ *   export [файл.json] [--leak-tag tag] [--street street]
+ *                                     выгрузить hand_library в JSON (формат import)
+ *
+ * .env: EXPO_PUBLIC_SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY (запись в hand_library только у service_role).
+ */
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { boardCardsForStreet, boardFromArray, heroHandLabel } from '../supabase/functions/_shared/poker';
+import { ALLOWED_LEAK_TAGS } from '../supabase/functions/_shared/leaks';
+import { PREFLOP_RANGE_LEAK_TAGS } from '../supabase/functions/_shared/preflopCharts';
+import {
+  hasErrors,
+  libraryBoardCards,
+  spotKey,
+  validateLibraryRow,
+  type ScenarioIssue,
+} from '../supabase/functions/_shared/scenarioValidation';
+
+dotenv.config({ path: path.resolve(__dirname, '../.env') });
+
+type Row = Record<string, unknown>;
+
+const STREETS = ['flop', 'turn', 'river'];
+const POSITIONS = ['UTG', 'MP', 'HJ', 'CO', 'BTN', 'SB', 'BB'];
+const PAGE_SIZE = 1000;
+
+/** Колонки hand_library, которые пишет import (служебные id / рейтинги / даты не трогаем). */
+const IMPORT_COLUMNS = [
+  'game', 'street', 'hero_pos', 'villain_pos', 'effective_stack_bb', 'hero_cards', 'villain_cards', 'board',
+  'pot_bb', 'pot_size', 'villain_bet', 'hero_stack', 'action_to_hero', 'correct_action', 'explanation',
+  'hero_hand_rank', 'drill_type', 'options', 'correct_option', 'rule_of_thumb', 'leak_tag', 'steps',
+] as const;
+
+function supabaseClient() {
+  const supabaseUrl = (process.env.EXPO_PUBLIC_SUPABASE_URL ?? '').replace(/"/g, '').replace(/\/$/, '');
+  const serviceRoleKey = (process.env.SUPABASE_SERVICE_ROLE_KEY ?? '').replace(/"/g, '');
+  if (!supabaseUrl || !serviceRoleKey) {
+    console.error('ОШИБКА: Переменные EXPO_PUBLIC_SUPABASE_URL или SUPABASE_SERVICE_ROLE_KEY не найдены в .env');
+    process.exit(1);
+  }
+  return createClient(supabaseUrl, serviceRoleKey);
+}
+
+/** Короткий хэш канонического спота (_shared/scenarioValidation.spotKey). */
+function spotHash(row: Row): string | null {
+  const key = spotKey(row);
+  return key ? crypto.createHash('sha1').update(key).digest('hex').slice(0, 16) : null;
+}
+
+function readJsonArray(fileName: string): Row[] {
+  const filePath = path.resolve(process.cwd(), fileName);
+  if (!fs.existsSync(filePath)) {
+    console.error(`Файл не найден: ${filePath}`);
+    process.exit(1);
+  }
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (!Array.isArray(data)) {
+    console.error(`${fileName}: ожидается массив задач`);
+    process.exit(1);
+  }
+  return data as Row[];
+}
+
+async function fetchLibrary(filters: { leakTag?: string; street?: string } = {}): Promise<Row[]> {
+  const supabase = supabaseClient();
+  const rows: Row[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase.from('hand_library').select('*').order('created_at', { ascending: true }).range(from, from + PAGE_SIZE - 1);
+    if (filters.leakTag) query = query.eq('leak_tag', filters.leakTag);
+    if (filters.street) query = query.eq('street', filters.street);
+    const { data, error } = await query;
+    if (error) {
+      console.error('Ошибка чтения hand_library:', error.message);
+      process.exit(1);
+    }
+    rows.push(...((data ?? []) as Row[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+function rowLabel(row: Row, index: number): string {
+  return row.id ? `hand_library ${row.id}` : `Задача ${index + 1}`;
+}
+
+function printIssues(label: string, issues: ScenarioIssue[]) {
+  for (const issue of issues) {
+    const line = `${label}: [${issue.code}] ${issue.message}`;
+    if (issue.level === 'error') console.error(`✗ ${line}`);
+    else console.warn(`! ${line}`);
+  }
+}
+
+/** Задача из файла генератора → строка hand_library (тот же маппинг, что был в import_claude_batch). */
+function toLibraryRow(task: Row, fixRanks: boolean): Row {
+  const row: Row = {};
+  for (const col of IMPORT_COLUMNS) if (task[col] !== undefined) row[col] = task[col];
+  row.game = task.game || 'NLH';
+  row.drill_type = !task.drill_type || task.drill_type === 'postflop' ? 'action_decision' : task.drill_type;
+  row.villain_cards = Array.isArray(task.villain_cards) ? task.villain_cards : [];
+  row.pot_size = task.pot_size ?? task.pot_bb;
+  if (task.correct_action === 'check') row.correct_action = 'call';
+  if (fixRanks && Array.isArray(task.hero_cards)) {
+    const cards = libraryBoardCards(task.board);
+    const board = boardCardsForStreet(boardFromArray(cards), String(task.street ?? 'flop'));
+    if (board.length >= 3) row.hero_hand_rank = heroHandLabel(task.hero_cards.map(String), board);
+  }
+  return row;
+}
+
+// ─── Команды ───
+
+async function validate(fileName?: string): Promise<number> {
+  const rows = fileName ? readJsonArray(fileName) : await fetchLibrary();
+  const byCode: Record<string, number> = {};
+  let invalid = 0;
+  rows.forEach((row, i) => {
+    const issues = validateLibraryRow(row);
+    if (issues.length === 0) return;
+    printIssues(rowLabel(row, i), issues);
+    if (hasErrors(issues)) invalid++;
+    for (const issue of issues) byCode[issue.code] = (byCode[issue.code] ?? 0) + 1;
+  });
+
+  console.log(`\nПроверено ${rows.length}: с ошибками ${invalid}, без ошибок ${rows.length - invalid}.`);
+  for (const [code, count] of Object.entries(byCode).sort((a, b) => b[1] - a[1])) console.log(`  ${code.padEnd(20)} ${count}`);
+  return invalid > 0 ? 1 : 0;
+}
+
+async function importFile(fileName: string | undefined, dryRun: boolean, fixRanks: boolean): Promise<number> {
+  if (!fileName) {
+    console.error('Укажите файл: npm run library -- import batch_1.json');
+    return 1;
+  }
+  const tasks = readJsonArray(fileName);
+  const known = new Set((await fetchLibrary()).map(spotHash).filter(Boolean));
+
+  const rows: Row[] = [];
+  let skippedInvalid = 0;
+  let skippedDupes = 0;
+  tasks.forEach((task, i) => {
+    const row = toLibraryRow(task, fixRanks);
+    const issues = validateLibraryRow(row);
+    printIssues(rowLabel(task, i), issues);
+    if (hasErrors(issues)) {
+      skippedInvalid++;
+      return;
+    }
+    const hash = spotHash(row);
+    if (hash && known.has(hash)) {
+      console.warn(`! Задача ${i + 1}: такой спот уже есть (${hash}) — пропущена`);
+      skippedDupes++;
+      return;
+    }
+    if (hash) known.add(hash);
+    rows.push(row);
+  });
+
+  console.log(`\n${fileName}: к загрузке ${rows.length} из ${tasks.length} (ошибки: ${skippedInvalid}, дубли: ${skippedDupes}).`);
+  if (dryRun || rows.length === 0) return skippedInvalid > 0 ? 1 : 0;
+
+  const { data, error } = await supabaseClient().from('hand_library').insert(rows as any).select('id');
+  if (error) {
+    console.error('Ошибка вставки в hand_library:', error.message);
+    return 1;
+  }
+  console.log(`Успех! Загружено ${data.length} задач в базу.`);
+  return 0;
+}
+
+async function dedupe(apply: boolean): Promise<number> {
+  const rows = await fetchLibrary();
+  const groups = new Map<string, Row[]>();
+  for (const row of rows) {
+    const hash = spotHash(row);
+    if (!hash) continue;
+    groups.set(hash, [...(groups.get(hash) ?? []), row]);
+  }
+
+  // Оставляем самую «обкатанную» копию (меньше difficulty_rd — больше попыток), при равенстве — самую старую
+  const toDelete: string[] = [];
+  for (const [hash, group] of groups) {
+    if (group.length < 2) continue;
+    const sorted = [...group].sort(
+      (a, b) => Number(a.difficulty_rd ?? Infinity) - Number(b.difficulty_rd ?? Infinity) || String(a.created_at).localeCompare(String(b.created_at)),
+    );
+    const extra = sorted.slice(1).map((r) => String(r.id));
+    console.log(`${hash}: оставляем ${sorted[0].id}, лишние: ${extra.join(', ')}`);
+    toDelete.push(...extra);
+  }
+
+  console.log(`\nВсего ${rows.length}, дублей к удалению: ${toDelete.length}.`);
+  if (!apply || toDelete.length === 0) {
+    if (toDelete.length > 0) console.log('Запустите с --apply, чтобы удалить.');
+    return 0;
+  }
+  const supabase = supabaseClient();
+  for (let i = 0; i < toDelete.length; i += 100) {
+    const { error } = await supabase.from('hand_library').delete().in('id', toDelete.slice(i, i + 100));
+    if (error) {
+      console.error('Ошибка удаления из hand_library:', error.message);
+      return 1;
+    }
+  }
+  console.log(`Удалено ${toDelete.length} дублей.`);
+  return 0;
+}
+
+async function stats(fileName?: string): Promise<number> {
+  const rows = fileName ? readJsonArray(fileName) : await fetchLibrary();
+  const counts = new Map<string, number>();
+  const cell = (leak: string, street: string, pos: string) => `${leak}|${street}|${pos}`;
+  for (const row of rows) {
+    const streets = Array.isArray(row.steps) ? (row.steps as Row[]).map((s) => String(s.street)) : [String(row.street)];
+    for (const street of streets) {
+      const key = cell(String(row.leak_tag ?? '—'), street, String(row.hero_pos ?? '—'));
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+  }
+
+  // Префлоп-лики тренируются по чартам (preflop_charts), в hand_library их не ищем
+  const leakTags = [...ALLOWED_LEAK_TAGS].filter((t) => !PREFLOP_RANGE_LEAK_TAGS.includes(t));
+  const extraTags = [...new Set(rows.map((r) => String(r.leak_tag ?? '—')))].filter((t) => !ALLOWED_LEAK_TAGS.has(t));
+  const missing: string[] = [];
+
+  console.log(`hand_library: ${rows.length} задач. Покрытие leak_tag × street × позиция Hero:\n`);
+  for (const leak of [...leakTags, ...extraTags]) {
+    const total = STREETS.reduce((acc, s) => acc + POSITIONS.reduce((a, p) => a + (counts.get(cell(leak, s, p)) ?? 0), 0), 0);
+    console.log(`${leak} — ${total}`);
+    console.log(`  ${''.padEnd(6)}${POSITIONS.map((p) => p.padStart(5)).join('')}`);
+    for (const street of STREETS) {
+      const line = POSITIONS.map((pos) => {
+        const n = counts.get(cell(leak, street, pos)) ?? 0;
+        if (n === 0 && leakTags.includes(leak)) missing.push(`${leak} / ${street} / ${pos}`);
+        return String(n || '·').padStart(5);
+      }).join('');
+      console.log(`  ${street.padEnd(6)}${line}`);
+    }
+  }
+
+  const cells = leakTags.length * STREETS.length * POSITIONS.length;
+  console.log(`\nПустых ячеек: ${missing.length} из ${cells}.`);
+  return 0;
+}
+
+async function exportLibrary(fileName: string | undefined, leakTag?: string, street?: string): Promise<number> {
+  const rows = await fetchLibrary({ leakTag, street });
+  const out = rows.map((row) => {
+    const item: Row = {};
+    for (const col of IMPORT_COLUMNS) if (row[col] != null) item[col] = row[col];
+    return item;
+  });
+  const target = path.resolve(process.cwd(), fileName || 'hand_library_export.json');
+  fs.writeFileSync(target, JSON.stringify(out, null, 2) + '\n');
+  console.log(`Выгружено ${out.length} задач в ${target}`);
+  return 0;
+}
+
+// ─── Разбор аргументов ───
+
+async function main(): Promise<number> {
+  const [command, ...rest] = process.argv.slice(2);
+  const flags = new Set(rest.filter((a) => a.startsWith('--') && !['--leak-tag', '--street'].includes(a)));
+  const option = (name: string) => {
+    const i = rest.indexOf(name);
+    return i >= 0 ? rest[i + 1] : undefined;
+  };
+  const positional = rest.filter((a, i) => !a.startsWith('--') && !['--leak-tag', '--street'].includes(rest[i - 1]));
+
+  switch (command) {
+    case 'validate':
+      return validate(positional[0]);
+    case 'import':
+      return importFile(positional[0], flags.has('--dry-run'), flags.has('--fix-ranks'));
+    case 'dedupe':
+      return dedupe(flags.has('--apply'));
+    case 'stats':
+      return stats(positional[0]);
+    case 'export':
+      return exportLibrary(positional[0], option('--leak-tag'), option('--street'));
+    default:
+      console.error('Команды: validate | import | dedupe | stats | export (подробнее — в начале scripts/library.ts)');
+      return 1;
+  }
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
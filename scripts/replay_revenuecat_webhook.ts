@@ -0,0 +1,138 @@
+/**
+ * Прогон записанных вебхуков RevenueCat (supabase/functions/revenuecat-webhook/fixtures/*.json или свои файлы).
+ * Решения по тиру — _shared/subscription.ts, тот же код, что в edge function.
+ * Решение сверяется с полем "expected" файла ({ ignored, changes: [{ user_id, tier, status, expires_at }] });
+ * при расхождении скрипт завершается с кодом 1. У фикстур репозитория expected обязателен.
+ *
+ * Запуск: npm run revenuecat:replay -- [файлы.json...] [--send] [--url URL]
+ *   без --send   показать и проверить, какой тир и статус получит каждый пользователь (база не трогается)
+ *   --send       отправить события в revenuecat-webhook с заголовком Authorization = REVENUECAT_WEBHOOK_SECRET;
+ *                по умолчанию URL = EXPO_PUBLIC_SUPABASE_URL/functions/v1/revenuecat-webhook
+ *
+ * .env: REVENUECAT_WEBHOOK_SECRET и EXPO_PUBLIC_SUPABASE_URL (только для --send).
+ * Повторная отправка того же события не меняет профиль: webhook пропускает дубли по event_id.
+ */
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { decideRevenueCatEvent, parseRevenueCatEvent, type WebhookDecision } from '../supabase/functions/_shared/subscription';
+
+dotenv.config({ path: path.resolve(__dirname, '../.env') });
+
+const FIXTURES_DIR = path.resolve(__dirname, '../supabase/functions/revenuecat-webhook/fixtures');
+
+function parseArgs(argv: string[]) {
+  const files: string[] = [];
+  let send = false;
+  let url: string | null = null;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--send') send = true;
+    else if (arg === '--url') url = argv[++i] ?? null;
+    else files.push(arg);
+  }
+  return { files, send, url };
+}
+
+function fixtureFiles(files: string[]): string[] {
+  if (files.length > 0) return files.map((f) => path.resolve(process.cwd(), f));
+  return fs
+    .readdirSync(FIXTURES_DIR)
+    .filter((f) => f.endsWith('.json'))
+    .sort()
+    .map((f) => path.join(FIXTURES_DIR, f));
+}
+
+type ExpectedChange = { user_id: string; tier: string; status: string; expires_at: string | null };
+type Expected = { ignored: string | null; changes: ExpectedChange[] };
+
+/** Расхождения решения с ожидаемым результатом фикстуры; пустой список — совпало. */
+function mismatches(decision: WebhookDecision, expected: Expected): string[] {
+  const out: string[] = [];
+  if ((decision.ignored ?? null) !== (expected.ignored ?? null)) {
+    out.push(`пропуск: ожидалось ${expected.ignored ?? '—'}, получено ${decision.ignored ?? '—'}`);
+  }
+  const actual = decision.changes.map((c) => `${c.userId} → ${c.tier} / ${c.status} / ${c.expiresAt ?? '—'}`);
+  const wanted = (expected.changes ?? []).map((c) => `${c.user_id} → ${c.tier} / ${c.status} / ${c.expires_at ?? '—'}`);
+  for (const line of wanted) if (!actual.includes(line)) out.push(`нет изменения ${line}`);
+  for (const line of actual) if (!wanted.includes(line)) out.push(`лишнее изменение ${line}`);
+  return out;
+}
+
+async function main() {
+  const { files, send, url: urlArg } = parseArgs(process.argv.slice(2));
+  const paths = fixtureFiles(files);
+  if (paths.length === 0) {
+    console.error('Нет файлов с событиями');
+    process.exit(1);
+  }
+
+  const secret = process.env.REVENUECAT_WEBHOOK_SECRET;
+  const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
+  const url = urlArg ?? (supabaseUrl ? `${supabaseUrl.replace(/\/$/, '')}/functions/v1/revenuecat-webhook` : null);
+  if (send && (!secret || !url)) {
+    console.error('Для --send нужны REVENUECAT_WEBHOOK_SECRET и EXPO_PUBLIC_SUPABASE_URL (или --url) в .env');
+    process.exit(1);
+  }
+
+  let failed = 0;
+  for (const file of paths) {
+    const name = path.basename(file);
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    } catch (e) {
+      console.error(`✗ ${name}: не JSON — ${e instanceof Error ? e.message : String(e)}`);
+      failed += 1;
+      continue;
+    }
+
+    const event = parseRevenueCatEvent(body);
+    if (!event) {
+      console.error(`✗ ${name}: нет event.id / event.type`);
+      failed += 1;
+      continue;
+    }
+
+    const decision = decideRevenueCatEvent(event);
+    console.log(`\n${name}: ${decision.type} (${decision.eventAt})`);
+    if (decision.ignored) console.log(`  пропуск: ${decision.ignored}`);
+    for (const c of decision.changes) {
+      console.log(`  ${c.userId} → ${c.tier} / ${c.status}${c.expiresAt ? ` до ${c.expiresAt}` : ''}`);
+    }
+
+    const { expected, ...payload } = body;
+    if (expected) {
+      const diff = mismatches(decision, expected as Expected);
+      for (const line of diff) console.error(`  ✗ ${line}`);
+      if (diff.length > 0) failed += 1;
+      else console.log('  ✓ совпадает с expected');
+    } else if (files.length === 0) {
+      console.error('  ✗ в фикстуре нет expected');
+      failed += 1;
+    }
+
+    if (!send) continue;
+    try {
+      const res = await fetch(url!, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: secret! },
+        body: JSON.stringify(payload),
+      });
+      const text = await res.text();
+      console.log(`  webhook ${res.status}: ${text}`);
+      if (!res.ok) failed += 1;
+    } catch (e) {
+      console.error(`  webhook: ошибка запроса — ${e instanceof Error ? e.message : String(e)}`);
+      failed += 1;
+    }
+  }
+
+  console.log(`\nГотово: ${paths.length} событий${failed ? `, ошибок: ${failed}` : ''}`);
+  if (failed) process.exit(1);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
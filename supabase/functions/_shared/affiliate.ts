@@ -0,0 +1,256 @@
+/**
+ * Pokerok affiliate verification: partner report parsing, matching and the activity rule for the affiliate_pro tier.
+ * Pure: scripts/import_affiliate_report.ts applies the result with the service role, the affiliate-link edge function
+ * registers the player id a user enters, the app imports labels via lib/affiliate.ts.
+ *
+ * A report row belongs to a user by `anid` (the Supabase user id the paywall appends to the partner link) or, failing
+ * that, by the Pokerok player id the user entered in the profile. affiliate_pro lasts while the rolling window has
+ * enough rake or hands, and ends AFFILIATE_WINDOW_DAYS after the last qualifying report period without new activity.
+ */
+
+export type AffiliateStatus = 'pending' | 'verified' | 'expired';
+
+export const AFFILIATE_WINDOW_DAYS = 30;
+/** Activity in the window needed for affiliate_pro: either threshold is enough. */
+export const AFFILIATE_MIN_RAKE_USD = 5;
+export const AFFILIATE_MIN_HANDS = 300;
+
+export const AFFILIATE_STATUS_TEXT: Record<AffiliateStatus, { label: string; description: string }> = {
+  pending: {
+    label: 'Ожидает проверки',
+    description: 'Проверим по отчёту партнёра Покерок. PRO откроется после первой игровой активности.',
+  },
+  verified: { label: 'Подтверждён', description: 'PRO активен, пока вы играете на Покерок.' },
+  expired: {
+    label: 'Истёк',
+    description: 'За последние 30 дней нет активности на Покерок. Сыграйте, и PRO вернётся после следующего отчёта.',
+  },
+};
+
+/** One row of a partner report: activity of a player over a period. */
+export type AffiliateReportRow = {
+  anid: string | null;
+  playerId: string;
+  /** ISO date (YYYY-MM-DD). */
+  periodStart: string;
+  periodEnd: string;
+  rakeUsd: number;
+  hands: number;
+};
+
+export type ReportIssue = { line: number; message: string };
+
+export type AffiliateActivity = { periodEnd: string; rakeUsd: number; hands: number };
+
+export type AffiliateDecision = {
+  status: AffiliateStatus;
+  /** End of affiliate_pro access (ISO); null unless verified. */
+  accessExpiresAt: string | null;
+  /** Activity totals in the window ending at `now`. */
+  windowRakeUsd: number;
+  windowHands: number;
+  /** Latest report period end with any activity (ISO date). */
+  lastActivityAt: string | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const PLAYER_ID_RE = /^[A-Za-z0-9_-]{3,32}$/;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Header aliases seen in partner exports, compared lower-cased without spaces/underscores. */
+const COLUMN_ALIASES: Record<'anid' | 'playerId' | 'periodStart' | 'periodEnd' | 'date' | 'rake' | 'hands', string[]> = {
+  anid: ['anid', 'subid', 'clickid'],
+  playerId: ['playerid', 'player', 'pokerokid', 'userid'],
+  periodStart: ['periodstart', 'from', 'datefrom', 'startdate'],
+  periodEnd: ['periodend', 'to', 'dateto', 'enddate'],
+  date: ['date', 'day', 'reportdate'],
+  rake: ['rake', 'rakeusd', 'ngr', 'netrake'],
+  hands: ['hands', 'handsplayed'],
+};
+
+/** Pokerok player id as typed by the user, or null when it cannot be one. */
+export function normalizePlayerId(value: unknown): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const id = String(value).trim();
+  return PLAYER_ID_RE.test(id) ? id : null;
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+/** "1 234,50", "$12.5" → number; null when not a number. */
+function parseAmount(value: string | undefined): number | null {
+  if (value == null || value.trim() === '') return 0;
+  const cleaned = value.replace(/[\s$]/g, '').replace(',', '.');
+  const n = Number(cleaned);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** YYYY-MM-DD or DD.MM.YYYY → YYYY-MM-DD. */
+function parseDate(value: string | undefined): string | null {
+  const v = value?.trim() ?? '';
+  if (DATE_RE.test(v.slice(0, 10))) return v.slice(0, 10);
+  const m = v.match(/^(\d{2})\.(\d{2})\.(\d{4})$/);
+  return m ? `${m[3]}-${m[2]}-${m[1]}` : null;
+}
+
+/**
+ * Partner report CSV (comma or semicolon separated, header row) → rows. Needs a player id column and either a date
+ * or a period_start/period_end pair; rake and hands default to 0. Bad rows are reported, not thrown.
+ */
+export function parseAffiliateReportCsv(text: string): { rows: AffiliateReportRow[]; issues: ReportIssue[] } {
+  const lines = text.replace(/^﻿/, '').split(/\r?\n/);
+  const headerIndex = lines.findIndex((l) => l.trim() !== '');
+  if (headerIndex < 0) return { rows: [], issues: [{ line: 1, message: 'empty report' }] };
+
+  const headerLine = lines[headerIndex];
+  const delimiter = headerLine.split(';').length > headerLine.split(',').length ? ';' : ',';
+  const header = splitCsvLine(headerLine, delimiter).map((h) => h.toLowerCase().replace(/[\s_]/g, ''));
+  const col = (key: keyof typeof COLUMN_ALIASES) => header.findIndex((h) => COLUMN_ALIASES[key].includes(h));
+  const idx = {
+    anid: col('anid'),
+    playerId: col('playerId'),
+    periodStart: col('periodStart'),
+    periodEnd: col('periodEnd'),
+    date: col('date'),
+    rake: col('rake'),
+    hands: col('hands'),
+  };
+
+  if (idx.playerId < 0) return { rows: [], issues: [{ line: headerIndex + 1, message: 'no player id column' }] };
+  if (idx.date < 0 && idx.periodEnd < 0) {
+    return { rows: [], issues: [{ line: headerIndex + 1, message: 'no date or period_end column' }] };
+  }
+
+  const rows: AffiliateReportRow[] = [];
+  const issues: ReportIssue[] = [];
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    if (lines[i].trim() === '') continue;
+    const cells = splitCsvLine(lines[i], delimiter);
+    const line = i + 1;
+
+    const playerId = normalizePlayerId(cells[idx.playerId]);
+    if (!playerId) {
+      issues.push({ line, message: `invalid player id "${cells[idx.playerId] ?? ''}"` });
+      continue;
+    }
+    const periodEnd = parseDate(cells[idx.periodEnd >= 0 ? idx.periodEnd : idx.date]);
+    const periodStart = idx.periodStart >= 0 ? parseDate(cells[idx.periodStart]) : periodEnd;
+    if (!periodEnd || !periodStart || periodStart > periodEnd) {
+      issues.push({ line, message: 'invalid report period' });
+      continue;
+    }
+    const rakeUsd = idx.rake >= 0 ? parseAmount(cells[idx.rake]) : 0;
+    const hands = idx.hands >= 0 ? parseAmount(cells[idx.hands]) : 0;
+    if (rakeUsd == null || hands == null || rakeUsd < 0 || hands < 0) {
+      issues.push({ line, message: 'invalid rake or hands' });
+      continue;
+    }
+
+    const anid = idx.anid >= 0 ? cells[idx.anid]?.trim() ?? '' : '';
+    rows.push({
+      anid: UUID_RE.test(anid) ? anid.toLowerCase() : null,
+      playerId,
+      periodStart,
+      periodEnd,
+      rakeUsd: Math.round(rakeUsd * 100) / 100,
+      hands: Math.round(hands),
+    });
+  }
+  return { rows, issues };
+}
+
+export type ReportMatch = { userId: string; matchedBy: 'anid' | 'player_id' } | null;
+
+/**
+ * User a report row belongs to. `anid` wins: it comes from our own paywall link. Otherwise the player id must be
+ * claimed by exactly one user (`playerIdOwners`: player id → user ids whose affiliate_accounts row holds it; that
+ * table is written only through affiliate-link, never directly by the client like profiles.pokerok_id).
+ */
+export function matchReportRow(
+  row: AffiliateReportRow,
+  knownUserIds: Set<string>,
+  playerIdOwners: Map<string, string[]>,
+): ReportMatch {
+  if (row.anid && knownUserIds.has(row.anid)) return { userId: row.anid, matchedBy: 'anid' };
+  const owners = playerIdOwners.get(row.playerId) ?? [];
+  return owners.length === 1 ? { userId: owners[0], matchedBy: 'player_id' } : null;
+}
+
+function dateMs(isoDate: string): number {
+  return new Date(`${isoDate.slice(0, 10)}T00:00:00Z`).getTime();
+}
+
+/**
+ * Affiliate status at `now` from a user's report activity. Reports are daily or periodic, so access runs
+ * AFFILIATE_WINDOW_DAYS past the end of the last period that kept the window above threshold.
+ * `wasVerified` turns "not enough activity" into expired instead of pending.
+ */
+export function decideAffiliateStatus(
+  activity: AffiliateActivity[],
+  wasVerified: boolean,
+  now = new Date(),
+): AffiliateDecision {
+  const windowMs = AFFILIATE_WINDOW_DAYS * DAY_MS;
+  const active = activity.filter((a) => a.rakeUsd > 0 || a.hands > 0);
+  const lastActivityAt = active.reduce<string | null>(
+    (max, a) => (max == null || a.periodEnd > max ? a.periodEnd : max),
+    null,
+  );
+
+  const inWindow = (a: AffiliateActivity, endMs: number) => {
+    const t = dateMs(a.periodEnd);
+    return t <= endMs && t > endMs - windowMs;
+  };
+  const totals = (endMs: number) =>
+    active
+      .filter((a) => inWindow(a, endMs))
+      .reduce((acc, a) => ({ rake: acc.rake + a.rakeUsd, hands: acc.hands + a.hands }), { rake: 0, hands: 0 });
+  const qualifies = (t: { rake: number; hands: number }) =>
+    t.rake >= AFFILIATE_MIN_RAKE_USD || t.hands >= AFFILIATE_MIN_HANDS;
+
+  // Latest period end at which the trailing window qualified
+  let qualifiedAt: number | null = null;
+  for (const a of active) {
+    const endMs = dateMs(a.periodEnd);
+    if (endMs > now.getTime()) continue;
+    if ((qualifiedAt == null || endMs > qualifiedAt) && qualifies(totals(endMs))) qualifiedAt = endMs;
+  }
+
+  const current = totals(now.getTime());
+  const base = {
+    windowRakeUsd: Math.round(current.rake * 100) / 100,
+    windowHands: current.hands,
+    lastActivityAt,
+  };
+  if (qualifiedAt != null && qualifiedAt + windowMs > now.getTime()) {
+    return { ...base, status: 'verified', accessExpiresAt: new Date(qualifiedAt + windowMs).toISOString() };
+  }
+  return { ...base, status: wasVerified || qualifiedAt != null ? 'expired' : 'pending', accessExpiresAt: null };
+}
@@ -0,0 +1,105 @@
+import type { HandDecision } from './handDecisions.ts';
+
+/**
+ * Revisions of a hand analysis: re-runs of the same hand with another coach style or model (ai-analyze-hand with
+ * revision_of). Pure comparison helpers for hand/[id].tsx: what changed against the first analysis and how stable
+ * the recommended action is across re-runs.
+ */
+
+/** Revisions per hand, the root included; re-runs cost a hand_analysis quota unit each. */
+export const MAX_ANALYSIS_REVISIONS = 6;
+
+/** Models a re-run may request; anything else is rejected so clients cannot pick arbitrary (costly) models. */
+export const ANALYSIS_REVISION_MODELS = ['gpt-4o-mini', 'gpt-4o'] as const;
+
+export type AnalysisRevisionModel = (typeof ANALYSIS_REVISION_MODELS)[number];
+
+/** The parts of HandAnalysisResult that revisions are compared on. */
+export type RevisionResult = {
+  action: string;
+  sizing: string | null;
+  confidence: string;
+  leak_link?: { tag: string } | null;
+  decisions?: HandDecision[];
+};
+
+export type AnalysisRevision = {
+  id: string;
+  revision: number;
+  coach_style: string | null;
+  model: string | null;
+  created_at: string;
+  result: RevisionResult;
+};
+
+export type DecisionChange = {
+  street: HandDecision['street'];
+  from: string | null;
+  to: string | null;
+};
+
+export type RevisionDiff = {
+  actionChanged: boolean;
+  sizingChanged: boolean;
+  confidenceChanged: boolean;
+  leakTagChanged: boolean;
+  /** Streets where the recommended action differs (or exists in only one of the two). */
+  decisionChanges: DecisionChange[];
+};
+
+export type AdviceStability = {
+  /** Most common recommended action across revisions. */
+  action: string;
+  agreeing: number;
+  total: number;
+};
+
+export function isRevisionModel(value: unknown): value is AnalysisRevisionModel {
+  return typeof value === 'string' && (ANALYSIS_REVISION_MODELS as readonly string[]).includes(value);
+}
+
+function normalizeText(value: string | null | undefined): string {
+  return (value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/** "RAISE 3x" — action plus sizing, as shown in the comparison. */
+export function recommendedAction(result: RevisionResult): string {
+  return result.sizing ? `${result.action} ${result.sizing}` : result.action;
+}
+
+/** Recommended action per street: the last decision on the street wins. */
+function recommendationsByStreet(result: RevisionResult): Map<HandDecision['street'], string> {
+  const out = new Map<HandDecision['street'], string>();
+  for (const d of result.decisions ?? []) out.set(d.street, d.recommended_action);
+  return out;
+}
+
+export function compareRevisions(base: RevisionResult, other: RevisionResult): RevisionDiff {
+  const baseStreets = recommendationsByStreet(base);
+  const otherStreets = recommendationsByStreet(other);
+  const decisionChanges: DecisionChange[] = [];
+  for (const street of ['preflop', 'flop', 'turn', 'river'] as const) {
+    const from = baseStreets.get(street) ?? null;
+    const to = otherStreets.get(street) ?? null;
+    if (from == null && to == null) continue;
+    if (normalizeText(from) !== normalizeText(to)) decisionChanges.push({ street, from, to });
+  }
+
+  return {
+    actionChanged: base.action !== other.action,
+    sizingChanged: normalizeText(base.sizing) !== normalizeText(other.sizing),
+    confidenceChanged: base.confidence !== other.confidence,
+    leakTagChanged: (base.leak_link?.tag ?? '') !== (other.leak_link?.tag ?? ''),
+    decisionChanges,
+  };
+}
+
+/** How many revisions agree with the most common action (ties go to the earliest revision's action). */
+export function adviceStability(revisions: AnalysisRevision[]): AdviceStability | null {
+  if (revisions.length === 0) return null;
+  const counts = new Map<string, number>();
+  for (const r of revisions) counts.set(r.result.action, (counts.get(r.result.action) ?? 0) + 1);
+  let action = revisions[0].result.action;
+  for (const [a, n] of counts) if (n > (counts.get(action) ?? 0)) action = a;
+  return { action, agreeing: counts.get(action) ?? 0, total: revisions.length };
+}
@@ -0,0 +1,291 @@
+/**
+ * Hero equity vs one or more villain hands/ranges.
+ *
+ * Turn/river spots are enumerated exactly; preflop/flop (and turn spots whose enumeration would be too big)
+ * fall back to Monte Carlo. Pure TypeScript on top of the shared evaluator, so it runs on-device in the app.
+ */
+
+import { cardToIndex, cardsUnique, evaluateIndices, indexToCard, type CardCode } from './poker.ts';
+
+export type Combo = [CardCode, CardCode];
+
+/** One hand in a range; weight 0..1 (1 = always in range). */
+export type WeightedCombo = { cards: Combo; weight: number };
+
+export type EquityInput = {
+  hero: CardCode[];
+  /** 0, 3, 4 or 5 cards. */
+  board: CardCode[];
+  /** One range per villain; a single-combo range is an exact hand. */
+  villains: WeightedCombo[][];
+  /** Monte Carlo samples (default 20000). */
+  iterations?: number;
+  /** Seed for a reproducible Monte Carlo run. */
+  seed?: number;
+  /** Max evaluations for exact enumeration before switching to Monte Carlo (default 250000). */
+  exactLimit?: number;
+};
+
+export type EquityResult = {
+  /** Hero share of the pot, 0..1 (wins + split shares). */
+  equity: number;
+  win: number;
+  tie: number;
+  /** Equity of each villain, same order as input.villains. */
+  villainEquities: number[];
+  method: 'exact' | 'monte_carlo';
+  /** Runouts evaluated (exact) or samples taken (Monte Carlo). */
+  samples: number;
+};
+
+/** Why the input cannot be evaluated; screens map the code to their own (localized) text. */
+export type EquityInputErrorCode =
+  | 'hero_cards'
+  | 'board_size'
+  | 'no_villains'
+  | 'too_many_villains'
+  | 'invalid_cards'
+  | 'villain_no_combos'
+  | 'no_deal';
+
+export class EquityInputError extends Error {
+  code: EquityInputErrorCode;
+  /** 1-based villain for villain_no_combos, else null. */
+  villain: number | null;
+  constructor(code: EquityInputErrorCode, message: string, villain: number | null = null) {
+    super(message);
+    this.name = 'EquityInputError';
+    this.code = code;
+    this.villain = villain;
+  }
+}
+
+const DEFAULT_ITERATIONS = 20000;
+const DEFAULT_EXACT_LIMIT = 250000;
+
+/** Every two-card combo (1326), weight 1 — "any two cards". */
+export function anyTwoCards(): WeightedCombo[] {
+  const out: WeightedCombo[] = [];
+  for (let a = 51; a >= 1; a--) {
+    for (let b = a - 1; b >= 0; b--) {
+      out.push({ cards: [indexToCard(a), indexToCard(b)], weight: 1 });
+    }
+  }
+  return out;
+}
+
+/** Drop combos that collide with dead cards (card removal) and zero-weight combos. */
+export function removeBlocked(range: WeightedCombo[], dead: CardCode[]): WeightedCombo[] {
+  const deadSet = new Set(dead.map(cardToIndex));
+  return range.filter(
+    (c) => c.weight > 0 && !deadSet.has(cardToIndex(c.cards[0])) && !deadSet.has(cardToIndex(c.cards[1])),
+  );
+}
+
+type IndexedCombo = { a: number; b: number; weight: number };
+
+type Tally = {
+  heroShare: number;
+  heroWin: number;
+  heroTie: number;
+  villainShare: number[];
+  /** Sum of deal weights. */
+  total: number;
+  /** Showdowns evaluated. */
+  count: number;
+};
+
+function emptyTally(villains: number): Tally {
+  return { heroShare: 0, heroWin: 0, heroTie: 0, villainShare: new Array<number>(villains).fill(0), total: 0, count: 0 };
+}
+
+/** Mulberry32: small seeded PRNG so Monte Carlo results are reproducible when a seed is given. */
+function makeRng(seed: number | undefined): () => number {
+  if (seed == null) return Math.random;
+  let t = seed >>> 0;
+  return () => {
+    t = (t + 0x6d2b79f5) >>> 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Score one complete runout and add its (weighted) pot shares to the tally. */
+function scoreShowdown(
+  heroIdx: number[],
+  villainIdx: number[][],
+  boardIdx: number[],
+  weight: number,
+  tally: Tally,
+): void {
+  const heroScore = evaluateIndices([...heroIdx, ...boardIdx]).score;
+  const villainScores = villainIdx.map((v) => evaluateIndices([...v, ...boardIdx]).score);
+  const best = Math.max(heroScore, ...villainScores);
+  const winners = (heroScore === best ? 1 : 0) + villainScores.filter((s) => s === best).length;
+  const share = weight / winners;
+  if (heroScore === best) {
+    tally.heroShare += share;
+    if (winners === 1) tally.heroWin += weight;
+    else tally.heroTie += weight;
+  }
+  villainScores.forEach((s, i) => {
+    if (s === best) tally.villainShare[i] += share;
+  });
+  tally.total += weight;
+  tally.count++;
+}
+
+function validate(input: EquityInput): void {
+  if (input.hero.length !== 2) throw new EquityInputError('hero_cards', 'Hero must have exactly 2 cards');
+  if (![0, 3, 4, 5].includes(input.board.length)) {
+    throw new EquityInputError('board_size', 'Board must have 0, 3, 4 or 5 cards');
+  }
+  if (input.villains.length === 0) throw new EquityInputError('no_villains', 'At least one villain is required');
+  if (input.villains.length > 8) throw new EquityInputError('too_many_villains', 'At most 8 villains are supported');
+  const known = [...input.hero, ...input.board];
+  if (known.some((c) => cardToIndex(c) < 0) || !cardsUnique(known)) {
+    throw new EquityInputError('invalid_cards', 'Hero and board cards must be valid and unique');
+  }
+}
+
+function binomial(n: number, k: number): number {
+  let r = 1;
+  for (let i = 0; i < k; i++) r = (r * (n - i)) / (i + 1);
+  return Math.round(r);
+}
+
+function exactEnumeration(heroIdx: number[], boardIdx: number[], ranges: IndexedCombo[][]): Tally {
+  const tally = emptyTally(ranges.length);
+  const used = new Array<boolean>(52).fill(false);
+  for (const c of [...heroIdx, ...boardIdx]) used[c] = true;
+  const need = 5 - boardIdx.length;
+  const chosen: number[][] = [];
+
+  const runouts = (start: number, board: number[], weight: number) => {
+    if (board.length === 5) {
+      scoreShowdown(heroIdx, chosen, board, weight, tally);
+      return;
+    }
+    for (let c = start; c < 52; c++) {
+      if (used[c]) continue;
+      used[c] = true;
+      board.push(c);
+      runouts(c + 1, board, weight);
+      board.pop();
+      used[c] = false;
+    }
+  };
+
+  const assign = (v: number, weight: number) => {
+    if (v === ranges.length) {
+      runouts(0, [...boardIdx], weight);
+      return;
+    }
+    for (const combo of ranges[v]) {
+      if (used[combo.a] || used[combo.b]) continue;
+      used[combo.a] = used[combo.b] = true;
+      chosen.push([combo.a, combo.b]);
+      assign(v + 1, weight * combo.weight);
+      chosen.pop();
+      used[combo.a] = used[combo.b] = false;
+    }
+  };
+
+  if (need < 0) return tally;
+  assign(0, 1);
+  return tally;
+}
+
+function monteCarlo(
+  heroIdx: number[],
+  boardIdx: number[],
+  ranges: IndexedCombo[][],
+  iterations: number,
+  rng: () => number,
+): Tally {
+  const tally = emptyTally(ranges.length);
+  const cumulative = ranges.map((r) => {
+    let acc = 0;
+    return r.map((c) => (acc += c.weight));
+  });
+  const used = new Array<boolean>(52).fill(false);
+  const MAX_TRIES = 50;
+
+  for (let it = 0; it < iterations; it++) {
+    used.fill(false);
+    for (const c of [...heroIdx, ...boardIdx]) used[c] = true;
+
+    // Villains are drawn in turn; rejection keeps the draws card-removal correct and weight-proportional.
+    const chosen: number[][] = [];
+    let ok = true;
+    for (let v = 0; v < ranges.length && ok; v++) {
+      const cum = cumulative[v];
+      const totalWeight = cum[cum.length - 1];
+      ok = false;
+      for (let t = 0; t < MAX_TRIES; t++) {
+        const x = rng() * totalWeight;
+        let lo = 0, hi = cum.length - 1;
+        while (lo < hi) {
+          const mid = (lo + hi) >> 1;
+          if (cum[mid] > x) hi = mid;
+          else lo = mid + 1;
+        }
+        const combo = ranges[v][lo];
+        if (used[combo.a] || used[combo.b]) continue;
+        used[combo.a] = used[combo.b] = true;
+        chosen.push([combo.a, combo.b]);
+        ok = true;
+        break;
+      }
+    }
+    if (!ok) continue;
+
+    const board = [...boardIdx];
+    while (board.length < 5) {
+      const c = Math.floor(rng() * 52);
+      if (used[c]) continue;
+      used[c] = true;
+      board.push(c);
+    }
+    scoreShowdown(heroIdx, chosen, board, 1, tally);
+  }
+  return tally;
+}
+
+/**
+ * Hero equity. Throws EquityInputError on malformed input or when a villain range is empty after card removal.
+ */
+export function computeEquity(input: EquityInput): EquityResult {
+  validate(input);
+  const dead = [...input.hero, ...input.board];
+  const heroIdx = input.hero.map(cardToIndex);
+  const boardIdx = input.board.map(cardToIndex);
+  const ranges: IndexedCombo[][] = input.villains.map((range, i) => {
+    const live = removeBlocked(range, dead)
+      .map((c) => ({ a: cardToIndex(c.cards[0]), b: cardToIndex(c.cards[1]), weight: c.weight }))
+      .filter((c) => c.a >= 0 && c.b >= 0 && c.a !== c.b);
+    if (live.length === 0) {
+      throw new EquityInputError('villain_no_combos', `Villain ${i + 1} has no live combos`, i + 1);
+    }
+    return live;
+  });
+
+  const remaining = 52 - dead.length - 2 * ranges.length;
+  const exactCost = ranges.reduce((acc, r) => acc * r.length, 1) * binomial(remaining, 5 - boardIdx.length);
+  const useExact = boardIdx.length >= 4 && exactCost <= (input.exactLimit ?? DEFAULT_EXACT_LIMIT);
+
+  const tally = useExact
+    ? exactEnumeration(heroIdx, boardIdx, ranges)
+    : monteCarlo(heroIdx, boardIdx, ranges, input.iterations ?? DEFAULT_ITERATIONS, makeRng(input.seed));
+
+  if (tally.total === 0) throw new EquityInputError('no_deal', 'Villain ranges leave no possible deal');
+  return {
+    equity: tally.heroShare / tally.total,
+    win: tally.heroWin / tally.total,
+    tie: tally.heroTie / tally.total,
+    villainEquities: tally.villainShare.map((s) => s / tally.total),
+    method: useExact ? 'exact' : 'monte_carlo',
+    samples: tally.count,
+  };
+}
@@ -0,0 +1,188 @@
+/**
+ * EV grading for action_decision drills: fold / call / raise valued in bb from Hero's equity against the villain's
+ * cards (hand_library.villain_cards) or range (scenario.villain_range), the pot, the bet and the stack.
+ *
+ * Model (one decision, no later streets): folding is worth 0; calling wins the pot plus both bets with Hero's
+ * equity; a raise wins the pot outright against hands that would lose money calling it and gets called by the rest
+ * (no re-raise). Answers are graded by EV loss against the best action. Pure TypeScript — no Deno APIs.
+ */
+
+import { boardCardsForStreet, boardFromArray, cardsUnique, normalizeCardToken, type CardCode } from './poker.ts';
+import { computeEquity, removeBlocked, type WeightedCombo } from './equity.ts';
+import { expandRange, parseRange } from './ranges.ts';
+
+export type EvAction = 'fold' | 'call' | 'raise';
+
+/** best: the top action (within rounding); close: small loss; blunder: everything else. */
+export type EvBand = 'best' | 'close' | 'blunder';
+
+export type EvSpot = {
+  hero_cards: [CardCode, CardCode];
+  /** Board on the decision street. */
+  board: CardCode[];
+  /** Pot before the villain's bet. */
+  pot_bb: number;
+  /** Villain's bet Hero faces; 0 when checked to (then call = check, raise = bet). */
+  bet_bb: number;
+  /** Hero's stack behind. */
+  stack_bb: number;
+  /** Villain's exact hand or weighted range. */
+  villain: WeightedCombo[];
+};
+
+export type EvGrade = {
+  ev: Record<EvAction, number>;
+  best_action: EvAction;
+  ev_loss_bb: number;
+  band: EvBand;
+  /** Result for the rating update, 1 (best) … 0 (loss of twice the close band or more). */
+  score: number;
+  /** Hero equity vs the whole villain range. */
+  hero_equity: number;
+  /** Share of the villain range that folds to the raise. */
+  fold_to_raise: number;
+  raise_to_bb: number;
+};
+
+export type ActionEvs = Pick<EvGrade, 'ev' | 'best_action' | 'hero_equity' | 'fold_to_raise' | 'raise_to_bb'>;
+
+/** Losses up to this are rounding, not a worse decision. */
+const BEST_EPS_BB = 0.05;
+/** Close band: the larger of a flat bb amount and a share of the pot after the bet. */
+const CLOSE_MIN_BB = 1;
+const CLOSE_POT_SHARE = 0.1;
+/** Monte Carlo samples for an exact villain hand / per combo of a range (flop spots; turn and river are exact). */
+const SINGLE_HAND_ITERATIONS = 20000;
+const RANGE_COMBO_ITERATIONS = 300;
+/** Fixed seed: the same scenario always gets the same grade. */
+const EV_SEED = 20240601;
+
+const ACTIONS: EvAction[] = ['fold', 'call', 'raise'];
+
+function round2(x: number): number {
+  return Math.round(x * 100) / 100;
+}
+
+/** Loss in bb above which an answer is a blunder. */
+export function closeBandBb(potBb: number, betBb: number): number {
+  return Math.max(CLOSE_MIN_BB, CLOSE_POT_SHARE * (potBb + betBb));
+}
+
+export function evBand(lossBb: number, potBb: number, betBb: number): EvBand {
+  if (lossBb <= BEST_EPS_BB) return 'best';
+  return lossBb <= closeBandBb(potBb, betBb) ? 'close' : 'blunder';
+}
+
+/** Raise-to size: the user's size clamped to [min raise, stack]; default 3x the bet, or a 75% pot bet when checked to. */
+export function resolveRaiseTo(spot: Pick<EvSpot, 'pot_bb' | 'bet_bb' | 'stack_bb'>, raiseToBb?: number | null): number {
+  const min = spot.bet_bb > 0 ? spot.bet_bb * 2 : 1;
+  const fallback = spot.bet_bb > 0 ? spot.bet_bb * 3 : spot.pot_bb * 0.75;
+  const wanted = typeof raiseToBb === 'number' && Number.isFinite(raiseToBb) && raiseToBb > 0 ? raiseToBb : fallback;
+  return Math.min(spot.stack_bb, Math.max(min, wanted));
+}
+
+/** EV of every action for a spot. null when card removal leaves the villain no hands. */
+export function computeActionEvs(spot: EvSpot, raiseToBb?: number | null): ActionEvs | null {
+  const dead = [...spot.hero_cards, ...spot.board];
+  const villain = removeBlocked(spot.villain, dead);
+  if (villain.length === 0) return null;
+
+  const pot = spot.pot_bb;
+  const bet = Math.min(spot.bet_bb, spot.stack_bb);
+  const raiseTo = resolveRaiseTo({ ...spot, bet_bb: bet }, raiseToBb);
+  // The villain calls the raise when that beats folding his bet: equity * (pot + 2R) >= R - bet.
+  const villainNeeds = (raiseTo - bet) / (pot + 2 * raiseTo);
+
+  let total = 0;
+  let equitySum = 0;
+  let foldWeight = 0;
+  let raiseEv = 0;
+  for (const combo of villain) {
+    const { equity } = computeEquity({
+      hero: spot.hero_cards,
+      board: spot.board,
+      villains: [[{ cards: combo.cards, weight: 1 }]],
+      iterations: villain.length === 1 ? SINGLE_HAND_ITERATIONS : RANGE_COMBO_ITERATIONS,
+      seed: EV_SEED,
+    });
+    total += combo.weight;
+    equitySum += combo.weight * equity;
+    if (1 - equity < villainNeeds) {
+      foldWeight += combo.weight;
+      raiseEv += combo.weight * (pot + bet);
+    } else {
+      raiseEv += combo.weight * (equity * (pot + 2 * raiseTo) - raiseTo);
+    }
+  }
+
+  const heroEquity = equitySum / total;
+  const ev: Record<EvAction, number> = {
+    fold: 0,
+    call: round2(heroEquity * (pot + 2 * bet) - bet),
+    raise: round2(raiseEv / total),
+  };
+  const best = ACTIONS.reduce((a, b) => (ev[b] > ev[a] ? b : a));
+  return {
+    ev,
+    best_action: best,
+    hero_equity: Math.round(heroEquity * 1000) / 1000,
+    fold_to_raise: Math.round((foldWeight / total) * 1000) / 1000,
+    raise_to_bb: round2(raiseTo),
+  };
+}
+
+/** Grade one answer: EV loss against the best action, its band and the rating score. */
+export function gradeByEv(spot: EvSpot, action: string, raiseToBb?: number | null): EvGrade | null {
+  const a = (action.toLowerCase() === 'check' ? 'call' : action.toLowerCase()) as EvAction;
+  if (!ACTIONS.includes(a)) return null;
+  const evs = computeActionEvs(spot, raiseToBb);
+  if (!evs) return null;
+  const loss = round2(Math.max(0, evs.ev[evs.best_action] - evs.ev[a]));
+  const band = evBand(loss, spot.pot_bb, spot.bet_bb);
+  const score = band === 'best' ? 1 : Math.max(0, 1 - loss / (2 * closeBandBb(spot.pot_bb, spot.bet_bb)));
+  return { ...evs, ev_loss_bb: loss, band, score: Math.round(score * 1000) / 1000 };
+}
+
+/**
+ * EV spot from a drill scenario (hand_library row, generated scenario or the app's normalized one).
+ * Needs hero cards, a board, a pot, a stack and villain_cards or a parsable villain_range; null otherwise.
+ * The bet comes from villain_bet or action_to_hero.size_bb (check → 0).
+ */
+export function evSpotFromScenario(raw: Record<string, unknown>): EvSpot | null {
+  const hero = Array.isArray(raw.hero_cards) ? raw.hero_cards.map((c) => normalizeCardToken(String(c))) : [];
+  if (hero.length !== 2 || !hero[0] || !hero[1]) return null;
+
+  const boardRaw = raw.board;
+  const board = Array.isArray(boardRaw)
+    ? boardFromArray(boardRaw.map((c) => (c == null ? null : String(c))))
+    : (boardRaw as { flop?: string[]; turn?: string | null; river?: string | null } | null);
+  const street = typeof raw.street === 'string' ? raw.street : 'flop';
+  const boardCards = boardCardsForStreet(board, street).map((c) => normalizeCardToken(c));
+  if (boardCards.length < 3 || boardCards.some((c) => !c)) return null;
+
+  const pot = Number(raw.pot_bb);
+  const stack = Number(raw.effective_stack_bb ?? raw.hero_stack);
+  const action = raw.action_to_hero && typeof raw.action_to_hero === 'object' ? (raw.action_to_hero as Record<string, unknown>) : null;
+  const bet = Number(raw.villain_bet ?? (action?.type === 'check' ? 0 : action?.size_bb) ?? 0);
+  if (!Number.isFinite(pot) || pot <= 0 || !Number.isFinite(stack) || stack <= 0 || !Number.isFinite(bet) || bet < 0) return null;
+
+  let villain: WeightedCombo[] | null = null;
+  const villainCards = Array.isArray(raw.villain_cards) ? raw.villain_cards.map((c) => normalizeCardToken(String(c))) : [];
+  if (villainCards.length === 2 && villainCards[0] && villainCards[1]) {
+    villain = [{ cards: [villainCards[0], villainCards[1]], weight: 1 }];
+  } else if (typeof raw.villain_range === 'string' && raw.villain_range.trim()) {
+    try {
+      villain = expandRange(parseRange(raw.villain_range));
+    } catch {
+      villain = null;
+    }
+  }
+  if (!villain) return null;
+
+  const heroCards: [CardCode, CardCode] = [hero[0], hero[1]];
+  const cards = boardCards as CardCode[];
+  if (!cardsUnique([...heroCards, ...cards])) return null;
+  if (villain.length === 1 && !cardsUnique([...heroCards, ...cards, ...villain[0].cards])) return null;
+
+  return { hero_cards: heroCards, board: cards, pot_bb: pot, bet_bb: bet, stack_bb: stack, villain };
+}
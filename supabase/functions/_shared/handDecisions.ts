@@ -0,0 +1,121 @@
+import { enforceAllowedLeakTag } from './leaks.ts';
+import type { Street } from './poker.ts';
+
+/**
+ * Decision-level verdicts in a hand analysis: one entry per Hero decision point with the action taken, the
+ * recommended one and the estimated EV loss. ai-analyze-hand asks the model for them (HAND_DECISIONS_SCHEMA) and
+ * derives hand_analyses.mistake_tags from the mistakes; hand/[id].tsx highlights where the hand went wrong.
+ */
+
+export type DecisionVerdict = 'correct' | 'marginal' | 'mistake';
+
+export type HandDecision = {
+  street: Street;
+  /** What Hero did, e.g. "call 6bb". */
+  hero_action: string;
+  /** What Hero should have done, e.g. "raise to 18bb". */
+  recommended_action: string;
+  verdict: DecisionVerdict;
+  /** Estimated EV lost versus the recommended action, in big blinds (0 for correct decisions). */
+  ev_loss_bb: number;
+  /** Allowed leak tag (_shared/leaks.ts) for a mistake; null otherwise. */
+  leak_tag: string | null;
+  /** One sentence on why. */
+  comment: string;
+};
+
+const STREETS: Street[] = ['preflop', 'flop', 'turn', 'river'];
+const VERDICTS: DecisionVerdict[] = ['correct', 'marginal', 'mistake'];
+const MAX_DECISIONS = 12;
+
+export const DECISION_STREET_LABEL: Record<Street, string> = {
+  preflop: 'Префлоп',
+  flop: 'Флоп',
+  turn: 'Тёрн',
+  river: 'Ривер',
+};
+
+export const DECISION_VERDICT_LABEL: Record<DecisionVerdict, string> = {
+  correct: 'Верно',
+  marginal: 'Спорно',
+  mistake: 'Ошибка',
+};
+
+/** JSON schema for the `decisions` array of the analysis response (strict structured output). */
+export const HAND_DECISIONS_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      street: { type: 'string', enum: STREETS },
+      hero_action: { type: 'string' },
+      recommended_action: { type: 'string' },
+      verdict: { type: 'string', enum: VERDICTS },
+      ev_loss_bb: { type: 'number' },
+      leak_tag: { type: ['string', 'null'] },
+      comment: { type: 'string' },
+    },
+    required: ['street', 'hero_action', 'recommended_action', 'verdict', 'ev_loss_bb', 'leak_tag', 'comment'],
+  },
+};
+
+/**
+ * Validates the model's decisions: unknown streets/verdicts are dropped, EV loss is clamped to ≥ 0 and rounded to
+ * 0.1 bb, leak tags go through the whitelist, and a decision is a mistake only with a positive EV loss.
+ * Sorted by street order as the hand was played.
+ */
+export function normalizeDecisions(raw: unknown): HandDecision[] {
+  if (!Array.isArray(raw)) return [];
+  const out: HandDecision[] = [];
+  for (const item of raw.slice(0, MAX_DECISIONS)) {
+    const d = item as Partial<Record<keyof HandDecision, unknown>> | null;
+    if (!d || !STREETS.includes(d.street as Street)) continue;
+    const heroAction = typeof d.hero_action === 'string' ? d.hero_action.trim() : '';
+    if (!heroAction) continue;
+
+    const evLoss = typeof d.ev_loss_bb === 'number' && Number.isFinite(d.ev_loss_bb) ? Math.max(0, d.ev_loss_bb) : 0;
+    let verdict: DecisionVerdict = VERDICTS.includes(d.verdict as DecisionVerdict) ? (d.verdict as DecisionVerdict) : 'marginal';
+    if (verdict === 'mistake' && evLoss === 0) verdict = 'marginal';
+
+    out.push({
+      street: d.street as Street,
+      hero_action: heroAction,
+      recommended_action:
+        typeof d.recommended_action === 'string' && d.recommended_action.trim() ? d.recommended_action.trim() : heroAction,
+      verdict,
+      ev_loss_bb: verdict === 'correct' ? 0 : Math.round(evLoss * 10) / 10,
+      leak_tag: verdict === 'correct' ? null : enforceAllowedLeakTag(typeof d.leak_tag === 'string' ? d.leak_tag : null),
+      comment: typeof d.comment === 'string' ? d.comment.trim() : '',
+    });
+  }
+  // Stable sort keeps the model's order within a street
+  return out
+    .map((d, i) => ({ d, i }))
+    .sort((a, b) => STREETS.indexOf(a.d.street) - STREETS.indexOf(b.d.street) || a.i - b.i)
+    .map(({ d }) => d);
+}
+
+/** Index of the costliest mistake, or -1 when the hand has none. */
+export function worstDecisionIndex(decisions: HandDecision[]): number {
+  let worst = -1;
+  decisions.forEach((d, i) => {
+    if (d.verdict === 'mistake' && (worst < 0 || d.ev_loss_bb > decisions[worst].ev_loss_bb)) worst = i;
+  });
+  return worst;
+}
+
+/** hand_analyses.mistake_tags: leak tags of the mistakes, costliest first, without duplicates. */
+export function decisionMistakeTags(decisions: HandDecision[]): string[] {
+  const tags = decisions
+    .filter((d) => d.verdict === 'mistake' && d.leak_tag)
+    .sort((a, b) => b.ev_loss_bb - a.ev_loss_bb)
+    .map((d) => d.leak_tag as string);
+  return [...new Set(tags)];
+}
+
+/** Total EV lost over the hand's mistakes, in big blinds. */
+export function totalEvLossBb(decisions: HandDecision[]): number {
+  const sum = decisions.filter((d) => d.verdict === 'mistake').reduce((acc, d) => acc + d.ev_loss_bb, 0);
+  return Math.round(sum * 10) / 10;
+}
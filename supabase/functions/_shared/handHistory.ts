@@ -0,0 +1,505 @@
+/**
+ * Deterministic hand-history parser for PokerStars and GGPoker-network (GGPoker, Pokerok) text exports.
+ *
+ * parseHandHistory() turns one hand into players, positions, actions and board; handHistoryToQuickForm()
+ * maps it onto the QuickFormInput fields used by ai-parse-hand-text / ai-analyze-hand, with a confidence level.
+ * No LLM, no Deno APIs — also usable from scripts and the app.
+ */
+
+import { parseCardsFromString, type CardCode, type Street } from './poker.ts';
+
+export type HandHistorySite = 'pokerstars' | 'ggpoker' | 'pokerok';
+export type HandHistoryGame = 'NLH' | 'PLO' | 'UNKNOWN';
+export type HandHistoryConfidence = 'LOW' | 'MEDIUM' | 'HIGH';
+
+export type HandHistoryActionType =
+  | 'post_sb'
+  | 'post_bb'
+  | 'post_ante'
+  | 'post'
+  | 'fold'
+  | 'check'
+  | 'call'
+  | 'bet'
+  | 'raise'
+  /** Uncalled bet returned to the player (negative amount). */
+  | 'uncalled';
+
+export type HandHistoryAction = {
+  street: Street;
+  player: string;
+  type: HandHistoryActionType;
+  /** Chips this action adds to the pot (negative for 'uncalled'). */
+  amount: number;
+  /** For raises: the street total the player raised to. */
+  to: number | null;
+  all_in: boolean;
+};
+
+export type HandHistoryPlayer = {
+  seat: number;
+  name: string;
+  /** Starting stack in chips / currency units. */
+  stack: number;
+  position: string | null;
+  /** Hole cards if dealt face up to Hero or shown at showdown. */
+  cards: CardCode[] | null;
+  is_hero: boolean;
+};
+
+export type ParsedHandHistory = {
+  site: HandHistorySite;
+  hand_id: string;
+  game: HandHistoryGame;
+  is_tournament: boolean;
+  /** "$", "€", "£" or null for chips / play money. */
+  currency: string | null;
+  small_blind: number;
+  big_blind: number;
+  /** Display stakes, e.g. "$0.05/$0.10" or "10/20". */
+  stakes: string;
+  table_name: string | null;
+  max_seats: number | null;
+  button_seat: number | null;
+  /** "YYYY-MM-DDTHH:MM:SS" as printed by the room (room time zone), or null. */
+  played_at: string | null;
+  players: HandHistoryPlayer[];
+  hero: string | null;
+  hero_cards: CardCode[];
+  board: CardCode[];
+  actions: HandHistoryAction[];
+  total_pot: number | null;
+  rake: number | null;
+  /** Player → amount collected from the pot(s). */
+  collected: Record<string, number>;
+};
+
+export type QuickFormFields = {
+  game: HandHistoryGame;
+  stakes: string | null;
+  hero_pos: string;
+  effective_stack_bb: number | null;
+  hero_cards: string | null;
+  preflop: string;
+  flop: string | null;
+  turn: string | null;
+  river: string | null;
+  board: { flop: string; turn: string | null; river: string | null } | null;
+};
+
+export type QuickFormResult = {
+  hand: QuickFormFields;
+  confidence: HandHistoryConfidence;
+  source_message: string;
+};
+
+const HEADER_RE = /^(PokerStars(?: Zoom| Home Game)?|Poker|GGPoker|PokerOK|Pokerok) Hand #([A-Za-z]*\d+):\s*(.*)$/i;
+const TABLE_RE = /^Table '([^']+)'\s+(\d+)-max.*?Seat #(\d+) is the button/i;
+const SEAT_RE = /^Seat (\d+): (.+?) \(([$€£]?[\d.,]+) in chips[^)]*\)(.*)$/;
+const POST_RE = /^(.+?): posts (small blind|big blind|the ante|ante|small & big blinds|straddle|dead blind|missed blind) [$€£]?([\d.,]+)/i;
+const ACTION_RE = /^(.+?): (folds|checks|calls|bets|raises)(?: [$€£]?([\d.,]+))?(?: to [$€£]?([\d.,]+))?( and is all-in)?/;
+const DEALT_RE = /^Dealt to (.+?) \[([^\]]+)\]/;
+const STREET_RE = /^\*\*\* (FLOP|TURN|RIVER|FIRST FLOP|FIRST TURN|FIRST RIVER) \*\*\* \[([^\]]+)\](?: \[([^\]]+)\])?/;
+const UNCALLED_RE = /^Uncalled bet \([$€£]?([\d.,]+)\) returned to (.+)$/;
+const COLLECTED_RE = /^(.+?) collected [$€£]?([\d.,]+) from/;
+const SHOWS_RE = /^(.+?): shows \[([^\]]+)\]/;
+const TOTAL_POT_RE = /^Total pot [$€£]?([\d.,]+)(?:.*?\| Rake [$€£]?([\d.,]+))?/;
+const STAKES_RE = /\(([$€£]?)([\d.,]+)\/([$€£]?)([\d.,]+)/;
+const DATE_RE = /(\d{4})[\/-](\d{2})[\/-](\d{2})\s+(\d{1,2}):(\d{2}):(\d{2})/;
+
+function toNumber(raw: string | undefined | null): number {
+  if (!raw) return 0;
+  const n = parseFloat(raw.replace(/,/g, ''));
+  return Number.isFinite(n) ? n : 0;
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function detectSite(prefix: string, text: string): HandHistorySite {
+  if (/^PokerStars/i.test(prefix)) return 'pokerstars';
+  if (/pokerok/i.test(prefix) || /pokerok/i.test(text)) return 'pokerok';
+  return 'ggpoker';
+}
+
+function detectGame(header: string): HandHistoryGame {
+  const s = header.toUpperCase();
+  if (s.includes('OMAHA') || s.includes('PLO')) return 'PLO';
+  if (s.includes("HOLD'EM") || s.includes('HOLDEM') || s.includes('NLH')) return 'NLH';
+  return 'UNKNOWN';
+}
+
+/**
+ * Seat positions clockwise from the button. Heads-up: button + BB.
+ * Between BB and BTN: UTG first, CO last, HJ before CO from 7 players, the rest MP.
+ */
+export function assignPositions(seats: number[], buttonSeat: number | null): Record<number, string> {
+  const sorted = [...seats].sort((a, b) => a - b);
+  const out: Record<number, string> = {};
+  if (sorted.length < 2) return out;
+  // Start right after the button (or after the seat the button would occupy).
+  const btnIdx = buttonSeat == null ? sorted.length - 1 : sorted.findIndex((s) => s >= buttonSeat);
+  const start = buttonSeat != null && sorted[btnIdx] === buttonSeat ? btnIdx + 1 : Math.max(btnIdx, 0);
+  const order = sorted.map((_, i) => sorted[(start + i) % sorted.length]);
+
+  if (order.length === 2) {
+    out[order[1]] = 'BTN';
+    out[order[0]] = 'BB';
+    return out;
+  }
+  out[order[0]] = 'SB';
+  out[order[1]] = 'BB';
+  out[order[order.length - 1]] = 'BTN';
+  const middle = order.slice(2, -1);
+  middle.forEach((seat, i) => {
+    if (i === middle.length - 1) out[seat] = 'CO';
+    else if (i === 0) out[seat] = 'UTG';
+    else if (i === middle.length - 2 && middle.length >= 4) out[seat] = 'HJ';
+    else out[seat] = 'MP';
+  });
+  return out;
+}
+
+/** Split a multi-hand export into single-hand texts (each starts with a "... Hand #" header). */
+export function splitHandHistories(text: string): string[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const hands: string[] = [];
+  let current: string[] = [];
+  for (const line of lines) {
+    if (HEADER_RE.test(line.trim().replace(/^﻿/, '')) && current.some((l) => l.trim())) {
+      hands.push(current.join('\n').trim());
+      current = [];
+    }
+    current.push(line);
+  }
+  if (current.some((l) => l.trim())) hands.push(current.join('\n').trim());
+  return hands.filter((h) => HEADER_RE.test(h.split('\n')[0].trim().replace(/^﻿/, '')));
+}
+
+/** Parse one hand. Returns null when the text does not start with a recognized hand-history header. */
+export function parseHandHistory(text: string): ParsedHandHistory | null {
+  const lines = text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((l) => l.trim().replace(/^﻿/, ''))
+    .filter((l) => l.length > 0);
+  const headerIdx = lines.findIndex((l) => HEADER_RE.test(l));
+  if (headerIdx < 0) return null;
+
+  const header = HEADER_RE.exec(lines[headerIdx])!;
+  const headerRest = header[3];
+  const stakesMatch = STAKES_RE.exec(headerRest);
+  const dateMatch = DATE_RE.exec(headerRest);
+  const currency = stakesMatch ? stakesMatch[1] || stakesMatch[3] || null : null;
+  const small_blind = stakesMatch ? toNumber(stakesMatch[2]) : 0;
+  const big_blind = stakesMatch ? toNumber(stakesMatch[4]) : 0;
+
+  const hh: ParsedHandHistory = {
+    site: detectSite(header[1], text),
+    hand_id: header[2],
+    game: detectGame(headerRest),
+    is_tournament: /tournament/i.test(headerRest),
+    currency,
+    small_blind,
+    big_blind,
+    stakes: stakesMatch ? `${currency ?? ''}${stakesMatch[2]}/${currency ?? ''}${stakesMatch[4]}` : '',
+    table_name: null,
+    max_seats: null,
+    button_seat: null,
+    played_at: dateMatch
+      ? `${dateMatch[1]}-${dateMatch[2]}-${dateMatch[3]}T${dateMatch[4].padStart(2, '0')}:${dateMatch[5]}:${dateMatch[6]}`
+      : null,
+    players: [],
+    hero: null,
+    hero_cards: [],
+    board: [],
+    actions: [],
+    total_pot: null,
+    rake: null,
+    collected: {},
+  };
+
+  let street: Street = 'preflop';
+  let section: 'setup' | 'play' | 'summary' = 'setup';
+  let boardFromStreets: CardCode[] = [];
+  const streetContrib: Record<string, number> = {};
+  const players = new Map<string, HandHistoryPlayer>();
+
+  for (const line of lines.slice(headerIdx + 1)) {
+    if (HEADER_RE.test(line)) break; // next hand in a multi-hand paste
+
+    const table = TABLE_RE.exec(line);
+    if (table) {
+      hh.table_name = table[1];
+      hh.max_seats = parseInt(table[2], 10);
+      hh.button_seat = parseInt(table[3], 10);
+      continue;
+    }
+
+    if (/^\*\*\* SUMMARY \*\*\*/i.test(line)) {
+      section = 'summary';
+      continue;
+    }
+    if (/^\*\*\* HOLE CARDS \*\*\*/i.test(line)) {
+      section = 'play';
+      continue;
+    }
+
+    if (section === 'summary') {
+      const pot = TOTAL_POT_RE.exec(line);
+      if (pot) {
+        hh.total_pot = toNumber(pot[1]);
+        hh.rake = pot[2] != null ? toNumber(pot[2]) : null;
+        continue;
+      }
+      const boardLine = /^Board \[([^\]]+)\]/.exec(line);
+      if (boardLine) hh.board = parseCardsFromString(boardLine[1]);
+      continue;
+    }
+
+    if (section === 'setup') {
+      const seat = SEAT_RE.exec(line);
+      if (seat && !/sitting out/i.test(seat[4])) {
+        const p: HandHistoryPlayer = {
+          seat: parseInt(seat[1], 10),
+          name: seat[2],
+          stack: toNumber(seat[3].replace(/[$€£]/g, '')),
+          position: null,
+          cards: null,
+          is_hero: false,
+        };
+        players.set(p.name, p);
+        continue;
+      }
+    }
+
+    const post = POST_RE.exec(line);
+    if (post) {
+      const kind = post[2].toLowerCase();
+      const amount = toNumber(post[3]);
+      const type: HandHistoryActionType =
+        kind === 'small blind' ? 'post_sb' : kind === 'big blind' ? 'post_bb' : kind.includes('ante') ? 'post_ante' : 'post';
+      hh.actions.push({ street: 'preflop', player: post[1], type, amount, to: null, all_in: / all-in/i.test(line) });
+      if (type !== 'post_ante') streetContrib[post[1]] = (streetContrib[post[1]] ?? 0) + amount;
+      continue;
+    }
+
+    const dealt = DEALT_RE.exec(line);
+    if (dealt) {
+      if (!hh.hero) {
+        hh.hero = dealt[1];
+        hh.hero_cards = parseCardsFromString(dealt[2]);
+      }
+      continue;
+    }
+
+    const st = STREET_RE.exec(line);
+    if (st) {
+      street = st[1].replace('FIRST ', '').toLowerCase() as Street;
+      boardFromStreets = [...parseCardsFromString(st[2]), ...parseCardsFromString(st[3] ?? '')];
+      for (const k of Object.keys(streetContrib)) delete streetContrib[k];
+      section = 'play';
+      continue;
+    }
+
+    const action = ACTION_RE.exec(line);
+    if (action && players.has(action[1])) {
+      const player = action[1];
+      const verb = action[2];
+      const allIn = !!action[5];
+      const before = streetContrib[player] ?? 0;
+      let type: HandHistoryActionType;
+      let amount = 0;
+      let to: number | null = null;
+      if (verb === 'folds') type = 'fold';
+      else if (verb === 'checks') type = 'check';
+      else if (verb === 'calls') {
+        type = 'call';
+        amount = toNumber(action[3]);
+      } else if (verb === 'bets') {
+        type = 'bet';
+        amount = toNumber(action[3]);
+      } else {
+        type = 'raise';
+        to = toNumber(action[4] ?? action[3]);
+        amount = Math.max(0, to - before);
+      }
+      streetContrib[player] = before + amount;
+      hh.actions.push({ street, player, type, amount: round2(amount), to, all_in: allIn });
+      continue;
+    }
+
+    const uncalled = UNCALLED_RE.exec(line);
+    if (uncalled) {
+      hh.actions.push({ street, player: uncalled[2], type: 'uncalled', amount: -toNumber(uncalled[1]), to: null, all_in: false });
+      continue;
+    }
+
+    const shows = SHOWS_RE.exec(line);
+    if (shows) {
+      const p = players.get(shows[1]);
+      if (p) p.cards = parseCardsFromString(shows[2]);
+      continue;
+    }
+
+    const collected = COLLECTED_RE.exec(line);
+    if (collected) {
+      hh.collected[collected[1]] = round2((hh.collected[collected[1]] ?? 0) + toNumber(collected[2]));
+    }
+  }
+
+  if (hh.board.length === 0) hh.board = boardFromStreets;
+
+  const positions = assignPositions([...players.values()].map((p) => p.seat), hh.button_seat);
+  for (const p of players.values()) {
+    p.position = positions[p.seat] ?? null;
+    if (p.name === hh.hero) {
+      p.is_hero = true;
+      if (hh.hero_cards.length > 0) p.cards = hh.hero_cards;
+    }
+  }
+  hh.players = [...players.values()].sort((a, b) => a.seat - b.seat);
+  if (hh.hero && !players.has(hh.hero)) hh.hero = null;
+  if (big_blind <= 0) {
+    const bbPost = hh.actions.find((a) => a.type === 'post_bb');
+    if (bbPost) hh.big_blind = bbPost.amount;
+  }
+  return hh;
+}
+
+// ─── Review heuristics ───
+
+export type ReviewFlag = 'big_pot' | 'all_in' | 'river_fold';
+
+/** Pot size (in big blinds) from which a hand is worth a second look. */
+export const BIG_POT_BB = 40;
+
+/** Hero's result in chips / currency units: collected minus everything Hero put in (blinds, antes, bets). */
+export function heroNet(hh: ParsedHandHistory): number | null {
+  if (!hh.hero) return null;
+  const invested = hh.actions.filter((a) => a.player === hh.hero).reduce((acc, a) => acc + a.amount, 0);
+  return round2((hh.collected[hh.hero] ?? 0) - invested);
+}
+
+/** Final pot in big blinds (summary line when present, otherwise summed from actions). */
+export function potBb(hh: ParsedHandHistory): number | null {
+  if (hh.big_blind <= 0) return null;
+  const pot = hh.total_pot ?? hh.actions.reduce((acc, a) => acc + a.amount, 0);
+  return Number((pot / hh.big_blind).toFixed(1));
+}
+
+/**
+ * Flags that make a hand worth reviewing: a big pot, an all-in while Hero was still in the hand,
+ * or Hero folding to a river bet/raise.
+ */
+export function reviewFlags(hh: ParsedHandHistory): ReviewFlag[] {
+  const flags: ReviewFlag[] = [];
+  if (!hh.hero) return flags;
+  const pot = potBb(hh);
+  if (pot != null && pot >= BIG_POT_BB) flags.push('big_pot');
+
+  let heroFolded = false;
+  let riverAggression = false;
+  let allIn = false;
+  let riverFold = false;
+  for (const a of hh.actions) {
+    if (a.all_in && !heroFolded) allIn = true;
+    if (a.street === 'river' && (a.type === 'bet' || a.type === 'raise') && a.player !== hh.hero) riverAggression = true;
+    if (a.player === hh.hero && a.type === 'fold') {
+      heroFolded = true;
+      if (a.street === 'river' && riverAggression) riverFold = true;
+    }
+  }
+  if (allIn) flags.push('all_in');
+  if (riverFold) flags.push('river_fold');
+  return flags;
+}
+
+// ─── QuickForm mapping ───
+
+function bb(amount: number, bigBlind: number): string {
+  if (bigBlind <= 0) return String(round2(amount));
+  return `${Number((amount / bigBlind).toFixed(1))}bb`;
+}
+
+function actionLabel(hh: ParsedHandHistory, name: string): string {
+  const p = hh.players.find((x) => x.name === name);
+  if (p?.is_hero) return p.position ? `Hero (${p.position})` : 'Hero';
+  return p?.position ?? name;
+}
+
+/** Pot (chips) before the first action of a street. */
+export function potBeforeStreet(hh: ParsedHandHistory, street: Street): number {
+  const order: Street[] = ['preflop', 'flop', 'turn', 'river'];
+  const idx = order.indexOf(street);
+  return hh.actions
+    .filter((a) => order.indexOf(a.street) < idx)
+    .reduce((acc, a) => acc + a.amount, 0);
+}
+
+function describeStreet(hh: ParsedHandHistory, street: Street): string {
+  const parts: string[] = [];
+  for (const a of hh.actions) {
+    if (a.street !== street || a.type.startsWith('post') || a.type === 'uncalled') continue;
+    const who = actionLabel(hh, a.player);
+    const allIn = a.all_in ? ' all-in' : '';
+    if (a.type === 'fold') parts.push(`${who} folds`);
+    else if (a.type === 'check') parts.push(`${who} checks`);
+    else if (a.type === 'call') parts.push(`${who} calls ${bb(a.amount, hh.big_blind)}${allIn}`);
+    else if (a.type === 'bet') parts.push(`${who} bets ${bb(a.amount, hh.big_blind)}${allIn}`);
+    else parts.push(`${who} raises to ${bb(a.to ?? a.amount, hh.big_blind)}${allIn}`);
+  }
+  if (street === 'preflop' || parts.length === 0) return parts.join(', ');
+  return `(pot ${bb(potBeforeStreet(hh, street), hh.big_blind)}) ${parts.join(', ')}`;
+}
+
+/** Hero's stack vs the deepest opponent dealt in, in big blinds. */
+export function effectiveStackBb(hh: ParsedHandHistory): number | null {
+  const hero = hh.players.find((p) => p.is_hero);
+  if (!hero || hh.big_blind <= 0) return null;
+  const others = hh.players.filter((p) => !p.is_hero).map((p) => p.stack);
+  if (others.length === 0) return null;
+  return Number((Math.min(hero.stack, Math.max(...others)) / hh.big_blind).toFixed(1));
+}
+
+/** Map a parsed hand onto QuickFormInput fields plus a confidence level for the LLM fallback decision. */
+export function handHistoryToQuickForm(hh: ParsedHandHistory): QuickFormResult {
+  const hero = hh.players.find((p) => p.is_hero) ?? null;
+  const board = hh.board;
+  const streetText = (s: Street) => {
+    const d = describeStreet(hh, s);
+    return d ? d : null;
+  };
+
+  const hand: QuickFormFields = {
+    game: hh.game,
+    stakes: hh.stakes || null,
+    hero_pos: hero?.position ?? 'UNKNOWN',
+    effective_stack_bb: effectiveStackBb(hh),
+    hero_cards: hh.hero_cards.length > 0 ? hh.hero_cards.join('') : null,
+    preflop: describeStreet(hh, 'preflop'),
+    flop: board.length >= 3 ? streetText('flop') : null,
+    turn: board.length >= 4 ? streetText('turn') : null,
+    river: board.length >= 5 ? streetText('river') : null,
+    board:
+      board.length >= 3
+        ? { flop: board.slice(0, 3).join(''), turn: board[3] ?? null, river: board[4] ?? null }
+        : null,
+  };
+
+  const reasons: string[] = [];
+  if (!hero) reasons.push('hero not found');
+  if (hero && !hero.position) reasons.push('hero position unknown');
+  if (hh.big_blind <= 0) reasons.push('blinds not found');
+  if (hh.hero_cards.length === 0) reasons.push('no hero cards');
+  if (!hand.preflop) reasons.push('no preflop action');
+  if (hh.game === 'UNKNOWN') reasons.push('game type unclear');
+
+  let confidence: HandHistoryConfidence = 'HIGH';
+  if (!hero || !hero.position || !hand.preflop || hh.big_blind <= 0) confidence = 'LOW';
+  else if (reasons.length > 0) confidence = 'MEDIUM';
+
+  const source_message = `parsed ${hh.site} hand #${hh.hand_id}` + (reasons.length > 0 ? `; ${reasons.join('; ')}` : '');
+  return { hand, confidence, source_message: source_message.slice(0, 120) };
+}
@@ -0,0 +1,391 @@
+/**
+ * Tournament ICM (Malmuth-Harville): stacks plus remaining payouts → each player's share of the prize pool, and
+ * the push/fold model built on it for stacks of 20bb and less.
+ *
+ * Push/fold model: everyone folds to Hero, Hero shoves or folds, and only the big blind decides against the shove
+ * (players in between fold). The big blind calls with the top call_pct% of hands (HAND_STRENGTH_ORDER). Shove and
+ * fold are valued in prize-pool share from the stacks after each outcome, so the same chips are worth less near the
+ * money; the bubble factor measures how much. Equity uses a fixed seed: the device and ai-submit-table-drill-result
+ * grade a spot the same way. Pure TypeScript — no Deno APIs.
+ */
+
+import { cardsUnique, normalizeCardToken } from './poker.ts';
+import { computeEquity, type WeightedCombo } from './equity.ts';
+import { HAND_CLASS_GRID, classComboCount, classCombos, expandRange, handClassOf, type HandClass, type RangeWeights } from './ranges.ts';
+
+export type PushFoldFormat = 'sng' | 'mtt' | 'spin';
+export type PushFoldAction = 'shove' | 'fold';
+
+export type PushFoldTable = {
+  format: PushFoldFormat;
+  /** Seat order of the hand, big blind last (see tablePositions). */
+  positions: string[];
+  /** Stacks in bb before blinds and antes, same order as positions. */
+  stacks_bb: number[];
+  /** Prizes still to be paid, 1st place first, in % of the prize pool; EVs come out in the same unit. */
+  payouts: number[];
+  ante_bb: number;
+};
+
+export type PushFoldSpot = PushFoldTable & {
+  drill_type: 'push_fold';
+  hero_pos: string;
+  hero_cards: [string, string];
+  hand_class: HandClass;
+  /** Big blind's calling range: top call_pct% of hands. */
+  call_pct: number;
+};
+
+export type PushFoldEvs = {
+  /** Hero's prize-pool share after each action. */
+  shove: number;
+  fold: number;
+  /** Share of the big blind's hands (after card removal) that call. */
+  call_share: number;
+  equity_vs_call: number;
+  /** ICM risk/reward of an all-in over the chip risk/reward; 1 = chips are worth their face value. */
+  bubble_factor: number;
+  /** Equity Hero needs when called, by prize-pool share and by chips. */
+  required_equity_icm: number;
+  required_equity_chip: number;
+};
+
+export type PushFoldGrade = PushFoldEvs & {
+  correct_action: PushFoldAction;
+  /** Both actions when their EVs are within PUSH_FOLD_CLOSE of each other. */
+  accepted: PushFoldAction[];
+  explanation: string;
+};
+
+/** Deepest stack the push/fold model is used for. */
+export const PUSH_FOLD_MAX_BB = 20;
+
+/** Leaks trained with push_fold drills. */
+export const PUSH_FOLD_LEAK_TAGS = ['push_fold_icm'];
+
+export const PUSH_FOLD_ACTIONS: PushFoldAction[] = ['shove', 'fold'];
+
+/** EV gap (% of the prize pool) below which both answers count. */
+export const PUSH_FOLD_CLOSE = 0.05;
+
+/** All 169 classes by preflop equity against a random hand, strongest first. */
+export const HAND_STRENGTH_ORDER: HandClass[] = (
+  'AA KK QQ JJ TT 99 88 AKs AQs 77 AJs AKo ATs AQo AJo KQs ATo 66 A9s KJs A8s KTs KQo A7s A9o KJo QJs 55 A5s A8o ' +
+  'K9s A6s QTs KTo A4s A7o QJo A3s K8s A6o A5o Q9s K9o A2s QTo JTs K7s 44 A4o K6s A3o Q8s J9s Q9o K8o K5s JTo A2o ' +
+  'K7o K4s T9s 33 Q7s K3s J8s J9o K6o Q8o Q6s K5o K2s Q5s T8s J7s K4o Q4s J8o T9o Q7o 98s K3o Q3s Q6o J6s K2o Q2s ' +
+  '22 T7s T8o J7o J5s Q5o J4s T6s 98o Q4o 97s J3s Q3o 87s J6o J2s T7o 96s Q2o T5s J5o 97o 86s T4s J4o T6o 95s T3s ' +
+  '76s J3o T2s J2o 87o 96o 94s 85s T5o T4o 65s 93s 86o 75s 84s 95o T3o 76o 92s T2o 74s 83s 64s 85o 94o 54s 82s ' +
+  '93o 75o 53s 65o 63s 73s 92o 84o 43s 74o 62s 72s 52s 54o 64o 83o 82o 42s 53o 32s 73o 63o 43o 72o 52o 62o 42o 32o'
+).split(' ');
+
+const TABLE_POSITIONS: Record<number, string[]> = {
+  2: ['SB', 'BB'],
+  3: ['BTN', 'SB', 'BB'],
+  4: ['CO', 'BTN', 'SB', 'BB'],
+  5: ['HJ', 'CO', 'BTN', 'SB', 'BB'],
+  6: ['UTG', 'HJ', 'CO', 'BTN', 'SB', 'BB'],
+};
+
+const FORMAT_LABELS: Record<PushFoldFormat, string> = { sng: 'SNG', mtt: 'MTT', spin: 'Spin' };
+
+/** Tables the trainer deals: the bubble and the money of a 9-max SNG, an MTT final table, a winner-takes-all Spin. */
+const DEAL_TABLES: { format: PushFoldFormat; players: number; payouts: number[]; ante_bb: number }[] = [
+  { format: 'sng', players: 4, payouts: [50, 30, 20], ante_bb: 0 },
+  { format: 'sng', players: 3, payouts: [50, 30, 20], ante_bb: 0 },
+  { format: 'mtt', players: 6, payouts: [30, 20, 14, 10, 8, 6], ante_bb: 0.125 },
+  { format: 'mtt', players: 5, payouts: [30, 20, 14, 10, 8], ante_bb: 0.125 },
+  { format: 'spin', players: 3, payouts: [100], ante_bb: 0 },
+];
+
+/** Monte Carlo samples for Hero's equity against the calling range. */
+const PUSH_FOLD_ITERATIONS = 3000;
+/** Cheaper run per class when a whole chart is built. */
+const CHART_ITERATIONS = 800;
+const PUSH_FOLD_SEED = 20240917;
+const MAX_ICM_PLAYERS = 10;
+/** Share of dealt hands picked for a close shove / fold EV. */
+const BORDERLINE_SHARE = 0.7;
+const BORDERLINE_CANDIDATES = 10;
+
+function round(x: number, digits: number): number {
+  const f = 10 ** digits;
+  return Math.round(x * f) / f;
+}
+
+/** Position names for a table of n players (2–6), big blind last; null for other sizes. */
+export function tablePositions(players: number): string[] | null {
+  return TABLE_POSITIONS[players] ?? null;
+}
+
+// ─── ICM ───
+
+/**
+ * Malmuth-Harville ICM: a player finishes first with probability stack / total chips, then the rest repeats for
+ * the next place without them. Players with no chips share the places below the survivors. Up to 10 players.
+ */
+export function icmEquities(stacks: number[], payouts: number[]): number[] {
+  if (stacks.length > MAX_ICM_PLAYERS) throw new Error(`ICM supports up to ${MAX_ICM_PLAYERS} players`);
+  const alive = stacks.map((s, i) => (s > 0 ? i : -1)).filter((i) => i >= 0);
+  const result = new Array<number>(stacks.length).fill(0);
+
+  const bustedPlaces = payouts.slice(alive.length, stacks.length);
+  const busted = stacks.length - alive.length;
+  const bustedShare = busted > 0 ? bustedPlaces.reduce((a, b) => a + b, 0) / busted : 0;
+  stacks.forEach((s, i) => {
+    if (s <= 0) result[i] = bustedShare;
+  });
+
+  const memo = new Map<number, number[]>();
+  const expect = (mask: number): number[] => {
+    const cached = memo.get(mask);
+    if (cached) return cached;
+    const out = new Array<number>(alive.length).fill(0);
+    const members = alive.map((_, k) => k).filter((k) => mask & (1 << k));
+    const place = alive.length - members.length;
+    if (place < payouts.length) {
+      const total = members.reduce((acc, k) => acc + stacks[alive[k]], 0);
+      for (const j of members) {
+        const p = stacks[alive[j]] / total;
+        out[j] += p * payouts[place];
+        if (members.length > 1) {
+          const rest = expect(mask & ~(1 << j));
+          for (const k of members) if (k !== j) out[k] += p * rest[k];
+        }
+      }
+    }
+    memo.set(mask, out);
+    return out;
+  };
+
+  const shares = alive.length > 0 ? expect((1 << alive.length) - 1) : [];
+  alive.forEach((i, k) => {
+    result[i] = shares[k];
+  });
+  return result;
+}
+
+// ─── Push/fold ───
+
+/** Top pct% of hands by HAND_STRENGTH_ORDER (the class crossing the line is included). */
+export function topHandsRange(pct: number): RangeWeights {
+  const target = (Math.max(0, Math.min(100, pct)) / 100) * 1326;
+  const classes: RangeWeights = {};
+  let combos = 0;
+  for (const hand of HAND_STRENGTH_ORDER) {
+    if (combos >= target) break;
+    classes[hand] = 1;
+    combos += classComboCount(hand);
+  }
+  return classes;
+}
+
+/**
+ * Suggested calling range for the big blind, % of hands: a coarse stand-in for Nash calls by the effective stack,
+ * tightened by the big blind's own bubble factor.
+ */
+export function defaultCallPct(effectiveBb: number, bubbleFactor = 1): number {
+  const base = effectiveBb <= 5 ? 50 : effectiveBb <= 8 ? 35 : effectiveBb <= 12 ? 25 : effectiveBb <= 16 ? 18 : 14;
+  return Math.max(3, Math.round(base / Math.max(1, bubbleFactor)));
+}
+
+type Outcomes = { fold: number[]; steal: number[]; win: number[]; lose: number[] };
+
+/** Stacks after each outcome of Hero's decision: Hero folds, shove not called, called and won / lost. */
+function outcomeStacks(table: PushFoldTable, hero: number, bb: number): Outcomes {
+  const s = table.stacks_bb;
+  const ante = s.map((x) => Math.min(x, table.ante_bb));
+  const blind = table.positions.map((p, i) => Math.min(s[i] - ante[i], p === 'SB' ? 0.5 : p === 'BB' ? 1 : 0));
+  const posted = s.map((_, i) => ante[i] + blind[i]);
+  const pot = posted.reduce((a, b) => a + b, 0);
+  const after = s.map((x, i) => x - posted[i]);
+
+  const fold = [...after];
+  fold[bb] += pot;
+  const steal = [...after];
+  steal[hero] += pot;
+
+  // Called: both all in for the smaller stack behind the ante; everyone else's blinds and antes are dead money.
+  const matched = Math.min(s[hero] - ante[hero], s[bb] - ante[bb]);
+  const called = [...after];
+  called[hero] = s[hero] - ante[hero] - matched;
+  called[bb] = s[bb] - ante[bb] - matched;
+  const calledPot = pot - blind[hero] - blind[bb] + 2 * matched;
+  const win = [...called];
+  win[hero] += calledPot;
+  const lose = [...called];
+  lose[bb] += calledPot;
+  return { fold, steal, win, lose };
+}
+
+function heroIndexes(table: PushFoldTable, heroPos: string): { hero: number; bb: number } | null {
+  const hero = table.positions.indexOf(heroPos);
+  const bb = table.positions.indexOf('BB');
+  return hero < 0 || bb < 0 || hero === bb ? null : { hero, bb };
+}
+
+/** Bubble factor and the equity Hero needs when called, by prize-pool share and by chips. */
+export function pushFoldRisk(table: PushFoldTable, heroPos: string): Pick<PushFoldEvs, 'bubble_factor' | 'required_equity_icm' | 'required_equity_chip'> | null {
+  const idx = heroIndexes(table, heroPos);
+  if (!idx) return null;
+  const o = outcomeStacks(table, idx.hero, idx.bb);
+  const ev = (stacks: number[]) => icmEquities(stacks, table.payouts)[idx.hero];
+  const [evFold, evWin, evLose] = [ev(o.fold), ev(o.win), ev(o.lose)];
+  const [cFold, cWin, cLose] = [o.fold[idx.hero], o.win[idx.hero], o.lose[idx.hero]];
+  const icmRatio = (evFold - evLose) / Math.max(1e-9, evWin - evFold);
+  const chipRatio = (cFold - cLose) / Math.max(1e-9, cWin - cFold);
+  return {
+    bubble_factor: round(icmRatio / chipRatio, 2),
+    required_equity_icm: round((evFold - evLose) / Math.max(1e-9, evWin - evLose), 3),
+    required_equity_chip: round((cFold - cLose) / Math.max(1e-9, cWin - cLose), 3),
+  };
+}
+
+function callRangeCombos(callPct: number): WeightedCombo[] {
+  return expandRange({ classes: topHandsRange(callPct), combos: [] });
+}
+
+function evaluate(table: PushFoldTable, heroPos: string, heroCards: [string, string], callRange: WeightedCombo[], iterations: number): PushFoldEvs | null {
+  const idx = heroIndexes(table, heroPos);
+  const risk = pushFoldRisk(table, heroPos);
+  if (!idx || !risk) return null;
+  const o = outcomeStacks(table, idx.hero, idx.bb);
+  const ev = (stacks: number[]) => icmEquities(stacks, table.payouts)[idx.hero];
+
+  const live = callRange.filter((c) => cardsUnique([...heroCards, ...c.cards]));
+  const callShare = live.length / 1225;
+  const equity = live.length > 0
+    ? computeEquity({ hero: heroCards, board: [], villains: [live], iterations, seed: PUSH_FOLD_SEED }).equity
+    : 0;
+  const shove = (1 - callShare) * ev(o.steal) + callShare * (equity * ev(o.win) + (1 - equity) * ev(o.lose));
+  return {
+    shove: round(shove, 3),
+    fold: round(ev(o.fold), 3),
+    call_share: round(callShare, 3),
+    equity_vs_call: round(equity, 3),
+    ...risk,
+  };
+}
+
+/** "CO 12bb против BB 30bb · SNG, 4 игрока". */
+export function pushFoldSpotLabel(spot: Pick<PushFoldSpot, 'format' | 'positions' | 'stacks_bb' | 'hero_pos'>): string {
+  const stack = (pos: string) => spot.stacks_bb[spot.positions.indexOf(pos)];
+  return `${spot.hero_pos} ${stack(spot.hero_pos)}bb против BB ${stack('BB')}bb · ${FORMAT_LABELS[spot.format]}, ${spot.positions.length} ${spot.positions.length <= 4 ? 'игрока' : 'игроков'}`;
+}
+
+const pct = (x: number) => `${Math.round(x * 100)}%`;
+
+/** Grade a spot: shove vs fold by prize-pool EV; a near tie accepts both. null when the spot does not fit the model. */
+export function gradePushFold(spot: PushFoldSpot): PushFoldGrade | null {
+  const evs = evaluate(spot, spot.hero_pos, spot.hero_cards, callRangeCombos(spot.call_pct), PUSH_FOLD_ITERATIONS);
+  if (!evs) return null;
+  const diff = evs.shove - evs.fold;
+  const correct: PushFoldAction = diff >= 0 ? 'shove' : 'fold';
+  const accepted: PushFoldAction[] = Math.abs(diff) < PUSH_FOLD_CLOSE ? ['shove', 'fold'] : [correct];
+
+  const bubble =
+    evs.bubble_factor > 1.05
+      ? `Фактор пузыря ${evs.bubble_factor}: при колле нужно ${pct(evs.required_equity_icm)} эквити вместо ${pct(evs.required_equity_chip)} по фишкам.`
+      : `ICM почти не давит (фактор пузыря ${evs.bubble_factor}): при колле нужно ${pct(evs.required_equity_icm)} эквити.`;
+  const explanation =
+    `${pushFoldSpotLabel(spot)}. BB коллирует топ-${spot.call_pct}% рук — ${pct(evs.call_share)} раздач; ` +
+    `эквити ${spot.hand_class} против колла ${pct(evs.equity_vs_call)}. ${bubble} ` +
+    `Пуш ${evs.shove.toFixed(2)}% призовых, фолд ${evs.fold.toFixed(2)}%. ` +
+    (accepted.length > 1 ? 'Разница меньше 0.05% — засчитываются оба ответа.' : `Правильно: ${correct === 'shove' ? 'пуш' : 'фолд'}.`);
+
+  return { ...evs, correct_action: correct, accepted, explanation };
+}
+
+/** Classes Hero shoves from heroPos against the top callPct% calls (one representative combo per class). */
+export function pushFoldChart(table: PushFoldTable, heroPos: string, callPct: number): RangeWeights {
+  const callRange = callRangeCombos(callPct);
+  const chart: RangeWeights = {};
+  for (const hand of HAND_CLASS_GRID.flat()) {
+    const cards = classCombos(hand)[0];
+    const evs = evaluate(table, heroPos, cards, callRange, CHART_ITERATIONS);
+    if (evs && evs.shove >= evs.fold) chart[hand] = 1;
+  }
+  return chart;
+}
+
+/** Spot from a scenario or request body; null when a field is missing or out of the model. */
+export function parsePushFoldSpot(raw: Record<string, unknown>): PushFoldSpot | null {
+  const format = raw.format as PushFoldFormat;
+  if (!(format in FORMAT_LABELS)) return null;
+  const positions = Array.isArray(raw.positions) ? raw.positions.map(String) : [];
+  const stacks = Array.isArray(raw.stacks_bb) ? raw.stacks_bb.map(Number) : [];
+  const payouts = Array.isArray(raw.payouts) ? raw.payouts.map(Number) : [];
+  const expected = tablePositions(positions.length);
+  if (!expected || expected.some((p, i) => p !== positions[i]) || stacks.length !== positions.length) return null;
+  if (stacks.some((s) => !Number.isFinite(s) || s <= 0) || payouts.length === 0 || payouts.some((p) => !Number.isFinite(p) || p < 0)) return null;
+
+  const heroPos = String(raw.hero_pos ?? '');
+  const heroIdx = positions.indexOf(heroPos);
+  if (heroIdx < 0 || heroPos === 'BB' || stacks[heroIdx] > PUSH_FOLD_MAX_BB) return null;
+  const cards = Array.isArray(raw.hero_cards) ? raw.hero_cards.map((c) => normalizeCardToken(String(c))) : [];
+  if (cards.length !== 2 || !cards[0] || !cards[1] || cards[0] === cards[1]) return null;
+  const callPct = Number(raw.call_pct);
+  const ante = Number(raw.ante_bb ?? 0);
+  if (!Number.isFinite(callPct) || callPct <= 0 || callPct > 100 || !Number.isFinite(ante) || ante < 0) return null;
+
+  const heroCards: [string, string] = [cards[0], cards[1]];
+  return {
+    drill_type: 'push_fold',
+    format,
+    positions,
+    stacks_bb: stacks,
+    payouts,
+    ante_bb: ante,
+    hero_pos: heroPos,
+    hero_cards: heroCards,
+    hand_class: handClassOf(heroCards) ?? '',
+    call_pct: callPct,
+  };
+}
+
+/**
+ * Deal a spot: a table from DEAL_TABLES with random stacks (Hero 3–20bb), a position that is not the big blind,
+ * the suggested calling range, and a hand — mostly one whose shove and fold are close in EV.
+ */
+export function dealPushFoldSpot(random: () => number = Math.random): PushFoldSpot {
+  const t = DEAL_TABLES[Math.floor(random() * DEAL_TABLES.length)];
+  const positions = TABLE_POSITIONS[t.players];
+  const heroPos = positions[Math.floor(random() * (positions.length - 1))];
+  const stacks = positions.map((p) => {
+    const [lo, hi] = p === heroPos ? [3, PUSH_FOLD_MAX_BB] : [4, 40];
+    return Math.round((lo + random() * (hi - lo)) * 2) / 2;
+  });
+  const table: PushFoldTable = { format: t.format, positions, stacks_bb: stacks, payouts: t.payouts, ante_bb: t.ante_bb };
+
+  const bbIdx = positions.indexOf('BB');
+  const effective = Math.min(stacks[bbIdx], stacks[positions.indexOf(heroPos)]);
+  const callPct = defaultCallPct(effective, pushFoldRisk(table, heroPos)?.bubble_factor ?? 1);
+  const callRange = callRangeCombos(callPct);
+
+  const pickCards = (): [string, string] => {
+    const hand = HAND_STRENGTH_ORDER[Math.floor(random() * HAND_STRENGTH_ORDER.length)];
+    const combos = classCombos(hand);
+    return combos[Math.floor(random() * combos.length)];
+  };
+  let cards = pickCards();
+  if (random() < BORDERLINE_SHARE) {
+    let best = Infinity;
+    for (let i = 0; i < BORDERLINE_CANDIDATES; i++) {
+      const candidate = pickCards();
+      const evs = evaluate(table, heroPos, candidate, callRange, CHART_ITERATIONS);
+      const gap = evs ? Math.abs(evs.shove - evs.fold) : Infinity;
+      if (gap < best) {
+        best = gap;
+        cards = candidate;
+      }
+    }
+  }
+
+  return {
+    ...table,
+    drill_type: 'push_fold',
+    hero_pos: heroPos,
+    hero_cards: cards,
+    hand_class: handClassOf(cards) ?? '',
+    call_pct: callPct,
+  };
+}
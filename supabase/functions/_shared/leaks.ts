@@ -21,6 +21,8 @@ export const ALLOWED_LEAK_TAGS = new Set([
   'flop_cbet',
   'turn_barreling',
   'defense_vs_cbet',
+  // Tournament short-stack play (push_fold drills)
+  'push_fold_icm',
 ]);
 
 /**
@@ -0,0 +1,94 @@
+/**
+ * Per-function LLM configuration. Resolution order for every setting (first found wins):
+ *   1. env with the function suffix: LLM_MODEL_AI_COACH_CHAT, LLM_TIMEOUT_MS_AI_OCR_HAND, …
+ *   2. legacy per-function env still honoured (OPENAI_VISION_MODEL, OPENAI_CHAT_MODEL)
+ *   3. FUNCTION_LLM_CONFIG below
+ *   4. global env: LLM_MODEL (or the older OPENAI_MODEL), LLM_TIMEOUT_MS, …
+ *   5. LLM_DEFAULTS
+ *
+ * LLM_PROVIDER=mock switches to the deterministic fixture provider (no network, no API key).
+ */
+
+export type LlmProviderName = 'openai' | 'mock';
+
+export type LlmConfig = {
+  provider: LlmProviderName;
+  model: string;
+  embeddingModel: string;
+  transcriptionModel: string;
+  /** Per attempt. */
+  timeoutMs: number;
+  /** Extra attempts after the first one, for retryable failures only. */
+  maxRetries: number;
+};
+
+type FunctionOverrides = Partial<Omit<LlmConfig, 'provider'>> & { legacyModelEnv?: string };
+
+export const LLM_DEFAULTS: Omit<LlmConfig, 'provider'> = {
+  model: 'gpt-4o-mini',
+  embeddingModel: 'text-embedding-3-small',
+  transcriptionModel: 'whisper-1',
+  timeoutMs: 60_000,
+  maxRetries: 2,
+};
+
+export const FUNCTION_LLM_CONFIG: Record<string, FunctionOverrides> = {
+  // Scenario generation needs the larger model to keep cards and sizes consistent
+  'ai-generate-table-drill': { model: 'gpt-4o' },
+  // User waits on these two: fail fast rather than retry for long. Own model env, not LLM_MODEL / OPENAI_MODEL
+  'ai-ocr-hand': { model: 'gpt-4o-mini', timeoutMs: 25_000, maxRetries: 1, legacyModelEnv: 'OPENAI_VISION_MODEL' },
+  'ai-parse-hand-text': { model: 'gpt-4o-mini', timeoutMs: 15_000, maxRetries: 1, legacyModelEnv: 'OPENAI_CHAT_MODEL' },
+  // Chat memories are stored and matched with ada-002 vectors; both sides must use the same model
+  'ai-summarize-chat-thread': { embeddingModel: 'text-embedding-ada-002' },
+  'ai-match-coach-memory': { embeddingModel: 'text-embedding-ada-002' },
+};
+
+export type EnvGetter = (key: string) => string | undefined;
+
+/** "ai-coach-chat" → "AI_COACH_CHAT" (suffix for per-function env). */
+export function envSuffix(fn: string): string {
+  return fn.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+function positiveInt(value: string | undefined): number | undefined {
+  if (value == null || value.trim() === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? Math.round(n) : undefined;
+}
+
+export function resolveLlmConfig(fn: string, env: EnvGetter): LlmConfig {
+  const suffix = envSuffix(fn);
+  const overrides = FUNCTION_LLM_CONFIG[fn] ?? {};
+  const pick = (key: string): string | undefined => env(`${key}_${suffix}`)?.trim() || undefined;
+  const global = (key: string): string | undefined => env(key)?.trim() || undefined;
+
+  const provider = (pick('LLM_PROVIDER') ?? global('LLM_PROVIDER') ?? 'openai').toLowerCase();
+
+  return {
+    provider: provider === 'mock' ? 'mock' : 'openai',
+    model:
+      pick('LLM_MODEL') ??
+      (overrides.legacyModelEnv ? global(overrides.legacyModelEnv) : undefined) ??
+      overrides.model ??
+      global('LLM_MODEL') ??
+      global('OPENAI_MODEL') ??
+      LLM_DEFAULTS.model,
+    embeddingModel:
+      pick('LLM_EMBEDDING_MODEL') ?? overrides.embeddingModel ?? global('LLM_EMBEDDING_MODEL') ?? LLM_DEFAULTS.embeddingModel,
+    transcriptionModel:
+      pick('LLM_TRANSCRIPTION_MODEL') ??
+      overrides.transcriptionModel ??
+      global('LLM_TRANSCRIPTION_MODEL') ??
+      LLM_DEFAULTS.transcriptionModel,
+    timeoutMs:
+      positiveInt(pick('LLM_TIMEOUT_MS')) ??
+      overrides.timeoutMs ??
+      positiveInt(global('LLM_TIMEOUT_MS')) ??
+      LLM_DEFAULTS.timeoutMs,
+    maxRetries:
+      positiveInt(pick('LLM_MAX_RETRIES')) ??
+      overrides.maxRetries ??
+      positiveInt(global('LLM_MAX_RETRIES')) ??
+      LLM_DEFAULTS.maxRetries,
+  };
+}
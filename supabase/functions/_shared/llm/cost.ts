@@ -0,0 +1,60 @@
+import type { LlmUsage } from './types.ts';
+
+/**
+ * Token pricing (USD per 1M tokens) for cost logging. Dated model ids ("gpt-4o-2024-08-06") match by prefix;
+ * the longest prefix wins so "gpt-4o-mini" is not priced as "gpt-4o". Unknown models log cost as null.
+ */
+export const MODEL_PRICES_PER_MTOK: Record<string, { input: number; output: number }> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+  'text-embedding-ada-002': { input: 0.1, output: 0 },
+};
+
+export function estimateCostUsd(model: string, usage: LlmUsage | null): number | null {
+  if (!usage) return null;
+  const key = Object.keys(MODEL_PRICES_PER_MTOK)
+    .filter((k) => model === k || model.startsWith(`${k}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) return null;
+  const price = MODEL_PRICES_PER_MTOK[key];
+  const cost = (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+  return Math.round(cost * 1e6) / 1e6;
+}
+
+export type LlmCallLog = {
+  fn: string;
+  task?: string;
+  kind: 'chat' | 'stream' | 'embedding' | 'transcription';
+  provider: string;
+  model: string;
+  ok: boolean;
+  attempts: number;
+  ms: number;
+  usage: LlmUsage | null;
+  error?: string;
+};
+
+/** One JSON line per provider call, for log-based token and cost dashboards. */
+export function logLlmCall(entry: LlmCallLog): void {
+  console.log(
+    JSON.stringify({
+      llm: entry.fn,
+      task: entry.task,
+      kind: entry.kind,
+      provider: entry.provider,
+      model: entry.model,
+      ok: entry.ok,
+      attempts: entry.attempts,
+      ms: entry.ms,
+      prompt_tokens: entry.usage?.promptTokens,
+      completion_tokens: entry.usage?.completionTokens,
+      cost_usd: estimateCostUsd(entry.model, entry.usage) ?? undefined,
+      error: entry.error,
+    })
+  );
+}
@@ -0,0 +1,118 @@
+import type { LlmMessage, LlmResolvedChatRequest } from './types.ts';
+
+/**
+ * Canned replies for the mock provider. A fixture is looked up by "<function>:<task>", then by the JSON-schema
+ * name, then by the function name; requests without one get a reply sampled from their schema (mockProvider.ts).
+ * Fixtures only need to exist where sampled output would fail the function's own validation (unique cards,
+ * message ids from the prompt, hand-history markers) or where a readable text reply helps manual testing.
+ */
+
+export type LlmFixture = (req: LlmResolvedChatRequest) => string | Record<string, unknown>;
+
+export function messageText(message: LlmMessage | undefined): string {
+  if (!message) return '';
+  if (typeof message.content === 'string') return message.content;
+  return message.content.map((p) => (p.type === 'text' ? p.text : '')).join('\n');
+}
+
+function lastUserText(req: LlmResolvedChatRequest): string {
+  return messageText([...req.messages].reverse().find((m) => m.role === 'user'));
+}
+
+const MOCK_HAND_HISTORY = `PokerStars Hand #250000000001: Hold'em No Limit ($0.05/$0.10 USD) - 2026/01/15 21:04:11 ET
+Table 'Mock' 6-max Seat #1 is the button
+Seat 1: Hero ($10.00 in chips)
+Seat 2: Villain ($10.00 in chips)
+Villain: posts small blind $0.05
+Hero: posts big blind $0.10
+*** HOLE CARDS ***
+Dealt to Hero [Ah Kd]
+Villain: raises $0.20 to $0.30
+Hero: calls $0.20
+*** FLOP *** [Ks 7c 2d]
+Villain: bets $0.30
+Hero: raises $0.70 to $1.00
+Villain: folds`;
+
+export const LLM_FIXTURES: Record<string, LlmFixture> = {
+  'ai-coach-chat': (req) =>
+    `Тренер (mock): разберём по шагам.\n1. Определи позицию и эффективный стек.\n2. Сравни пот-оддсы с эквити.\n3. Выбери линию под план на следующие улицы.\n\nВопрос был: «${lastUserText(req).slice(0, 120)}»`,
+  'ai-request:coach_chat': (req) => `Тренер (mock): коротко по вопросу «${lastUserText(req).slice(0, 120)}» — играй от позиции и пот-оддсов.`,
+  'ai-ocr-hand': () => MOCK_HAND_HISTORY,
+  'ai-parse-hand-text': () => ({
+    ok: true,
+    hand: {
+      game: 'NLH',
+      stakes: '0.05/0.1',
+      hero_pos: 'BB',
+      effective_stack_bb: 100,
+      preflop: 'SB raise 3bb, Hero call',
+      flop: 'SB bet 3bb, Hero raise 10bb, SB fold',
+      turn: null,
+      river: null,
+      board: { flop: 'Ks7c2d', turn: null, river: null },
+    },
+  }),
+  // Evidence must point at real user messages from the prompt ("[id=… role=user]")
+  'ai-summarize-chat-thread': (req) => {
+    const id = /\[id=([^\s\]]+) role=user\]/.exec(lastUserText(req))?.[1];
+    return {
+      memories: id
+        ? [{ type: 'chat_goal', content: 'Игрок хочет улучшить игру на тёрне (mock).', evidence_message_ids: [id], confidence: 'MEDIUM', tags: [] }]
+        : [],
+    };
+  },
+  table_drill_scenario: () => ({
+    game: 'NLH',
+    hero_pos: 'BTN',
+    villain_pos: 'BB',
+    effective_stack_bb: 100,
+    hero_cards: ['Ah', 'Kd'],
+    board: { flop: ['Ks', '7c', '2d'], turn: null, river: null },
+    pot_bb: 5.5,
+    street: 'flop',
+    action_to_hero: { type: 'bet', size_bb: 2 },
+    correct_action: 'raise',
+    villain_range: '22+, A2s+, K9s+, QTs+, JTs, T9s, ATo+, KJo+',
+  }),
+  table_drill_raise_sizing: () => ({
+    game: 'NLH',
+    hero_pos: 'CO',
+    villain_pos: 'BB',
+    effective_stack_bb: 100,
+    hero_cards: ['9h', '9d'],
+    board: { flop: ['9s', '6c', '2h'], turn: null, river: null },
+    pot_bb: 6,
+    street: 'flop',
+    action_to_hero: { type: 'bet', size_bb: 2 },
+    drill_type: 'raise_sizing',
+    options: ['2.5x', '3x', 'overbet'],
+    correct_option: '3x',
+    rule_of_thumb: 'На сухой доске с топ-сетом рейзь стандартно, чтобы не выбивать слабые руки.',
+    leak_tag: 'sizing_mistakes',
+  }),
+  multi_street_drill: () => ({
+    game: 'NLH',
+    hero_pos: 'CO',
+    villain_pos: 'BB',
+    effective_stack_bb: 100,
+    hero_cards: ['Ah', 'Qh'],
+    board: { flop: ['Qs', '8d', '3c'], turn: '5h', river: 'Tc' },
+    steps: [
+      { street: 'flop', pot_bb: 6, action_to_hero: { type: 'bet', size_bb: 2 }, correct_action: 'call', villain_response: 'Оппонент ставит на тёрне' },
+      { street: 'turn', pot_bb: 10, action_to_hero: { type: 'bet', size_bb: 5 }, correct_action: 'call', villain_response: 'Оппонент ставит на ривере' },
+      { street: 'river', pot_bb: 20, action_to_hero: { type: 'bet', size_bb: 12 }, correct_action: 'call', villain_response: 'Оппонент показывает QJ — Hero выигрывает' },
+    ],
+  }),
+};
+
+/** Fixture for a request: "<fn>:<task>", then the schema name, then the function. */
+export function findFixture(req: LlmResolvedChatRequest): LlmFixture | undefined {
+  return (
+    (req.task ? LLM_FIXTURES[`${req.fn}:${req.task}`] : undefined) ??
+    (req.jsonSchema ? LLM_FIXTURES[req.jsonSchema.name] : undefined) ??
+    LLM_FIXTURES[req.fn]
+  );
+}
+
+export const MOCK_TRANSCRIPTION = 'Как играть AK на сухом флопе против колла из большого блайнда?';
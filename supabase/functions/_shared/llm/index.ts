@@ -0,0 +1,193 @@
+import { resolveLlmConfig, type EnvGetter, type LlmConfig } from './config.ts';
+import { estimateCostUsd, logLlmCall, type LlmCallLog } from './cost.ts';
+import { createMockProvider } from './mockProvider.ts';
+import { createOpenAiProvider } from './openaiProvider.ts';
+import { LlmError, type LlmChatRequest, type LlmChatResult, type LlmProvider, type LlmUsage } from './types.ts';
+
+/**
+ * LLM access for edge functions: `createLlm('<function-name>')` resolves the function's provider, models, timeout
+ * and retries (config.ts) and returns a client for chat, JSON-schema output, streaming, embeddings and
+ * transcription. Every call is retried with exponential backoff on retryable failures, bounded by a per-attempt
+ * timeout, and logged as one JSON line with tokens and estimated cost (cost.ts).
+ */
+
+export { LlmError } from './types.ts';
+export type { LlmChatRequest, LlmChatResult, LlmMessage, LlmJsonSchema } from './types.ts';
+export type { LlmConfig } from './config.ts';
+
+/** pgvector column size of coach_memory.embedding. */
+export const EMBEDDING_DIMENSIONS = 1536;
+
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 10_000;
+
+/** Tokens and estimated cost of every successful call made through one client (for usage metering). */
+export type LlmTotals = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+};
+
+export type LlmClient = {
+  fn: string;
+  config: LlmConfig;
+  totals(): LlmTotals;
+  chat(req: LlmChatRequest): Promise<LlmChatResult>;
+  /** Resolves once the provider stream is open; yields text deltas. */
+  stream(req: LlmChatRequest): Promise<AsyncIterable<string>>;
+  embed(input: string): Promise<number[]>;
+  transcribe(audio: Blob, fileName: string): Promise<string>;
+};
+
+/** Delay before retry `attempt` (0-based): the provider's Retry-After when given, else 0.5s·2^n with jitter. */
+export function backoffMs(attempt: number, retryAfterSeconds: number | null = null, random = Math.random): number {
+  if (retryAfterSeconds != null) return Math.min(BACKOFF_MAX_MS, retryAfterSeconds * 1000);
+  const base = BACKOFF_BASE_MS * 2 ** attempt;
+  return Math.min(BACKOFF_MAX_MS, Math.round(base + base * 0.25 * random()));
+}
+
+/** Error detail for a function's JSON error response. */
+export function llmErrorDetail(e: unknown): string {
+  if (e instanceof LlmError) return e.detail;
+  return e instanceof Error ? e.message : String(e);
+}
+
+export function isLlmTimeout(e: unknown): boolean {
+  return e instanceof LlmError && e.kind === 'timeout';
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// One mock per isolate, so LLM_MOCK_FAIL_FIRST counts across requests
+let mockProvider: LlmProvider | null = null;
+
+function providerFor(config: LlmConfig, env: EnvGetter): LlmProvider | null {
+  if (config.provider === 'mock') {
+    mockProvider ??= createMockProvider({ failFirst: Number(env('LLM_MOCK_FAIL_FIRST') ?? 0) || 0 });
+    return mockProvider;
+  }
+  const apiKey = env('OPENAI_API_KEY');
+  return apiKey ? createOpenAiProvider(apiKey) : null;
+}
+
+/**
+ * Client for one edge function; null when the provider is not usable (OpenAI without OPENAI_API_KEY), so the
+ * function can answer with its usual "missing secret" error.
+ */
+export function createLlm(fn: string, env: EnvGetter = (key) => Deno.env.get(key)): LlmClient | null {
+  const config = resolveLlmConfig(fn, env);
+  const provider = providerFor(config, env);
+  if (!provider) return null;
+
+  const totals: LlmTotals = { calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+  function track(model: string, usage: LlmUsage | null): void {
+    totals.calls += 1;
+    totals.promptTokens += usage?.promptTokens ?? 0;
+    totals.completionTokens += usage?.completionTokens ?? 0;
+    totals.costUsd += estimateCostUsd(model, usage) ?? 0;
+  }
+
+  async function run<T>(
+    log: Omit<LlmCallLog, 'ok' | 'attempts' | 'ms' | 'usage' | 'provider'>,
+    call: (signal: AbortSignal) => Promise<T>,
+    usageOf: (value: T) => LlmUsage | null,
+    logSuccess = true,
+  ): Promise<{ value: T; attempts: number; startedAt: number }> {
+    const startedAt = Date.now();
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+      try {
+        const value = await call(controller.signal);
+        if (logSuccess) {
+          const usage = usageOf(value);
+          track(log.model, usage);
+          logLlmCall({ ...log, provider: provider!.name, ok: true, attempts: attempt + 1, ms: Date.now() - startedAt, usage });
+        }
+        return { value, attempts: attempt + 1, startedAt };
+      } catch (e) {
+        const err =
+          e instanceof LlmError
+            ? e
+            : controller.signal.aborted
+              ? new LlmError('timeout', `No response within ${config.timeoutMs} ms`)
+              : new LlmError('network', e instanceof Error ? e.message : String(e));
+        if (!err.retryable || attempt >= config.maxRetries) {
+          logLlmCall({
+            ...log,
+            provider: provider!.name,
+            ok: false,
+            attempts: attempt + 1,
+            ms: Date.now() - startedAt,
+            usage: null,
+            error: `${err.kind}${err.status ? ` ${err.status}` : ''}`,
+          });
+          throw err;
+        }
+        await sleep(backoffMs(attempt, err.retryAfter));
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  }
+
+  return {
+    fn,
+    config,
+    totals: () => ({ ...totals }),
+
+    async chat(req) {
+      const resolved = { ...req, fn, model: req.model ?? config.model };
+      const { value } = await run(
+        { fn, task: req.task ?? req.jsonSchema?.name, kind: 'chat', model: resolved.model },
+        (signal) => provider.chat(resolved, signal),
+        (r) => r.usage,
+      );
+      return value;
+    },
+
+    async stream(req) {
+      const resolved = { ...req, fn, model: req.model ?? config.model };
+      const log = { fn, task: req.task ?? req.jsonSchema?.name, kind: 'stream' as const, model: resolved.model };
+      const { value: chunks, attempts, startedAt } = await run(log, (signal) => provider.openStream(resolved, signal), () => null, false);
+      return (async function* () {
+        let usage: LlmUsage | null = null;
+        let ok = false;
+        try {
+          for await (const chunk of chunks) {
+            if (chunk.usage) usage = chunk.usage;
+            if (chunk.delta) yield chunk.delta;
+          }
+          ok = true;
+          track(log.model, usage);
+        } finally {
+          logLlmCall({ ...log, provider: provider.name, ok, attempts, ms: Date.now() - startedAt, usage, error: ok ? undefined : 'stream' });
+        }
+      })();
+    },
+
+    async embed(input) {
+      const { value } = await run(
+        { fn, kind: 'embedding', model: config.embeddingModel },
+        (signal) => provider.embed(input.slice(0, 8000), config.embeddingModel, signal),
+        (r) => r.usage,
+      );
+      if (value.embedding.length !== EMBEDDING_DIMENSIONS) {
+        throw new LlmError('invalid_response', `Invalid embedding response: expected ${EMBEDDING_DIMENSIONS} dimensions`);
+      }
+      return value.embedding;
+    },
+
+    async transcribe(audio, fileName) {
+      const { value } = await run(
+        { fn, kind: 'transcription', model: config.transcriptionModel },
+        (signal) => provider.transcribe(audio, fileName, config.transcriptionModel, signal),
+        () => null,
+      );
+      return value.text;
+    },
+  };
+}
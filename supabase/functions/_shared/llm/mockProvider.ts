@@ -0,0 +1,132 @@
+import { findFixture, messageText, MOCK_TRANSCRIPTION } from './fixtures.ts';
+import { LlmError, type LlmChatResult, type LlmProvider, type LlmResolvedChatRequest, type LlmUsage } from './types.ts';
+
+/**
+ * Deterministic offline provider for local runs (LLM_PROVIDER=mock): the same request always gets the same reply,
+ * no network and no API key. Replies come from fixtures.ts, else are sampled from the request's JSON schema, else
+ * are a short text naming the function. Embeddings are unit vectors seeded from the input text.
+ * LLM_MOCK_FAIL_FIRST=N makes the first N calls of an isolate fail with a retryable 503 to exercise retries.
+ */
+
+export const MOCK_EMBEDDING_DIMENSIONS = 1536;
+
+/** FNV-1a: stable 32-bit seed from text. */
+function hashText(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** Mulberry32, as in equity.ts. */
+function makeRng(seed: number): () => number {
+  let t = seed >>> 0;
+  return () => {
+    t = (t + 0x6d2b79f5) >>> 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Roughly 4 characters per token; good enough for logs. */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function usageFor(req: LlmResolvedChatRequest, text: string): LlmUsage {
+  const promptTokens = estimateTokens(req.messages.map(messageText).join('\n'));
+  const completionTokens = estimateTokens(text);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+/**
+ * Minimal valid value for a JSON schema: first enum value (cycled by array index so lists of options differ),
+ * minItems array entries, every property of an object, the non-null type of a nullable field.
+ */
+export function sampleFromSchema(schema: Record<string, unknown>, name = 'value', index = 0): unknown {
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[index % schema.enum.length];
+  const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+  const type = types.find((t) => t !== 'null') ?? 'null';
+  switch (type) {
+    case 'object': {
+      const props = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+      return Object.fromEntries(Object.entries(props).map(([key, sub]) => [key, sampleFromSchema(sub, key)]));
+    }
+    case 'array': {
+      const items = (schema.items ?? {}) as Record<string, unknown>;
+      const count = Math.max(1, Number(schema.minItems ?? 1));
+      return Array.from({ length: count }, (_, i) => sampleFromSchema(items, name, i));
+    }
+    case 'string':
+      return `mock ${name}${index > 0 ? ` ${index + 1}` : ''}`;
+    case 'number':
+    case 'integer':
+      return Number(schema.minimum ?? 1);
+    case 'boolean':
+      return index % 2 === 0;
+    default:
+      return null;
+  }
+}
+
+function replyText(req: LlmResolvedChatRequest): string {
+  const fixture = findFixture(req);
+  if (fixture) {
+    const out = fixture(req);
+    return typeof out === 'string' ? out : JSON.stringify(out);
+  }
+  if (req.jsonSchema) return JSON.stringify(sampleFromSchema(req.jsonSchema.schema));
+  return `Ответ-заглушка (${req.fn}${req.task ? `:${req.task}` : ''}).`;
+}
+
+export function createMockProvider(options: { failFirst?: number } = {}): LlmProvider {
+  let failuresLeft = options.failFirst ?? 0;
+  const maybeFail = () => {
+    if (failuresLeft > 0) {
+      failuresLeft -= 1;
+      throw new LlmError('http', 'Mock provider: simulated outage', 503);
+    }
+  };
+
+  return {
+    name: 'mock',
+
+    async chat(req): Promise<LlmChatResult> {
+      maybeFail();
+      const text = replyText(req);
+      return { text, model: req.model, usage: usageFor(req, text) };
+    },
+
+    async openStream(req) {
+      maybeFail();
+      const text = replyText(req);
+      const usage = usageFor(req, text);
+      return (async function* () {
+        // Word-sized deltas, like a real stream
+        for (const piece of text.match(/\S+\s*|\s+/g) ?? []) yield { delta: piece };
+        yield { usage };
+      })();
+    },
+
+    async embed(input, model) {
+      maybeFail();
+      const rng = makeRng(hashText(input));
+      const raw = Array.from({ length: MOCK_EMBEDDING_DIMENSIONS }, () => rng() * 2 - 1);
+      const norm = Math.sqrt(raw.reduce((acc, x) => acc + x * x, 0)) || 1;
+      const tokens = estimateTokens(input);
+      return {
+        embedding: raw.map((x) => x / norm),
+        model,
+        usage: { promptTokens: tokens, completionTokens: 0, totalTokens: tokens },
+      };
+    },
+
+    async transcribe(_audio, _fileName, model) {
+      maybeFail();
+      return { text: MOCK_TRANSCRIPTION, model };
+    },
+  };
+}
@@ -0,0 +1,133 @@
+import {
+  LlmError,
+  type LlmChatResult,
+  type LlmProvider,
+  type LlmResolvedChatRequest,
+  type LlmStreamChunk,
+  type LlmUsage,
+} from './types.ts';
+
+/** OpenAI REST provider (chat completions, embeddings, audio transcriptions) over fetch. */
+
+const BASE_URL = 'https://api.openai.com/v1';
+
+type OpenAiUsage = { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | null | undefined;
+
+function toUsage(u: OpenAiUsage): LlmUsage | null {
+  if (!u) return null;
+  const promptTokens = u.prompt_tokens ?? 0;
+  const completionTokens = u.completion_tokens ?? 0;
+  return { promptTokens, completionTokens, totalTokens: u.total_tokens ?? promptTokens + completionTokens };
+}
+
+function chatBody(req: LlmResolvedChatRequest, stream: boolean): Record<string, unknown> {
+  const body: Record<string, unknown> = { model: req.model, messages: req.messages };
+  if (req.temperature != null) body.temperature = req.temperature;
+  if (req.maxTokens != null) body.max_tokens = req.maxTokens;
+  if (req.user) body.user = req.user;
+  if (req.jsonSchema) {
+    body.response_format = {
+      type: 'json_schema',
+      json_schema: { name: req.jsonSchema.name, schema: req.jsonSchema.schema, strict: req.jsonSchema.strict ?? true },
+    };
+  }
+  if (stream) {
+    body.stream = true;
+    body.stream_options = { include_usage: true };
+  }
+  return body;
+}
+
+async function request(apiKey: string, path: string, init: RequestInit, signal: AbortSignal): Promise<Response> {
+  let res: Response;
+  try {
+    res = await fetch(`${BASE_URL}${path}`, {
+      ...init,
+      signal,
+      headers: { Authorization: `Bearer ${apiKey}`, ...(init.headers ?? {}) },
+    });
+  } catch (e) {
+    if (signal.aborted) throw new LlmError('timeout', 'Provider request timed out');
+    throw new LlmError('network', e instanceof Error ? e.message : String(e));
+  }
+  if (!res.ok) {
+    const retryAfter = Number(res.headers.get('retry-after'));
+    throw new LlmError('http', await res.text(), res.status, Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : null);
+  }
+  return res;
+}
+
+function postJson(apiKey: string, path: string, body: unknown, signal: AbortSignal): Promise<Response> {
+  return request(apiKey, path, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }, signal);
+}
+
+async function* sseChunks(res: Response): AsyncIterable<LlmStreamChunk> {
+  const reader = res.body?.getReader();
+  if (!reader) throw new LlmError('invalid_response', 'No response body');
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.startsWith('data: ')) continue;
+      const payload = line.slice(6).trim();
+      if (payload === '[DONE]') return;
+      try {
+        const obj = JSON.parse(payload) as { choices?: Array<{ delta?: { content?: string } }>; usage?: OpenAiUsage };
+        const content = obj.choices?.[0]?.delta?.content;
+        if (typeof content === 'string' && content) yield { delta: content };
+        if (obj.usage) yield { usage: toUsage(obj.usage) ?? undefined };
+      } catch {
+        // skip malformed line
+      }
+    }
+  }
+}
+
+export function createOpenAiProvider(apiKey: string): LlmProvider {
+  return {
+    name: 'openai',
+
+    async chat(req, signal): Promise<LlmChatResult> {
+      const res = await postJson(apiKey, '/chat/completions', chatBody(req, false), signal);
+      const payload = (await res.json()) as {
+        model?: string;
+        choices?: Array<{ message?: { content?: string | null } }>;
+        usage?: OpenAiUsage;
+      };
+      const content = payload.choices?.[0]?.message?.content;
+      return { text: typeof content === 'string' ? content : '', model: payload.model ?? req.model, usage: toUsage(payload.usage) };
+    },
+
+    async openStream(req, signal) {
+      const res = await postJson(apiKey, '/chat/completions', chatBody(req, true), signal);
+      return sseChunks(res);
+    },
+
+    async embed(input, model, signal) {
+      const res = await postJson(apiKey, '/embeddings', { model, input }, signal);
+      const data = (await res.json()) as { data?: Array<{ embedding?: number[] }>; usage?: OpenAiUsage };
+      const embedding = data.data?.[0]?.embedding;
+      if (!Array.isArray(embedding)) throw new LlmError('invalid_response', 'Embedding missing in response');
+      return { embedding, model, usage: toUsage(data.usage) };
+    },
+
+    async transcribe(audio, fileName, model, signal) {
+      const form = new FormData();
+      form.append('file', audio, fileName);
+      form.append('model', model);
+      const res = await request(apiKey, '/audio/transcriptions', { method: 'POST', body: form }, signal);
+      const body = await res.text();
+      try {
+        const parsed = JSON.parse(body) as { text?: string };
+        return { text: typeof parsed?.text === 'string' ? parsed.text : '', model };
+      } catch {
+        return { text: body.trim(), model };
+      }
+    },
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Provider-neutral types for chat completions, JSON-schema output, streaming, embeddings and transcription.
+ * Edge functions talk to an LlmClient (index.ts); providers (OpenAI, mock) implement LlmProvider.
+ */
+
+export type LlmRole = 'system' | 'user' | 'assistant';
+
+export type LlmContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export type LlmMessage = { role: LlmRole; content: string | LlmContentPart[] };
+
+/** Structured output: the reply is a JSON document matching `schema`. */
+export type LlmJsonSchema = { name: string; schema: Record<string, unknown>; strict?: boolean };
+
+export type LlmChatRequest = {
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Structured output (strict JSON schema by default). */
+  jsonSchema?: LlmJsonSchema;
+  /** Overrides the function's configured model for this call. */
+  model?: string;
+  /** End-user id forwarded to the provider for abuse monitoring. */
+  user?: string;
+  /** Names the call in logs and fixtures when a function makes several (e.g. 'explanation'). */
+  task?: string;
+};
+
+/** A chat request after config is applied; what providers receive. */
+export type LlmResolvedChatRequest = LlmChatRequest & { fn: string; model: string };
+
+export type LlmUsage = { promptTokens: number; completionTokens: number; totalTokens: number };
+
+export type LlmChatResult = { text: string; model: string; usage: LlmUsage | null };
+
+/** Streaming chunk: text deltas, then (when the provider reports it) usage in the last chunk. */
+export type LlmStreamChunk = { delta?: string; usage?: LlmUsage };
+
+export type LlmEmbeddingResult = { embedding: number[]; model: string; usage: LlmUsage | null };
+
+export type LlmTranscriptionResult = { text: string; model: string };
+
+export interface LlmProvider {
+  readonly name: string;
+  chat(req: LlmResolvedChatRequest, signal: AbortSignal): Promise<LlmChatResult>;
+  /** Resolves once the stream is open (errors before the first byte are retryable); iterate for chunks. */
+  openStream(req: LlmResolvedChatRequest, signal: AbortSignal): Promise<AsyncIterable<LlmStreamChunk>>;
+  embed(input: string, model: string, signal: AbortSignal): Promise<LlmEmbeddingResult>;
+  transcribe(audio: Blob, fileName: string, model: string, signal: AbortSignal): Promise<LlmTranscriptionResult>;
+}
+
+export type LlmErrorKind = 'config' | 'http' | 'timeout' | 'network' | 'invalid_response';
+
+/** Failure of a provider call; `detail` is safe to return to the client as an error detail. */
+export class LlmError extends Error {
+  kind: LlmErrorKind;
+  status: number | null;
+  detail: string;
+  /** Seconds the provider asked to wait (Retry-After), when given. */
+  retryAfter: number | null;
+
+  constructor(kind: LlmErrorKind, detail: string, status: number | null = null, retryAfter: number | null = null) {
+    super(`LLM ${kind} error${status ? ` (${status})` : ''}: ${detail.slice(0, 300)}`);
+    this.name = 'LlmError';
+    this.kind = kind;
+    this.status = status;
+    this.detail = detail;
+    this.retryAfter = retryAfter;
+  }
+
+  /** Rate limits, provider 5xx, timeouts and network failures are worth another attempt. */
+  get retryable(): boolean {
+    if (this.kind === 'timeout' || this.kind === 'network') return true;
+    return this.kind === 'http' && this.status != null && (this.status === 408 || this.status === 429 || this.status >= 500);
+  }
+}
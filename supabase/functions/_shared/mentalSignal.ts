@@ -0,0 +1,92 @@
+import { detectTilt, BASELINE_DAYS, TILT_LOOKBACK_DAYS, type MentalState, type TiltAnswer, type TiltSession } from './tilt.ts';
+
+/**
+ * Loads what tilt detection needs (bankroll sessions, drill answers) with the user-scoped client, runs the rules
+ * from tilt.ts and records the result in mental_signals. Used by ai-daily-checkin and ai-coach-chat.
+ */
+
+export type MentalSignalSource = 'daily_checkin' | 'coach_chat';
+
+const MAX_ANSWERS = 2000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** tz_offset_minutes from a request body (Date#getTimezoneOffset on the device); 0 (UTC) when missing or invalid. */
+export function parseTzOffset(value: unknown): number {
+  const n = Number(value);
+  return Number.isFinite(n) && Math.abs(n) <= 14 * 60 ? Math.round(n) : 0;
+}
+
+export async function evaluateMentalState(
+  supabase: any,
+  userId: string,
+  tzOffsetMinutes: number,
+  now = new Date(),
+): Promise<MentalState> {
+  // Sessions from the lookback window; answers also cover the baseline before the oldest of them
+  const sessionsSince = new Date(now.getTime() - (TILT_LOOKBACK_DAYS + 1) * DAY_MS).toISOString();
+  const answersSince = new Date(now.getTime() - (TILT_LOOKBACK_DAYS + BASELINE_DAYS + 1) * DAY_MS).toISOString();
+
+  const [{ data: sessions, error: sessionsError }, { data: answers, error: answersError }] = await Promise.all([
+    supabase
+      .from('bankroll_sessions')
+      .select('date, started_at, profit, buy_in, duration_minutes')
+      .eq('user_id', userId)
+      .gte('date', sessionsSince),
+    supabase
+      .from('training_events')
+      .select('created_at, is_correct')
+      .eq('user_id', userId)
+      .gte('created_at', answersSince)
+      .order('created_at', { ascending: false })
+      .limit(MAX_ANSWERS),
+  ]);
+
+  if (sessionsError) throw new Error(`Failed to load bankroll sessions: ${sessionsError.message}`);
+  if (answersError) throw new Error(`Failed to load training events: ${answersError.message}`);
+
+  return detectTilt({
+    sessions: (sessions ?? []).map((s: any): TiltSession => ({
+      date: s.date,
+      started_at: s.started_at,
+      profit: Number(s.profit ?? 0),
+      buy_in: Number(s.buy_in ?? 0),
+      duration_minutes: s.duration_minutes,
+    })),
+    answers: (answers ?? []) as TiltAnswer[],
+    now,
+    tzOffsetMinutes,
+  });
+}
+
+/**
+ * Records the state unless it repeats the latest one (same level and signal codes); an ok state is only recorded
+ * to close an earlier caution/tilt. Failures are logged, never thrown — the signal is a side effect.
+ */
+export async function recordMentalSignal(
+  supabase: any,
+  userId: string,
+  state: MentalState,
+  source: MentalSignalSource,
+): Promise<void> {
+  const { data: last } = await supabase
+    .from('mental_signals')
+    .select('level, signals')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const codes = state.signals.map((s) => s.code).sort().join(',');
+  const lastCodes = ((last?.signals ?? []) as { code: string }[]).map((s) => s.code).sort().join(',');
+  if (last ? last.level === state.level && lastCodes === codes : state.level === 'ok') return;
+
+  const { error } = await supabase.from('mental_signals').insert({
+    user_id: userId,
+    level: state.level,
+    score: state.score,
+    recommendation: state.recommendation,
+    signals: state.signals,
+    source,
+  });
+  if (error) console.error('Failed to record mental signal:', error);
+}
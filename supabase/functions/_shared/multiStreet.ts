@@ -0,0 +1,145 @@
+/**
+ * Multi-street table drills: one hand played from flop to river as a sequence of hero decisions.
+ *
+ * A hand has a fixed setup (positions, stack, hero cards, full board) and 2–3 steps, one per street. Each step
+ * is graded like a single-decision drill; after it the villain's response and the next card are revealed and the
+ * hand continues along the correct line. Stored as hand_library.steps, generated by ai-generate-table-drill.
+ * Pure TypeScript — no Deno APIs.
+ */
+
+import { cardsUnique } from './poker.ts';
+
+export type MultiStreetStreet = 'flop' | 'turn' | 'river';
+
+export type MultiStreetStep = {
+  street: MultiStreetStreet;
+  pot_bb: number;
+  action_to_hero: { type: 'bet' | 'check' | 'raise'; size_bb: number };
+  correct_action: 'fold' | 'call' | 'raise';
+  explanation: string;
+  /** What happens after Hero's correct action, shown before the next street (e.g. "Оппонент коллирует"). */
+  villain_response: string | null;
+};
+
+export type MultiStreetHand = {
+  game: string;
+  hero_pos: string;
+  villain_pos: string;
+  effective_stack_bb: number;
+  hero_cards: [string, string];
+  board: { flop: [string, string, string]; turn: string | null; river: string | null };
+  steps: MultiStreetStep[];
+  leak_tag?: string;
+};
+
+/** Leaks that only show up across streets: drills for them are generated as multi-street hands. */
+export const MULTI_STREET_LEAK_TAGS = ['turn_barreling', 'river_betting_strategy', 'turn_raise_undervalue'];
+
+const STREET_ORDER: MultiStreetStreet[] = ['flop', 'turn', 'river'];
+const ACTION_TYPES = ['bet', 'check', 'raise'];
+const CORRECT_ACTIONS = ['fold', 'call', 'raise'];
+
+function parseStep(raw: unknown): MultiStreetStep | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const s = raw as Record<string, unknown>;
+  const street = s.street as MultiStreetStreet;
+  const action = s.action_to_hero as Record<string, unknown> | null;
+  const correct = String(s.correct_action ?? '').toLowerCase();
+  if (!STREET_ORDER.includes(street) || !action || !ACTION_TYPES.includes(String(action.type))) return null;
+  if (!CORRECT_ACTIONS.includes(correct)) return null;
+  const pot = Number(s.pot_bb);
+  const size = Number(action.size_bb ?? 0);
+  if (!Number.isFinite(pot) || pot <= 0 || !Number.isFinite(size) || size < 0) return null;
+  return {
+    street,
+    pot_bb: pot,
+    action_to_hero: { type: action.type as MultiStreetStep['action_to_hero']['type'], size_bb: size },
+    correct_action: correct as MultiStreetStep['correct_action'],
+    explanation: String(s.explanation ?? ''),
+    villain_response: s.villain_response != null && String(s.villain_response).trim() ? String(s.villain_response) : null,
+  };
+}
+
+/**
+ * Hand from a hand_library row or a generated scenario; null when it is not a valid multi-street hand.
+ * Board may be the flat ['Ad','Kh','Qc','Js','Th'] form of hand_library or { flop, turn, river }.
+ * Rules: 2–3 steps on increasing streets, the board reaches the last step's street, cards are unique, pots do
+ * not shrink, and only the last step may have fold as the correct action (otherwise the hand could not continue).
+ */
+export function parseMultiStreetHand(raw: Record<string, unknown>): MultiStreetHand | null {
+  if (!Array.isArray(raw.steps) || raw.steps.length < 2 || raw.steps.length > 3) return null;
+  const steps = raw.steps.map(parseStep);
+  if (steps.some((s) => s == null)) return null;
+  const valid = steps as MultiStreetStep[];
+
+  const boardRaw = raw.board;
+  let board: MultiStreetHand['board'] | null = null;
+  if (Array.isArray(boardRaw) && boardRaw.length >= 3) {
+    board = {
+      flop: [String(boardRaw[0]), String(boardRaw[1]), String(boardRaw[2])],
+      turn: boardRaw[3] ? String(boardRaw[3]) : null,
+      river: boardRaw[4] ? String(boardRaw[4]) : null,
+    };
+  } else if (boardRaw && typeof boardRaw === 'object') {
+    const b = boardRaw as Record<string, unknown>;
+    if (Array.isArray(b.flop) && b.flop.length === 3) {
+      board = {
+        flop: [String(b.flop[0]), String(b.flop[1]), String(b.flop[2])],
+        turn: b.turn ? String(b.turn) : null,
+        river: b.river ? String(b.river) : null,
+      };
+    }
+  }
+  const heroCards = raw.hero_cards;
+  if (!board || !Array.isArray(heroCards) || heroCards.length !== 2) return null;
+  if (!cardsUnique([String(heroCards[0]), String(heroCards[1]), ...board.flop, board.turn, board.river])) return null;
+
+  for (let i = 0; i < valid.length; i++) {
+    const order = STREET_ORDER.indexOf(valid[i].street);
+    if (i > 0 && order <= STREET_ORDER.indexOf(valid[i - 1].street)) return null;
+    if (i > 0 && valid[i].pot_bb < valid[i - 1].pot_bb) return null;
+    if (i < valid.length - 1 && valid[i].correct_action === 'fold') return null;
+  }
+  const last = valid[valid.length - 1].street;
+  if ((last === 'turn' || last === 'river') && !board.turn) return null;
+  if (last === 'river' && !board.river) return null;
+
+  return {
+    game: String(raw.game ?? 'NLH'),
+    hero_pos: String(raw.hero_pos ?? ''),
+    villain_pos: String(raw.villain_pos ?? ''),
+    effective_stack_bb: Number(raw.effective_stack_bb ?? 100),
+    hero_cards: [String(heroCards[0]), String(heroCards[1])],
+    board,
+    steps: valid,
+    leak_tag: typeof raw.leak_tag === 'string' ? raw.leak_tag : undefined,
+  };
+}
+
+/**
+ * Single-decision scenario for step `index`: board cut to that street, the step's pot, action and answer.
+ * Same shape as a one-street drill, so grading and the table UI need nothing new.
+ */
+export function stepScenario(hand: MultiStreetHand, index: number): Record<string, unknown> {
+  const step = hand.steps[index];
+  return {
+    game: hand.game,
+    hero_pos: hand.hero_pos,
+    villain_pos: hand.villain_pos,
+    effective_stack_bb: hand.effective_stack_bb,
+    hero_cards: hand.hero_cards,
+    board: {
+      flop: hand.board.flop,
+      turn: step.street === 'flop' ? null : hand.board.turn,
+      river: step.street === 'river' ? hand.board.river : null,
+    },
+    street: step.street,
+    pot_bb: step.pot_bb,
+    action_to_hero: step.action_to_hero,
+    villain_bet: step.action_to_hero.type === 'check' ? 0 : step.action_to_hero.size_bb,
+    correct_action: step.correct_action,
+    explanation: step.explanation,
+    drill_type: 'action_decision',
+    ...(hand.leak_tag ? { leak_tag: hand.leak_tag } : {}),
+  };
+}
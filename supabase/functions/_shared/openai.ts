@@ -1,34 +0,0 @@
-const EMBEDDING_MODEL = 'text-embedding-3-small';
-const EMBEDDING_DIMENSIONS = 1536;
-
-/**
- * Generate embedding using OpenAI text-embedding-3-small (1536 dimensions).
- * Used consistently by ai-analyze-hand and ai-coach-chat for RAG.
- */
-export async function generateEmbedding(text: string, openAiKey: string): Promise<number[]> {
-  const response = await fetch('https://api.openai.com/v1/embeddings', {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${openAiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: EMBEDDING_MODEL,
-      input: text,
-    }),
-  });
-
-  if (!response.ok) {
-    const errText = await response.text();
-    throw new Error(`Embedding generation failed: ${errText}`);
-  }
-
-  const data = (await response.json()) as { data?: Array<{ embedding?: number[] }> };
-  const embedding = data.data?.[0]?.embedding;
-
-  if (!Array.isArray(embedding) || embedding.length !== EMBEDDING_DIMENSIONS) {
-    throw new Error(`Invalid embedding response: expected ${EMBEDDING_DIMENSIONS} dimensions`);
-  }
-
-  return embedding;
-}
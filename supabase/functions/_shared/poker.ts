@@ -0,0 +1,268 @@
+/**
+ * Deterministic poker engine: card parsing, board helpers and a 7-card hand evaluator.
+ *
+ * Shared by Edge Functions, scripts (tsx) and the app (via lib/poker.ts), so this file
+ * must stay free of Deno / React Native APIs and must not import anything.
+ */
+
+export const RANKS = ['A', 'K', 'Q', 'J', 'T', '9', '8', '7', '6', '5', '4', '3', '2'] as const;
+export const SUITS = ['s', 'h', 'd', 'c'] as const;
+
+export type Rank = (typeof RANKS)[number];
+export type Suit = (typeof SUITS)[number];
+
+/** Canonical card code: rank + suit, e.g. "As", "Td", "7c". */
+export type CardCode = string;
+
+export type ParsedCard = { rank: Rank; suit: Suit; value: number };
+
+export type Street = 'preflop' | 'flop' | 'turn' | 'river';
+
+/** Board as stored in scenarios and hand_library (flop is always 3 cards). */
+export type Board = {
+  flop: [CardCode, CardCode, CardCode];
+  turn: CardCode | null;
+  river: CardCode | null;
+};
+
+export const RANK_VALUES: Record<Rank, number> = {
+  A: 14, K: 13, Q: 12, J: 11, T: 10, '9': 9, '8': 8, '7': 7, '6': 6, '5': 5, '4': 4, '3': 3, '2': 2,
+};
+
+const VALUE_TO_RANK: Record<number, Rank> = Object.fromEntries(
+  RANKS.map((r) => [RANK_VALUES[r], r]),
+) as Record<number, Rank>;
+
+// ─── Card parsing ───
+
+/** Single card token → canonical "RankSuit" (e.g. "As", "Td") or null. Handles "10s", "A♠", "as". */
+export function normalizeCardToken(token: string | null | undefined): CardCode | null {
+  if (!token || typeof token !== 'string') return null;
+  let s = token.trim().replace(/\s+/g, '');
+  s = s.replace(/♠/g, 's').replace(/♥/g, 'h').replace(/♦/g, 'd').replace(/♣/g, 'c');
+  s = s.replace(/10/gi, 'T');
+  s = s.replace(/[^AKQJT2-9shdc]/gi, '');
+  if (s.length < 2) return null;
+  const r = s[0].toUpperCase(), suit = s[1].toLowerCase();
+  if (!RANKS.includes(r as Rank) || !SUITS.includes(suit as Suit)) return null;
+  return r + suit;
+}
+
+/** Parse a string into canonical card array (handles "As 7d 2c", "A♠7♦2♣", "AS7D2C"). */
+export function parseCardsFromString(s: string | null | undefined): CardCode[] {
+  if (!s || typeof s !== 'string') return [];
+  let t = s.trim().replace(/\s+/g, '');
+  t = t.replace(/♠/g, 's').replace(/♥/g, 'h').replace(/♦/g, 'd').replace(/♣/g, 'c');
+  t = t.replace(/10/gi, 'T');
+  const cards: CardCode[] = [];
+  const re = /([AKQJT2-9])([shdc])/gi;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(t)) !== null) {
+    cards.push(m[1].toUpperCase() + m[2].toLowerCase());
+  }
+  return cards;
+}
+
+export function parseCard(code: string | null | undefined): ParsedCard | null {
+  const c = normalizeCardToken(code);
+  if (!c) return null;
+  const rank = c[0] as Rank;
+  return { rank, suit: c[1] as Suit, value: RANK_VALUES[rank] };
+}
+
+/** Canonical code or '' when the card cannot be parsed. */
+export function cardKey(code: string | null | undefined): string {
+  return normalizeCardToken(code) ?? '';
+}
+
+/** Card code → 0..51 (value-major, suit-minor) or -1. Used by the evaluator and the equity engine. */
+export function cardToIndex(code: string | null | undefined): number {
+  const p = parseCard(code);
+  if (!p) return -1;
+  return (p.value - 2) * 4 + SUITS.indexOf(p.suit);
+}
+
+export function indexToCard(index: number): CardCode {
+  return VALUE_TO_RANK[Math.floor(index / 4) + 2] + SUITS[index % 4];
+}
+
+/** All 52 cards in canonical form. */
+export function fullDeck(): CardCode[] {
+  const out: CardCode[] = [];
+  for (let i = 0; i < 52; i++) out.push(indexToCard(i));
+  return out;
+}
+
+/** Every present card parses and no card repeats. null/empty entries (e.g. missing turn) are skipped. */
+export function cardsUnique(cards: Array<string | null | undefined>): boolean {
+  const seen = new Set<string>();
+  for (const c of cards) {
+    if (c == null || c === '') continue;
+    const k = cardKey(c);
+    if (!k || seen.has(k)) return false;
+    seen.add(k);
+  }
+  return true;
+}
+
+// ─── Board helpers ───
+
+/** Board cards visible on the given street (flop → 3, turn → 4, river → 5). */
+export function boardCardsForStreet(
+  board: { flop?: string[] | null; turn?: string | null; river?: string | null } | null | undefined,
+  street: string,
+): CardCode[] {
+  if (!board || street === 'preflop') return [];
+  const out = [...(board.flop ?? [])];
+  if ((street === 'turn' || street === 'river') && board.turn) out.push(board.turn);
+  if (street === 'river' && board.river) out.push(board.river);
+  return out;
+}
+
+/** Flat board array (hand_library stores ['Ad','Kh','Qc','Js','Th']) → Board, or null if the flop is incomplete. */
+export function boardFromArray(cards: Array<string | null | undefined>): Board | null {
+  const list = cards.filter((c): c is string => typeof c === 'string' && c !== '');
+  if (list.length < 3) return null;
+  return {
+    flop: [list[0], list[1], list[2]],
+    turn: list[3] ?? null,
+    river: list[4] ?? null,
+  };
+}
+
+/** Street implied by the number of board cards. */
+export function streetFromBoardLength(n: number): Street {
+  if (n >= 5) return 'river';
+  if (n === 4) return 'turn';
+  if (n === 3) return 'flop';
+  return 'preflop';
+}
+
+// ─── Hand evaluator ───
+
+export const HAND_CATEGORIES = [
+  'High Card',
+  'Pair',
+  'Two Pair',
+  'Three of a Kind',
+  'Straight',
+  'Flush',
+  'Full House',
+  'Four of a Kind',
+  'Straight Flush',
+] as const;
+
+export type HandCategory = (typeof HAND_CATEGORIES)[number];
+
+export type HandValue = {
+  /** Index into HAND_CATEGORIES: 0 (High Card) … 8 (Straight Flush). */
+  category: number;
+  name: HandCategory;
+  /** Rank values deciding ties inside the category, most significant first (pair rank, then kickers). */
+  tiebreak: number[];
+  /** Comparable strength: higher wins, equal scores split the pot. */
+  score: number;
+};
+
+const ACE_LOW_BIT = 1 << 1;
+
+/** Highest straight in a rank bitmask (bit v set for value v), 0 if none. Wheel counts as 5-high. */
+function straightHigh(mask: number): number {
+  const m = mask & (1 << 14) ? mask | ACE_LOW_BIT : mask;
+  for (let high = 14; high >= 5; high--) {
+    const run = 0b11111 << (high - 4);
+    if ((m & run) === run) return high;
+  }
+  return 0;
+}
+
+/** Top n rank values from a bitmask, optionally skipping some values. */
+function topValues(mask: number, n: number, exclude: number[] = []): number[] {
+  const out: number[] = [];
+  for (let v = 14; v >= 2 && out.length < n; v--) {
+    if (mask & (1 << v) && !exclude.includes(v)) out.push(v);
+  }
+  return out;
+}
+
+function makeValue(category: number, tiebreak: number[]): HandValue {
+  let score = category;
+  for (let i = 0; i < 5; i++) score = score * 16 + (tiebreak[i] ?? 0);
+  return { category, name: HAND_CATEGORIES[category], tiebreak, score };
+}
+
+/**
+ * Best 5-card hand out of 1–7 cards given as indices (see cardToIndex).
+ * Counts ranks/suits once instead of enumerating 5-card combos, so it is cheap enough for Monte Carlo.
+ */
+export function evaluateIndices(cards: readonly number[]): HandValue {
+  const counts = new Array<number>(15).fill(0);
+  const suitMasks = [0, 0, 0, 0];
+  const suitCounts = [0, 0, 0, 0];
+  let mask = 0;
+  for (const idx of cards) {
+    const v = (idx >> 2) + 2;
+    const s = idx & 3;
+    counts[v]++;
+    suitMasks[s] |= 1 << v;
+    suitCounts[s]++;
+    mask |= 1 << v;
+  }
+
+  const flushSuit = suitCounts.findIndex((c) => c >= 5);
+  if (flushSuit >= 0) {
+    const sf = straightHigh(suitMasks[flushSuit]);
+    if (sf) return makeValue(8, [sf]);
+  }
+
+  let quad = 0;
+  const trips: number[] = [];
+  const pairs: number[] = [];
+  for (let v = 14; v >= 2; v--) {
+    if (counts[v] === 4) quad = v;
+    else if (counts[v] === 3) trips.push(v);
+    else if (counts[v] === 2) pairs.push(v);
+  }
+
+  if (quad) return makeValue(7, [quad, ...topValues(mask, 1, [quad])]);
+  if (trips.length > 0 && (trips.length > 1 || pairs.length > 0)) {
+    return makeValue(6, [trips[0], Math.max(trips[1] ?? 0, pairs[0] ?? 0)]);
+  }
+  if (flushSuit >= 0) return makeValue(5, topValues(suitMasks[flushSuit], 5));
+  const st = straightHigh(mask);
+  if (st) return makeValue(4, [st]);
+  if (trips.length > 0) return makeValue(3, [trips[0], ...topValues(mask, 2, [trips[0]])]);
+  if (pairs.length > 1) {
+    return makeValue(2, [pairs[0], pairs[1], ...topValues(mask, 1, [pairs[0], pairs[1]])]);
+  }
+  if (pairs.length === 1) return makeValue(1, [pairs[0], ...topValues(mask, 3, [pairs[0]])]);
+  return makeValue(0, topValues(mask, 5));
+}
+
+/** Evaluate card codes; null if any card is invalid or repeated. */
+export function evaluateHand(cards: Array<string | null | undefined>): HandValue | null {
+  const present = cards.filter((c): c is string => c != null && c !== '');
+  if (present.length === 0 || !cardsUnique(present)) return null;
+  return evaluateIndices(present.map(cardToIndex));
+}
+
+/** > 0 if a beats b, < 0 if b wins, 0 on a split. */
+export function compareHands(a: HandValue, b: HandValue): number {
+  return a.score - b.score;
+}
+
+/**
+ * Human label for Hero's made hand, as handed to the LLM and stored in hand_library.hero_hand_rank.
+ * Three of a kind is split by where it comes from: "Set" (pocket pair + board card),
+ * "Trips" (one hole card + paired board) or plain "Three of a Kind" (trips on the board).
+ */
+export function heroHandLabel(heroCards: Array<string | null | undefined>, boardCards: Array<string | null | undefined>): string {
+  const value = evaluateHand([...heroCards, ...boardCards]);
+  if (!value) return 'High Card';
+  if (value.name !== 'Three of a Kind') return value.name;
+  const tripsValue = value.tiebreak[0];
+  const fromHero = heroCards.filter((c) => parseCard(c)?.value === tripsValue).length;
+  if (fromHero >= 2) return 'Set';
+  if (fromHero === 1) return 'Trips';
+  return 'Three of a Kind';
+}
@@ -0,0 +1,207 @@
+/**
+ * Preflop range drills: hero gets a hand and a position (plus an opener when facing a raise) and picks
+ * open / 3bet / call / fold. Graded against the preflop_charts table — one chart per format, stack depth,
+ * hero position and opener — so the answer never depends on the model. Pure TypeScript — no Deno APIs.
+ */
+
+import {
+  HAND_CLASS_GRID,
+  classCombos,
+  handClassOf,
+  parseRange,
+  type HandClass,
+  type ParsedRange,
+} from './ranges.ts';
+
+export type PreflopFormat = 'cash' | 'mtt';
+export type PreflopAction = 'open' | '3bet' | 'call' | 'fold';
+
+export type PreflopChart = {
+  format: PreflopFormat;
+  stack_bb: number;
+  hero_pos: string;
+  /** null = hero is first in (RFI chart). */
+  opener_pos: string | null;
+  /** Hands that open (RFI) or 3bet (vs an open), range notation with optional weights. */
+  raise_range: string;
+  /** Hands that flat the open; null for raise-or-fold spots and RFI charts. */
+  call_range: string | null;
+};
+
+export type PreflopSpot = {
+  drill_type: 'preflop_range';
+  format: PreflopFormat;
+  stack_bb: number;
+  hero_pos: string;
+  opener_pos: string | null;
+  hero_cards: [string, string];
+  hand_class: HandClass;
+  options: PreflopAction[];
+};
+
+export type PreflopGrade = {
+  correct_action: PreflopAction;
+  /** Every action played at the top frequency: a 50/50 mix accepts both. */
+  accepted: PreflopAction[];
+  frequencies: Partial<Record<PreflopAction, number>>;
+  explanation: string;
+};
+
+/** Chart sets the trainer deals from; every stored chart belongs to one of them. */
+export const PREFLOP_STACK_DEPTHS: { format: PreflopFormat; stack_bb: number }[] = [
+  { format: 'cash', stack_bb: 100 },
+  { format: 'mtt', stack_bb: 40 },
+  { format: 'mtt', stack_bb: 25 },
+];
+
+/** Leaks trained with preflop_range drills: opening uses RFI charts, 3bet defense the charts vs an open. */
+export const PREFLOP_RANGE_LEAK_TAGS = ['preflop_opening', 'preflop_3bet_defense'];
+
+export const PREFLOP_ACTIONS: PreflopAction[] = ['open', '3bet', 'call', 'fold'];
+
+const ACTION_LABELS: Record<PreflopAction, string> = { open: 'опен', '3bet': '3-бет', call: 'колл', fold: 'фолд' };
+
+/** Share of the spot's deals taken from the edge of the range, where the decision is not obvious. */
+const BORDERLINE_SHARE = 0.7;
+
+/** Chart from a preflop_charts row or seed entry; null when a field is missing or a range does not parse. */
+export function parsePreflopChart(raw: Record<string, unknown>): PreflopChart | null {
+  const format = raw.format;
+  const stack = Number(raw.stack_bb);
+  const heroPos = typeof raw.hero_pos === 'string' ? raw.hero_pos.trim().toUpperCase() : '';
+  const opener = typeof raw.opener_pos === 'string' && raw.opener_pos.trim() ? raw.opener_pos.trim().toUpperCase() : null;
+  const raiseRange = typeof raw.raise_range === 'string' ? raw.raise_range.trim() : '';
+  const callRange = typeof raw.call_range === 'string' && raw.call_range.trim() ? raw.call_range.trim() : null;
+  if ((format !== 'cash' && format !== 'mtt') || !Number.isFinite(stack) || stack <= 0 || !heroPos || !raiseRange) return null;
+  if (opener === heroPos || (opener == null && callRange != null)) return null;
+  try {
+    parseRange(raiseRange);
+    if (callRange) parseRange(callRange);
+  } catch {
+    return null;
+  }
+  return { format, stack_bb: stack, hero_pos: heroPos, opener_pos: opener, raise_range: raiseRange, call_range: callRange };
+}
+
+/** Answers offered for a chart: open / fold first in, 3bet / call / fold vs an open (no call when the chart has none). */
+export function preflopOptions(chart: PreflopChart): PreflopAction[] {
+  if (chart.opener_pos == null) return ['open', 'fold'];
+  return chart.call_range ? ['3bet', 'call', 'fold'] : ['3bet', 'fold'];
+}
+
+/** Chart for a spot (format, stack, positions); null when it is not stored. */
+export function findPreflopChart(
+  charts: PreflopChart[],
+  spot: Pick<PreflopSpot, 'format' | 'stack_bb' | 'hero_pos' | 'opener_pos'>,
+): PreflopChart | null {
+  return (
+    charts.find(
+      (c) =>
+        c.format === spot.format &&
+        c.stack_bb === Number(spot.stack_bb) &&
+        c.hero_pos === spot.hero_pos &&
+        (c.opener_pos ?? null) === (spot.opener_pos || null),
+    ) ?? null
+  );
+}
+
+/** "BTN · кэш 100bb · первым в банк" / "BB против опена CO · MTT 25bb". */
+export function preflopSpotLabel(spot: Pick<PreflopSpot, 'format' | 'stack_bb' | 'hero_pos' | 'opener_pos'>): string {
+  const depth = `${spot.format === 'cash' ? 'кэш' : 'MTT'} ${spot.stack_bb}bb`;
+  return spot.opener_pos
+    ? `${spot.hero_pos} против опена ${spot.opener_pos} · ${depth}`
+    : `${spot.hero_pos} · ${depth} · первым в банк`;
+}
+
+function classWeight(range: ParsedRange | null, hand: HandClass): number {
+  return range?.classes[hand] ?? 0;
+}
+
+/**
+ * Chart answer for a hand: raise / call frequencies from the chart weights, fold takes the rest.
+ * The most frequent action is correct; ties are all accepted.
+ */
+export function gradePreflopHand(chart: PreflopChart, heroCards: [string, string] | string[]): PreflopGrade | null {
+  const hand = handClassOf(heroCards);
+  if (!hand) return null;
+  const raise = classWeight(parseRange(chart.raise_range), hand);
+  const call = Math.min(1 - raise, classWeight(chart.call_range ? parseRange(chart.call_range) : null, hand));
+  const raiseAction: PreflopAction = chart.opener_pos == null ? 'open' : '3bet';
+  const frequencies: Partial<Record<PreflopAction, number>> = { [raiseAction]: raise, fold: Math.max(0, 1 - raise - call) };
+  if (chart.opener_pos != null && chart.call_range) frequencies.call = call;
+
+  const ordered = (Object.entries(frequencies) as [PreflopAction, number][]).sort(
+    (a, b) => b[1] - a[1] || PREFLOP_ACTIONS.indexOf(a[0]) - PREFLOP_ACTIONS.indexOf(b[0]),
+  );
+  const top = ordered[0][1];
+  const accepted = ordered.filter(([, f]) => Math.abs(f - top) < 1e-9).map(([a]) => a);
+
+  const mix = ordered
+    .filter(([, f]) => f > 0)
+    .map(([a, f]) => `${ACTION_LABELS[a]} ${Math.round(f * 100)}%`)
+    .join(' / ');
+  const explanation =
+    `${preflopSpotLabel(chart)}: ${hand} — ${mix} по чарту. ` +
+    (accepted.length > 1
+      ? `Смешанная рука: засчитываются ${accepted.map((a) => ACTION_LABELS[a]).join(' и ')}.`
+      : `Правильно: ${ACTION_LABELS[accepted[0]]}.`);
+
+  return { correct_action: accepted[0], accepted, frequencies, explanation };
+}
+
+/** Whether an answer matches the chart (any accepted action of a mixed hand counts). */
+export function isPreflopAnswerCorrect(grade: PreflopGrade, action: string): boolean {
+  return grade.accepted.includes(action.toLowerCase() as PreflopAction);
+}
+
+/** Hand classes on the edge of the chart: played (raise or call) next to a grid cell that is folded, or vice versa. */
+function borderlineClasses(chart: PreflopChart): HandClass[] {
+  const raise = parseRange(chart.raise_range);
+  const call = chart.call_range ? parseRange(chart.call_range) : null;
+  const played = (h: HandClass) => classWeight(raise, h) + classWeight(call, h) >= 0.5;
+  const out: HandClass[] = [];
+  HAND_CLASS_GRID.forEach((row, r) =>
+    row.forEach((hand, c) => {
+      const neighbours = [HAND_CLASS_GRID[r - 1]?.[c], HAND_CLASS_GRID[r + 1]?.[c], row[c - 1], row[c + 1]].filter(Boolean);
+      const mixed = classWeight(raise, hand) % 1 !== 0 || classWeight(call, hand) % 1 !== 0;
+      if (mixed || neighbours.some((n) => played(n) !== played(hand))) out.push(hand);
+    }),
+  );
+  return out;
+}
+
+/**
+ * Deal a spot from the charts: a random chart (RFI charts for preflop_opening, charts vs an open for
+ * preflop_3bet_defense), then a hand — mostly from the edge of the chart, sometimes any of the 169 classes.
+ * null when no chart fits.
+ */
+export function dealPreflopSpot(
+  charts: PreflopChart[],
+  leakTag?: string | null,
+  random: () => number = Math.random,
+): PreflopSpot | null {
+  const fitting = charts.filter((c) =>
+    leakTag === 'preflop_opening' ? c.opener_pos == null : leakTag === 'preflop_3bet_defense' ? c.opener_pos != null : true,
+  );
+  const pool = fitting.length > 0 ? fitting : charts;
+  if (pool.length === 0) return null;
+  const chart = pool[Math.floor(random() * pool.length)];
+
+  const borderline = borderlineClasses(chart);
+  const all = HAND_CLASS_GRID.flat();
+  const classes = borderline.length > 0 && random() < BORDERLINE_SHARE ? borderline : all;
+  const hand = classes[Math.floor(random() * classes.length)];
+  const combos = classCombos(hand);
+  const cards = combos[Math.floor(random() * combos.length)];
+
+  return {
+    drill_type: 'preflop_range',
+    format: chart.format,
+    stack_bb: chart.stack_bb,
+    hero_pos: chart.hero_pos,
+    opener_pos: chart.opener_pos,
+    hero_cards: [cards[0], cards[1]],
+    hand_class: hand,
+    options: preflopOptions(chart),
+  };
+}
@@ -0,0 +1,127 @@
+import type { LlmClient } from '../llm/index.ts';
+import {
+  featureUsage,
+  limitReachedMessage,
+  effectiveTier,
+  quotaDayStart,
+  quotaResetsAt,
+  summarizeUsage,
+  type FeatureUsage,
+  type QuotaFeature,
+  type SubscriptionTier,
+  type UsageSummary,
+} from './limits.ts';
+
+/**
+ * Usage metering for AI endpoints: `checkQuota` before the expensive work, `recordUsage` after it succeeded.
+ * Every use is one usage_events row with the tokens and estimated cost of the LLM calls behind it; the quota
+ * counts the units of the current UTC day against QUOTA_LIMITS (limits.ts).
+ */
+
+export * from './limits.ts';
+
+export type QuotaCheck = FeatureUsage & {
+  feature: QuotaFeature;
+  tier: SubscriptionTier;
+  allowed: boolean;
+};
+
+/** Upper bound on rows read for one day's summary; far above any daily limit. */
+const MAX_DAY_EVENTS = 5000;
+
+export async function getSubscriptionTier(supabase: any, userId: string, now = new Date()): Promise<SubscriptionTier> {
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('subscription_tier, subscription_expires_at')
+    .eq('id', userId)
+    .maybeSingle();
+  return effectiveTier(profile?.subscription_tier, profile?.subscription_expires_at, now);
+}
+
+/** Units used today per feature; features without events are omitted. */
+async function usedToday(
+  supabase: any,
+  userId: string,
+  now: Date,
+  feature?: QuotaFeature,
+): Promise<Partial<Record<QuotaFeature, number>>> {
+  let query = supabase
+    .from('usage_events')
+    .select('feature, units')
+    .eq('user_id', userId)
+    .gte('created_at', quotaDayStart(now).toISOString())
+    .limit(MAX_DAY_EVENTS);
+  if (feature) query = query.eq('feature', feature);
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load usage events: ${error.message}`);
+
+  const used: Partial<Record<QuotaFeature, number>> = {};
+  for (const row of (data ?? []) as { feature: QuotaFeature; units: number }[]) {
+    used[row.feature] = (used[row.feature] ?? 0) + Number(row.units ?? 0);
+  }
+  return used;
+}
+
+/**
+ * Whether the user may use the feature once more today. Fails open when usage cannot be read, like the inline
+ * checks did: a metering outage must not block the app.
+ */
+export async function checkQuota(
+  supabase: any,
+  userId: string,
+  feature: QuotaFeature,
+  now = new Date(),
+): Promise<QuotaCheck> {
+  const tier = await getSubscriptionTier(supabase, userId, now);
+  let used = 0;
+  try {
+    used = (await usedToday(supabase, userId, now, feature))[feature] ?? 0;
+  } catch (e) {
+    console.error('Quota check failed:', e instanceof Error ? e.message : e);
+  }
+  const usage = featureUsage(tier, feature, used);
+  return { ...usage, feature, tier, allowed: usage.remaining == null || usage.remaining > 0 };
+}
+
+/** 403 body for an exhausted quota; the app maps error 'limit_reached' to LIMIT_REACHED. */
+export function limitReachedBody(check: QuotaCheck, now = new Date()) {
+  return {
+    error: 'limit_reached',
+    detail: limitReachedMessage(check.feature, check.tier),
+    feature: check.feature,
+    used: check.used,
+    limit: check.limit,
+    resets_at: quotaResetsAt(now).toISOString(),
+  };
+}
+
+/**
+ * Records one use (units 1) or a metered call that does not count against the quota (units 0, e.g. a chat
+ * "continue"). Tokens and cost come from the LLM client's totals. Failures are logged, never thrown.
+ */
+export async function recordUsage(
+  supabase: any,
+  userId: string,
+  feature: QuotaFeature,
+  fn: string,
+  llm: LlmClient | null,
+  units = 1,
+): Promise<void> {
+  const totals = llm?.totals();
+  const { error } = await supabase.from('usage_events').insert({
+    user_id: userId,
+    feature,
+    fn,
+    units,
+    llm_calls: totals?.calls ?? 0,
+    prompt_tokens: totals?.promptTokens ?? 0,
+    completion_tokens: totals?.completionTokens ?? 0,
+    cost_usd: Math.round((totals?.costUsd ?? 0) * 1e6) / 1e6,
+  });
+  if (error) console.error('Failed to record usage:', error);
+}
+
+export async function getUsageSummary(supabase: any, userId: string, now = new Date()): Promise<UsageSummary> {
+  const [tier, used] = await Promise.all([getSubscriptionTier(supabase, userId, now), usedToday(supabase, userId, now)]);
+  return summarizeUsage(tier, used, now);
+}
@@ -0,0 +1,98 @@
+/**
+ * Per-tier daily limits for metered AI features and the usage summary shown in the app ("осталось 2 из 3").
+ * Pure module: edge functions count usage_events through quota/index.ts, the app imports this via lib/quota.ts.
+ * The quota day is the UTC day, as the inline freemium checks it replaces used.
+ */
+
+export type SubscriptionTier = 'free' | 'pro' | 'affiliate_pro';
+
+export type QuotaFeature = 'hand_analysis' | 'coach_message' | 'ocr' | 'table_drill' | 'leak_summary';
+
+export const QUOTA_FEATURES: QuotaFeature[] = ['hand_analysis', 'coach_message', 'ocr', 'table_drill', 'leak_summary'];
+
+/** Uses per UTC day; null = unlimited. Pro tiers keep a ceiling on the costly endpoints as an abuse guard. */
+export const QUOTA_LIMITS: Record<SubscriptionTier, Record<QuotaFeature, number | null>> = {
+  free: { hand_analysis: 3, coach_message: 5, ocr: 5, table_drill: 10, leak_summary: 2 },
+  pro: { hand_analysis: null, coach_message: null, ocr: 100, table_drill: 200, leak_summary: 20 },
+  affiliate_pro: { hand_analysis: null, coach_message: null, ocr: 100, table_drill: 200, leak_summary: 20 },
+};
+
+/** label: shown in the app; limitNoun: genitive plural for "Достигнут лимит …". */
+export const QUOTA_FEATURE_TEXT: Record<QuotaFeature, { label: string; limitNoun: string }> = {
+  hand_analysis: { label: 'Разборы рук', limitNoun: 'разборов' },
+  coach_message: { label: 'Сообщения тренеру', limitNoun: 'сообщений' },
+  ocr: { label: 'Распознавание скриншотов', limitNoun: 'распознаваний скриншотов' },
+  table_drill: { label: 'Новые тренировочные споты', limitNoun: 'новых тренировочных спотов' },
+  leak_summary: { label: 'Анализ ошибок', limitNoun: 'анализов ошибок' },
+};
+
+export type FeatureUsage = {
+  used: number;
+  limit: number | null;
+  /** null when unlimited. */
+  remaining: number | null;
+};
+
+export type UsageSummary = {
+  tier: SubscriptionTier;
+  /** Start of the next quota day (ISO). */
+  resets_at: string;
+  features: Record<QuotaFeature, FeatureUsage>;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** profiles.subscription_tier; a missing profile or null tier is free. */
+export function normalizeTier(value: unknown): SubscriptionTier {
+  return value === 'pro' || value === 'affiliate_pro' ? value : 'free';
+}
+
+/**
+ * Tier in force at `now`: a paid tier whose subscription_expires_at has passed counts as free, so access ends on
+ * time even when the RevenueCat EXPIRATION webhook or the next affiliate report import is late.
+ */
+export function effectiveTier(tier: unknown, expiresAt: string | null | undefined, now = new Date()): SubscriptionTier {
+  const normalized = normalizeTier(tier);
+  if (normalized !== 'free' && expiresAt && new Date(expiresAt).getTime() <= now.getTime()) return 'free';
+  return normalized;
+}
+
+export function quotaLimit(tier: SubscriptionTier, feature: QuotaFeature): number | null {
+  return QUOTA_LIMITS[tier][feature];
+}
+
+/** Start of the current quota day (UTC midnight). */
+export function quotaDayStart(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+export function quotaResetsAt(now = new Date()): Date {
+  return new Date(quotaDayStart(now).getTime() + DAY_MS);
+}
+
+export function featureUsage(tier: SubscriptionTier, feature: QuotaFeature, used: number): FeatureUsage {
+  const limit = quotaLimit(tier, feature);
+  return { used, limit, remaining: limit == null ? null : Math.max(0, limit - used) };
+}
+
+export function summarizeUsage(
+  tier: SubscriptionTier,
+  used: Partial<Record<QuotaFeature, number>>,
+  now = new Date(),
+): UsageSummary {
+  const features = {} as Record<QuotaFeature, FeatureUsage>;
+  for (const feature of QUOTA_FEATURES) features[feature] = featureUsage(tier, feature, used[feature] ?? 0);
+  return { tier, resets_at: quotaResetsAt(now).toISOString(), features };
+}
+
+/** Text of the limit_reached error; free users are pointed to PRO. */
+export function limitReachedMessage(feature: QuotaFeature, tier: SubscriptionTier): string {
+  const base = `Достигнут лимит ${QUOTA_FEATURE_TEXT[feature].limitNoun} на сегодня.`;
+  return tier === 'free' ? `${base} Перейдите на PRO.` : `${base} Лимит обновится завтра.`;
+}
+
+/** "Разборы рук сегодня: осталось 2 из 3"; null for unlimited features. */
+export function usageHint(feature: QuotaFeature, usage: FeatureUsage | null | undefined): string | null {
+  if (!usage || usage.limit == null || usage.remaining == null) return null;
+  return `${QUOTA_FEATURE_TEXT[feature].label} сегодня: осталось ${usage.remaining} из ${usage.limit}`;
+}
@@ -0,0 +1,294 @@
+/**
+ * Range notation: parse "22+, A2s+, KTo+, 76s-54s, AKs:0.5, AsKd", expand to weighted combos with card removal,
+ * and map hand classes onto the 13x13 grid. Shared by the calculator, table drills and ai-analyze-hand.
+ */
+
+import { RANKS, RANK_VALUES, SUITS, cardToIndex, normalizeCardToken, type CardCode, type Rank } from './poker.ts';
+import { removeBlocked, type WeightedCombo } from './equity.ts';
+
+/** Hand class key: "AA", "AKs", "AKo" (higher rank first). */
+export type HandClass = string;
+
+/** Hand class → weight 0..1 (what the grid edits). */
+export type RangeWeights = Record<HandClass, number>;
+
+export type ParsedRange = {
+  classes: RangeWeights;
+  /** Exact combos from tokens like "AsKd"; they override the weight of their class combo. */
+  combos: WeightedCombo[];
+};
+
+/** What is wrong with the token; screens show RANGE_ERROR_TEXT (Russian), the message stays for logs. */
+export type RangeParseErrorCode =
+  | 'unknown_hand'
+  | 'suited_pair'
+  | 'bad_weight'
+  | 'weight_above_100'
+  | 'mixed_suitedness'
+  | 'bad_span'
+  | 'unknown_range'
+  | 'unknown_token'
+  | 'bad_combo';
+
+export const RANGE_ERROR_TEXT: Record<RangeParseErrorCode, string> = {
+  unknown_hand: 'Неизвестная рука',
+  suited_pair: 'Пара не бывает одномастной или разномастной',
+  bad_weight: 'Некорректный вес',
+  weight_above_100: 'Вес больше 100%',
+  mixed_suitedness: 'В диапазоне смешаны одномастные и разномастные руки',
+  bad_span: 'Диапазон должен сохранять старшую карту или разрыв',
+  unknown_range: 'Неизвестный диапазон',
+  unknown_token: 'Не удалось разобрать',
+  bad_combo: 'Некорректная комбинация',
+};
+
+export class RangeParseError extends Error {
+  code: RangeParseErrorCode;
+  token: string;
+  constructor(code: RangeParseErrorCode, token: string, message: string) {
+    super(message);
+    this.name = 'RangeParseError';
+    this.code = code;
+    this.token = token;
+  }
+}
+
+/** "Неизвестная рука: «AXs»" — the error as shown to the user. */
+export function rangeErrorText(e: RangeParseError): string {
+  return `${RANGE_ERROR_TEXT[e.code]}: «${e.token}»`;
+}
+
+const TOTAL_COMBOS = 1326;
+
+// ─── Grid ───
+
+/** Hand class for a grid cell: pairs on the diagonal, suited above it, offsuit below (rows/cols in RANKS order, A first). */
+export function gridHandClass(row: number, col: number): HandClass {
+  if (row === col) return RANKS[row] + RANKS[col];
+  return row < col ? RANKS[row] + RANKS[col] + 's' : RANKS[col] + RANKS[row] + 'o';
+}
+
+/** 13x13 matrix of hand classes, e.g. HAND_CLASS_GRID[0][1] === 'AKs'. */
+export const HAND_CLASS_GRID: HandClass[][] = RANKS.map((_, row) => RANKS.map((__, col) => gridHandClass(row, col)));
+
+/** Number of combos in a hand class before card removal (6 / 4 / 12). */
+export function classComboCount(hand: HandClass): number {
+  if (hand.length === 2) return 6;
+  return hand[2] === 's' ? 4 : 12;
+}
+
+// ─── Parsing ───
+
+function rankAt(value: number): Rank {
+  return RANKS[14 - value];
+}
+
+function classKey(high: number, low: number, suffix: '' | 's' | 'o'): HandClass {
+  return high === low ? rankAt(high) + rankAt(low) : rankAt(high) + rankAt(low) + suffix;
+}
+
+type ClassToken = { high: number; low: number; suffix: '' | 's' | 'o' };
+
+function parseClassToken(raw: string, token: string): ClassToken {
+  const m = /^([AKQJT2-9])([AKQJT2-9])([so]?)$/.exec(raw);
+  if (!m) throw new RangeParseError('unknown_hand', token, `Unrecognized hand "${raw}"`);
+  let a = RANK_VALUES[m[1] as Rank];
+  let b = RANK_VALUES[m[2] as Rank];
+  if (b > a) [a, b] = [b, a];
+  const suffix = m[3] as '' | 's' | 'o';
+  if (a === b && suffix) throw new RangeParseError('suited_pair', token, `Pairs cannot be suited or offsuit: "${raw}"`);
+  return { high: a, low: b, suffix };
+}
+
+function withSuffixes(high: number, low: number, suffix: '' | 's' | 'o'): HandClass[] {
+  if (high === low) return [classKey(high, low, '')];
+  if (suffix) return [classKey(high, low, suffix)];
+  return [classKey(high, low, 's'), classKey(high, low, 'o')];
+}
+
+/** "0.5", "50%", "50" → 0.5; out-of-range values are rejected. */
+function parseWeight(raw: string, token: string): number {
+  const pct = raw.endsWith('%');
+  const n = parseFloat(pct ? raw.slice(0, -1) : raw);
+  if (!Number.isFinite(n) || n < 0) throw new RangeParseError('bad_weight', token, `Bad weight "${raw}"`);
+  const w = pct || n > 1 ? n / 100 : n;
+  if (w > 1) throw new RangeParseError('weight_above_100', token, `Weight above 100%: "${raw}"`);
+  return w;
+}
+
+/** Expand one token (without weight) into hand classes. */
+function expandToken(body: string, token: string): HandClass[] {
+  if (body.endsWith('+')) {
+    const t = parseClassToken(body.slice(0, -1), token);
+    const out: HandClass[] = [];
+    if (t.high === t.low) {
+      for (let v = t.low; v <= 14; v++) out.push(classKey(v, v, ''));
+    } else {
+      for (let k = t.low; k < t.high; k++) out.push(...withSuffixes(t.high, k, t.suffix));
+    }
+    return out;
+  }
+
+  const dash = body.split('-');
+  if (dash.length === 2) {
+    const from = parseClassToken(dash[0], token);
+    const to = parseClassToken(dash[1], token);
+    if (from.suffix !== to.suffix) {
+      throw new RangeParseError('mixed_suitedness', token, `Mixed suitedness in "${body}"`);
+    }
+    const out: HandClass[] = [];
+    if (from.high === from.low && to.high === to.low) {
+      const [lo, hi] = from.high < to.high ? [from.high, to.high] : [to.high, from.high];
+      for (let v = lo; v <= hi; v++) out.push(classKey(v, v, ''));
+      return out;
+    }
+    if (from.high === to.high) {
+      const [lo, hi] = from.low < to.low ? [from.low, to.low] : [to.low, from.low];
+      for (let k = lo; k <= hi; k++) out.push(...withSuffixes(from.high, k, from.suffix));
+      return out;
+    }
+    if (from.high - from.low === to.high - to.low) {
+      const gap = from.high - from.low;
+      const [lo, hi] = from.high < to.high ? [to.high, from.high] : [from.high, to.high];
+      for (let h = hi; h <= lo; h++) out.push(...withSuffixes(h, h - gap, from.suffix));
+      return out;
+    }
+    throw new RangeParseError('bad_span', token, `Cannot span "${body}": keep the high card or the gap fixed`);
+  }
+  if (dash.length > 2) throw new RangeParseError('unknown_range', token, `Unrecognized range "${body}"`);
+
+  const t = parseClassToken(body, token);
+  return withSuffixes(t.high, t.low, t.suffix);
+}
+
+/**
+ * Parse range notation. Tokens are separated by commas or spaces; a weight follows ":" ("AKs:0.5", "QQ:50%").
+ * A later token overrides the weight of an earlier one. Throws RangeParseError with the offending token.
+ */
+export function parseRange(text: string | null | undefined): ParsedRange {
+  const classes: RangeWeights = {};
+  const combos = new Map<string, WeightedCombo>();
+  const tokens = (text ?? '').replace(/10/g, 'T').split(/[,;\s]+/).filter(Boolean);
+
+  for (const token of tokens) {
+    const [bodyRaw, weightRaw, extra] = token.split(':');
+    if (extra !== undefined) throw new RangeParseError('unknown_token', token, `Unrecognized token "${token}"`);
+    const weight = weightRaw !== undefined ? parseWeight(weightRaw, token) : 1;
+
+    const exact = /^([AKQJTakqjt2-9][shdcSHDC])([AKQJTakqjt2-9][shdcSHDC])$/.exec(bodyRaw);
+    if (exact) {
+      const a = normalizeCardToken(exact[1]);
+      const b = normalizeCardToken(exact[2]);
+      if (!a || !b || a === b) throw new RangeParseError('bad_combo', token, `Bad combo "${bodyRaw}"`);
+      const [hi, lo] = cardToIndex(a) > cardToIndex(b) ? [a, b] : [b, a];
+      combos.set(hi + lo, { cards: [hi, lo], weight });
+      continue;
+    }
+
+    // Ranks are upper-case, the s/o suffix lower-case ("aks" → "AKs").
+    const body = bodyRaw.toUpperCase().replace(/[SO]/g, (c) => c.toLowerCase());
+    for (const hand of expandToken(body, token)) {
+      classes[hand] = weight;
+    }
+  }
+
+  for (const key of Object.keys(classes)) if (classes[key] <= 0) delete classes[key];
+  return { classes, combos: [...combos.values()].filter((c) => c.weight > 0) };
+}
+
+/** Hand class of two hole cards ("Kd", "As" → "AKo"); null when a card does not parse or both are the same. */
+export function handClassOf(cards: [string, string] | string[]): HandClass | null {
+  const a = normalizeCardToken(cards[0]);
+  const b = normalizeCardToken(cards[1]);
+  if (!a || !b || a === b) return null;
+  const va = RANK_VALUES[a[0] as Rank];
+  const vb = RANK_VALUES[b[0] as Rank];
+  return classKey(Math.max(va, vb), Math.min(va, vb), a[1] === b[1] ? 's' : 'o');
+}
+
+// ─── Expansion ───
+
+/** All concrete combos of a hand class, e.g. "AKs" → AsKs, AhKh, AdKd, AcKc. */
+export function classCombos(hand: HandClass): [CardCode, CardCode][] {
+  const hi = hand[0];
+  const lo = hand[1];
+  const out: [CardCode, CardCode][] = [];
+  for (let i = 0; i < SUITS.length; i++) {
+    for (let j = 0; j < SUITS.length; j++) {
+      if (hi === lo && j <= i) continue;
+      const suited = i === j;
+      if (hand.length === 3 && (hand[2] === 's') !== suited) continue;
+      out.push([hi + SUITS[i], lo + SUITS[j]]);
+    }
+  }
+  return out;
+}
+
+/** Range → weighted combos, minus combos that use dead cards (hero cards, board). */
+export function expandRange(range: ParsedRange, dead: CardCode[] = []): WeightedCombo[] {
+  const byKey = new Map<string, WeightedCombo>();
+  const key = (c: [CardCode, CardCode]) => {
+    const [x, y] = [cardToIndex(c[0]), cardToIndex(c[1])];
+    return x > y ? `${x}-${y}` : `${y}-${x}`;
+  };
+  for (const [hand, weight] of Object.entries(range.classes)) {
+    for (const cards of classCombos(hand)) byKey.set(key(cards), { cards, weight });
+  }
+  for (const combo of range.combos) byKey.set(key(combo.cards), combo);
+  return removeBlocked([...byKey.values()], dead);
+}
+
+/** Weighted combo count after card removal. */
+export function rangeComboCount(range: ParsedRange, dead: CardCode[] = []): number {
+  return expandRange(range, dead).reduce((acc, c) => acc + c.weight, 0);
+}
+
+/** Share of all 1326 starting hands, 0..1 (before card removal). */
+export function rangeFraction(range: ParsedRange): number {
+  return rangeComboCount(range) / TOTAL_COMBOS;
+}
+
+// ─── Formatting ───
+
+function weightSuffix(w: number): string {
+  return w >= 1 ? '' : `:${Number(w.toFixed(2))}`;
+}
+
+/** Compact notation for a set of class weights: "TT+, 77, A2s+, KTo+, 76s:0.5". Exact combos are appended. */
+export function formatRange(range: ParsedRange): string {
+  const parts: string[] = [];
+  const w = (hand: HandClass) => range.classes[hand] ?? 0;
+
+  // Pairs, AA first: runs of equal weight.
+  let v = 14;
+  while (v >= 2) {
+    const weight = w(classKey(v, v, ''));
+    if (weight <= 0) { v--; continue; }
+    let end = v;
+    while (end - 1 >= 2 && w(classKey(end - 1, end - 1, '')) === weight) end--;
+    const top = rankAt(v) + rankAt(v);
+    const bottom = rankAt(end) + rankAt(end);
+    parts.push((v === 14 && end < 14 ? `${bottom}+` : end === v ? top : `${top}-${bottom}`) + weightSuffix(weight));
+    v = end - 1;
+  }
+
+  // Suited then offsuit, per high card: runs of kickers with equal weight.
+  for (const suffix of ['s', 'o'] as const) {
+    for (let high = 14; high >= 3; high--) {
+      let k = high - 1;
+      while (k >= 2) {
+        const weight = w(classKey(high, k, suffix));
+        if (weight <= 0) { k--; continue; }
+        let end = k;
+        while (end - 1 >= 2 && w(classKey(high, end - 1, suffix)) === weight) end--;
+        const top = classKey(high, k, suffix);
+        const bottom = classKey(high, end, suffix);
+        parts.push((k === high - 1 && end < k ? `${bottom}+` : end === k ? top : `${top}-${bottom}`) + weightSuffix(weight));
+        k = end - 1;
+      }
+    }
+  }
+
+  for (const c of range.combos) parts.push(c.cards[0] + c.cards[1] + weightSuffix(c.weight));
+  return parts.join(', ');
+}
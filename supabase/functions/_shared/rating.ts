@@ -0,0 +1,67 @@
+/**
+ * Glicko-style skill ratings for table drills.
+ *
+ * Every attempt is a game between the player's rating for one leak_tag and the hand_library scenario: a correct
+ * answer is a win for the player, a wrong one a win for the scenario. Both sides carry a rating and a rating
+ * deviation (RD, the uncertainty), so new leak tags and fresh scenarios move fast and established ones settle.
+ * The update itself runs in rpc_update_skill_rating (migration 028, service role only since 042); this module holds
+ * the shared constants and the read-side math (expected score, target scenario rating, 0..100 display).
+ * Pure TypeScript — no Deno APIs.
+ */
+
+export type GlickoRating = {
+  rating: number;
+  /** Rating deviation; 350 = nothing known yet. */
+  rd: number;
+};
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export const DEFAULT_RATING = 1500;
+export const DEFAULT_RD = 350;
+export const MIN_RD = 40;
+/** RD² added per day without practice: a settled rating is fully uncertain again after about a year. */
+export const RD_GROWTH_PER_DAY = 330;
+/** Success probability a picked scenario aims for: a stretch, but mostly winnable. */
+export const TARGET_SUCCESS = 0.7;
+
+const Q = Math.LN10 / 400;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function g(rd: number): number {
+  return 1 / Math.sqrt(1 + (3 * Q * Q * rd * rd) / (Math.PI * Math.PI));
+}
+
+/** Probability that `player` beats `opponent` (answers the scenario correctly). */
+export function expectedScore(player: GlickoRating, opponent: GlickoRating): number {
+  return 1 / (1 + Math.pow(10, (-g(opponent.rd) * (player.rating - opponent.rating)) / 400));
+}
+
+/** RD after a period without practice; unchanged for a rating that was never practised. */
+export function inflateRd(rd: number, lastPracticeAt: string | null, now: Date = new Date()): number {
+  if (!lastPracticeAt) return rd;
+  const days = Math.max(0, (now.getTime() - new Date(lastPracticeAt).getTime()) / DAY_MS);
+  return Math.min(DEFAULT_RD, Math.sqrt(rd * rd + RD_GROWTH_PER_DAY * days));
+}
+
+/**
+ * Scenario rating to aim for: the one the player beats with TARGET_SUCCESS probability. The less we know about
+ * the player (high RD, e.g. after a break), the further the target leans towards easier scenarios.
+ */
+export function targetScenarioRating(player: GlickoRating, lastPracticeAt: string | null, now: Date = new Date()): number {
+  const rd = inflateRd(player.rd, lastPracticeAt, now);
+  const gap = 400 * Math.log10(TARGET_SUCCESS / (1 - TARGET_SUCCESS));
+  return Math.round(player.rating - gap - 0.25 * (rd - MIN_RD));
+}
+
+/** 0..100 value stored in skill_ratings.rating (1500 → 50, ±10 Glicko points per step). */
+export function displayRating(rating: number): number {
+  return Math.max(0, Math.min(100, Math.round((rating - 1000) / 10)));
+}
+
+/** Coarse label for a scenario rating, for prompts and UI where a number means little. */
+export function difficultyForRating(rating: number): Difficulty {
+  if (rating < 1400) return 'easy';
+  if (rating > 1600) return 'hard';
+  return 'medium';
+}
@@ -0,0 +1,85 @@
+/**
+ * Signed grading fields of a model-generated table drill scenario.
+ *
+ * ai-generate-table-drill attaches `grading_token` to each generated scenario: the fields an answer is graded on
+ * (answer, cards, pot, stack, villain range, steps) plus an HMAC-SHA256 over them. The app passes the token back
+ * with the answer and ai-submit-table-drill-result grades against the verified payload, so the client's copy of
+ * those fields cannot change is_correct, the EV loss or the rating score. Library scenarios need no token: they are
+ * graded against the stored hand_library row. Uses Web Crypto only (Deno and Node).
+ */
+
+const TOKEN_VERSION = 'v1';
+
+/** Scenario fields covered by the signature; everything else (explanation, UI text) is not used for grading. */
+export const SCENARIO_TOKEN_FIELDS = [
+  'game',
+  'hero_pos',
+  'villain_pos',
+  'effective_stack_bb',
+  'hero_cards',
+  'board',
+  'street',
+  'pot_bb',
+  'action_to_hero',
+  'villain_bet',
+  'villain_cards',
+  'villain_range',
+  'correct_action',
+  'correct_option',
+  'drill_type',
+  'steps',
+] as const;
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const b64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(b64 + '='.repeat((4 - (b64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify'],
+  );
+}
+
+/** Token for the scenario's grading fields: "v1.<payload>.<signature>", base64url. */
+export async function signScenario(scenario: Record<string, unknown>, secret: string): Promise<string> {
+  const fields: Record<string, unknown> = {};
+  for (const key of SCENARIO_TOKEN_FIELDS) {
+    if (scenario[key] !== undefined) fields[key] = scenario[key];
+  }
+  const payload = base64UrlEncode(new TextEncoder().encode(JSON.stringify(fields)));
+  const signed = new TextEncoder().encode(`${TOKEN_VERSION}.${payload}`);
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), signed);
+  return `${TOKEN_VERSION}.${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/** Grading fields from a token signed with `secret`; null when the token is missing, malformed or forged. */
+export async function verifyScenarioToken(token: unknown, secret: string): Promise<Record<string, unknown> | null> {
+  if (typeof token !== 'string') return null;
+  const parts = token.split('.');
+  if (parts.length !== 3 || parts[0] !== TOKEN_VERSION) return null;
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await hmacKey(secret),
+      base64UrlDecode(parts[2]),
+      new TextEncoder().encode(`${parts[0]}.${parts[1]}`),
+    );
+    if (!valid) return null;
+    const fields = JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[1])));
+    return fields && typeof fields === 'object' && !Array.isArray(fields) ? (fields as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
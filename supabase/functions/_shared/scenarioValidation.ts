@@ -0,0 +1,237 @@
+/**
+ * Checks for hand_library scenarios before they reach the table: cards, street vs board, pot / bet / stack
+ * consistency, the answer, hero_hand_rank against the evaluator and explanations that call a made hand a draw.
+ * Also the canonical spot key used to find duplicates (suit-isomorphic spots share a key).
+ * Used by scripts/library.ts. Pure TypeScript — no Deno APIs.
+ */
+
+import { HAND_CATEGORIES, evaluateHand, heroHandLabel, normalizeCardToken, cardToIndex, SUITS, type CardCode } from './poker.ts';
+import { ALLOWED_LEAK_TAGS } from './leaks.ts';
+import { parseMultiStreetHand } from './multiStreet.ts';
+
+export type ScenarioIssueLevel = 'error' | 'warning';
+
+export type ScenarioIssue = {
+  level: ScenarioIssueLevel;
+  /** Stable id for filtering and counting, e.g. "duplicate_cards", "hand_rank". */
+  code: string;
+  message: string;
+};
+
+export type ActionToHero = { type: 'bet' | 'check' | 'raise'; size_bb: number };
+
+const STREET_BOARD_LENGTH: Record<string, number> = { flop: 3, turn: 4, river: 5 };
+const CORRECT_ACTIONS = ['fold', 'call', 'raise'];
+const STRAIGHT = HAND_CATEGORIES.indexOf('Straight');
+const FLUSH = HAND_CATEGORIES.indexOf('Flush');
+const STRAIGHT_FLUSH = HAND_CATEGORIES.indexOf('Straight Flush');
+
+/** Board in dealing order from the flat hand_library form or { flop, turn, river }; empty slots dropped. */
+export function libraryBoardCards(board: unknown): string[] {
+  if (Array.isArray(board)) return board.filter((c) => c != null && c !== '' && c !== 'null').map(String);
+  if (board && typeof board === 'object') {
+    const b = board as Record<string, unknown>;
+    const flop = Array.isArray(b.flop) ? b.flop : [];
+    return [...flop, b.turn, b.river].filter((c) => c != null && c !== '' && c !== 'null').map(String);
+  }
+  return [];
+}
+
+/**
+ * action_to_hero as stored: an object, its JSON string (import_claude_batch) or free text. Free text falls back to
+ * villain_bet (> 0 → bet). null when nothing usable is there.
+ */
+export function libraryActionToHero(raw: Record<string, unknown>): ActionToHero | null {
+  let value: unknown = raw.action_to_hero;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      value = null;
+    }
+  }
+  if (value && typeof value === 'object') {
+    const a = value as Record<string, unknown>;
+    const type = String(a.type ?? '').toLowerCase();
+    if (type === 'bet' || type === 'check' || type === 'raise') return { type, size_bb: Number(a.size_bb ?? 0) };
+  }
+  const bet = Number(raw.villain_bet);
+  if (Number.isFinite(bet)) return bet > 0 ? { type: 'bet', size_bb: bet } : { type: 'check', size_bb: 0 };
+  return null;
+}
+
+function normalizedCards(list: unknown): (CardCode | null)[] {
+  return Array.isArray(list) ? list.map((c) => normalizeCardToken(c == null ? null : String(c))) : [];
+}
+
+/**
+ * Whether a stored label agrees with the evaluator. Finer labels of the same category pass ("Top Pair" for Pair,
+ * "Three of a Kind" for Set / Trips), and so do draw labels while Hero has less than a straight.
+ */
+function sameHandRank(stored: string, solved: string): boolean {
+  const a = stored.trim().toLowerCase();
+  const b = solved.toLowerCase();
+  if (a === b) return true;
+  if (a === 'three of a kind') return b === 'set' || b === 'trips';
+  if (b === 'pair' && /pair$/.test(a) && !a.startsWith('two')) return true;
+  const madeStraightOrBetter = HAND_CATEGORIES.indexOf(solved as (typeof HAND_CATEGORIES)[number]) >= STRAIGHT;
+  return /draw|gutshot|oesd/.test(a) && !madeStraightOrBetter;
+}
+
+/** Phrases that call Hero's hand a draw; checked only when Hero already has that hand. */
+const STRAIGHT_DRAW_RE = /стрит[- ]?дро|гатшот|(^|[^a-z])(oesd|gutshot|straight[- ]draw)/i;
+const FLUSH_DRAW_RE = /флеш[- ]?дро|флэш[- ]?дро|(^|[^a-z])flush[- ]draw/i;
+
+/** All issues of one hand_library row (or import item). No issues of level "error" = the row can be served. */
+export function validateLibraryRow(raw: Record<string, unknown>): ScenarioIssue[] {
+  const issues: ScenarioIssue[] = [];
+  const error = (code: string, message: string) => issues.push({ level: 'error', code, message });
+  const warning = (code: string, message: string) => issues.push({ level: 'warning', code, message });
+
+  // Cards
+  const hero = normalizedCards(raw.hero_cards);
+  if (hero.length !== 2 || hero.some((c) => !c)) error('hero_cards', `hero_cards must be two cards, got ${JSON.stringify(raw.hero_cards)}`);
+  const boardRaw = libraryBoardCards(raw.board);
+  const board = boardRaw.map((c) => normalizeCardToken(c));
+  if (board.some((c) => !c)) error('board_cards', `Unreadable board card in ${JSON.stringify(raw.board)}`);
+  const villain = normalizedCards(raw.villain_cards);
+  if (villain.length !== 0 && (villain.length !== 2 || villain.some((c) => !c))) {
+    error('villain_cards', `villain_cards must be empty or two cards, got ${JSON.stringify(raw.villain_cards)}`);
+  }
+  const all = [...hero, ...board, ...villain].filter((c): c is CardCode => !!c);
+  const seen = new Set<CardCode>();
+  const dupes = all.filter((c) => (seen.has(c) ? true : (seen.add(c), false)));
+  if (dupes.length > 0) error('duplicate_cards', `Card dealt twice: ${[...new Set(dupes)].join(', ')}`);
+
+  // Street vs board (a multi-street hand carries the whole runout; its steps are checked instead)
+  const street = String(raw.street ?? '');
+  const multiStreet = Array.isArray(raw.steps);
+  if (multiStreet) {
+    if (!parseMultiStreetHand(raw)) error('multi_street', 'steps do not form a valid multi-street hand (see parseMultiStreetHand)');
+  } else if (!(street in STREET_BOARD_LENGTH)) {
+    error('street', `Unknown street "${street}"`);
+  } else if (board.length !== STREET_BOARD_LENGTH[street]) {
+    error('street_board', `${street} needs ${STREET_BOARD_LENGTH[street]} board cards, got ${board.length}`);
+  }
+
+  // Pot, bet, stacks
+  const pot = Number(raw.pot_bb);
+  const stack = Number(raw.effective_stack_bb);
+  if (!Number.isFinite(pot) || pot <= 0) error('pot', `pot_bb must be positive, got ${raw.pot_bb}`);
+  if (!Number.isFinite(stack) || stack <= 0) error('stack', `effective_stack_bb must be positive, got ${raw.effective_stack_bb}`);
+  if (raw.pot_size != null && Number.isFinite(pot) && Number(raw.pot_size) !== pot) {
+    warning('pot_size', `pot_size ${raw.pot_size} differs from pot_bb ${pot}`);
+  }
+  if (raw.hero_stack != null && Number.isFinite(stack) && Number(raw.hero_stack) < stack) {
+    warning('hero_stack', `hero_stack ${raw.hero_stack} is below the effective stack ${stack}`);
+  }
+  if (!multiStreet) {
+    const action = libraryActionToHero(raw);
+    if (!action) {
+      error('action_to_hero', `Unreadable action_to_hero ${JSON.stringify(raw.action_to_hero)}`);
+    } else {
+      if (action.type !== 'check' && !(action.size_bb > 0)) error('bet_size', `${action.type} without a size`);
+      if (action.type === 'check' && action.size_bb > 0) warning('bet_size', `check with size_bb ${action.size_bb}`);
+      if (Number.isFinite(stack) && action.size_bb > stack) error('bet_exceeds_stack', `Bet ${action.size_bb} bb is above the effective stack ${stack} bb`);
+      if (raw.villain_bet != null && Number(raw.villain_bet) !== action.size_bb) {
+        warning('villain_bet', `villain_bet ${raw.villain_bet} differs from action_to_hero.size_bb ${action.size_bb}`);
+      }
+    }
+  }
+
+  // Answer
+  if (raw.drill_type === 'raise_sizing') {
+    const options = raw.options && typeof raw.options === 'object' ? (raw.options as Record<string, unknown>) : null;
+    if (!options || typeof raw.correct_option !== 'string' || !(raw.correct_option in options)) {
+      error('correct_option', 'raise_sizing needs options and a correct_option among them');
+    }
+  } else if (!multiStreet) {
+    const correct = String(raw.correct_action ?? '').toLowerCase();
+    if (correct === 'check') warning('correct_action', 'correct_action "check" is stored as "call"');
+    else if (!CORRECT_ACTIONS.includes(correct)) error('correct_action', `correct_action must be fold / call / raise, got "${raw.correct_action}"`);
+  }
+
+  if (raw.leak_tag != null && !ALLOWED_LEAK_TAGS.has(String(raw.leak_tag))) warning('leak_tag', `Unknown leak_tag "${raw.leak_tag}"`);
+
+  // Hand rank and explanation against the evaluator (on the decision street; first step of a multi-street hand)
+  const firstStreet = multiStreet ? String((raw.steps as Record<string, unknown>[])[0]?.street ?? 'flop') : street;
+  const streetBoard = board.slice(0, STREET_BOARD_LENGTH[firstStreet] ?? board.length);
+  if (hero.length === 2 && !hero.some((c) => !c) && streetBoard.length >= 3 && !streetBoard.some((c) => !c) && dupes.length === 0) {
+    const solved = heroHandLabel(hero, streetBoard);
+    const stored = typeof raw.hero_hand_rank === 'string' ? raw.hero_hand_rank : '';
+    if (stored && !sameHandRank(stored, solved)) error('hand_rank', `hero_hand_rank "${stored}" but the evaluator says "${solved}"`);
+
+    const category = evaluateHand([...hero, ...streetBoard])?.category ?? 0;
+    const explanation = String(raw.explanation ?? '');
+    const hasStraight = category === STRAIGHT || category === STRAIGHT_FLUSH;
+    const hasFlush = category === FLUSH || category === STRAIGHT_FLUSH;
+    if ((hasStraight && STRAIGHT_DRAW_RE.test(explanation)) || (hasFlush && FLUSH_DRAW_RE.test(explanation))) {
+      error('made_hand_draw', `Explanation calls Hero's ${solved} a draw`);
+    }
+  }
+
+  return issues;
+}
+
+export function hasErrors(issues: ScenarioIssue[]): boolean {
+  return issues.some((i) => i.level === 'error');
+}
+
+const SUIT_PERMUTATIONS: string[][] = (() => {
+  const out: string[][] = [];
+  const permute = (rest: string[], acc: string[]) => {
+    if (rest.length === 0) out.push(acc);
+    rest.forEach((s, i) => permute([...rest.slice(0, i), ...rest.slice(i + 1)], [...acc, s]));
+  };
+  permute([...SUITS], []);
+  return out;
+})();
+
+function sortCards(cards: CardCode[]): CardCode[] {
+  return [...cards].sort((a, b) => cardToIndex(b) - cardToIndex(a));
+}
+
+/** Hero cards and board with suits relabelled to the smallest form: Ah Kh / Qh 7c 2d and As Ks / Qs 7h 2c match. */
+function canonicalCards(hero: CardCode[], flop: CardCode[], rest: CardCode[]): string {
+  let best = '';
+  for (const perm of SUIT_PERMUTATIONS) {
+    const map = (c: CardCode) => c[0] + perm[SUITS.indexOf(c[1] as (typeof SUITS)[number])];
+    const key = [sortCards(hero.map(map)).join(''), sortCards(flop.map(map)).join(''), rest.map(map).join('')].join('/');
+    if (!best || key < best) best = key;
+  }
+  return best;
+}
+
+function roundHalf(x: unknown): number {
+  return Math.round(Number(x) * 2) / 2;
+}
+
+/**
+ * Canonical spot key: what Hero sees (game, drill type, street, positions, stack, pot, the action, cards up to
+ * suit isomorphism). Villain cards and texts are ignored, so re-generated copies of a spot collide.
+ * null when the cards do not parse.
+ */
+export function spotKey(raw: Record<string, unknown>): string | null {
+  const hero = normalizedCards(raw.hero_cards);
+  const board = libraryBoardCards(raw.board).map((c) => normalizeCardToken(c));
+  if (hero.length !== 2 || hero.some((c) => !c) || board.length < 3 || board.some((c) => !c)) return null;
+  const cards = canonicalCards(hero as CardCode[], board.slice(0, 3) as CardCode[], board.slice(3) as CardCode[]);
+
+  const drillType = !raw.drill_type || raw.drill_type === 'postflop' ? 'action_decision' : String(raw.drill_type);
+  const action = libraryActionToHero(raw);
+  const steps = Array.isArray(raw.steps)
+    ? (raw.steps as Record<string, unknown>[]).map((s) => `${s.street}:${roundHalf(s.pot_bb)}:${JSON.stringify(s.action_to_hero ?? null)}`).join(',')
+    : '';
+  return [
+    String(raw.game ?? 'NLH'),
+    drillType,
+    String(raw.street ?? ''),
+    String(raw.hero_pos ?? ''),
+    String(raw.villain_pos ?? ''),
+    roundHalf(raw.effective_stack_bb),
+    roundHalf(raw.pot_bb),
+    action ? `${action.type}${roundHalf(action.size_bb)}` : '',
+    cards,
+    steps,
+  ].join('|');
+}
@@ -0,0 +1,129 @@
+/**
+ * Spaced-repetition scheduler for drill_queue items (FSRS-style memory model).
+ *
+ * Each item keeps a stability (days until recall probability drops to 90%) and a difficulty (1..10).
+ * A review is graded from correctness and answer latency; the grade updates both values and the next
+ * interval is the stability at the target retention. Pure TypeScript — no Deno APIs.
+ */
+
+/** 1 = again (wrong), 2 = hard (right but slow), 3 = good, 4 = easy (right and fast). */
+export type ReviewGrade = 1 | 2 | 3 | 4;
+
+export type MemoryState = {
+  /** Days; null for an item that has never been reviewed. */
+  stability: number | null;
+  /** 1 (easy) .. 10 (hard); null for a new item. */
+  difficulty: number | null;
+  last_reviewed_at: string | null;
+  repetition: number;
+  lapses: number;
+};
+
+export type ReviewOutcome = {
+  grade: ReviewGrade;
+  stability: number;
+  difficulty: number;
+  repetition: number;
+  lapses: number;
+  /** Days until the next review (fractional for a same-day relearning step). */
+  interval_days: number;
+  due_at: string;
+  /** 'due' for a relearning step, 'scheduled' otherwise. */
+  status: 'due' | 'scheduled';
+};
+
+/** FSRS-4.5 default parameters. */
+const W = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461, 2.1072, 0.0793, 0.3246,
+  1.587, 0.2272, 2.8755,
+];
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+
+export const TARGET_RETENTION = 0.9;
+export const MAX_INTERVAL_DAYS = 180;
+/** A wrong answer comes back within the same session. */
+export const RELEARN_MINUTES = 10;
+/** Answers faster than this are "easy", slower than SLOW_ANSWER_MS are "hard". */
+export const FAST_ANSWER_MS = 6000;
+export const SLOW_ANSWER_MS = 25000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function clamp(n: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, n));
+}
+
+/** Grade from correctness and latency; no latency counts as "good". */
+export function gradeFromAnswer(correct: boolean, latencyMs: number | null | undefined): ReviewGrade {
+  if (!correct) return 1;
+  if (latencyMs == null || !Number.isFinite(latencyMs) || latencyMs <= 0) return 3;
+  if (latencyMs < FAST_ANSWER_MS) return 4;
+  if (latencyMs > SLOW_ANSWER_MS) return 2;
+  return 3;
+}
+
+/** Probability of recall after `elapsedDays` for an item with the given stability. */
+export function retrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + (FACTOR * Math.max(0, elapsedDays)) / stability, DECAY);
+}
+
+function initialDifficulty(grade: ReviewGrade): number {
+  return clamp(W[4] - (grade - 3) * W[5], 1, 10);
+}
+
+function nextDifficulty(d: number, grade: ReviewGrade): number {
+  const next = d - W[6] * (grade - 3);
+  // Mean reversion towards the initial "good" difficulty keeps items from getting stuck at the bounds.
+  return clamp(W[7] * initialDifficulty(3) + (1 - W[7]) * next, 1, 10);
+}
+
+function recallStability(d: number, s: number, r: number, grade: ReviewGrade): number {
+  const hardPenalty = grade === 2 ? W[15] : 1;
+  const easyBonus = grade === 4 ? W[16] : 1;
+  return s * (Math.exp(W[8]) * (11 - d) * Math.pow(s, -W[9]) * (Math.exp(W[10] * (1 - r)) - 1) * hardPenalty * easyBonus + 1);
+}
+
+function forgetStability(d: number, s: number, r: number): number {
+  return Math.min(s, W[11] * Math.pow(d, -W[12]) * (Math.pow(s + 1, W[13]) - 1) * Math.exp(W[14] * (1 - r)));
+}
+
+/** Interval (days) at which recall probability falls to the target retention. */
+export function intervalForStability(stability: number, retention = TARGET_RETENTION): number {
+  const days = (stability / FACTOR) * (Math.pow(retention, 1 / DECAY) - 1);
+  return clamp(Math.round(days), 1, MAX_INTERVAL_DAYS);
+}
+
+/** Apply one review to an item's memory state. */
+export function scheduleReview(state: MemoryState, grade: ReviewGrade, now: Date = new Date()): ReviewOutcome {
+  const isNew = state.stability == null || state.difficulty == null;
+  let stability: number;
+  let difficulty: number;
+
+  if (isNew) {
+    stability = W[grade - 1];
+    difficulty = initialDifficulty(grade);
+  } else {
+    const last = state.last_reviewed_at ? new Date(state.last_reviewed_at).getTime() : now.getTime();
+    const elapsedDays = Math.max(0, (now.getTime() - last) / DAY_MS);
+    const r = retrievability(elapsedDays, state.stability!);
+    difficulty = nextDifficulty(state.difficulty!, grade);
+    stability = grade === 1
+      ? forgetStability(state.difficulty!, state.stability!, r)
+      : recallStability(state.difficulty!, state.stability!, r, grade);
+  }
+  stability = clamp(stability, 0.1, 36500);
+
+  const lapse = grade === 1;
+  const intervalDays = lapse ? RELEARN_MINUTES / (24 * 60) : intervalForStability(stability);
+  return {
+    grade,
+    stability: Number(stability.toFixed(4)),
+    difficulty: Number(difficulty.toFixed(4)),
+    repetition: lapse ? 0 : state.repetition + 1,
+    lapses: state.lapses + (lapse && !isNew ? 1 : 0),
+    interval_days: intervalDays,
+    due_at: new Date(now.getTime() + intervalDays * DAY_MS).toISOString(),
+    status: lapse ? 'due' : 'scheduled',
+  };
+}
@@ -0,0 +1,282 @@
+/**
+ * Hero HUD stats (VPIP, PFR, 3bet, WTSD, W$SD, AF) from parsed hand histories.
+ *
+ * heroStatFlags() reduces one hand to a few counters (stored as hands.stat_flags at import), aggregateStats()
+ * sums them overall / per position / per stakes, and statDeviations() compares the result with reference
+ * ranges so leaks can be backed by numbers. Pure TypeScript — shared by the app and ai-summarize-leaks.
+ */
+
+import type { ParsedHandHistory } from './handHistory.ts';
+
+/** Per-hand counters for Hero; everything a HUD stat needs as numerator or denominator. */
+export type HeroStatFlags = {
+  /** Voluntarily put money in preflop (call or raise; blinds alone do not count). */
+  vpip: boolean;
+  /** Raised preflop. */
+  pfr: boolean;
+  /** Faced exactly one preflop raise when first acting voluntarily. */
+  three_bet_opp: boolean;
+  three_bet: boolean;
+  saw_flop: boolean;
+  /** Saw the flop and was still in at the end with at least one opponent (all-ins included). */
+  wtsd: boolean;
+  /** Went to showdown and collected (part of) the pot. */
+  wsd: boolean;
+  /** Postflop bets + raises. */
+  postflop_aggr: number;
+  /** Postflop calls. */
+  postflop_calls: number;
+};
+
+export type StatKey = 'vpip' | 'pfr' | 'three_bet' | 'wtsd' | 'wsd' | 'af';
+
+export type StatLine = {
+  hands: number;
+  /** Percentages 0..100, null when there is no opportunity yet. */
+  vpip: number | null;
+  pfr: number | null;
+  three_bet: number | null;
+  wtsd: number | null;
+  wsd: number | null;
+  /** Aggression factor (bets + raises) / calls, postflop. */
+  af: number | null;
+  /** Denominators, to judge sample size. */
+  three_bet_opps: number;
+  flops_seen: number;
+  showdowns: number;
+};
+
+export type StatsReport = {
+  overall: StatLine;
+  by_position: Record<string, StatLine>;
+  by_stakes: Record<string, StatLine>;
+};
+
+/** Row shape the aggregation needs (a subset of the hands table). */
+export type StatsHandRow = {
+  hero_pos: string | null;
+  stakes: string | null;
+  stat_flags: HeroStatFlags | null;
+};
+
+export type StatDeviation = {
+  /** 'overall' or a position ("SB", "BTN", ...). */
+  scope: string;
+  stat: StatKey;
+  value: number;
+  baseline: number;
+  /** Denominator behind the value (hands, opportunities, flops seen or showdowns). */
+  sample: number;
+  direction: 'high' | 'low';
+  /** E.g. "VPIP from SB 48% vs 35% baseline (120 hands)". */
+  text: string;
+};
+
+export const POSITION_ORDER = ['UTG', 'MP', 'HJ', 'CO', 'BTN', 'SB', 'BB'];
+
+export const STAT_LABELS: Record<StatKey, string> = {
+  vpip: 'VPIP',
+  pfr: 'PFR',
+  three_bet: '3bet',
+  wtsd: 'WTSD',
+  wsd: 'W$SD',
+  af: 'AF',
+};
+
+type Baseline = Partial<Record<StatKey, number>>;
+
+/** Reference values for a solid 6-max NLH regular. Rough targets, not solver output. */
+export const BASELINE_STATS: Record<string, Baseline> = {
+  overall: { vpip: 24, pfr: 19, three_bet: 8, wtsd: 28, wsd: 51, af: 2.8 },
+  UTG: { vpip: 15, pfr: 13, three_bet: 5 },
+  MP: { vpip: 18, pfr: 15, three_bet: 6 },
+  HJ: { vpip: 20, pfr: 17, three_bet: 6 },
+  CO: { vpip: 27, pfr: 23, three_bet: 8 },
+  BTN: { vpip: 42, pfr: 35, three_bet: 10 },
+  SB: { vpip: 35, pfr: 25, three_bet: 11 },
+  BB: { vpip: 35, pfr: 10, three_bet: 10 },
+};
+
+/** Minimum denominator before a stat is compared with its baseline. */
+export const MIN_SAMPLE = 30;
+
+/** Reduce one hand to Hero's stat counters; null when the hand has no Hero. */
+export function heroStatFlags(hh: ParsedHandHistory): HeroStatFlags | null {
+  const hero = hh.hero;
+  if (!hero) return null;
+  const flags: HeroStatFlags = {
+    vpip: false,
+    pfr: false,
+    three_bet_opp: false,
+    three_bet: false,
+    saw_flop: false,
+    wtsd: false,
+    wsd: false,
+    postflop_aggr: 0,
+    postflop_calls: 0,
+  };
+
+  const folded = new Set<string>();
+  let heroFoldedPreflop = false;
+  let raises = 0;
+  let heroActed = false;
+  for (const a of hh.actions) {
+    if (a.type.startsWith('post') || a.type === 'uncalled') continue;
+    if (a.type === 'fold') {
+      folded.add(a.player);
+      if (a.player === hero && a.street === 'preflop') heroFoldedPreflop = true;
+    }
+    if (a.street === 'preflop') {
+      if (a.player === hero) {
+        if (!heroActed && a.type !== 'check') {
+          heroActed = true;
+          if (raises === 1) {
+            flags.three_bet_opp = true;
+            flags.three_bet = a.type === 'raise';
+          }
+        }
+        if (a.type === 'call' || a.type === 'raise') flags.vpip = true;
+        if (a.type === 'raise') flags.pfr = true;
+      }
+      if (a.type === 'raise') raises++;
+    } else if (a.player === hero) {
+      if (a.type === 'bet' || a.type === 'raise') flags.postflop_aggr++;
+      else if (a.type === 'call') flags.postflop_calls++;
+    }
+  }
+
+  const heroIn = !folded.has(hero);
+  const othersIn = hh.players.filter((p) => p.name !== hero && !folded.has(p.name)).length;
+  flags.saw_flop = hh.board.length >= 3 && !heroFoldedPreflop;
+  flags.wtsd = flags.saw_flop && heroIn && othersIn > 0;
+  flags.wsd = flags.wtsd && (hh.collected[hero] ?? 0) > 0;
+  return flags;
+}
+
+function pct(n: number, d: number): number | null {
+  return d > 0 ? Math.round((n / d) * 1000) / 10 : null;
+}
+
+type Totals = {
+  hands: number;
+  vpip: number;
+  pfr: number;
+  threeBetOpps: number;
+  threeBets: number;
+  flops: number;
+  showdowns: number;
+  wins: number;
+  aggr: number;
+  calls: number;
+};
+
+function emptyTotals(): Totals {
+  return { hands: 0, vpip: 0, pfr: 0, threeBetOpps: 0, threeBets: 0, flops: 0, showdowns: 0, wins: 0, aggr: 0, calls: 0 };
+}
+
+function addFlags(t: Totals, f: HeroStatFlags): void {
+  t.hands++;
+  if (f.vpip) t.vpip++;
+  if (f.pfr) t.pfr++;
+  if (f.three_bet_opp) t.threeBetOpps++;
+  if (f.three_bet) t.threeBets++;
+  if (f.saw_flop) t.flops++;
+  if (f.wtsd) t.showdowns++;
+  if (f.wsd) t.wins++;
+  t.aggr += f.postflop_aggr;
+  t.calls += f.postflop_calls;
+}
+
+function toLine(t: Totals): StatLine {
+  return {
+    hands: t.hands,
+    vpip: pct(t.vpip, t.hands),
+    pfr: pct(t.pfr, t.hands),
+    three_bet: pct(t.threeBets, t.threeBetOpps),
+    wtsd: pct(t.showdowns, t.flops),
+    wsd: pct(t.wins, t.showdowns),
+    af: t.calls > 0 ? Math.round((t.aggr / t.calls) * 10) / 10 : t.aggr > 0 ? t.aggr : null,
+    three_bet_opps: t.threeBetOpps,
+    flops_seen: t.flops,
+    showdowns: t.showdowns,
+  };
+}
+
+/** Sum per-hand flags into overall, per-position and per-stakes stat lines. Rows without flags are skipped. */
+export function aggregateStats(rows: StatsHandRow[]): StatsReport {
+  const overall = emptyTotals();
+  const byPosition = new Map<string, Totals>();
+  const byStakes = new Map<string, Totals>();
+  const bucket = (map: Map<string, Totals>, key: string) => {
+    let t = map.get(key);
+    if (!t) map.set(key, (t = emptyTotals()));
+    return t;
+  };
+
+  for (const row of rows) {
+    if (!row.stat_flags) continue;
+    addFlags(overall, row.stat_flags);
+    if (row.hero_pos) addFlags(bucket(byPosition, row.hero_pos), row.stat_flags);
+    if (row.stakes) addFlags(bucket(byStakes, row.stakes), row.stat_flags);
+  }
+
+  const positions = [...byPosition.keys()].sort(
+    (a, b) => (POSITION_ORDER.indexOf(a) + 1 || 99) - (POSITION_ORDER.indexOf(b) + 1 || 99),
+  );
+  return {
+    overall: toLine(overall),
+    by_position: Object.fromEntries(positions.map((p) => [p, toLine(byPosition.get(p)!)])),
+    by_stakes: Object.fromEntries([...byStakes.entries()].map(([s, t]) => [s, toLine(t)])),
+  };
+}
+
+function sampleFor(line: StatLine, stat: StatKey): number {
+  if (stat === 'three_bet') return line.three_bet_opps;
+  if (stat === 'wtsd' || stat === 'af') return line.flops_seen;
+  if (stat === 'wsd') return line.showdowns;
+  return line.hands;
+}
+
+function sampleUnit(stat: StatKey): string {
+  if (stat === 'three_bet') return 'opportunities';
+  if (stat === 'wtsd' || stat === 'af') return 'flops';
+  if (stat === 'wsd') return 'showdowns';
+  return 'hands';
+}
+
+/**
+ * Stats that differ from the baseline by at least 5 points and 25% (AF: 35%), with enough sample.
+ * Sorted by relative deviation, largest first.
+ */
+export function statDeviations(report: StatsReport, minSample = MIN_SAMPLE): StatDeviation[] {
+  const out: (StatDeviation & { rel: number })[] = [];
+  const scopes: [string, StatLine][] = [['overall', report.overall], ...Object.entries(report.by_position)];
+
+  for (const [scope, line] of scopes) {
+    const baseline = BASELINE_STATS[scope];
+    if (!baseline) continue;
+    for (const stat of Object.keys(baseline) as StatKey[]) {
+      const value = line[stat];
+      const base = baseline[stat]!;
+      const sample = sampleFor(line, stat);
+      if (value == null || sample < minSample) continue;
+      const diff = value - base;
+      const rel = Math.abs(diff) / base;
+      const significant = stat === 'af' ? rel >= 0.35 : Math.abs(diff) >= 5 && rel >= 0.25;
+      if (!significant) continue;
+      const fmt = (n: number) => (stat === 'af' ? n.toFixed(1) : `${Math.round(n)}%`);
+      const where = scope === 'overall' ? 'overall' : `from ${scope}`;
+      out.push({
+        scope,
+        stat,
+        value,
+        baseline: base,
+        sample,
+        direction: diff > 0 ? 'high' : 'low',
+        text: `${STAT_LABELS[stat]} ${where} ${fmt(value)} vs ${fmt(base)} baseline (${sample} ${sampleUnit(stat)})`,
+        rel,
+      });
+    }
+  }
+  return out.sort((a, b) => b.rel - a.rel).map(({ rel: _rel, ...d }) => d);
+}
@@ -0,0 +1,172 @@
+/**
+ * RevenueCat webhook events → subscription tier. Pure: revenuecat-webhook applies the result to profiles with the
+ * service role, scripts/replay_revenuecat_webhook.ts runs it over recorded payloads.
+ *
+ * Only the "pro" entitlement is handled. Decisions use the event's own timestamp, not the wall clock, so a replayed
+ * or late event gives the same result; profiles.subscription_expires_at ends access on time even if the
+ * EXPIRATION event is late (see effectiveTier in quota/limits.ts).
+ */
+
+export const PRO_ENTITLEMENT_ID = 'pro';
+
+/** The fields of RevenueCat's webhook `event` object that tier decisions use (timestamps in ms). */
+export type RevenueCatEvent = {
+  id: string;
+  type: string;
+  app_user_id?: string | null;
+  original_app_user_id?: string | null;
+  aliases?: string[] | null;
+  entitlement_ids?: string[] | null;
+  product_id?: string | null;
+  store?: string | null;
+  environment?: 'PRODUCTION' | 'SANDBOX' | string | null;
+  period_type?: string | null;
+  event_timestamp_ms?: number | null;
+  purchased_at_ms?: number | null;
+  expiration_at_ms?: number | null;
+  grace_period_expiration_at_ms?: number | null;
+  cancel_reason?: string | null;
+  expiration_reason?: string | null;
+  transferred_from?: string[] | null;
+  transferred_to?: string[] | null;
+};
+
+export type SubscriptionStatus =
+  | 'active'
+  | 'cancelled'
+  | 'billing_issue'
+  | 'grace_period'
+  | 'paused'
+  | 'expired'
+  | 'refunded'
+  | 'transferred';
+
+export type EntitlementChange = {
+  userId: string;
+  tier: 'pro' | 'free';
+  status: SubscriptionStatus;
+  /** When access ends (ISO); null = no end known (lifetime purchase, or access already revoked). */
+  expiresAt: string | null;
+};
+
+export type WebhookDecision = {
+  eventId: string;
+  type: string;
+  /** Event time (ISO); profiles ignore changes older than the last applied one. */
+  eventAt: string;
+  changes: EntitlementChange[];
+  /** Why the event changes nothing (test event, other entitlement, no Supabase user). */
+  ignored: string | null;
+};
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Events that (re)start or extend access until expiration_at_ms. */
+const GRANT_TYPES = new Set([
+  'INITIAL_PURCHASE',
+  'RENEWAL',
+  'UNCANCELLATION',
+  'NON_RENEWING_PURCHASE',
+  'PRODUCT_CHANGE',
+  'SUBSCRIPTION_EXTENDED',
+  'TEMPORARY_ENTITLEMENT_GRANT',
+  'REFUND_REVERSED',
+]);
+
+/** RevenueCat marks refunds as CANCELLATION with this reason; access ends immediately. */
+const REFUND_CANCEL_REASON = 'CUSTOMER_SUPPORT';
+
+/** `event` from a webhook body, or null when it is not a RevenueCat event. */
+export function parseRevenueCatEvent(body: unknown): RevenueCatEvent | null {
+  const event = (body as { event?: unknown } | null)?.event as RevenueCatEvent | undefined;
+  if (!event || typeof event !== 'object') return null;
+  if (typeof event.id !== 'string' || !event.id || typeof event.type !== 'string' || !event.type) return null;
+  return event;
+}
+
+function isoFromMs(ms: number | null | undefined): string | null {
+  return typeof ms === 'number' && Number.isFinite(ms) ? new Date(ms).toISOString() : null;
+}
+
+/**
+ * Supabase user ids among the event's app user ids. The app logs in to RevenueCat with the Supabase user id;
+ * purchases made before that are on an anonymous id ("$RCAnonymousID:…") and carry the real id in aliases.
+ */
+export function supabaseUserIds(ids: Array<string | null | undefined>): string[] {
+  return [...new Set(ids.filter((id): id is string => typeof id === 'string' && UUID_RE.test(id)))];
+}
+
+function eventUserId(event: RevenueCatEvent): string | null {
+  return supabaseUserIds([event.app_user_id, event.original_app_user_id, ...(event.aliases ?? [])])[0] ?? null;
+}
+
+function grantsPro(event: RevenueCatEvent): boolean {
+  return (event.entitlement_ids ?? []).includes(PRO_ENTITLEMENT_ID);
+}
+
+/** Pro while the access end is after the event (or unknown, for lifetime purchases). */
+function accessChange(
+  userId: string,
+  status: SubscriptionStatus,
+  expiresAt: string | null,
+  eventAt: string,
+): EntitlementChange {
+  const active = expiresAt == null || expiresAt > eventAt;
+  return { userId, tier: active ? 'pro' : 'free', status: active ? status : 'expired', expiresAt };
+}
+
+export function decideRevenueCatEvent(event: RevenueCatEvent): WebhookDecision {
+  const eventAt = isoFromMs(event.event_timestamp_ms) ?? isoFromMs(event.purchased_at_ms) ?? new Date(0).toISOString();
+  const base = { eventId: event.id, type: event.type, eventAt };
+  const ignore = (reason: string): WebhookDecision => ({ ...base, changes: [], ignored: reason });
+
+  if (event.type === 'TEST') return ignore('test event');
+
+  if (event.type === 'TRANSFER') {
+    // Purchases moved between app users (restore on another account): the old owners lose access
+    const from = supabaseUserIds(event.transferred_from ?? []);
+    const to = supabaseUserIds(event.transferred_to ?? []);
+    if (from.length === 0 && to.length === 0) return ignore('no Supabase user in transfer');
+    const expiresAt = isoFromMs(event.expiration_at_ms);
+    return {
+      ...base,
+      changes: [
+        ...from.map((userId): EntitlementChange => ({ userId, tier: 'free', status: 'transferred', expiresAt: null })),
+        ...to.map((userId) => accessChange(userId, 'active', expiresAt, eventAt)),
+      ],
+      ignored: null,
+    };
+  }
+
+  if (!grantsPro(event)) return ignore(`entitlement is not "${PRO_ENTITLEMENT_ID}"`);
+  const userId = eventUserId(event);
+  if (!userId) return ignore('no Supabase user id in app_user_id or aliases');
+
+  const expiresAt = isoFromMs(event.expiration_at_ms);
+  const change = (c: EntitlementChange): WebhookDecision => ({ ...base, changes: [c], ignored: null });
+
+  if (GRANT_TYPES.has(event.type)) return change(accessChange(userId, 'active', expiresAt, eventAt));
+
+  switch (event.type) {
+    case 'CANCELLATION':
+      if (event.cancel_reason === REFUND_CANCEL_REASON) {
+        return change({ userId, tier: 'free', status: 'refunded', expiresAt: null });
+      }
+      // Auto-renew turned off: access lasts until the paid period ends
+      return change(accessChange(userId, 'cancelled', expiresAt, eventAt));
+    case 'BILLING_ISSUE': {
+      // With a store grace period access continues until it ends; without one, until expiration
+      const graceEndsAt = isoFromMs(event.grace_period_expiration_at_ms);
+      return graceEndsAt
+        ? change(accessChange(userId, 'grace_period', graceEndsAt, eventAt))
+        : change(accessChange(userId, 'billing_issue', expiresAt, eventAt));
+    }
+    case 'SUBSCRIPTION_PAUSED':
+      // Play Store pause takes effect at the end of the period; EXPIRATION follows then
+      return change(accessChange(userId, 'paused', expiresAt, eventAt));
+    case 'EXPIRATION':
+      return change({ userId, tier: 'free', status: 'expired', expiresAt });
+    default:
+      return ignore(`unhandled event type ${event.type}`);
+  }
+}
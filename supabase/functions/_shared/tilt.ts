@@ -0,0 +1,215 @@
+/**
+ * Rule-based tilt detection from bankroll sessions and drill answers. Each rule yields a signal with a severity
+ * (1–3); the sum sets the mental level the coach and the daily check-in react to (cooldown routine or a break).
+ *
+ * Rules:
+ * - loss_then_accuracy_drop: drill accuracy in the day after a losing session is well below the player's baseline
+ *   from the two weeks before it;
+ * - losing_streak: the latest sessions are consecutive losses;
+ * - late_night: recent sessions that ran into the night (player's local time; needs started_at).
+ *
+ * Pure TypeScript — no Deno APIs; `now` and the time zone are inputs, so results are reproducible.
+ */
+
+export type TiltSession = {
+  /** Session date (date-only entries are stored at noon). */
+  date: string;
+  /** Actual start time when known; late-night detection needs it. */
+  started_at?: string | null;
+  profit: number;
+  buy_in: number;
+  duration_minutes?: number | null;
+};
+
+export type TiltAnswer = { created_at: string; is_correct: boolean };
+
+export type TiltSignalCode = 'loss_then_accuracy_drop' | 'losing_streak' | 'late_night';
+
+export type TiltSignal = {
+  code: TiltSignalCode;
+  severity: 1 | 2 | 3;
+  /** Player-facing, Russian. */
+  message: string;
+  /** Numbers behind the signal, for logs and the coach prompt. */
+  data: Record<string, number>;
+};
+
+export type MentalLevel = 'ok' | 'caution' | 'tilt';
+export type MentalRecommendation = 'none' | 'cooldown' | 'break';
+
+export type MentalState = {
+  level: MentalLevel;
+  /** Sum of signal severities. */
+  score: number;
+  recommendation: MentalRecommendation;
+  signals: TiltSignal[];
+};
+
+export type TiltInput = {
+  sessions: TiltSession[];
+  answers: TiltAnswer[];
+  now: Date;
+  /** Minutes to add to local time to get UTC, as Date#getTimezoneOffset (UTC+3 → -180). */
+  tzOffsetMinutes?: number;
+};
+
+/** How far back session-based rules look. */
+export const TILT_LOOKBACK_DAYS = 7;
+/** Drill answers after a losing session: window and minimum count. */
+export const POST_LOSS_WINDOW_HOURS = 24;
+export const POST_LOSS_MIN_ANSWERS = 6;
+/** Baseline accuracy: window before the session and minimum count. */
+export const BASELINE_DAYS = 14;
+export const BASELINE_MIN_ANSWERS = 15;
+/** Accuracy drop (share, 0…1) for severity 2 / 3. */
+export const ACCURACY_DROP = 0.15;
+export const ACCURACY_DROP_SEVERE = 0.3;
+/** Consecutive losses for severity 1 / 2 / 3. */
+export const LOSING_STREAK_STEPS = [3, 5, 7];
+/** Local hours counted as late night: [start, end). */
+export const LATE_NIGHT_HOURS: [number, number] = [1, 6];
+/** Score from which the level is tilt (a severity-3 signal alone is enough too). */
+export const TILT_SCORE = 4;
+
+/** Short cooldown routine the coach and the check-in can suggest. */
+export const COOLDOWN_ROUTINE = [
+  'Закрой столы и сделай перерыв 15–20 минут без телефона',
+  '5 минут медленного дыхания: вдох на 4 счёта, выдох на 6',
+  'Запиши одну раздачу, которая выбила из колеи, и что в ней было под контролем',
+  'Возвращайся только с планом: лимит, стоп-лосс и время окончания',
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function sessionStart(s: TiltSession): number {
+  return new Date(s.started_at ?? s.date).getTime();
+}
+
+function sessionEnd(s: TiltSession): number {
+  return sessionStart(s) + Math.max(0, s.duration_minutes ?? 0) * 60 * 1000;
+}
+
+function accuracy(answers: TiltAnswer[]): number {
+  return answers.filter((a) => a.is_correct).length / answers.length;
+}
+
+function pct(x: number): string {
+  return `${Math.round(x * 100)}%`;
+}
+
+function lossThenAccuracyDrop(sessions: TiltSession[], answers: TiltAnswer[], now: number): TiltSignal | null {
+  const since = now - TILT_LOOKBACK_DAYS * DAY_MS;
+  const losses = sessions.filter((s) => s.profit < 0 && sessionStart(s) >= since).sort((a, b) => sessionEnd(b) - sessionEnd(a));
+  for (const s of losses) {
+    const start = sessionStart(s);
+    const end = sessionEnd(s);
+    const after = answers.filter((a) => {
+      const t = new Date(a.created_at).getTime();
+      return t >= end && t < end + POST_LOSS_WINDOW_HOURS * HOUR_MS;
+    });
+    const before = answers.filter((a) => {
+      const t = new Date(a.created_at).getTime();
+      return t < start && t >= start - BASELINE_DAYS * DAY_MS;
+    });
+    if (after.length < POST_LOSS_MIN_ANSWERS || before.length < BASELINE_MIN_ANSWERS) continue;
+    const baseline = accuracy(before);
+    const post = accuracy(after);
+    const drop = baseline - post;
+    if (drop < ACCURACY_DROP) continue;
+    return {
+      code: 'loss_then_accuracy_drop',
+      severity: drop >= ACCURACY_DROP_SEVERE ? 3 : 2,
+      message: `После минусовой сессии точность в тренировках упала до ${pct(post)} (обычно ${pct(baseline)}).`,
+      data: {
+        loss: Math.round(-s.profit * 100) / 100,
+        baseline_accuracy: Math.round(baseline * 1000) / 1000,
+        post_accuracy: Math.round(post * 1000) / 1000,
+        answers_after: after.length,
+      },
+    };
+  }
+  return null;
+}
+
+function losingStreak(sessions: TiltSession[], now: number): TiltSignal | null {
+  const ordered = [...sessions].sort((a, b) => sessionStart(b) - sessionStart(a));
+  if (ordered.length === 0 || sessionStart(ordered[0]) < now - TILT_LOOKBACK_DAYS * DAY_MS) return null;
+  let streak = 0;
+  let lost = 0;
+  let buyIns = 0;
+  for (const s of ordered) {
+    if (s.profit >= 0) break;
+    streak += 1;
+    lost += -s.profit;
+    buyIns += s.buy_in;
+  }
+  const severity = LOSING_STREAK_STEPS.filter((n) => streak >= n).length as 0 | 1 | 2 | 3;
+  if (severity === 0) return null;
+  return {
+    code: 'losing_streak',
+    severity,
+    message: `Минусовых сессий подряд: ${streak}${buyIns > 0 ? ` — минус ${Math.round((lost / buyIns) * 100)}% от вложенных бай-инов` : ''}.`,
+    data: { streak, lost: Math.round(lost * 100) / 100 },
+  };
+}
+
+function isLateNight(s: TiltSession, tzOffsetMinutes: number): boolean {
+  if (!s.started_at) return false;
+  const [from, to] = LATE_NIGHT_HOURS;
+  const start = sessionStart(s);
+  const end = Math.max(start, sessionEnd(s));
+  // Walk the session in 15-minute steps on the player's local clock
+  for (let t = start; t <= end; t += 15 * 60 * 1000) {
+    const localHour = new Date(t - tzOffsetMinutes * 60 * 1000).getUTCHours();
+    if (localHour >= from && localHour < to) return true;
+  }
+  return false;
+}
+
+function lateNight(sessions: TiltSession[], now: number, tzOffsetMinutes: number): TiltSignal | null {
+  const since = now - TILT_LOOKBACK_DAYS * DAY_MS;
+  const late = sessions.filter((s) => sessionStart(s) >= since && isLateNight(s, tzOffsetMinutes));
+  if (late.length === 0) return null;
+  const losing = late.filter((s) => s.profit < 0).length;
+  return {
+    code: 'late_night',
+    severity: late.length >= 3 ? 2 : 1,
+    message: `Сессий глубокой ночью (${LATE_NIGHT_HOURS[0]}:00–${LATE_NIGHT_HOURS[1]}:00) за неделю: ${late.length}${losing > 0 ? `, из них минусовых: ${losing}` : ''}.`,
+    data: { sessions: late.length, losing },
+  };
+}
+
+/** Run all rules and combine the signals into a mental state. */
+export function detectTilt(input: TiltInput): MentalState {
+  const now = input.now.getTime();
+  const tz = input.tzOffsetMinutes ?? 0;
+  const signals = [
+    lossThenAccuracyDrop(input.sessions, input.answers, now),
+    losingStreak(input.sessions, now),
+    lateNight(input.sessions, now, tz),
+  ].filter((s): s is TiltSignal => s != null);
+
+  const score = signals.reduce((acc, s) => acc + s.severity, 0);
+  const level: MentalLevel =
+    score >= TILT_SCORE || signals.some((s) => s.severity === 3) ? 'tilt' : score > 0 ? 'caution' : 'ok';
+  return {
+    level,
+    score,
+    recommendation: level === 'tilt' ? 'break' : level === 'caution' ? 'cooldown' : 'none',
+    signals,
+  };
+}
+
+/** Block for coach prompts (Russian); empty when there is nothing to react to. */
+export function mentalPromptBlock(state: MentalState): string {
+  if (state.level === 'ok') return '';
+  const lines = [
+    `Ментальное состояние игрока по данным (правила, не догадки): ${state.level === 'tilt' ? 'ТИЛЬТ' : 'есть признаки тильта'}.`,
+    ...state.signals.map((s) => `- ${s.message}`),
+    state.recommendation === 'break'
+      ? 'Рекомендация: перерыв — сегодня не играть на деньги, только разбор и лёгкая тренировка.'
+      : `Рекомендация: кулдаун перед следующей сессией — ${COOLDOWN_ROUTINE.join('; ')}.`,
+  ];
+  return lines.join('\n');
+}
@@ -0,0 +1,104 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { corsHeaders } from '../_shared/cors.ts';
+import { requireUserClient, AuthError } from '../_shared/userAuth.ts';
+import { normalizePlayerId } from '../_shared/affiliate.ts';
+
+/**
+ * Saves the Pokerok player id a user enters in the profile and puts the affiliate account in "pending" until a
+ * partner report confirms activity (scripts/import_affiliate_report.ts). affiliate_accounts is read-only for users,
+ * so the account row is written with the service role.
+ */
+
+function json(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+const ACCOUNT_COLUMNS = 'pokerok_id, status, access_expires_at, window_rake_usd, window_hands, last_activity_at, checked_at';
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { userId, supabaseUser } = await requireUserClient(req);
+
+    const body = await req.json().catch(() => ({}));
+    const pokerokId = normalizePlayerId(body?.pokerok_id);
+    if (!pokerokId) {
+      return json({ error: 'invalid_pokerok_id', detail: 'ID игрока Покерок: 3–32 символа, буквы, цифры, _ или -' }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !serviceRoleKey) {
+      console.error('affiliate-link: missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+      return json({ error: 'Server misconfiguration' }, 500);
+    }
+    const supabaseService = createClient(supabaseUrl, serviceRoleKey);
+
+    // A verified player id cannot be claimed by a second account
+    const { data: owner, error: ownerError } = await supabaseService
+      .from('affiliate_accounts')
+      .select('user_id')
+      .eq('pokerok_id', pokerokId)
+      .eq('status', 'verified')
+      .neq('user_id', userId)
+      .limit(1)
+      .maybeSingle();
+    if (ownerError) throw new Error(`Failed to check pokerok_id: ${ownerError.message}`);
+    if (owner) {
+      return json({ error: 'pokerok_id_taken', detail: 'Этот ID уже подтверждён для другого аккаунта' }, 409);
+    }
+
+    const { data: existing, error: existingError } = await supabaseService
+      .from('affiliate_accounts')
+      .select(ACCOUNT_COLUMNS)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (existingError) throw new Error(`Failed to load affiliate account: ${existingError.message}`);
+
+    const { error: profileError } = await supabaseUser
+      .from('profiles')
+      .update({ pokerok_id: pokerokId })
+      .eq('id', userId);
+    if (profileError) throw new Error(`Failed to save pokerok_id: ${profileError.message}`);
+
+    if (existing?.pokerok_id === pokerokId) {
+      return json({ ok: true, account: existing });
+    }
+
+    // A new id waits for the next report; an already verified account keeps access until that import re-checks it
+    const { data: account, error: upsertError } = await supabaseService
+      .from('affiliate_accounts')
+      .upsert(
+        {
+          user_id: userId,
+          pokerok_id: pokerokId,
+          status: existing?.status === 'verified' ? 'verified' : 'pending',
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id' },
+      )
+      .select(ACCOUNT_COLUMNS)
+      .single();
+    if (upsertError) throw new Error(`Failed to save affiliate account: ${upsertError.message}`);
+
+    return json({ ok: true, account });
+  } catch (e) {
+    if (e instanceof AuthError) {
+      return json(e.body, e.status);
+    }
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error('affiliate-link', msg);
+    return json({ error: 'internal', detail: msg }, 500);
+  }
+});
@@ -1,8 +1,20 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { corsHeaders } from '../_shared/cors.ts';
-import { enforceAllowedLeakTag } from '../_shared/leaks.ts';
+import { ALLOWED_LEAK_TAGS, enforceAllowedLeakTag } from '../_shared/leaks.ts';
 import { requireUserClient, AuthError } from '../_shared/userAuth.ts';
-import { generateEmbedding } from '../_shared/openai.ts';
+import { createLlm, llmErrorDetail, type LlmChatResult } from '../_shared/llm/index.ts';
+import { checkQuota, limitReachedBody, recordUsage } from '../_shared/quota/index.ts';
+import { parseCardsFromString } from '../_shared/poker.ts';
+import { formatRange, parseRange, rangeComboCount } from '../_shared/ranges.ts';
+import {
+  DECISION_STREET_LABEL,
+  HAND_DECISIONS_SCHEMA,
+  decisionMistakeTags,
+  normalizeDecisions,
+  worstDecisionIndex,
+  type HandDecision,
+} from '../_shared/handDecisions.ts';
+import { MAX_ANALYSIS_REVISIONS, isRevisionModel } from '../_shared/analysisRevisions.ts';
 
 type CoachStyle = 'TOXIC' | 'MENTAL' | 'MATH';
 
@@ -36,9 +48,11 @@ type QuickFormInput = {
   streets?: StreetsInput | null;
   board_structured?: BoardStructuredInput | null;
   board?: string | null;
-  source?: 'manual' | 'ocr_extract' | null;
+  source?: 'manual' | 'ocr_extract' | 'hh_import' | null;
   game?: string | null;
   stakes?: string | null;
+  /** Villain range in standard notation, e.g. "22+, A2s+, KTo+" */
+  villain_range?: string | null;
   // legacy flat fields may be present for backward compat
   hero_cards?: string | null;
   position?: string | null;
@@ -52,16 +66,27 @@ type HandInput = HandInputLegacy & {
   effective_stack_bb?: number | null;
   streets?: StreetsInput | null;
   board_structured?: BoardStructuredInput | null;
-  source?: 'manual' | 'ocr_extract' | null;
+  source?: 'manual' | 'ocr_extract' | 'hh_import' | null;
   game?: string | null;
   stakes?: string | null;
+  villain_range?: string | null;
 };
 
 type HandAnalysisRequest = {
-  input: HandInput;
+  /** Ignored for re-runs: the revision reuses the original hand's input. */
+  input?: HandInput;
   coach_style: CoachStyle;
+  /** Re-run of an existing analysis (any revision of the hand); the result is saved as a new revision. */
+  revision_of?: string;
+  /** Model for a re-run, one of ANALYSIS_REVISION_MODELS; default is the function's configured model. */
+  model?: string;
 };
 
+type RevisionTarget = { rootId: string; revision: number; input: HandInput };
+
+/** Inserts retried after a revision number conflict with a concurrent re-run of the same hand. */
+const REVISION_INSERT_RETRIES = 3;
+
 type InputMode = 'quick_form' | 'text' | 'legacy';
 type ResolvedPrompt = { text: string; mode: InputMode; source?: string };
 
@@ -80,6 +105,8 @@ type HandAnalysisResult = {
     title: string;
     steps: string[];
   };
+  /** Verdict per Hero decision point, in street order (_shared/handDecisions.ts). */
+  decisions: HandDecision[];
 };
 
 type RetrievedMemory = {
@@ -124,8 +151,28 @@ function getBoardFromInput(input: HandInput): { flop: string; turn: string; rive
   return null;
 }
 
+/** Structured villain range line (canonical notation + live combos after card removal), or null if absent/invalid. */
+function describeVillainRange(input: HandInput): string | null {
+  const raw = input.villain_range?.trim();
+  if (!raw) return null;
+  try {
+    const range = parseRange(raw.slice(0, 500));
+    const notation = formatRange(range);
+    if (!notation) return null;
+    const board = getBoardFromInput(input);
+    const dead = [
+      ...parseCardsFromString(input.hero_cards ?? ''),
+      ...parseCardsFromString(board ? `${board.flop}${board.turn}${board.river}` : ''),
+    ];
+    const combos = rangeComboCount(range, dead);
+    return `Villain range: ${notation} (${Number(combos.toFixed(1))} combos after card removal)`;
+  } catch {
+    return null;
+  }
+}
+
 function buildCanonicalTextFromStructured(input: HandInput & { mode: 'quick_form' }): string {
-  const source = input.source === 'ocr_extract' ? 'ocr_extract' : 'manual';
+  const source = input.source === 'ocr_extract' || input.source === 'hh_import' ? input.source : 'manual';
   const game = input.game?.trim() || 'UNKNOWN';
   const stakes = input.stakes?.trim() || 'null';
   const heroPos = input.hero_pos?.trim() || 'UNKNOWN';
@@ -151,6 +198,8 @@ function buildCanonicalTextFromStructured(input: HandInput & { mode: 'quick_form
     `River: ${river || 'null'}`,
     boardLine,
   ];
+  const villainRangeLine = describeVillainRange(input);
+  if (villainRangeLine) lines.push(villainRangeLine);
   return lines.join('\n');
 }
 
@@ -249,6 +298,45 @@ async function getLatestLeakSummary(supabase: any, userId: string): Promise<TopL
   }
 }
 
+/**
+ * Root analysis and next revision number for a re-run, or an error response body. The original must be the user's
+ * own, not deleted analysis (RLS already scopes supabaseUser to the user).
+ */
+async function resolveRevisionTarget(
+  supabase: any,
+  analysisId: string,
+): Promise<RevisionTarget | { error: string; status: number }> {
+  const { data: original, error } = await supabase
+    .from('hand_analyses')
+    .select('id, parent_id, input')
+    .eq('id', analysisId)
+    .eq('is_deleted', false)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load analysis: ${error.message}`);
+  if (!original) return { error: 'analysis_not_found', status: 404 };
+
+  const rootId: string = original.parent_id ?? original.id;
+  const revision = await nextRevision(supabase, rootId);
+  if (revision == null) return { error: 'revision_limit', status: 409 };
+  return { rootId, revision, input: original.input as HandInput };
+}
+
+/**
+ * Next free revision number of a hand, or null when it already has MAX_ANALYSIS_REVISIONS (root included).
+ * Deleted revisions keep their numbers: (parent_id, revision) is unique (migration 044).
+ */
+async function nextRevision(supabase: any, rootId: string): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('hand_analyses')
+    .select('revision')
+    .eq('parent_id', rootId);
+  if (error) throw new Error(`Failed to load revisions: ${error.message}`);
+
+  const revisions = ((data ?? []) as Array<{ revision: number }>).map((r) => r.revision);
+  if (revisions.length + 2 > MAX_ANALYSIS_REVISIONS) return null;
+  return Math.max(1, ...revisions) + 1;
+}
+
 // Create a summary of the hand analysis for storage (supports quick_form and legacy input)
 function createHandSummary(input: HandInput, result: HandAnalysisResult): string {
   const parts: string[] = [];
@@ -259,6 +347,13 @@ function createHandSummary(input: HandInput, result: HandAnalysisResult): string
   if (stack != null) parts.push(`Стек: ${stack}BB`);
 
   parts.push(`Решение: ${result.action}${result.sizing ? ' (' + result.sizing + ')' : ''}`);
+  const worst = worstDecisionIndex(result.decisions);
+  if (worst >= 0) {
+    const d = result.decisions[worst];
+    parts.push(
+      `Ошибка: ${DECISION_STREET_LABEL[d.street]} — ${d.hero_action} вместо ${d.recommended_action} (−${d.ev_loss_bb} BB)`,
+    );
+  }
   if (result.leak_link?.tag) {
     parts.push(`Тип ошибки: ${result.leak_link.tag}`);
   }
@@ -461,11 +556,18 @@ function buildSystemPrompt(
 
 Правила:
 - Проанализируй ситуацию и дай конкретное действие (RAISE/CALL/FOLD/CHECK/BET) с сайзингом, если применимо.
+- decisions — КАЖДОЕ решение Hero в раздаче по порядку (улица, что сделал Hero, что было правильно):
+  verdict "correct" — решение верное (ev_loss_bb = 0, leak_tag = null); "marginal" — близкое решение;
+  "mistake" — ошибка с оценкой потери EV в BB (ev_loss_bb > 0) и тегом протечки leak_tag из списка:
+  ${[...ALLOWED_LEAK_TAGS].join(', ')}.
+  Не выдумывай решения, которых нет в раздаче; если действия Hero на улице неизвестны — пропусти улицу.
+- leak_link.tag — тег самой дорогой ошибки из decisions (или главной темы раздачи, если ошибок нет).
 - Объяснение (why) — по пунктам (3-5 пунктов), без воды, конкретно.
 - Дай стратегию на следующие улицы (strategy_next) — 2-4 пункта.
 - Подсвети типичные ошибки в этом споте (common_mistakes) — 2-4 пункта.
 - Дай одно короткое упражнение (drill) с заголовком и шагами для закрепления навыка.
 - Не выдумывай фактов; если данных мало — обозначь предположение.
+- Если в раздаче есть строка "Villain range" — это заданный диапазон оппонента: опирайся на него (комбо, блокеры), а не на свой предполагаемый.
 - В leak_link.evidence_ids указывай ТОЛЬКО реальные ID из контекста выше, если ситуация действительно похожа.
 - Если нет явного совпадения с прошлыми случаями — evidence_ids = [].
 
@@ -503,48 +605,41 @@ serve(async (req) => {
     // Authenticate user and get user-scoped client
     const { userId, supabaseUser } = await requireUserClient(req);
 
-    // Freemium limit: free users max 3 hand analyses per day (UTC)
-    const { data: profile } = await supabaseUser
-      .from('profiles')
-      .select('subscription_tier')
-      .eq('id', userId)
-      .maybeSingle();
-    const tier = (profile as { subscription_tier?: string | null } | null)?.subscription_tier ?? null;
-    if (tier === 'free' || tier === null) {
-      const d = new Date();
-      const startOfDayUTC = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
-      const startOfDayISO = startOfDayUTC.toISOString();
-      const { count, error: countError } = await supabaseUser
-        .from('hand_analyses')
-        .select('id', { count: 'exact', head: true })
-        .eq('user_id', userId)
-        .gte('created_at', startOfDayISO);
-      if (!countError && (count ?? 0) >= 3) {
-        return json(
-          { error: 'limit_reached', detail: 'Достигнут лимит разборов на сегодня. Перейдите на PRO.' },
-          403
-        );
-      }
+    // Daily quota per subscription tier (_shared/quota)
+    const quota = await checkQuota(supabaseUser, userId, 'hand_analysis');
+    if (!quota.allowed) {
+      return json(limitReachedBody(quota), 403);
     }
 
     // Parse request body
     const body = (await req.json()) as HandAnalysisRequest;
-    if (!body.input || !body.coach_style) {
+    if ((!body.input && !body.revision_of) || !body.coach_style) {
       return json({ error: 'Missing required fields: input, coach_style' }, 400);
     }
+    if (body.model != null && !isRevisionModel(body.model)) {
+      return json({ error: 'invalid_model' }, 400);
+    }
 
-    // Get OpenAI API key
-    const openAiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openAiKey) {
-      return json({ error: 'Missing OPENAI_API_KEY secret' }, 500);
+    // Re-run: same hand input, saved as the next revision of the first analysis
+    let revisionTarget: RevisionTarget | null = null;
+    if (body.revision_of) {
+      const target = await resolveRevisionTarget(supabaseUser, body.revision_of);
+      if ('error' in target) {
+        return json({ error: target.error, max_revisions: MAX_ANALYSIS_REVISIONS }, target.status);
+      }
+      revisionTarget = target;
     }
+    const handInput: HandInput = revisionTarget?.input ?? body.input!;
 
-    const model = Deno.env.get('OPENAI_MODEL') ?? 'gpt-4o-mini';
+    const llm = createLlm('ai-analyze-hand');
+    if (!llm) {
+      return json({ error: 'Missing OPENAI_API_KEY secret' }, 500);
+    }
 
     // Resolve prompt text: quick_form (canonical) / text (raw_text) / legacy (flat fields)
     let resolved: ResolvedPrompt;
     try {
-      resolved = getTextForLLM(body.input);
+      resolved = getTextForLLM(handInput);
     } catch (e: unknown) {
       const err = e as { code?: string };
       if (err?.code === 'preflop_required') {
@@ -557,6 +652,7 @@ serve(async (req) => {
       mode: resolved.mode,
       source: resolved.source ?? null,
       textLength: userPrompt.length,
+      revision_of: revisionTarget?.rootId ?? null,
     });
 
     // Generate embedding for the query (same text as sent to LLM)
@@ -564,7 +660,7 @@ serve(async (req) => {
     let retrievedMemories: RetrievedMemory[] = [];
 
     try {
-      queryEmbedding = await generateEmbedding(userPrompt, openAiKey);
+      queryEmbedding = await llm.embed(userPrompt);
       
       // Retrieve similar past memories
       retrievedMemories = await retrieveMemories(supabaseUser, userId, queryEmbedding, 5);
@@ -641,6 +737,7 @@ serve(async (req) => {
           },
           required: ['title', 'steps'],
         },
+        decisions: HAND_DECISIONS_SCHEMA,
       },
       required: [
         'action',
@@ -651,42 +748,27 @@ serve(async (req) => {
         'common_mistakes',
         'leak_link',
         'drill',
+        'decisions',
       ],
     };
 
-    // Call OpenAI Chat Completions API
-    const openaiRes = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${openAiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model,
+    let completion: LlmChatResult;
+    try {
+      completion = await llm.chat({
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt },
         ],
-        response_format: {
-          type: 'json_schema',
-          json_schema: {
-            name: 'hand_analysis_result',
-            schema,
-            strict: true,
-          },
-        },
+        jsonSchema: { name: 'hand_analysis_result', schema },
+        model: body.model,
         temperature: 0.2,
         user: userId,
-      }),
-    });
-
-    if (!openaiRes.ok) {
-      const errText = await openaiRes.text();
-      return json({ error: 'OpenAI request failed', detail: errText }, 502);
+      });
+    } catch (e) {
+      return json({ error: 'OpenAI request failed', detail: llmErrorDetail(e) }, 502);
     }
 
-    const payload = await openaiRes.json();
-    const text = payload.choices?.[0]?.message?.content;
+    const text = completion.text;
 
     if (!text) {
       return json({ error: 'OpenAI returned empty response' }, 502);
@@ -719,49 +801,77 @@ serve(async (req) => {
     // Enforce allowed leak tags whitelist
     result.leak_link.tag = enforceAllowedLeakTag(result.leak_link.tag) ?? '';
 
-    // Save to database
-    const { data: insertData, error: insertError } = await supabaseUser
-      .from('hand_analyses')
-      .insert({
-        user_id: userId,
-        input: body.input,
-        result: result,
-        mistake_tags: [],
-      })
-      .select('id')
-      .single();
+    // Decision-level verdicts: mistake_tags come from the actual mistakes, not the hand-level tag
+    result.decisions = normalizeDecisions(result.decisions);
+    const mistakeTags = decisionMistakeTags(result.decisions);
+    if (!result.leak_link.tag && mistakeTags.length > 0) {
+      result.leak_link.tag = mistakeTags[0];
+    }
 
-    if (insertError) {
-      return json({ error: 'Failed to save analysis', detail: insertError.message }, 500);
+    // Save to database; a concurrent re-run of the same hand may take the revision number first, then take the next one
+    let insertData: { id: string } | null = null;
+    let insertError: { code?: string; message: string } | null = null;
+    for (let attempt = 0; ; attempt++) {
+      ({ data: insertData, error: insertError } = await supabaseUser
+        .from('hand_analyses')
+        .insert({
+          user_id: userId,
+          input: handInput,
+          result: result,
+          mistake_tags: mistakeTags,
+          parent_id: revisionTarget?.rootId ?? null,
+          revision: revisionTarget?.revision ?? 1,
+          coach_style: body.coach_style,
+          model: completion.model,
+        })
+        .select('id')
+        .single());
+      if (insertError?.code !== '23505' || !revisionTarget || attempt >= REVISION_INSERT_RETRIES) break;
+
+      const revision = await nextRevision(supabaseUser, revisionTarget.rootId);
+      if (revision == null) {
+        return json({ error: 'revision_limit', max_revisions: MAX_ANALYSIS_REVISIONS }, 409);
+      }
+      revisionTarget = { ...revisionTarget, revision };
+    }
+
+    if (insertError || !insertData) {
+      return json({ error: 'Failed to save analysis', detail: insertError?.message }, 500);
     }
 
     const analysisId = insertData.id;
 
-    // Create and save memory summary
-    try {
-      const summary = createHandSummary(body.input, result);
-      const summaryEmbedding = await generateEmbedding(summary, openAiKey);
-      const embeddingString = `[${summaryEmbedding.join(',')}]`;
-
-      await supabaseUser.from('coach_memory').insert({
-        user_id: userId,
-        type: 'hand_case',
-        content: summary,
-        metadata: {
-          analysis_id: analysisId,
-          mistake_tag: enforceAllowedLeakTag(result.leak_link?.tag),
-        },
-        embedding: embeddingString,
-      });
-    } catch (memoryError) {
-      // Log but don't fail the request if memory save fails
-      console.error('Failed to save memory:', memoryError);
+    // Create and save memory summary (once per hand: a re-run would duplicate the case)
+    if (!revisionTarget) {
+      try {
+        const summary = createHandSummary(handInput, result);
+        const summaryEmbedding = await llm.embed(summary);
+        const embeddingString = `[${summaryEmbedding.join(',')}]`;
+
+        await supabaseUser.from('coach_memory').insert({
+          user_id: userId,
+          type: 'hand_case',
+          content: summary,
+          metadata: {
+            analysis_id: analysisId,
+            mistake_tag: enforceAllowedLeakTag(result.leak_link?.tag),
+          },
+          embedding: embeddingString,
+        });
+      } catch (memoryError) {
+        // Log but don't fail the request if memory save fails
+        console.error('Failed to save memory:', memoryError);
+      }
     }
 
+    await recordUsage(supabaseUser, userId, 'hand_analysis', 'ai-analyze-hand', llm);
+
     // Return response
     return json({
       analysis_id: analysisId,
       result: result,
+      parent_id: revisionTarget?.rootId ?? null,
+      revision: revisionTarget?.revision ?? 1,
     });
   } catch (e) {
     // Handle authentication errors
@@ -3,6 +3,8 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
 import { corsHeaders } from '../_shared/cors.ts';
 import { enforceAllowedLeakTag } from '../_shared/leaks.ts';
 import { requireUserClient, AuthError } from '../_shared/userAuth.ts';
+import { PREFLOP_RANGE_LEAK_TAGS } from '../_shared/preflopCharts.ts';
+import { PUSH_FOLD_LEAK_TAGS } from '../_shared/icm.ts';
 
 const TARGET_COUNT = 10;
 const FOCUS_SHARE = 0.7; // 70% for weekly focus
@@ -16,6 +18,8 @@ const FALLBACK_LEAKS = [
   'river_betting_strategy',
   'defense_vs_cbet',
 ];
+/** Tournament players (profiles.game_types) also get push/fold spots in the fallback seed. */
+const TOURNAMENT_GAME_TYPES = ['mtt', 'sng', 'spin'];
 const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000;
 const MIX_THRESHOLD = 0.1; // 10% difference to switch to sizingHeavy/actionHeavy
 const MIN_ATTEMPTS_FOR_MIX = 10;
@@ -149,6 +153,7 @@ async function getFocusMix(
   let sizingMistakes = 0;
 
   for (const row of events as TrainingEventRow[]) {
+    if (row.drill_type === 'preflop_range' || row.drill_type === 'push_fold') continue; // not part of the action/sizing mix
     const isAction = row.drill_type !== 'raise_sizing'; // null or action_decision -> action
     if (isAction) {
       attemptsAction += 1;
@@ -351,7 +356,15 @@ serve(async (req) => {
 
   if (!skillRows || skillRows.length === 0) {
     used_fallback_seed = true;
-    leakTags = FALLBACK_LEAKS;
+    const { data: profileRow } = await supabaseService
+      .from('profiles')
+      .select('game_types')
+      .eq('id', userId)
+      .maybeSingle();
+    const gameTypes: string[] = Array.isArray(profileRow?.game_types) ? profileRow.game_types : [];
+    leakTags = gameTypes.some((g) => TOURNAMENT_GAME_TYPES.includes(g))
+      ? [...FALLBACK_LEAKS, ...PUSH_FOLD_LEAK_TAGS]
+      : FALLBACK_LEAKS;
   } else {
     used_fallback_seed = false;
     leakTags = [];
@@ -360,12 +373,17 @@ serve(async (req) => {
   }
 
   const dueAt = new Date().toISOString();
+  // Preflop leaks are trained on range charts and push/fold leaks on ICM spots; the action/sizing mix applies to postflop leaks only.
   const rows = Array.from({ length: TARGET_COUNT }, (_, i) => ({
     user_id: userId,
     status: 'due',
     due_at: dueAt,
     leak_tag: leakTags[i % leakTags.length],
-    drill_type: (drillTypes[i] ?? 'action_decision') as 'action_decision' | 'raise_sizing',
+    drill_type: (PREFLOP_RANGE_LEAK_TAGS.includes(leakTags[i % leakTags.length])
+      ? 'preflop_range'
+      : PUSH_FOLD_LEAK_TAGS.includes(leakTags[i % leakTags.length])
+        ? 'push_fold'
+        : drillTypes[i] ?? 'action_decision') as 'action_decision' | 'raise_sizing' | 'preflop_range' | 'push_fold',
     repetition: 0,
     last_score: null as number | null,
     last_drill_id: null as null,
@@ -1,8 +1,11 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { corsHeaders } from '../_shared/cors.ts';
 import { requireUserClient, AuthError } from '../_shared/userAuth.ts';
+import { createLlm, llmErrorDetail, type LlmChatResult, type LlmMessage } from '../_shared/llm/index.ts';
+import { checkQuota, limitReachedBody, recordUsage } from '../_shared/quota/index.ts';
 import { enforceAllowedLeakTag } from '../_shared/leaks.ts';
-import { generateEmbedding } from '../_shared/openai.ts';
+import { mentalPromptBlock, type MentalState } from '../_shared/tilt.ts';
+import { evaluateMentalState, parseTzOffset, recordMentalSignal } from '../_shared/mentalSignal.ts';
 
 type CoachChatBody = {
   thread_id: string | null;
@@ -11,6 +14,8 @@ type CoachChatBody = {
   stream?: boolean;
   mode?: 'user' | 'continue';
   continue_context?: { partial_assistant_text: string };
+  /** Device Date#getTimezoneOffset, for late-night session detection. */
+  tz_offset_minutes?: number;
 };
 
 type ChatMessageRow = {
@@ -118,7 +123,8 @@ function buildSystemPrompt(
   memoryLines: { text: string; evidenceIds?: string[] }[],
   conversationBlock: string,
   leakTag: string | null,
-  leakStats: LeakStats | null
+  leakStats: LeakStats | null,
+  mental: MentalState | null = null
 ): string {
   const style = (coachStyle || 'mental').toLowerCase();
   const tone =
@@ -156,6 +162,14 @@ function buildSystemPrompt(
     }
   }
 
+  const mentalBlock = mental ? mentalPromptBlock(mental) : '';
+  if (mentalBlock) {
+    // Rule-based tilt signals from bankroll sessions and drills; the mental coach leads with them
+    system += style === 'mental'
+      ? `\n\n${mentalBlock}\nНачни ответ с этого: коротко назови сигналы и предложи ${mental?.recommendation === 'break' ? 'перерыв' : 'кулдаун-рутину'}, затем отвечай на вопрос.\n`
+      : `\n\n${mentalBlock}\nЕсли вопрос про игру сегодня или про результаты — одной строкой напомни про перерыв/кулдаун.\n`;
+  }
+
   if (memoryLines.length > 0) {
     system += '\n\nRelevant memory snippets (Player memory):\n';
     for (const line of memoryLines) {
@@ -217,39 +231,19 @@ serve(async (req) => {
       }
     }
 
-    // Freemium limit: free users max 5 user messages per day (UTC); only for new messages, not continue
+    // Daily quota per subscription tier (_shared/quota); a "continue" finishes an answer already counted
     if (!isContinue) {
-      const { data: profile } = await supabaseUser
-        .from('profiles')
-        .select('subscription_tier')
-        .eq('id', userId)
-        .maybeSingle();
-      const tier = (profile as { subscription_tier?: string | null } | null)?.subscription_tier ?? null;
-      if (tier === 'free' || tier === null) {
-        const d = new Date();
-        const startOfDayUTC = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
-        const startOfDayISO = startOfDayUTC.toISOString();
-        const { count, error: countError } = await supabaseUser
-          .from('chat_messages')
-          .select('id', { count: 'exact', head: true })
-          .eq('user_id', userId)
-          .eq('role', 'user')
-          .gte('created_at', startOfDayISO);
-        if (!countError && (count ?? 0) >= 5) {
-          return json(
-            { error: 'limit_reached', detail: 'Достигнут лимит сообщений на сегодня. Перейдите на PRO.' },
-            403
-          );
-        }
+      const quota = await checkQuota(supabaseUser, userId, 'coach_message');
+      if (!quota.allowed) {
+        return json(limitReachedBody(quota), 403);
       }
     }
 
-    const openAiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openAiKey) {
+    const llm = createLlm('ai-coach-chat');
+    if (!llm) {
       return json({ error: 'Missing OPENAI_API_KEY secret', detail: 'Server misconfiguration' }, 500);
     }
 
-    const model = Deno.env.get('OPENAI_MODEL') ?? 'gpt-4o-mini';
     const coachStyle = body.coach_style ?? 'mental';
 
     let threadId: string;
@@ -385,25 +379,36 @@ serve(async (req) => {
       const since30d = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
       const { data: mistakeRows } = await supabaseUser
         .from('training_events')
-        .select('mistake_reason')
+        .select('mistake_reason, ev_loss_bb')
         .eq('user_id', userId)
         .eq('leak_tag', effectiveLeakTag)
         .eq('is_correct', false)
         .gte('created_at', since30d);
       if (Array.isArray(mistakeRows) && mistakeRows.length > 0) {
+        // Rank reasons by bb lost (EV-graded answers), then by count
         const counts: Record<string, number> = {};
+        const lossBb: Record<string, number> = {};
         for (const row of mistakeRows) {
           const r = (row as { mistake_reason?: string | null }).mistake_reason;
           const key = (r && String(r).trim()) || 'unknown';
           counts[key] = (counts[key] ?? 0) + 1;
+          lossBb[key] = (lossBb[key] ?? 0) + ((row as { ev_loss_bb?: number | null }).ev_loss_bb ?? 0);
         }
-        const sorted = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+        const sorted = Object.entries(counts).sort((a, b) => (lossBb[b[0]] - lossBb[a[0]]) || (b[1] - a[1]));
         const top_mistakes = sorted.slice(0, 2).map(([reason]) => reason);
         leakStats = leakStats ?? {};
         leakStats.top_mistakes = top_mistakes;
       }
     }
 
+    let mental: MentalState | null = null;
+    try {
+      mental = await evaluateMentalState(supabaseUser, userId, parseTzOffset(body.tz_offset_minutes));
+      if (!isContinue) await recordMentalSignal(supabaseUser, userId, mental, 'coach_chat');
+    } catch (mentalErr) {
+      console.warn('[ai-coach-chat] tilt detection failed:', mentalErr);
+    }
+
     const textForRag = isContinue
       ? (last20.filter((m) => m.role === 'user').pop()?.content ?? '')
       : message;
@@ -415,7 +420,7 @@ serve(async (req) => {
     const evidence: CoachChatEvidence = { memory_ids: [], message_ids: [], tags: [] };
     try {
       if (textForEmbedding) {
-        const embedding = await generateEmbedding(textForEmbedding.slice(0, 8000), openAiKey);
+        const embedding = await llm.embed(textForEmbedding);
         const { data: memories, error: rpcError } = await supabaseUser.rpc('match_coach_memory', {
           query_embedding: embedding,
           match_threshold: 0.5,
@@ -452,6 +457,7 @@ serve(async (req) => {
         rating: leakStats?.rating,
         acc7,
         top_mistakes: leakStats?.top_mistakes,
+        mental_level: mental?.level,
       })
     );
 
@@ -460,7 +466,8 @@ serve(async (req) => {
       memoryLines,
       conversationBlock,
       effectiveLeakTag,
-      leakStats
+      leakStats,
+      mental
     );
     if (isContinue) {
       systemPrompt = baseSystemPrompt +
@@ -474,33 +481,20 @@ serve(async (req) => {
 
     const openaiUserContent = isContinue ? 'Продолжи.' : message;
 
-    if (!useStream) {
-      const openaiRes = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${openAiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model,
-          stream: false,
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: openaiUserContent },
-          ],
-          temperature: 0.7,
-          max_tokens: 1000,
-        }),
-      });
+    const llmMessages: LlmMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: openaiUserContent },
+    ];
 
-      if (!openaiRes.ok) {
-        const errText = await openaiRes.text();
-        return json({ error: 'OpenAI request failed', detail: errText }, 502);
+    if (!useStream) {
+      let completion: LlmChatResult;
+      try {
+        completion = await llm.chat({ messages: llmMessages, temperature: 0.7, maxTokens: 1000, user: userId });
+      } catch (e) {
+        return json({ error: 'OpenAI request failed', detail: llmErrorDetail(e) }, 502);
       }
 
-      const openaiJson = (await openaiRes.json()) as { choices?: Array<{ message?: { content?: string } }> };
-      const rawContent = openaiJson.choices?.[0]?.message?.content;
-      const assistantContent = (typeof rawContent === 'string' ? rawContent : '').trim() || 'Нет ответа от тренера.';
+      const assistantContent = completion.text.trim() || 'Нет ответа от тренера.';
       const finalContent = sanitizeLeakClaims(assistantContent, hasEvidence);
 
       const { data: assistantRow, error: insertAssistantError } = await supabaseUser
@@ -526,6 +520,8 @@ serve(async (req) => {
         .eq('id', threadId)
         .eq('user_id', userId);
 
+      await recordUsage(supabaseUser, userId, 'coach_message', 'ai-coach-chat', llm, isContinue ? 0 : 1);
+
       return json({
         thread_id: threadId,
         assistant_message: { id: assistantRow?.id ?? '', content: finalContent },
@@ -533,69 +529,22 @@ serve(async (req) => {
       });
     }
 
-    const openaiRes = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${openAiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model,
-        stream: true,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: openaiUserContent },
-        ],
-        temperature: 0.7,
-        max_tokens: 1000,
-      }),
-    });
-
-    if (!openaiRes.ok) {
-      const errText = await openaiRes.text();
-      return json({ error: 'OpenAI request failed', detail: errText }, 502);
+    let deltas: AsyncIterable<string>;
+    try {
+      deltas = await llm.stream({ messages: llmMessages, temperature: 0.7, maxTokens: 1000, user: userId });
+    } catch (e) {
+      return json({ error: 'OpenAI request failed', detail: llmErrorDetail(e) }, 502);
     }
 
     const encoder = new TextEncoder();
 
     const stream = new ReadableStream({
       async start(controller) {
-        const reader = openaiRes.body?.getReader();
-        if (!reader) {
-          controller.enqueue(encoder.encode('data: ' + JSON.stringify({ error: 'No response body' }) + '\n\n'));
-          controller.close();
-          return;
-        }
-        const decoder = new TextDecoder();
-        let buffer = '';
         let fullContent = '';
-        let streamDone = false;
         try {
-          while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
-            buffer += decoder.decode(value, { stream: true });
-            const lines = buffer.split('\n');
-            buffer = lines.pop() ?? '';
-            for (const line of lines) {
-              if (!line.startsWith('data: ')) continue;
-              const payload = line.slice(6).trim();
-              if (payload === '[DONE]') {
-                streamDone = true;
-                break;
-              }
-              try {
-                const obj = JSON.parse(payload) as { choices?: Array<{ delta?: { content?: string } }> };
-                const content = obj.choices?.[0]?.delta?.content;
-                if (typeof content === 'string') {
-                  fullContent += content;
-                  controller.enqueue(encoder.encode('data: ' + JSON.stringify({ delta: content }) + '\n\n'));
-                }
-              } catch {
-                // skip malformed line
-              }
-            }
-            if (streamDone) break;
+          for await (const content of deltas) {
+            fullContent += content;
+            controller.enqueue(encoder.encode('data: ' + JSON.stringify({ delta: content }) + '\n\n'));
           }
           const assistantContent = fullContent.trim() || 'Нет ответа от тренера.';
           const finalContent = sanitizeLeakClaims(assistantContent, hasEvidence);
@@ -622,6 +571,8 @@ serve(async (req) => {
               .eq('id', threadId)
               .eq('user_id', userId);
 
+            await recordUsage(supabaseUser, userId, 'coach_message', 'ai-coach-chat', llm, isContinue ? 0 : 1);
+
             controller.enqueue(encoder.encode('data: ' + JSON.stringify({
               done: true,
               thread_id: threadId,
@@ -1,6 +1,9 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { corsHeaders } from '../_shared/cors.ts';
 import { requireUserClient, AuthError } from '../_shared/userAuth.ts';
+import { mentalPromptBlock, type MentalState } from '../_shared/tilt.ts';
+import { evaluateMentalState, parseTzOffset, recordMentalSignal } from '../_shared/mentalSignal.ts';
+import { createLlm, llmErrorDetail, type LlmChatResult } from '../_shared/llm/index.ts';
 
 type DailyCheckin = {
   date: string;
@@ -14,6 +17,8 @@ type DailyCheckin = {
     question: string;
     answer: string;
   };
+  /** Tilt detection at request time; not stored with the check-in. */
+  mental?: MentalState | null;
 };
 
 type TopLeak = {
@@ -94,8 +99,18 @@ serve(async (req) => {
     // Parse body
     const body = await req.json();
     const coachStyle = body.coach_style || 'MENTAL';
+    const tzOffsetMinutes = parseTzOffset(body.tz_offset_minutes);
     const today = getTodayUTC();
 
+    // Tilt signals from bankroll sessions and drill answers (fresh on every request, even for a cached check-in)
+    let mental: MentalState | null = null;
+    try {
+      mental = await evaluateMentalState(supabaseUser, userId, tzOffsetMinutes);
+      await recordMentalSignal(supabaseUser, userId, mental, 'daily_checkin');
+    } catch (e) {
+      console.error('Tilt detection failed:', e);
+    }
+
     // Check if checkin already exists for today
     const { data: existingCheckin, error: existingError } = await supabaseUser
       .from('daily_checkins')
@@ -110,7 +125,7 @@ serve(async (req) => {
 
     if (existingCheckin) {
       // Return existing checkin
-      return json(existingCheckin.message);
+      return json({ ...existingCheckin.message, mental });
     }
 
     // Fetch latest leak summary
@@ -137,14 +152,11 @@ serve(async (req) => {
       .order('created_at', { ascending: false })
       .limit(3);
 
-    // Get OpenAI API key
-    const openAiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openAiKey) {
+    const llm = createLlm('ai-daily-checkin');
+    if (!llm) {
       return json({ error: 'Missing OPENAI_API_KEY secret' }, 500);
     }
 
-    const model = Deno.env.get('OPENAI_MODEL') ?? 'gpt-4o-mini';
-
     // Build prompt
     const systemPrompt = `Ты — персональный тренер по покеру. Создаёшь короткий daily check-in для игрока.
 
@@ -157,6 +169,8 @@ serve(async (req) => {
 - focus.title и focus.tip: 1-2 предложения макс, конкретно
 - Если есть top_leaks[0], используй его tag в focus.tag, иначе focus.tag = null
 - micro_drill: 1 простой вопрос + короткий ответ (не A/B/C варианты)
+- Если дано ментальное состояние с рекомендацией «перерыв»: focus.tag = null, focus.title — про перерыв от игры на деньги, focus.tip — что конкретно сделать вместо сессии
+- Если рекомендация «кулдаун»: focus.tip начинается с короткой рутины перед следующей сессией, потом совет по игре
 - Формат строго JSON по схеме
 - Пиши на русском`;
 
@@ -178,6 +192,11 @@ serve(async (req) => {
       userPrompt += '\n';
     }
 
+    const mentalBlock = mental ? mentalPromptBlock(mental) : '';
+    if (mentalBlock) {
+      userPrompt += `${mentalBlock}\n\n`;
+    }
+
     userPrompt += 'Создай focus и micro_drill.';
 
     // JSON Schema for strict output
@@ -208,38 +227,21 @@ serve(async (req) => {
       required: ['focus', 'micro_drill'],
     };
 
-    // Call OpenAI Chat Completions API
-    const openaiRes = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${openAiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model,
+    let completion: LlmChatResult;
+    try {
+      completion = await llm.chat({
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt },
         ],
-        response_format: {
-          type: 'json_schema',
-          json_schema: {
-            name: 'daily_checkin',
-            schema,
-            strict: true,
-          },
-        },
+        jsonSchema: { name: 'daily_checkin', schema },
         user: userId,
-      }),
-    });
-
-    if (!openaiRes.ok) {
-      const errText = await openaiRes.text();
-      return json({ error: 'OpenAI request failed', detail: errText }, 502);
+      });
+    } catch (e) {
+      return json({ error: 'OpenAI request failed', detail: llmErrorDetail(e) }, 502);
     }
 
-    const payload = await openaiRes.json();
-    const text = payload.choices?.[0]?.message?.content;
+    const text = completion.text;
 
     if (!text) {
       return json({ error: 'OpenAI returned empty response' }, 502);
@@ -264,7 +266,7 @@ serve(async (req) => {
       micro_drill: partialCheckin.micro_drill,
     };
 
-    // Save to daily_checkins (upsert)
+    // Save to daily_checkins (upsert); mental is request-time only
     const { error: upsertError } = await supabaseUser
       .from('daily_checkins')
       .upsert({
@@ -281,7 +283,7 @@ serve(async (req) => {
     }
 
     // Return response
-    return json(checkin);
+    return json({ ...checkin, mental });
   } catch (e) {
     // Handle authentication errors
     if (e instanceof AuthError) {
@@ -1,6 +1,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { corsHeaders } from '../_shared/cors.ts';
 import { requireUserClient, AuthError } from '../_shared/userAuth.ts';
+import { createLlm, llmErrorDetail, type LlmChatResult } from '../_shared/llm/index.ts';
 
 type TopLeak = {
   tag: string;
@@ -93,14 +94,11 @@ serve(async (req) => {
     const topLeak = summary.top_leaks[0];
     const focusTag = topLeak.tag;
 
-    // Get OpenAI API key
-    const openAiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openAiKey) {
+    const llm = createLlm('ai-generate-action-plan');
+    if (!llm) {
       return json({ error: 'Missing OPENAI_API_KEY secret' }, 500);
     }
 
-    const model = Deno.env.get('OPENAI_MODEL') ?? 'gpt-4o-mini';
-
     // Build prompt
     const systemPrompt = `Ты — персональный тренер по покеру. Создаёшь практичный план действий на 7 дней для исправления конкретной ошибки игрока.
 
@@ -133,38 +131,21 @@ serve(async (req) => {
       required: ['items'],
     };
 
-    // Call OpenAI Chat Completions API
-    const openaiRes = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${openAiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model,
+    let completion: LlmChatResult;
+    try {
+      completion = await llm.chat({
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt },
         ],
-        response_format: {
-          type: 'json_schema',
-          json_schema: {
-            name: 'action_plan',
-            schema,
-            strict: true,
-          },
-        },
+        jsonSchema: { name: 'action_plan', schema },
         user: userId,
-      }),
-    });
-
-    if (!openaiRes.ok) {
-      const errText = await openaiRes.text();
-      return json({ error: 'OpenAI request failed', detail: errText }, 502);
+      });
+    } catch (e) {
+      return json({ error: 'OpenAI request failed', detail: llmErrorDetail(e) }, 502);
     }
 
-    const payload = await openaiRes.json();
-    const text = payload.choices?.[0]?.message?.content;
+    const text = completion.text;
 
     if (!text) {
       return json({ error: 'OpenAI returned empty response' }, 502);
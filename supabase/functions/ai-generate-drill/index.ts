@@ -2,6 +2,7 @@ import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { corsHeaders } from '../_shared/cors.ts';
 import { enforceAllowedLeakTag } from '../_shared/leaks.ts';
 import { requireUserClient, AuthError } from '../_shared/userAuth.ts';
+import { createLlm, llmErrorDetail, type LlmChatResult } from '../_shared/llm/index.ts';
 
 type CoachStyle = 'TOXIC' | 'MENTAL' | 'MATH';
 
@@ -131,13 +132,11 @@ serve(async (req) => {
     const coach_style = body.coach_style;
     const explicitLeakTag = body.leak_tag ? enforceAllowedLeakTag(body.leak_tag) : null;
 
-    const openAiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openAiKey) {
+    const llm = createLlm('ai-generate-drill');
+    if (!llm) {
       return json({ error: 'Missing OPENAI_API_KEY secret' }, 500);
     }
 
-    const model = Deno.env.get('OPENAI_MODEL') ?? 'gpt-4o-mini';
-
     let topLeaks: TopLeak[] = [];
     try {
       topLeaks = await getLatestLeakSummary(supabaseUser, userId);
@@ -187,37 +186,21 @@ serve(async (req) => {
       ],
     };
 
-    const openaiRes = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${openAiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model,
+    let completion: LlmChatResult;
+    try {
+      completion = await llm.chat({
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: 'Создай drill-сценарий' },
         ],
-        response_format: {
-          type: 'json_schema',
-          json_schema: {
-            name: 'drill_scenario',
-            schema,
-            strict: true,
-          },
-        },
+        jsonSchema: { name: 'drill_scenario', schema },
         user: userId,
-      }),
-    });
-
-    if (!openaiRes.ok) {
-      const errText = await openaiRes.text();
-      return json({ error: 'OpenAI request failed', detail: errText }, 502);
+      });
+    } catch (e) {
+      return json({ error: 'OpenAI request failed', detail: llmErrorDetail(e) }, 502);
     }
 
-    const payload = await openaiRes.json();
-    const text = payload.choices?.[0]?.message?.content;
+    const text = completion.text;
 
     if (!text) {
       return json({ error: 'OpenAI returned empty response' }, 502);
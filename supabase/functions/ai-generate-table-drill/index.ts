@@ -2,39 +2,54 @@ import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { corsHeaders } from '../_shared/cors.ts';
 import { enforceAllowedLeakTag } from '../_shared/leaks.ts';
 import { requireUserClient, AuthError } from '../_shared/userAuth.ts';
+import { createLlm, llmErrorDetail, type LlmChatResult } from '../_shared/llm/index.ts';
+import { checkQuota, limitReachedBody, recordUsage } from '../_shared/quota/index.ts';
+import { boardCardsForStreet, cardsUnique, heroHandLabel } from '../_shared/poker.ts';
+import { computeEquity } from '../_shared/equity.ts';
+import { expandRange, formatRange, parseRange } from '../_shared/ranges.ts';
+import { DEFAULT_RATING, DEFAULT_RD, difficultyForRating, targetScenarioRating, type Difficulty, type GlickoRating } from '../_shared/rating.ts';
+import { MULTI_STREET_LEAK_TAGS, parseMultiStreetHand, stepScenario } from '../_shared/multiStreet.ts';
+import { dealPreflopSpot, parsePreflopChart, type PreflopChart, type PreflopFormat } from '../_shared/preflopCharts.ts';
+import { dealPushFoldSpot } from '../_shared/icm.ts';
+import { signScenario } from '../_shared/scenarioToken.ts';
 
 const POSITIONS = ['BTN', 'SB', 'BB', 'CO', 'HJ', 'UTG', 'MP'] as const;
-const RANKS = ['A', 'K', 'Q', 'J', 'T', '9', '8', '7', '6', '5', '4', '3', '2'];
-const SUITS = ['s', 'h', 'd', 'c'];
 
-type DrillType = 'action_decision' | 'raise_sizing';
+/**
+ * grading_token for a generated scenario (_shared/scenarioToken.ts): ai-submit-table-drill-result grades against the
+ * signed fields, not the client's copy. `source` holds the grading fields (for a multi-street hand: the whole hand).
+ */
+async function gradingToken(source: Record<string, unknown>): Promise<string | undefined> {
+  const secret = Deno.env.get('SCENARIO_SIGNING_SECRET') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!secret) {
+    console.error('ai-generate-table-drill: missing SCENARIO_SIGNING_SECRET and SUPABASE_SERVICE_ROLE_KEY');
+    return undefined;
+  }
+  return signScenario(source, secret);
+}
+
+type DrillType = 'action_decision' | 'raise_sizing' | 'preflop_range' | 'push_fold';
 
 type GenerateDrillRequest = {
   leak_tag?: string;
   drill_type?: DrillType;
+  /** One hand over several streets; defaults to true for MULTI_STREET_LEAK_TAGS. */
+  multi_street?: boolean;
+  /** preflop_range: restrict the deal to one chart set (e.g. mtt / 25). */
+  format?: PreflopFormat;
+  stack_bb?: number;
 };
 
-type Difficulty = 'easy' | 'medium' | 'hard';
-
-/** Compute difficulty from skill_rating. Priority: long no-practice > rating/streak. */
+/**
+ * Target scenario rating from the user's Glicko rating for the leak (see _shared/rating.ts), plus the coarse
+ * label the generator prompt needs when no library scenario is available.
+ */
 function computeDifficulty(
-  rating: number,
-  streakCorrect: number,
+  skill: GlickoRating,
   lastPracticeAt: string | null
-): Difficulty {
-  const now = new Date();
-  const fourteenDaysAgo = new Date(now.getTime() - 14 * 24 * 60 * 60 * 1000);
-
-  // First exposure: no record yet
-  if (lastPracticeAt == null) return 'medium';
-
-  const last = new Date(lastPracticeAt);
-  // Long time no practice: priority over rating >= 70 hard
-  if (last < fourteenDaysAgo) return rating <= 40 ? 'easy' : 'medium';
-
-  if (rating <= 40) return 'easy';
-  if (rating >= 70 && streakCorrect >= 3) return 'hard';
-  return 'medium';
+): { target: number; difficulty: Difficulty } {
+  const target = targetScenarioRating(skill, lastPracticeAt);
+  return { target, difficulty: difficultyForRating(target) };
 }
 
 type TableDrillScenarioAction = {
@@ -49,6 +64,12 @@ type TableDrillScenarioAction = {
   action_to_hero: { type: 'bet' | 'check' | 'raise'; size_bb: number };
   correct_action: 'fold' | 'call' | 'raise';
   explanation: string;
+  /** Villain range in standard notation ("22+, A2s+, KTo+"), canonicalized by _shared/ranges. */
+  villain_range?: string;
+  /** Hero equity (0..1) vs villain_range on the current street. */
+  hero_equity?: number;
+  /** Signed grading fields (_shared/scenarioToken.ts); the app sends it back with the answer. */
+  grading_token?: string;
 };
 
 type TableDrillScenarioRaiseSizing = Omit<TableDrillScenarioAction, 'correct_action'> & {
@@ -68,35 +89,15 @@ function json(data: unknown, status = 200) {
   });
 }
 
-function parseCard(s: string): { rank: string; suit: string } | null {
-  if (typeof s !== 'string' || s.length < 2) return null;
-  const rank = s[0].toUpperCase();
-  const suit = s[s.length - 1].toLowerCase();
-  if (!RANKS.includes(rank) || !SUITS.includes(suit)) return null;
-  return { rank, suit };
-}
-
-function cardKey(s: string): string {
-  const p = parseCard(s);
-  return p ? `${p.rank}${p.suit}` : '';
-}
-
 /** Ensure no duplicate cards across hero_cards and board */
 function allCardsUnique(scenario: TableDrillScenarioAction): boolean {
-  const allCards = [
-    ...(scenario.hero_cards || []),
-    ...(scenario.board?.flop || []),
-    scenario.board?.turn,
-    scenario.board?.river
-  ].filter(Boolean);
-  const set = new Set<string>();
-  for (const c of allCards) {
-    const k = cardKey(c);
-    if (!k || set.has(k)) return false;
-    set.add(k);
-  }
   if (!Array.isArray(scenario.board?.flop) || scenario.board.flop.length !== 3) return false;
-  return true;
+  return cardsUnique([
+    ...(scenario.hero_cards || []),
+    ...scenario.board.flop,
+    scenario.board.turn,
+    scenario.board.river,
+  ]);
 }
 
 /** Sizes reasonable vs stack (e.g. bet/raise <= stack, pot >= 0) */
@@ -117,121 +118,36 @@ function positionsValid(scenario: TableDrillScenarioAction): boolean {
   );
 }
 
-// ─── Hand rank evaluator (no GPT — we decide the combination) ───
-const RANK_VALUES: Record<string, number> = { A: 14, K: 13, Q: 12, J: 11, T: 10, '9': 9, '8': 8, '7': 7, '6': 6, '5': 5, '4': 4, '3': 3, '2': 2 };
-
-type CardObj = { rank: string; suit: string; value: number };
-
-function getCardsForStreet(
+/** Returns the best hand rank label for Hero on the given street (shared evaluator, no GPT). */
+function evaluateHandRank(
   heroCards: string[],
   board: { flop: string[]; turn: string | null; river: string | null },
   street: string
-): CardObj[] {
-  const out: CardObj[] = [];
-  for (const s of heroCards) {
-    const p = parseCard(s);
-    if (p) out.push({ rank: p.rank, suit: p.suit, value: RANK_VALUES[p.rank] ?? 0 });
-  }
-  const flop = board?.flop ?? [];
-  for (const s of flop) {
-    const p = parseCard(s);
-    if (p) out.push({ rank: p.rank, suit: p.suit, value: RANK_VALUES[p.rank] ?? 0 });
-  }
-  if ((street === 'turn' || street === 'river') && board?.turn) {
-    const p = parseCard(board.turn);
-    if (p) out.push({ rank: p.rank, suit: p.suit, value: RANK_VALUES[p.rank] ?? 0 });
-  }
-  if (street === 'river' && board?.river) {
-    const p = parseCard(board.river);
-    if (p) out.push({ rank: p.rank, suit: p.suit, value: RANK_VALUES[p.rank] ?? 0 });
-  }
-  return out;
-}
-
-function combos<T>(arr: T[], k: number): T[][] {
-  if (k === 0) return [[]];
-  if (arr.length < k) return [];
-  const [h, ...t] = arr;
-  const withH = combos(t, k - 1).map((c) => [h, ...c]);
-  const without = combos(t, k);
-  return [...withH, ...without];
-}
-
-function isFlush(cards: CardObj[]): boolean {
-  const bySuit: Record<string, number> = {};
-  for (const c of cards) {
-    bySuit[c.suit] = (bySuit[c.suit] ?? 0) + 1;
-  }
-  return Math.max(...Object.values(bySuit)) >= 5;
-}
-
-function isStraight(cards: CardObj[]): boolean {
-  const vals = [...new Set(cards.map((c) => c.value))];
-  const withAceLow = vals.some((v) => v === 14) ? [...vals.filter((v) => v !== 14), 1] : vals;
-  const all = [...new Set([...vals, ...withAceLow])].sort((a, b) => b - a);
-  for (let i = 0; i <= all.length - 5; i++) {
-    let consecutive = true;
-    for (let j = 1; j < 5; j++) {
-      if (all[i + j] !== all[i] - j) {
-        consecutive = false;
-        break;
-      }
-    }
-    if (consecutive) return true;
-  }
-  return false;
-}
-
-function rankCounts(cards: CardObj[]): number[] {
-  const count: Record<number, number> = {};
-  for (const c of cards) {
-    count[c.value] = (count[c.value] ?? 0) + 1;
-  }
-  return Object.values(count).sort((a, b) => b - a);
-}
-
-function handRankName(cards: CardObj[]): string {
-  if (cards.length !== 5) return 'High Card';
-  const flush = isFlush(cards);
-  const straight = isStraight(cards);
-  if (flush && straight) return 'Straight Flush';
-  const rc = rankCounts(cards);
-  if (rc[0] === 4) return 'Quads';
-  if (rc[0] === 3 && rc[1] === 2) return 'Full House';
-  if (flush) return 'Flush';
-  if (straight) return 'Straight';
-  if (rc[0] === 3) return 'Set';
-  if (rc[0] === 2 && rc[1] === 2) return 'Two Pair';
-  if (rc[0] === 2) return 'Pair';
-  return 'High Card';
+): string {
+  return heroHandLabel(heroCards, boardCardsForStreet(board, street));
 }
 
-/** Returns the best hand rank label for Hero on the given street. */
-function evaluateHandRank(
+/**
+ * Canonical villain range + Hero equity against it on the scenario street.
+ * null when the range does not parse or card removal leaves nothing (the drill is still usable without it).
+ */
+function villainRangeFacts(
+  rangeText: unknown,
   heroCards: string[],
-  board: { flop: string[]; turn: string | null; river: string | null },
+  board: TableDrillScenarioAction['board'],
   street: string
-): string {
-  const cards = getCardsForStreet(heroCards, board, street);
-  if (cards.length < 5) return 'High Card';
-  const fiveCardCombos = combos(cards, 5);
-  let best: string = 'High Card';
-  const order = [
-    'High Card',
-    'Pair',
-    'Two Pair',
-    'Set',
-    'Straight',
-    'Flush',
-    'Full House',
-    'Quads',
-    'Straight Flush',
-  ];
-  for (const combo of fiveCardCombos) {
-    const name = handRankName(combo);
-    if (order.indexOf(name) > order.indexOf(best)) best = name;
+): { villain_range: string; hero_equity: number } | null {
+  if (typeof rangeText !== 'string' || !rangeText.trim()) return null;
+  try {
+    const range = parseRange(rangeText);
+    const boardCards = boardCardsForStreet(board, street);
+    const combos = expandRange(range, [...heroCards, ...boardCards]);
+    if (combos.length === 0) return null;
+    const { equity } = computeEquity({ hero: heroCards, board: boardCards, villains: [combos], iterations: 5000 });
+    return { villain_range: formatRange(range), hero_equity: Math.round(equity * 1000) / 1000 };
+  } catch {
+    return null;
   }
-  return best;
 }
 
 serve(async (req) => {
@@ -249,38 +165,85 @@ serve(async (req) => {
     const body = (await req.json()) as GenerateDrillRequest;
     const validLeakTag = body.leak_tag ? enforceAllowedLeakTag(body.leak_tag) : null;
     const leak_tag = validLeakTag ?? 'fundamentals';
+    // Preflop range drills are dealt from the stored charts — no library row and no model call.
+    if (body.drill_type === 'preflop_range') {
+      let query = supabaseUser.from('preflop_charts').select('format, stack_bb, hero_pos, opener_pos, raise_range, call_range');
+      if (body.format) query = query.eq('format', body.format);
+      if (body.stack_bb) query = query.eq('stack_bb', body.stack_bb);
+      const { data: chartRows, error: chartsError } = await query;
+      if (chartsError) console.error('preflop_charts select failed:', chartsError);
+      const charts = (chartRows ?? [])
+        .map((row: Record<string, unknown>) => parsePreflopChart(row))
+        .filter((c: PreflopChart | null): c is PreflopChart => c != null);
+      const spot = dealPreflopSpot(charts, validLeakTag);
+      if (!spot) {
+        return json({ ok: false, error: 'no_preflop_charts' });
+      }
+      return json({ ok: true, scenario: { ...spot, leak_tag } });
+    }
+    // Push/fold drills are random short-stack tournament tables graded by ICM (_shared/icm.ts).
+    if (body.drill_type === 'push_fold') {
+      return json({ ok: true, scenario: { ...dealPushFoldSpot(), leak_tag } });
+    }
+
     const drillType: DrillType =
       body.drill_type === 'raise_sizing' ? 'raise_sizing' : 'action_decision';
+    const multiStreet =
+      drillType === 'action_decision' && (body.multi_street ?? MULTI_STREET_LEAK_TAGS.includes(leak_tag));
 
-    let difficulty: Difficulty = 'medium';
+    let skill: GlickoRating = { rating: DEFAULT_RATING, rd: DEFAULT_RD };
+    let lastPracticeAt: string | null = null;
     if (validLeakTag) {
       const { data: row } = await supabaseUser
         .from('skill_ratings')
-        .select('rating, streak_correct, last_practice_at')
+        .select('glicko_rating, rating_rd, last_practice_at')
         .eq('user_id', userId)
         .eq('leak_tag', validLeakTag)
         .maybeSingle();
 
-      const rating = row?.rating ?? 50;
-      const streak = row?.streak_correct ?? 0;
-      const lastPracticeAt = row?.last_practice_at ?? null;
-      difficulty = computeDifficulty(rating, streak, lastPracticeAt);
-      console.log(
-        JSON.stringify({
-          leak_tag: validLeakTag,
-          rating,
-          streak,
-          difficulty,
-        })
-      );
+      skill = { rating: row?.glicko_rating ?? DEFAULT_RATING, rd: row?.rating_rd ?? DEFAULT_RD };
+      lastPracticeAt = row?.last_practice_at ?? null;
     }
+    const { target, difficulty } = computeDifficulty(skill, lastPracticeAt);
+    console.log(
+      JSON.stringify({
+        leak_tag,
+        rating: skill.rating,
+        rd: skill.rd,
+        target,
+      })
+    );
 
-    const openAiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openAiKey) {
-      return json({ ok: false });
+    // Prefer a rated library scenario near the user's level; generate only when the library has none.
+    const { data: libraryRows, error: libraryError } = await supabaseUser.rpc('get_hand_near_rating', {
+      p_target: target,
+      p_leak_tag: validLeakTag,
+      p_drill_type: drillType,
+      p_multi_street: multiStreet,
+    });
+    if (libraryError) console.error('get_hand_near_rating failed:', libraryError);
+    const libraryRow = Array.isArray(libraryRows) ? libraryRows[0] : null;
+    const libraryHand = libraryRow ? parseMultiStreetHand(libraryRow) : null;
+    if (libraryRow && (!multiStreet || libraryHand)) {
+      const first = libraryHand ? { ...stepScenario(libraryHand, 0), steps: libraryHand.steps } : {};
+      return json({
+        ok: true,
+        scenario: { ...libraryRow, ...first, hand_library_id: libraryRow.id },
+        difficulty: difficultyForRating(libraryRow.difficulty_rating ?? target),
+        target_rating: target,
+      });
+    }
+
+    // Only model-generated scenarios are metered; library, chart and push/fold spots are free
+    const quota = await checkQuota(supabaseUser, userId, 'table_drill');
+    if (!quota.allowed) {
+      return json({ ok: false, ...limitReachedBody(quota) }, 403);
     }
 
-    const model = 'gpt-4o';
+    const llm = createLlm('ai-generate-table-drill');
+    if (!llm) {
+      return json({ ok: false });
+    }
 
     const RAISE_SIZING_OPTIONS = ['2.5x', '3x', 'overbet'] as const;
 
@@ -335,38 +298,22 @@ serve(async (req) => {
 
 Карты в формате "Ah", "Ts". Все карты УНИКАЛЬНЫ. Сложность: ${difficulty.toUpperCase()} — ${difficultyGuidelinesRs[difficulty]}. leak_tag = "${leak_tag}". options = ["2.5x", "3x", "overbet"]. Верни ТОЛЬКО JSON по схеме.`;
 
-      const openaiResRs = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${openAiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model,
+      let completionRs: LlmChatResult;
+      try {
+        completionRs = await llm.chat({
           messages: [
             { role: 'system', content: systemPromptRsScenario },
             { role: 'user', content: 'Сгенерируй сценарий raise sizing' },
           ],
-          response_format: {
-            type: 'json_schema',
-            json_schema: {
-              name: 'table_drill_raise_sizing',
-              schema: schemaRaiseSizing,
-              strict: true,
-            },
-          },
+          jsonSchema: { name: 'table_drill_raise_sizing', schema: schemaRaiseSizing },
           user: userId,
-        }),
-      });
-
-      if (!openaiResRs.ok) {
-        const errText = await openaiResRs.text();
-        console.error('OpenAI error (raise_sizing scenario):', errText);
+        });
+      } catch (e) {
+        console.error('LLM error (raise_sizing scenario):', llmErrorDetail(e));
         return json({ ok: false });
       }
 
-      const payloadRs = await openaiResRs.json();
-      const textRs = payloadRs.choices?.[0]?.message?.content ?? '';
+      const textRs = completionRs.text;
       if (!textRs) return json({ ok: false });
 
       let scenarioRs: Record<string, unknown>;
@@ -438,34 +385,22 @@ ${JSON.stringify({
 
 Напиши только поле explanation для raise sizing, исходя из факта: у Hero комбинация "${hand_rank_rs}".`;
 
-      const openaiResRsExpl = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${openAiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model,
+      let completionRsExpl: LlmChatResult;
+      try {
+        completionRsExpl = await llm.chat({
           messages: [
             { role: 'system', content: systemPromptRsExpl },
             { role: 'user', content: userContentRsExpl },
           ],
-          response_format: {
-            type: 'json_schema',
-            json_schema: { name: 'explanation_rs', schema: schemaExplRs, strict: true },
-          },
+          jsonSchema: { name: 'explanation_rs', schema: schemaExplRs },
           user: userId,
-        }),
-      });
-
-      if (!openaiResRsExpl.ok) {
-        const errText = await openaiResRsExpl.text();
-        console.error('OpenAI error (raise_sizing explanation):', errText);
+        });
+      } catch (e) {
+        console.error('LLM error (raise_sizing explanation):', llmErrorDetail(e));
         return json({ ok: false });
       }
 
-      const payloadRsExpl = await openaiResRsExpl.json();
-      const textRsExpl = payloadRsExpl.choices?.[0]?.message?.content ?? '';
+      const textRsExpl = completionRsExpl.text;
       let explRs: { explanation: string };
       try {
         explRs = JSON.parse(textRsExpl);
@@ -476,10 +411,157 @@ ${JSON.stringify({
       (scenarioRs as Record<string, unknown>).leak_tag = leak_tag;
       (scenarioRs as Record<string, unknown>).explanation = explRs.explanation ?? '';
 
+      await recordUsage(supabaseUser, userId, 'table_drill', 'ai-generate-table-drill', llm);
+      const scenarioSizing = { ...scenarioRs, drill_type: 'raise_sizing' as const };
       return json({
         ok: true,
-        scenario: { ...scenarioRs, drill_type: 'raise_sizing' as const },
+        scenario: { ...scenarioSizing, grading_token: await gradingToken(scenarioSizing) },
         difficulty,
+        target_rating: target,
+      });
+    }
+
+    if (multiStreet) {
+      const actionToHeroSchema = {
+        type: 'object' as const,
+        additionalProperties: false,
+        properties: { type: { type: 'string', enum: ['bet', 'check', 'raise'] }, size_bb: { type: 'number' } },
+        required: ['type', 'size_bb'],
+      };
+      const schemaMulti = {
+        type: 'object' as const,
+        additionalProperties: false,
+        properties: {
+          game: { type: 'string' },
+          hero_pos: { type: 'string', enum: [...POSITIONS] },
+          villain_pos: { type: 'string', enum: [...POSITIONS] },
+          effective_stack_bb: { type: 'number' },
+          hero_cards: { type: 'array', items: { type: 'string' }, minItems: 2, maxItems: 2 },
+          board: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              flop: { type: 'array', items: { type: 'string' }, minItems: 3, maxItems: 3 },
+              turn: { type: 'string' },
+              river: { type: 'string' },
+            },
+            required: ['flop', 'turn', 'river'],
+          },
+          steps: {
+            type: 'array',
+            minItems: 3,
+            maxItems: 3,
+            items: {
+              type: 'object',
+              additionalProperties: false,
+              properties: {
+                street: { type: 'string', enum: ['flop', 'turn', 'river'] },
+                pot_bb: { type: 'number' },
+                action_to_hero: actionToHeroSchema,
+                correct_action: { type: 'string', enum: ['fold', 'call', 'raise'] },
+                villain_response: { type: 'string' },
+              },
+              required: ['street', 'pot_bb', 'action_to_hero', 'correct_action', 'villain_response'],
+            },
+          },
+        },
+        required: ['game', 'hero_pos', 'villain_pos', 'effective_stack_bb', 'hero_cards', 'board', 'steps'],
+      };
+
+      const systemPromptMulti = `ТЫ — ГЕНЕРАТОР МНОГОУЛИЧНЫХ ДРИЛЛОВ. Одна раздача разыгрывается с флопа до ривера: на каждой улице (flop, turn, river — строго по порядку) Hero принимает одно решение. Поле explanation НЕ заполняй — его заполнит следующий шаг.
+
+Карты в формате "Ah", "Ts". Все карты в hero_cards и board УНИКАЛЬНЫ, борд полный (flop, turn, river). Сложность: ${difficulty.toUpperCase()}.
+
+ПРАВИЛА ШАГОВ: pot_bb — банк перед действием оппонента на этой улице, не уменьшается от улицы к улице и учитывает правильную линию Hero на прошлых улицах. action_to_hero — действие оппонента в сторону Hero. correct_action: fold | call | raise; fold допустим ТОЛЬКО на последнем шаге (иначе раздача не продолжится). villain_response — коротко по-русски, что делает оппонент после правильного действия Hero (например "Оппонент коллирует" или "Оппонент чекает терн"); на ривере — итог раздачи.
+
+game = "NLH"; hero_pos, villain_pos из: BTN, SB, BB, CO, HJ, UTG, MP; effective_stack_bb 20–200. ФОКУС (leak_tag): ${leak_tag} — решения на разных улицах должны проверять именно эту ошибку. Верни ТОЛЬКО JSON по схеме.`;
+
+      let completionMulti: LlmChatResult;
+      try {
+        completionMulti = await llm.chat({
+          messages: [
+            { role: 'system', content: systemPromptMulti },
+            { role: 'user', content: 'Сгенерируй раздачу' },
+          ],
+          jsonSchema: { name: 'multi_street_drill', schema: schemaMulti },
+          user: userId,
+        });
+      } catch (e) {
+        console.error('LLM error (multi-street scenario):', llmErrorDetail(e));
+        return json({ ok: false });
+      }
+
+      let handRaw: Record<string, unknown>;
+      try {
+        handRaw = JSON.parse(completionMulti.text);
+      } catch {
+        return json({ ok: false });
+      }
+
+      const hand = parseMultiStreetHand({ ...handRaw, leak_tag });
+      if (
+        !hand ||
+        !POSITIONS.includes(hand.hero_pos as any) ||
+        !POSITIONS.includes(hand.villain_pos as any) ||
+        hand.effective_stack_bb <= 0 ||
+        hand.effective_stack_bb > 500 ||
+        hand.steps.some((step) => step.action_to_hero.type !== 'check' && step.action_to_hero.size_bb > hand.effective_stack_bb)
+      ) {
+        return json({ ok: false });
+      }
+
+      const streetFacts = hand.steps
+        .map((step, i) => `${i + 1}. ${step.street}: комбинация Hero — ${evaluateHandRank(hand.hero_cards, hand.board, step.street)}`)
+        .join('\n');
+      const schemaExplanations = {
+        type: 'object' as const,
+        additionalProperties: false,
+        properties: {
+          explanations: { type: 'array', items: { type: 'string' }, minItems: hand.steps.length, maxItems: hand.steps.length },
+        },
+        required: ['explanations'],
+      };
+      const systemPromptMultiExpl = `ТЫ — ГОЛОС СОЛВЕРА. ТЕБЕ ЗАПРЕЩЕНО ОПРЕДЕЛЯТЬ КОМБИНАЦИЮ САМОСТОЯТЕЛЬНО. МЫ ДАЕМ ТЕБЕ ФАКТЫ по улицам:
+${streetFacts}
+
+Для каждого шага раздачи напиши отдельное объяснение (explanations[i] — для steps[i]), строго про ЕГО улицу: никакого терна на флопе и ривера на терне. Опирайся на факт комбинации этой улицы; готовую руку никогда не называй «дро». В каждом объяснении: Pot Odds в %, позиции hero_pos и villain_pos, почему correct_action верный, и как решение связано с планом на следующие улицы. 3–4 предложения. Язык: русский.`;
+
+      let completionMultiExpl: LlmChatResult;
+      try {
+        completionMultiExpl = await llm.chat({
+          messages: [
+            { role: 'system', content: systemPromptMultiExpl },
+            { role: 'user', content: `Раздача:\n${JSON.stringify({ ...hand, leak_tag: undefined })}` },
+          ],
+          jsonSchema: { name: 'multi_street_explanations', schema: schemaExplanations },
+          user: userId,
+        });
+      } catch (e) {
+        console.error('LLM error (multi-street explanation):', llmErrorDetail(e));
+        return json({ ok: false });
+      }
+
+      let explanations: string[] = [];
+      try {
+        explanations = JSON.parse(completionMultiExpl.text).explanations ?? [];
+      } catch {
+        return json({ ok: false });
+      }
+      hand.steps.forEach((step, i) => {
+        step.explanation = explanations[i] ?? '';
+      });
+
+      await recordUsage(supabaseUser, userId, 'table_drill', 'ai-generate-table-drill', llm);
+      return json({
+        ok: true,
+        scenario: {
+          ...stepScenario(hand, 0),
+          steps: hand.steps,
+          // Signed with the full board: later streets are graded from the same token
+          grading_token: await gradingToken({ ...hand, drill_type: 'action_decision' }),
+        },
+        difficulty,
+        target_rating: target,
       });
     }
 
@@ -524,6 +606,7 @@ ${JSON.stringify({
           required: ['type', 'size_bb'],
         },
         correct_action: { type: 'string', enum: ['fold', 'call', 'raise'] },
+        villain_range: { type: 'string' },
       },
       required: [
         'game',
@@ -536,6 +619,7 @@ ${JSON.stringify({
         'street',
         'action_to_hero',
         'correct_action',
+        'villain_range',
       ],
     };
 
@@ -552,40 +636,24 @@ ${JSON.stringify({
 
 Сложность: ${difficulty.toUpperCase()} — ${difficultyGuidelines[difficulty]}
 
-ТЕХНИЧЕСКИЕ ПРАВИЛА: game = "NLH"; hero_pos, villain_pos из: BTN, SB, BB, CO, HJ, UTG, MP; effective_stack_bb 20–200; correct_action: fold | call | raise. Верни ТОЛЬКО JSON по схеме (без поля explanation). ФОКУС (leak_tag): ${leak_tag}.`;
+ТЕХНИЧЕСКИЕ ПРАВИЛА: game = "NLH"; hero_pos, villain_pos из: BTN, SB, BB, CO, HJ, UTG, MP; effective_stack_bb 20–200; correct_action: fold | call | raise. villain_range — реалистичный диапазон оппонента на этой улице в стандартной нотации (например "TT+, AQs+, KQs, 76s-54s, AKo"). Верни ТОЛЬКО JSON по схеме (без поля explanation). ФОКУС (leak_tag): ${leak_tag}.`;
 
-    const openaiRes = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${openAiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model,
+    let completion: LlmChatResult;
+    try {
+      completion = await llm.chat({
         messages: [
           { role: 'system', content: systemPromptScenario },
           { role: 'user', content: 'Сгенерируй сценарий' },
         ],
-        response_format: {
-          type: 'json_schema',
-          json_schema: {
-            name: 'table_drill_scenario',
-            schema,
-            strict: true,
-          },
-        },
+        jsonSchema: { name: 'table_drill_scenario', schema },
         user: userId,
-      }),
-    });
-
-    if (!openaiRes.ok) {
-      const errText = await openaiRes.text();
-      console.error('OpenAI error (scenario):', errText);
+      });
+    } catch (e) {
+      console.error('LLM error (scenario):', llmErrorDetail(e));
       return json({ ok: false });
     }
 
-    const payload = await openaiRes.json();
-    const text = payload.choices?.[0]?.message?.content ?? '';
+    const text = completion.text;
 
     if (!text) {
       return json({ ok: false });
@@ -621,6 +689,18 @@ ${JSON.stringify({
       (scenarioRaw.street as string) ?? 'flop'
     );
 
+    const rangeFacts = villainRangeFacts(
+      scenarioRaw.villain_range,
+      scenarioRaw.hero_cards as string[],
+      scenarioRaw.board as TableDrillScenarioAction['board'],
+      (scenarioRaw.street as string) ?? 'flop'
+    );
+    delete scenarioRaw.villain_range;
+    if (rangeFacts) Object.assign(scenarioRaw, rangeFacts);
+    const rangeFactLine = rangeFacts
+      ? `\n\nДИАПАЗОН ОППОНЕНТА: ${rangeFacts.villain_range}. ЭКВИТИ Hero против этого диапазона: ${(rangeFacts.hero_equity * 100).toFixed(1)}% (посчитано движком). Используй ЭТО число эквити, не придумывай своё.`
+      : '';
+
     const schemaExplanation = {
       type: 'object' as const,
       additionalProperties: false,
@@ -639,7 +719,7 @@ ${JSON.stringify({
 
 АНАЛИЗИРУЙ ТОЛЬКО ТЕКУЩУЮ УЛИЦУ: ${streetLabel} (street = "${scenarioRaw.street}"). НИКАКОГО флопа на терне, никакого терна на ривере. Explanation должен относиться только к действию на этой улице.
 
-В explanation: Pot Odds в %, эквити, позиции hero_pos и villain_pos, почему correct_action верный или неверный. Минимум 3–4 предложения. Язык: русский.`;
+В explanation: Pot Odds в %, эквити, позиции hero_pos и villain_pos, почему correct_action верный или неверный. Минимум 3–4 предложения. Язык: русский.${rangeFactLine}`;
 
     const userContentExplanation = `Сценарий:
 ${JSON.stringify({
@@ -651,42 +731,27 @@ ${JSON.stringify({
   pot_bb: scenarioRaw.pot_bb,
   action_to_hero: scenarioRaw.action_to_hero,
   correct_action: scenarioRaw.correct_action,
+  villain_range: scenarioRaw.villain_range,
 })}
 
 Напиши только поле explanation (объяснение стратегии для Hero), исходя из факта: у Hero комбинация "${hand_rank}".`;
 
-    const openaiResExpl = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${openAiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model,
+    let completionExpl: LlmChatResult;
+    try {
+      completionExpl = await llm.chat({
         messages: [
           { role: 'system', content: systemPromptExplanation },
           { role: 'user', content: userContentExplanation },
         ],
-        response_format: {
-          type: 'json_schema',
-          json_schema: {
-            name: 'explanation_only',
-            schema: schemaExplanation,
-            strict: true,
-          },
-        },
+        jsonSchema: { name: 'explanation_only', schema: schemaExplanation },
         user: userId,
-      }),
-    });
-
-    if (!openaiResExpl.ok) {
-      const errText = await openaiResExpl.text();
-      console.error('OpenAI error (explanation):', errText);
+      });
+    } catch (e) {
+      console.error('LLM error (explanation):', llmErrorDetail(e));
       return json({ ok: false });
     }
 
-    const payloadExpl = await openaiResExpl.json();
-    const textExpl = payloadExpl.choices?.[0]?.message?.content ?? '';
+    const textExpl = completionExpl.text;
     let explanationObj: { explanation: string };
     try {
       explanationObj = JSON.parse(textExpl);
@@ -699,7 +764,9 @@ ${JSON.stringify({
       explanation: explanationObj.explanation ?? '',
       drill_type: 'action_decision',
     } as TableDrillScenario;
-    return json({ ok: true, scenario, difficulty });
+    scenario.grading_token = await gradingToken(scenario);
+    await recordUsage(supabaseUser, userId, 'table_drill', 'ai-generate-table-drill', llm);
+    return json({ ok: true, scenario, difficulty, target_rating: target });
   } catch (e) {
     if (e instanceof AuthError) {
       return json(e.body, e.status);
@@ -2,6 +2,7 @@ import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { corsHeaders } from '../_shared/cors.ts';
 import { enforceAllowedLeakTag } from '../_shared/leaks.ts';
 import { requireUserClient, AuthError } from '../_shared/userAuth.ts';
+import { createLlm, llmErrorDetail, type LlmChatResult } from '../_shared/llm/index.ts';
 
 type CoachStyle = 'TOXIC' | 'MENTAL' | 'MATH';
 
@@ -110,14 +111,11 @@ serve(async (req) => {
       return json({ error: 'Missing required fields: scenario, user_action, coach_style' }, 400);
     }
 
-    // Get OpenAI API key
-    const openAiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openAiKey) {
+    const llm = createLlm('ai-grade-drill');
+    if (!llm) {
       return json({ error: 'Missing OPENAI_API_KEY secret' }, 500);
     }
 
-    const model = Deno.env.get('OPENAI_MODEL') ?? 'gpt-4o-mini';
-
     // Build prompts
     const systemPrompt = buildSystemPrompt(body.coach_style);
     const userPrompt = buildUserPrompt(body.scenario, body.user_action);
@@ -142,38 +140,21 @@ serve(async (req) => {
       required: ['is_correct', 'correct_action', 'feedback', 'why', 'next_step', 'mistake_tag'],
     };
 
-    // Call OpenAI Chat Completions API
-    const openaiRes = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${openAiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model,
+    let completion: LlmChatResult;
+    try {
+      completion = await llm.chat({
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt },
         ],
-        response_format: {
-          type: 'json_schema',
-          json_schema: {
-            name: 'drill_grade_result',
-            schema,
-            strict: true,
-          },
-        },
+        jsonSchema: { name: 'drill_grade_result', schema },
         user: userId,
-      }),
-    });
-
-    if (!openaiRes.ok) {
-      const errText = await openaiRes.text();
-      return json({ error: 'OpenAI request failed', detail: errText }, 502);
+      });
+    } catch (e) {
+      return json({ error: 'OpenAI request failed', detail: llmErrorDetail(e) }, 502);
     }
 
-    const payload = await openaiRes.json();
-    const text = payload.choices?.[0]?.message?.content;
+    const text = completion.text;
 
     if (!text) {
       return json({ error: 'Empty' }, 502);
@@ -1,6 +1,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { corsHeaders } from '../_shared/cors.ts';
 import { requireUserClient } from '../_shared/userAuth.ts';
+import { createLlm } from '../_shared/llm/index.ts';
 
 type Body = {
   query_text: string;
@@ -14,30 +15,6 @@ function json(data: unknown, status = 200) {
   });
 }
 
-async function getEmbedding(openAiKey: string, text: string): Promise<number[]> {
-  const res = await fetch('https://api.openai.com/v1/embeddings', {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${openAiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'text-embedding-ada-002',
-      input: text.slice(0, 8000),
-    }),
-  });
-  if (!res.ok) {
-    const errText = await res.text();
-    throw new Error(`Embedding failed: ${errText}`);
-  }
-  const data = (await res.json()) as { data?: Array<{ embedding?: number[] }> };
-  const embedding = data.data?.[0]?.embedding;
-  if (!Array.isArray(embedding) || embedding.length !== 1536) {
-    throw new Error('Invalid embedding response');
-  }
-  return embedding;
-}
-
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { status: 204, headers: corsHeaders });
@@ -48,8 +25,8 @@ serve(async (req) => {
 
   try {
     const { userId, supabaseUser } = await requireUserClient(req);
-    const openAiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openAiKey) {
+    const llm = createLlm('ai-match-coach-memory');
+    if (!llm) {
       return json({ error: 'Missing OPENAI_API_KEY' }, 500);
     }
 
@@ -61,7 +38,7 @@ serve(async (req) => {
       return json({ matches: [] });
     }
 
-    const embedding = await getEmbedding(openAiKey, queryText);
+    const embedding = await llm.embed(queryText);
     const { data: matches, error } = await supabaseUser.rpc('match_coach_memory', {
       query_embedding: embedding,
       match_threshold: 0.5,
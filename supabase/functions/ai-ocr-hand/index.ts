@@ -2,10 +2,11 @@ import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { encode as encodeBase64 } from 'https://deno.land/std@0.168.0/encoding/base64.ts';
 import { corsHeaders } from '../_shared/cors.ts';
 import { requireUserClient, AuthError } from '../_shared/userAuth.ts';
+import { createLlm, isLlmTimeout, llmErrorDetail, type LlmChatResult } from '../_shared/llm/index.ts';
+import { checkQuota, limitReachedBody, recordUsage } from '../_shared/quota/index.ts';
 
 const MAX_FILE_BYTES = 6 * 1024 * 1024; // 6MB
 const ALLOWED_MIMES = ['image/jpeg', 'image/png'];
-const OCR_TIMEOUT_MS = 25_000;
 const MIN_TEXT_LEN = 30;
 const MAX_TEXT_LEN = 8000;
 
@@ -54,7 +55,7 @@ serve(async (req) => {
   }
 
   try {
-    await requireUserClient(req);
+    const { userId, supabaseUser } = await requireUserClient(req);
 
     const contentType = req.headers.get('content-type') ?? '';
     if (!contentType.includes('multipart/form-data')) {
@@ -78,31 +79,27 @@ serve(async (req) => {
       return json({ error: 'File too large', detail: `Max size is ${MAX_FILE_BYTES / (1024 * 1024)}MB` }, 400);
     }
 
-    const openAiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openAiKey) {
+    const quota = await checkQuota(supabaseUser, userId, 'ocr');
+    if (!quota.allowed) {
+      return json(limitReachedBody(quota), 403);
+    }
+
+    const llm = createLlm('ai-ocr-hand');
+    if (!llm) {
       return json({ error: 'Missing OPENAI_API_KEY secret' }, 500);
     }
 
     const base64 = encodeBase64(bytes);
     const dataUrl = `data:${mime};base64,${base64}`;
 
-    const visionModel = Deno.env.get('OPENAI_VISION_MODEL') ?? 'gpt-4o-mini';
     const prompt =
       'Extract poker hand history text from this screenshot. Output ONLY plain text, no markdown. ' +
       'Preserve structure of streets, actions, and stack sizes if visible.';
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), OCR_TIMEOUT_MS);
-
-    const openaiRes = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      signal: controller.signal,
-      headers: {
-        Authorization: `Bearer ${openAiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: visionModel,
+    // Timeout and retries come from the function's LLM config (25s, one retry)
+    let completion: LlmChatResult;
+    try {
+      completion = await llm.chat({
         messages: [
           {
             role: 'user',
@@ -112,23 +109,22 @@ serve(async (req) => {
             ],
           },
         ],
-        max_tokens: 2000,
-      }),
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!openaiRes.ok) {
-      const errText = await openaiRes.text();
-      return json({ error: 'OpenAI request failed', detail: errText }, 502);
+        maxTokens: 2000,
+      });
+    } catch (e) {
+      if (isLlmTimeout(e)) {
+        return json({ error: 'OCR timeout', detail: 'Request took too long' }, 504);
+      }
+      return json({ error: 'OpenAI request failed', detail: llmErrorDetail(e) }, 502);
     }
 
-    const payload = await openaiRes.json();
-    let text = payload.choices?.[0]?.message?.content?.trim() ?? '';
+    let text = completion.text.trim();
     text = normalizeText(text);
 
     if (text.length < MIN_TEXT_LEN) {
       console.log('ocr_empty', { fileBytes: bytes.byteLength, textLen: text.length });
+      // Metered (the model was called) but not counted: the user gets another try
+      await recordUsage(supabaseUser, userId, 'ocr', 'ai-ocr-hand', llm, 0);
       return json(
         { error: 'ocr_empty', detail: 'OCR returned too little or empty text.' },
         422
@@ -143,6 +139,7 @@ serve(async (req) => {
 
     if (!looksLikePokerHandHistory(text)) {
       console.log('not_hand_history', { fileBytes: bytes.byteLength, textLen: text.length, truncated });
+      await recordUsage(supabaseUser, userId, 'ocr', 'ai-ocr-hand', llm, 0);
       return json(
         { error: 'not_hand_history', detail: "Screenshot doesn't look like poker hand history." },
         422
@@ -150,14 +147,12 @@ serve(async (req) => {
     }
 
     console.log('ocr_ok', { fileBytes: bytes.byteLength, textLen: text.length, truncated });
+    await recordUsage(supabaseUser, userId, 'ocr', 'ai-ocr-hand', llm);
     return json({ text, meta: { truncated } });
   } catch (err) {
     if (err instanceof AuthError) {
       return json(err.body, err.status);
     }
-    if (err instanceof Error && err.name === 'AbortError') {
-      return json({ error: 'OCR timeout', detail: 'Request took too long' }, 504);
-    }
     const msg = err instanceof Error ? err.message : String(err);
     return json({ error: 'internal', detail: msg }, 500);
   }
@@ -1,8 +1,10 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { corsHeaders } from '../_shared/cors.ts';
 import { requireUserClient, AuthError } from '../_shared/userAuth.ts';
+import { createLlm, isLlmTimeout, llmErrorDetail, type LlmChatResult } from '../_shared/llm/index.ts';
+import { cardsUnique, parseCardsFromString } from '../_shared/poker.ts';
+import { handHistoryToQuickForm, parseHandHistory } from '../_shared/handHistory.ts';
 
-const PARSE_TIMEOUT_MS = 15_000;
 const MAX_TEXT_LEN = 12_000;
 
 type HeroPos = 'BTN' | 'SB' | 'BB' | 'CO' | 'HJ' | 'UTG' | 'MP' | 'UNKNOWN';
@@ -24,11 +26,13 @@ type ParsedHand = {
   turn: string | null;
   river: string | null;
   board: ParsedBoard | null;
+  /** Only set by the deterministic parser ("AhKd"). */
+  hero_cards?: string | null;
 };
 
 const META_MSG_MAX = 120;
 type Confidence = 'LOW' | 'MEDIUM' | 'HIGH';
-type ParseMeta = { confidence: Confidence; source_message: string };
+type ParseMeta = { confidence: Confidence; source_message: string; parser?: 'deterministic' | 'llm' };
 
 function truncateMetaMsg(s: string): string {
   if (s.length <= META_MSG_MAX) return s;
@@ -179,38 +183,7 @@ function normalizeStakes(input: string | null | undefined): string | null {
   return s;
 }
 
-const RANKS = 'AKQJT98765432';
-const SUITS = 'shdc';
-
-/** Single card token → canonical "RankSuit" (e.g. "As", "Td") or null. */
-function normalizeCardToken(token: string): string | null {
-  if (!token || typeof token !== 'string') return null;
-  let s = token.trim().replace(/\s+/g, '');
-  s = s.replace(/♠/g, 's').replace(/♥/g, 'h').replace(/♦/g, 'd').replace(/♣/g, 'c');
-  s = s.replace(/10/gi, 'T');
-  s = s.replace(/[^AKQJT2-9shdc]/gi, '');
-  if (s.length < 2) return null;
-  const r = s[0].toUpperCase(), suit = s[1].toLowerCase();
-  if (!RANKS.includes(r) || !SUITS.includes(suit)) return null;
-  return r + suit;
-}
-
-/** Parse a string into canonical card array (handles "As 7d 2c", "A♠7♦2♣", "AS7D2C"). */
-function parseCardsFromString(s: string): string[] {
-  if (!s || typeof s !== 'string') return [];
-  let t = s.trim().replace(/\s+/g, '');
-  t = t.replace(/♠/g, 's').replace(/♥/g, 'h').replace(/♦/g, 'd').replace(/♣/g, 'c');
-  t = t.replace(/10/gi, 'T');
-  const cards: string[] = [];
-  const re = /([AKQJT2-9])([shdc])/gi;
-  let m: RegExpExecArray | null;
-  while ((m = re.exec(t)) !== null) {
-    cards.push(m[1].toUpperCase() + m[2].toLowerCase());
-  }
-  return cards;
-}
-
-/** Board input → canonical { flop, turn?, river? } or null. Invalid or river without turn → null. */
+/** Board input → canonical { flop, turn?, river? } or null. Invalid, duplicate cards or river without turn → null. */
 function normalizeBoard(
   input: string | { flop?: unknown; turn?: unknown; river?: unknown } | null | undefined,
 ): ParsedBoard | null {
@@ -218,6 +191,7 @@ function normalizeBoard(
 
   if (typeof input === 'string') {
     const cards = parseCardsFromString(input);
+    if (!cardsUnique(cards)) return null;
     if (cards.length === 3) {
       return { flop: cards[0] + cards[1] + cards[2], turn: null, river: null };
     }
@@ -242,6 +216,7 @@ function normalizeBoard(
   const turnCards = parseCardsFromString(turnStr);
   const riverCards = parseCardsFromString(riverStr);
   if (riverCards.length > 0 && turnCards.length === 0) return null;
+  if (!cardsUnique([...flopCards, turnCards[0], riverCards[0]])) return null;
 
   return {
     flop: flopCards[0] + flopCards[1] + flopCards[2],
@@ -312,6 +287,33 @@ function parseAndValidate(raw: unknown): ParseResult {
   };
 }
 
+/**
+ * Native PokerStars / GG / Pokerok hand-history parse. Returns null when the text is not a recognized
+ * hand history or the parse confidence is LOW — the caller then falls back to the LLM extractor.
+ */
+function parseDeterministic(text: string): { hand: ParsedHand; meta: ParseMeta } | null {
+  const hh = parseHandHistory(text);
+  if (!hh) return null;
+  const qf = handHistoryToQuickForm(hh);
+  if (qf.confidence === 'LOW' || !qf.hand.preflop) return null;
+  const hand: ParsedHand = {
+    game: normalizeGame(qf.hand.game),
+    stakes: normalizeStakes(qf.hand.stakes),
+    hero_pos: normalizeHeroPos(qf.hand.hero_pos),
+    effective_stack_bb: qf.hand.effective_stack_bb,
+    preflop: qf.hand.preflop,
+    flop: qf.hand.flop,
+    turn: qf.hand.turn,
+    river: qf.hand.river,
+    board: normalizeBoard(qf.hand.board),
+    hero_cards: qf.hand.hero_cards,
+  };
+  return {
+    hand,
+    meta: { confidence: qf.confidence, source_message: truncateMetaMsg(qf.source_message), parser: 'deterministic' },
+  };
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { status: 204, headers: corsHeaders });
@@ -341,8 +343,13 @@ serve(async (req) => {
       text = text.slice(0, MAX_TEXT_LEN);
     }
 
-    const openAiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openAiKey) {
+    const deterministic = parseDeterministic(text);
+    if (deterministic) {
+      return json({ ok: true, hand: deterministic.hand, meta: deterministic.meta });
+    }
+
+    const llm = createLlm('ai-parse-hand-text');
+    if (!llm) {
       return json({ error: 'Missing OPENAI_API_KEY secret', detail: 'Server configuration error' }, 500);
     }
 
@@ -366,37 +373,25 @@ Success format:
 Failure format (when unsure or not hand history). Include meta with a short reason about recognition quality only (e.g. "no preflop action", "not hand history", "missing hero position"), no invented details:
 {"ok":false,"error":"unparseable","meta":{"confidence":"LOW","source_message":"short reason <=120 chars"}}`;
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), PARSE_TIMEOUT_MS);
-
-    const completion = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      signal: controller.signal,
-      headers: {
-        Authorization: `Bearer ${openAiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: Deno.env.get('OPENAI_CHAT_MODEL') ?? 'gpt-4o-mini',
+    let completion: LlmChatResult;
+    try {
+      completion = await llm.chat({
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: text },
         ],
-        max_tokens: 800,
+        maxTokens: 800,
         temperature: 0.1,
-      }),
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!completion.ok) {
-      const errText = await completion.text();
-      console.error('OpenAI parse-hand error', completion.status, errText);
+      });
+    } catch (e) {
+      if (isLlmTimeout(e)) {
+        return json({ error: 'timeout', detail: 'Parse request took too long' }, 504);
+      }
+      console.error('LLM parse-hand error', llmErrorDetail(e));
       return json({ ok: false, error: 'unparseable', meta: defaultErrorMeta('model request failed') });
     }
 
-    const payload = await completion.json();
-    let content = payload.choices?.[0]?.message?.content?.trim() ?? '';
+    let content = completion.text.trim();
     content = content.replace(/^\s*```[\w]*\s*\n?/i, '').replace(/\n?\s*```\s*$/i, '').trim();
 
     let parsed: unknown;
@@ -412,13 +407,16 @@ Failure format (when unsure or not hand history). Include meta with a short reas
       return json({
         ok: true,
         hand: result.hand,
-        meta: buildMetaFromHand(
-          result.hand,
-          result.rawHeroPos,
-          result.rawGame,
-          result.rawStakes,
-          result.rawBoard,
-        ),
+        meta: {
+          ...buildMetaFromHand(
+            result.hand,
+            result.rawHeroPos,
+            result.rawGame,
+            result.rawStakes,
+            result.rawBoard,
+          ),
+          parser: 'llm',
+        },
       });
     }
     const msg = result.source_message || 'could not parse hand history';
@@ -427,9 +425,6 @@ Failure format (when unsure or not hand history). Include meta with a short reas
     if (err instanceof AuthError) {
       return json(err.body, err.status);
     }
-    if (err instanceof Error && err.name === 'AbortError') {
-      return json({ error: 'timeout', detail: 'Parse request took too long' }, 504);
-    }
     const msg = err instanceof Error ? err.message : String(err);
     console.error('ai-parse-hand-text', msg);
     return json({ error: 'internal', detail: msg }, 500);
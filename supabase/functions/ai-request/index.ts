@@ -1,6 +1,8 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { corsHeaders } from '../_shared/cors.ts';
 import { requireUserClient, AuthError } from '../_shared/userAuth.ts';
+import { createLlm, llmErrorDetail, type LlmChatResult } from '../_shared/llm/index.ts';
+import { checkQuota, limitReachedBody, recordUsage } from '../_shared/quota/index.ts';
 
 type CoachStyle = 'toxic' | 'mental' | 'math';
 
@@ -122,37 +124,17 @@ serve(async (req) => {
         return json({ error: 'no_file' }, 400);
       }
 
-      const openAiKey = Deno.env.get('OPENAI_API_KEY');
-      if (!openAiKey) return json({ error: 'Missing OPENAI_API_KEY secret' }, 500);
+      const llm = createLlm('ai-request');
+      if (!llm) return json({ error: 'Missing OPENAI_API_KEY secret' }, 500);
 
       // Convert file to buffer for Whisper
       const audioBuffer = await file.arrayBuffer();
 
-      // Transcribe using OpenAI Whisper
-      const formDataWhisper = new FormData();
-      formDataWhisper.append('file', new File([audioBuffer], 'voice.m4a', { type: 'audio/m4a' }));
-      formDataWhisper.append('model', 'whisper-1');
-
-      const whisperRes = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${openAiKey}`,
-        },
-        body: formDataWhisper,
-      });
-
-      if (!whisperRes.ok) {
-        const errText = await whisperRes.text();
-        return json({ error: 'Whisper transcription failed', detail: errText }, 502);
-      }
-
-      const whisperBody = await whisperRes.text();
       let transcribedText = '';
       try {
-        const parsed = JSON.parse(whisperBody) as { text?: string };
-        transcribedText = typeof parsed?.text === 'string' ? parsed.text : '';
-      } catch {
-        transcribedText = whisperBody.trim();
+        transcribedText = await llm.transcribe(new File([audioBuffer], 'voice.m4a', { type: 'audio/m4a' }), 'voice.m4a');
+      } catch (e) {
+        return json({ error: 'Whisper transcription failed', detail: llmErrorDetail(e) }, 502);
       }
 
       if (!transcribedText.trim()) {
@@ -178,46 +160,43 @@ serve(async (req) => {
       return json({ error: 'Invalid JSON body', detail: msg }, 400);
     }
 
-    const openAiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openAiKey) return json({ error: 'Missing OPENAI_API_KEY secret' }, 500);
-
-    const model = Deno.env.get('OPENAI_MODEL') ?? 'gpt-4o-mini';
+    const llm = createLlm('ai-request');
+    if (!llm) return json({ error: 'Missing OPENAI_API_KEY secret' }, 500);
 
     // Handle coach_chat mode
     if ('mode' in body && body.mode === 'coach_chat') {
+      const quota = await checkQuota(supabaseUser, userId, 'coach_message');
+      if (!quota.allowed) return json(limitReachedBody(quota), 403);
+
       const coachStyle = body.coach_style || 'MENTAL';
       const systemPrompt = buildCoachChatSystemPrompt(coachStyle, body.system_context);
 
-      const openaiRes = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${openAiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model,
+      let completion: LlmChatResult;
+      try {
+        completion = await llm.chat({
           messages: [
             { role: 'system', content: systemPrompt },
             { role: 'user', content: body.message },
           ],
           temperature: 0.7,
-          max_tokens: 1000,
-        }),
-      });
-
-      if (!openaiRes.ok) {
-        const errText = await openaiRes.text();
-        return json({ error: 'OpenAI request failed', detail: errText }, 502);
+          maxTokens: 1000,
+          task: 'coach_chat',
+        });
+      } catch (e) {
+        return json({ error: 'OpenAI request failed', detail: llmErrorDetail(e) }, 502);
       }
 
-      const payload = await openaiRes.json();
-      const reply = payload.choices?.[0]?.message?.content || 'Нет ответа от тренера';
+      const reply = completion.text || 'Нет ответа от тренера';
+      await recordUsage(supabaseUser, userId, 'coach_message', 'ai-request', llm);
 
       return json({ reply } as CoachChatResponse);
     }
 
     // Handle analyze_hand (original logic)
     if ('kind' in body && body.kind === 'analyze_hand') {
+      const quota = await checkQuota(supabaseUser, userId, 'hand_analysis');
+      if (!quota.allowed) return json(limitReachedBody(quota), 403);
+
       const system = buildSystemPrompt(body.profile.coachStyle, body.profile);
       const user = {
         profile: body.profile,
@@ -253,43 +232,28 @@ serve(async (req) => {
         required: ['action', 'confidence', 'why', 'strategyNext', 'mistakesToAvoid', 'drill'],
       };
 
-      const openaiRes = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${openAiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model,
+      let completion: LlmChatResult;
+      try {
+        completion = await llm.chat({
           messages: [
             { role: 'system', content: system },
             { role: 'user', content: JSON.stringify(user) },
           ],
-          response_format: {
-            type: 'json_schema',
-            json_schema: {
-              name: 'poker_coach_response',
-              schema,
-              strict: true,
-            },
-          },
+          jsonSchema: { name: 'poker_coach_response', schema },
           user: userId,
-        }),
-      });
-
-      if (!openaiRes.ok) {
-        const errText = await openaiRes.text();
-        return json({ error: 'OpenAI request failed', detail: errText }, 502);
+        });
+      } catch (e) {
+        return json({ error: 'OpenAI request failed', detail: llmErrorDetail(e) }, 502);
       }
 
-      const payload = await openaiRes.json();
-      const text = payload.choices?.[0]?.message?.content;
+      const text = completion.text;
 
       if (!text) {
         return json({ error: 'OpenAI returned empty response' }, 502);
       }
 
       const parsed: CoachResponse = JSON.parse(text);
+      await recordUsage(supabaseUser, userId, 'hand_analysis', 'ai-request', llm);
 
       return json(parsed);
     }
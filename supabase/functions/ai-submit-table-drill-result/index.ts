@@ -1,7 +1,14 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
 import { corsHeaders } from '../_shared/cors.ts';
 import { enforceAllowedLeakTag } from '../_shared/leaks.ts';
 import { requireUserClient, AuthError } from '../_shared/userAuth.ts';
+import { gradeFromAnswer, scheduleReview } from '../_shared/srs.ts';
+import { evSpotFromScenario, gradeByEv, type EvGrade } from '../_shared/ev.ts';
+import { PREFLOP_ACTIONS, gradePreflopHand, isPreflopAnswerCorrect, parsePreflopChart, type PreflopAction } from '../_shared/preflopCharts.ts';
+import { PUSH_FOLD_ACTIONS, gradePushFold, parsePushFoldSpot, type PushFoldAction } from '../_shared/icm.ts';
+import { parseMultiStreetHand, stepScenario } from '../_shared/multiStreet.ts';
+import { verifyScenarioToken } from '../_shared/scenarioToken.ts';
 
 const VALID_ACTIONS = ['fold', 'call', 'raise'] as const;
 type UserAction = (typeof VALID_ACTIONS)[number];
@@ -23,8 +30,29 @@ function normalizeMistakeReason(
   return 'unknown';
 }
 
-/** Interval days by repetition index: 1,2,3,5,8,13,14 capped */
-const INTERVAL_DAYS = [1, 2, 3, 5, 8, 13, 14];
+/** Latencies above this are treated as "left the app open", not as a slow answer. */
+const MAX_LATENCY_MS = 10 * 60 * 1000;
+
+/** Offline answers older than this are replayed with the current time instead of answered_at. */
+const MAX_ANSWER_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * A user's answers move a hand_library row's difficulty at most once per this window (same as get_training_hand's
+ * default p_exclude_days), so replaying one hand cannot push its rating.
+ */
+const LIBRARY_RATING_WINDOW_DAYS = 7;
+
+/** Time the answer was given: answered_at from an offline replay when plausible, otherwise now. */
+function resolveAnsweredAt(value: unknown): string {
+  const nowMs = Date.now();
+  const ms = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (!Number.isFinite(ms) || ms > nowMs + 60_000 || nowMs - ms > MAX_ANSWER_AGE_MS) {
+    return new Date(nowMs).toISOString();
+  }
+  return new Date(Math.min(ms, nowMs)).toISOString();
+}
 
 type TableDrillScenario = {
   game?: string;
@@ -39,7 +67,23 @@ type TableDrillScenario = {
   correct_action?: 'fold' | 'call' | 'raise';
   correct_option?: string;
   explanation: string;
-  drill_type?: 'action_decision' | 'raise_sizing';
+  drill_type?: 'action_decision' | 'raise_sizing' | 'preflop_range' | 'push_fold';
+  /** preflop_range: chart key (format, stack_bb, hero_pos, opener_pos); graded against preflop_charts, not correct_action. */
+  format?: string;
+  stack_bb?: number;
+  opener_pos?: string | null;
+  /** push_fold: the table (format, positions, stacks_bb, payouts, ante_bb, call_pct); graded by ICM, not correct_action. */
+  push_fold?: Record<string, unknown>;
+  /**
+   * Set when the scenario came from hand_library: the answer is graded against the stored row (the fields sent here
+   * are ignored) and the row's difficulty rating is updated with the user's.
+   */
+  hand_library_id?: string;
+  /** Signed grading fields of a generated scenario (_shared/scenarioToken.ts). */
+  grading_token?: string;
+  /** Villain's exact hand; with villain_range, enables EV grading (_shared/ev.ts) of a library or signed scenario. */
+  villain_cards?: string[];
+  villain_range?: string;
   [k: string]: unknown;
 };
 
@@ -50,11 +94,23 @@ type SubmitRequest = {
   mistake_reason?: string;
   drill_queue_id?: string;
   scenario?: TableDrillScenario;
-  /** User's choice: fold | call | raise for action_decision, or 2.5x | 3x | overbet for raise_sizing. Use this field only. */
-  user_action?: UserAction | RaiseSizingOption;
+  /** User's choice: fold | call | raise for action_decision, 2.5x | 3x | overbet for raise_sizing, open | 3bet | call | fold for preflop_range, shove | fold for push_fold. Use this field only. */
+  user_action?: UserAction | RaiseSizingOption | PreflopAction | PushFoldAction;
   /** @deprecated Use user_action. Accepted only as fallback; we write to user_action in DB. */
-  user_answer?: UserAction | RaiseSizingOption;
-  drill_type?: 'action_decision' | 'raise_sizing';
+  user_answer?: UserAction | RaiseSizingOption | PreflopAction | PushFoldAction;
+  drill_type?: 'action_decision' | 'raise_sizing' | 'preflop_range' | 'push_fold';
+  /** Raise-to size for user_action = raise (bet size when checked to); used by EV grading. */
+  raise_size_bb?: number;
+  /** Time from the scenario being shown to the answer, ms. Feeds the review grade. */
+  latency_ms?: number;
+  /** Device-generated UUID per answer; a submission with an id already stored returns the stored result. */
+  client_event_id?: string;
+  /** ISO time of the answer when replayed from the offline outbox. */
+  answered_at?: string;
+  /** Multi-street drill: shared id of the hand's decisions, this decision's index and the number of decisions. */
+  hand_id?: string;
+  step_index?: number;
+  step_count?: number;
 };
 
 function json(data: unknown, status = 200) {
@@ -68,15 +124,56 @@ function err(error: string, detail?: string, status = 400) {
   return json({ error, ...(detail ? { detail } : {}) }, status);
 }
 
-/** Call rpc_update_skill_rating if leak_tag is non-empty; return skill_rating payload or null. */
+function createServiceClient() {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !serviceRoleKey) {
+    console.error('ai-submit-table-drill-result: missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+    return null;
+  }
+  return createClient(supabaseUrl, serviceRoleKey);
+}
+
+/**
+ * Grading fields of a trusted scenario (hand_library row or signed generated scenario): answer, villain cards or
+ * range, pot and stack, or for a multi-street hand the step being answered. The client's copies are then ignored.
+ */
+function trustedGradingScenario(row: Record<string, unknown>, stepIndex: number | null): TableDrillScenario {
+  const hand = parseMultiStreetHand(row);
+  const index = stepIndex ?? 0;
+  if (hand && index < hand.steps.length) return { ...row, ...stepScenario(hand, index) } as TableDrillScenario;
+  return row as TableDrillScenario;
+}
+
+/** Response for a client_event_id that was already stored: nothing is applied twice. */
+function duplicateResponse(existing: { id: string; is_correct: boolean | null }, scenario: TableDrillScenario) {
+  return {
+    ok: true,
+    duplicate: true,
+    correct: existing.is_correct === true,
+    explanation: scenario.explanation ?? '',
+    training_event_id: existing.id,
+  };
+}
+
+/**
+ * Call rpc_update_skill_rating if leak_tag is non-empty; return skill_rating payload or null.
+ * The RPC also moves the shared hand_library difficulty, so it is executable only by the service role (migration 042);
+ * handLibraryId is passed only for an answer graded against the stored row.
+ */
 async function updateSkillRatingIfAllowed(
-  supabaseUser: { rpc: (name: string, params: Record<string, unknown>) => Promise<{ data: unknown; error: unknown }> },
+  supabaseService: any,
+  userId: string,
   leakTag: string,
   isCorrect: boolean,
   practicedAt: string,
+  handLibraryId: string | null,
+  score: number | null,
 ): Promise<{
   leak_tag: string;
   rating: number;
+  glicko_rating: number;
+  rating_rd: number;
   streak_correct: number;
   attempts_7d: number;
   correct_7d: number;
@@ -86,15 +183,20 @@ async function updateSkillRatingIfAllowed(
   total_correct: number;
   last_practice_at: string | null;
   last_mistake_at: string | null;
+  ev_loss_30d: number | null;
 } | null> {
   if (leakTag == null || String(leakTag).trim() === '') {
     return null;
   }
+  if (!supabaseService) return null;
   try {
-    const { data: row, error } = await supabaseUser.rpc('rpc_update_skill_rating', {
+    const { data: row, error } = await supabaseService.rpc('rpc_update_skill_rating', {
+      p_user_id: userId,
       p_leak_tag: leakTag,
       p_is_correct: isCorrect,
       p_practiced_at: practicedAt,
+      p_hand_library_id: handLibraryId,
+      p_score: score,
     });
     if (error || row == null) {
       console.error('rpc_update_skill_rating failed:', error);
@@ -104,6 +206,8 @@ async function updateSkillRatingIfAllowed(
     return {
       leak_tag: String(r.leak_tag ?? leakTag),
       rating: Number(r.rating ?? 50),
+      glicko_rating: Number(r.glicko_rating ?? 1500),
+      rating_rd: Number(r.rating_rd ?? 350),
       streak_correct: Number(r.streak_correct ?? 0),
       attempts_7d: Number(r.attempts_7d ?? 0),
       correct_7d: Number(r.correct_7d ?? 0),
@@ -113,6 +217,7 @@ async function updateSkillRatingIfAllowed(
       total_correct: Number(r.total_correct ?? 0),
       last_practice_at: r.last_practice_at != null ? String(r.last_practice_at) : null,
       last_mistake_at: r.last_mistake_at != null ? String(r.last_mistake_at) : null,
+      ev_loss_30d: r.ev_loss_30d != null ? Number(r.ev_loss_30d) : null,
     };
   } catch (e) {
     console.error('updateSkillRatingIfAllowed error:', e);
@@ -160,19 +265,97 @@ serve(async (req) => {
       return json({ ok: true });
     }
 
-    const { drill_queue_id, scenario, user_action: bodyUserActionRaw, user_answer: bodyUserAnswer, drill_type: bodyDrillType, mistake_reason: bodyMistakeReason } = body;
+    const { drill_queue_id, scenario, user_action: bodyUserActionRaw, user_answer: bodyUserAnswer, drill_type: bodyDrillType, mistake_reason: bodyMistakeReason, latency_ms: bodyLatencyMs, client_event_id: bodyClientEventId, answered_at: bodyAnsweredAt, hand_id: bodyHandId, step_index: bodyStepIndex, step_count: bodyStepCount, raise_size_bb: bodyRaiseSizeBb } = body;
     // Схема БД training_events: только user_action и correct_action. user_answer не пишем.
     const bodyUserAction = bodyUserActionRaw ?? bodyUserAnswer;
     if (!drill_queue_id || !scenario) {
       return err('Missing required fields: drill_queue_id, scenario');
     }
 
+    const clientEventId = bodyClientEventId && UUID_RE.test(bodyClientEventId) ? bodyClientEventId : null;
+    const handId = bodyHandId && UUID_RE.test(bodyHandId) ? bodyHandId : null;
+    const handLibraryId = typeof scenario.hand_library_id === 'string' && UUID_RE.test(scenario.hand_library_id) ? scenario.hand_library_id : null;
+    const stepIndex = handId && Number.isInteger(bodyStepIndex) && bodyStepIndex! >= 0 ? bodyStepIndex! : null;
+    const stepCount = handId && Number.isInteger(bodyStepCount) && bodyStepCount! > 0 ? bodyStepCount! : null;
+    // Decisions before the last one of a multi-street hand are recorded and rated but do not reschedule the drill.
+    const handContinues = stepIndex != null && stepCount != null && stepIndex < stepCount - 1;
+
+    // A library scenario is graded against the stored row: the client's copy only says which row and step it was.
+    const supabaseService = createServiceClient();
+    let libraryScenario: TableDrillScenario | null = null;
+    if (handLibraryId && supabaseService) {
+      const { data: libraryRow, error: libraryError } = await supabaseService
+        .from('hand_library')
+        .select('*')
+        .eq('id', handLibraryId)
+        .maybeSingle();
+      if (libraryError) console.error('hand_library select failed:', libraryError);
+      if (libraryRow) libraryScenario = trustedGradingScenario(libraryRow, stepIndex);
+    }
+    // A generated scenario is graded against the fields ai-generate-table-drill signed into grading_token.
+    let signedScenario: TableDrillScenario | null = null;
+    const signingSecret = Deno.env.get('SCENARIO_SIGNING_SECRET') ?? Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!libraryScenario && scenario.grading_token && signingSecret) {
+      const signed = await verifyScenarioToken(scenario.grading_token, signingSecret);
+      if (signed) signedScenario = trustedGradingScenario(signed, stepIndex);
+    }
+    const trustedScenario = libraryScenario ?? signedScenario;
+    // Unsigned scenarios (older clients, offline replays) keep the binary grade and move only the user's own rating.
+    const grading = trustedScenario ?? scenario;
+
     const drillType = bodyDrillType ?? scenario.drill_type ?? 'action_decision';
     let userAction: string;
     let correctAction: string;
-
-    if (drillType === 'raise_sizing') {
-      const correctOption = scenario.correct_option;
+    /** preflop_range: set from the chart (a mixed hand accepts more than one action). */
+    let preflopCorrect: boolean | null = null;
+    /** push_fold: set from the ICM grade (a close spot accepts both actions). */
+    let pushFoldCorrect: boolean | null = null;
+    /** action_decision with the villain's cards or range: graded by EV loss instead of the stored correct_action. */
+    let evGrade: EvGrade | null = null;
+    let explanation = grading.explanation ?? '';
+
+    if (drillType === 'preflop_range') {
+      const ua = bodyUserAction;
+      if (!ua || !PREFLOP_ACTIONS.includes(ua as PreflopAction)) {
+        return err('user_action must be one of open, 3bet, call, fold for preflop_range');
+      }
+      // Graded only against the stored chart: the client's scenario supplies the spot, never the answer.
+      const { data: chartRow, error: chartError } = await supabaseUser
+        .from('preflop_charts')
+        .select('format, stack_bb, hero_pos, opener_pos, raise_range, call_range')
+        .eq('format', String(scenario.format ?? ''))
+        .eq('stack_bb', Number(scenario.stack_bb))
+        .eq('hero_pos', String(scenario.hero_pos ?? '').toUpperCase())
+        .eq('opener_pos', String(scenario.opener_pos ?? '').toUpperCase())
+        .maybeSingle();
+      const chart = chartRow ? parsePreflopChart(chartRow) : null;
+      const grade = chart && Array.isArray(scenario.hero_cards) ? gradePreflopHand(chart, scenario.hero_cards) : null;
+      if (!grade) {
+        return err('preflop chart not found for scenario', chartError?.message);
+      }
+      userAction = ua;
+      correctAction = grade.correct_action;
+      preflopCorrect = isPreflopAnswerCorrect(grade, ua);
+      explanation = grade.explanation;
+    } else if (drillType === 'push_fold') {
+      const ua = bodyUserAction;
+      if (!ua || !PUSH_FOLD_ACTIONS.includes(ua as PushFoldAction)) {
+        return err('user_action must be one of shove, fold for push_fold');
+      }
+      // Re-graded here from the table: the client's accepted actions are never trusted.
+      const spot = scenario.push_fold
+        ? parsePushFoldSpot({ ...scenario.push_fold, hero_pos: scenario.hero_pos, hero_cards: scenario.hero_cards })
+        : null;
+      const grade = spot ? gradePushFold(spot) : null;
+      if (!grade) {
+        return err('scenario.push_fold is not a valid push/fold table');
+      }
+      userAction = ua;
+      correctAction = grade.correct_action;
+      pushFoldCorrect = grade.accepted.includes(ua as PushFoldAction);
+      explanation = grade.explanation;
+    } else if (drillType === 'raise_sizing') {
+      const correctOption = grading.correct_option;
       if (!correctOption || !RAISE_SIZING_OPTIONS.includes(correctOption as RaiseSizingOption)) {
         return err('scenario.correct_option must be one of 2.5x, 3x, overbet');
       }
@@ -183,21 +366,37 @@ serve(async (req) => {
       userAction = ua;
       correctAction = correctOption;
     } else {
-      const scenarioCorrectAction = scenario.correct_action;
-      if (!scenarioCorrectAction || !VALID_ACTIONS.includes(scenarioCorrectAction as UserAction)) {
-        return err('scenario.correct_action must be one of fold, call, raise');
-      }
       const ua = bodyUserAction;
       if (!ua || !VALID_ACTIONS.includes(ua as UserAction)) {
         return err('user_action must be one of fold, call, raise');
       }
+      // EV inputs (villain cards or range, pot, stack, bet) come only from a trusted scenario; the request supplies
+      // just the action and raise size.
+      const evSpot = trustedScenario ? evSpotFromScenario(trustedScenario) : null;
+      evGrade = evSpot ? gradeByEv(evSpot, ua, typeof bodyRaiseSizeBb === 'number' ? bodyRaiseSizeBb : null) : null;
+      const scenarioCorrectAction = evGrade?.best_action ?? grading.correct_action;
+      if (!scenarioCorrectAction || !VALID_ACTIONS.includes(scenarioCorrectAction as UserAction)) {
+        return err('scenario.correct_action must be one of fold, call, raise');
+      }
       userAction = ua;
       correctAction = scenarioCorrectAction;
     }
 
+    if (clientEventId) {
+      const { data: existing } = await supabaseUser
+        .from('training_events')
+        .select('id, is_correct')
+        .eq('user_id', userId)
+        .eq('client_event_id', clientEventId)
+        .maybeSingle();
+      if (existing?.id) {
+        return json(duplicateResponse(existing, scenario));
+      }
+    }
+
     const { data: queueRow, error: selectError } = await supabaseUser
       .from('drill_queue')
-      .select('id, user_id, leak_tag, repetition')
+      .select('id, user_id, leak_tag, repetition, stability, difficulty, lapses, last_reviewed_at')
       .eq('id', drill_queue_id)
       .single();
 
@@ -205,12 +404,13 @@ serve(async (req) => {
       return err('drill_queue not found or access denied', selectError?.message, 404);
     }
 
-    const correct = userAction === correctAction;
+    // A close EV answer is not a mistake; only blunders count against is_correct.
+    const correct = preflopCorrect ?? pushFoldCorrect ?? (evGrade ? evGrade.band !== 'blunder' : userAction === correctAction);
     const leak_tag = queueRow.leak_tag ?? 'fundamentals';
     const enforcedLeakTag = enforceAllowedLeakTag(leak_tag) ?? 'fundamentals';
     const mistake_reason = normalizeMistakeReason(bodyMistakeReason, correct);
 
-    const now = new Date().toISOString();
+    const now = resolveAnsweredAt(bodyAnsweredAt);
 
     // Схема БД (training_events): только user_action и correct_action.
     const insertPayload: Record<string, unknown> = {
@@ -223,6 +423,14 @@ serve(async (req) => {
       leak_tag: enforcedLeakTag,
       drill_type: drillType,
       mistake_reason: mistake_reason,
+      client_event_id: clientEventId,
+      hand_id: handId,
+      step_index: stepIndex,
+      hand_library_id: handLibraryId,
+      ev_loss_bb: evGrade?.ev_loss_bb ?? null,
+      ev_band: evGrade?.band ?? null,
+      action_evs: evGrade?.ev ?? null,
+      created_at: now,
     };
     const { data: insertedEvent, error: insertError } = await supabaseUser
       .from('training_events')
@@ -230,74 +438,128 @@ serve(async (req) => {
       .select('id')
       .single();
 
+    if (insertError?.code === '23505' && clientEventId) {
+      // Same answer replayed concurrently: the other request already applied it.
+      const { data: existing } = await supabaseUser
+        .from('training_events')
+        .select('id, is_correct')
+        .eq('user_id', userId)
+        .eq('client_event_id', clientEventId)
+        .maybeSingle();
+      if (existing?.id) return json(duplicateResponse(existing, scenario));
+    }
+
     if (insertError || !insertedEvent?.id) {
       console.error('training_events insert failed:', insertError);
       return json({ error: 'Failed to save training event', detail: insertError?.message }, 500);
     }
 
     const eventId = insertedEvent.id;
-    const repetition = (queueRow.repetition ?? 0) | 0;
-
-    if (correct) {
-      const newRep = repetition + 1;
-      const daysIndex = Math.min(newRep - 1, INTERVAL_DAYS.length - 1);
-      const days = INTERVAL_DAYS[daysIndex] ?? 14;
-      const nextDue = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
-
+    const latencyMs = typeof bodyLatencyMs === 'number' && bodyLatencyMs > 0 && bodyLatencyMs <= MAX_LATENCY_MS
+      ? Math.round(bodyLatencyMs)
+      : null;
+    // The drill is scheduled once per hand: a mistake on any street counts as a lapse.
+    let handCorrect = correct;
+    if (handId && !handContinues) {
+      const { data: handEvents } = await supabaseUser
+        .from('training_events')
+        .select('is_correct')
+        .eq('user_id', userId)
+        .eq('hand_id', handId);
+      handCorrect = (handEvents ?? []).every((e: { is_correct: boolean | null }) => e.is_correct === true);
+    }
+    // A close EV answer is at most "hard" for the review schedule.
+    const answerGrade = gradeFromAnswer(handCorrect, latencyMs);
+    const grade = evGrade?.band === 'close' ? (Math.min(answerGrade, 2) as typeof answerGrade) : answerGrade;
+    const outcome = scheduleReview(
+      {
+        stability: queueRow.stability ?? null,
+        difficulty: queueRow.difficulty ?? null,
+        last_reviewed_at: queueRow.last_reviewed_at ?? null,
+        repetition: (queueRow.repetition ?? 0) | 0,
+        lapses: (queueRow.lapses ?? 0) | 0,
+      },
+      grade,
+      new Date(now),
+    );
+
+    // An older offline answer must not overwrite a schedule set by a newer review (e.g. from another device).
+    const supersededByNewerReview =
+      queueRow.last_reviewed_at != null && Date.parse(queueRow.last_reviewed_at) > Date.parse(now);
+    if (!supersededByNewerReview && !handContinues) {
       const { error: updateError } = await supabaseUser
         .from('drill_queue')
         .update({
-          repetition: newRep,
-          status: 'scheduled',
-          due_at: nextDue,
-          last_score: 100,
+          repetition: outcome.repetition,
+          status: outcome.status,
+          due_at: outcome.due_at,
+          stability: outcome.stability,
+          difficulty: outcome.difficulty,
+          lapses: outcome.lapses,
+          last_reviewed_at: now,
+          last_latency_ms: latencyMs,
+          last_grade: grade,
+          last_score: handCorrect ? 100 : 0,
           last_drill_id: eventId,
-          updated_at: now,
+          updated_at: new Date().toISOString(),
         })
         .eq('id', drill_queue_id);
 
       if (updateError) {
-        console.error('drill_queue update (correct) failed:', updateError);
+        console.error('drill_queue update failed:', updateError);
       }
-
-      const baseResponse = {
-        ok: true,
-        correct: true,
-        explanation: scenario.explanation ?? '',
-        next_due_at: nextDue,
-        repetition: newRep,
-        training_event_id: eventId,
-      };
-      const skillRating = await updateSkillRatingIfAllowed(supabaseUser, enforcedLeakTag, correct, now);
-      return json(skillRating != null ? { ...baseResponse, skill_rating: skillRating } : baseResponse);
-    }
-
-    const dueAtIn10Min = new Date(Date.now() + 10 * 60 * 1000).toISOString();
-    const { error: updateError } = await supabaseUser
-      .from('drill_queue')
-      .update({
-        repetition: 0,
-        status: 'due',
-        due_at: dueAtIn10Min,
-        last_score: 0,
-        last_drill_id: eventId,
-        updated_at: now,
-      })
-      .eq('id', drill_queue_id);
-
-    if (updateError) {
-      console.error('drill_queue update (incorrect) failed:', updateError);
     }
 
     const baseResponse = {
       ok: true,
-      correct: false,
-      explanation: scenario.explanation ?? '',
-      next_due_at: dueAtIn10Min,
-      repetition: 0,
+      correct,
+      explanation,
+      ...(handContinues
+        ? {}
+        : {
+          next_due_at: outcome.due_at,
+          repetition: outcome.repetition,
+          grade,
+          interval_days: outcome.interval_days,
+          stability: outcome.stability,
+          difficulty: outcome.difficulty,
+        }),
+      ...(handId ? { hand_id: handId, hand_complete: !handContinues, hand_correct: handCorrect } : {}),
+      ...(evGrade
+        ? {
+          ev_band: evGrade.band,
+          ev_loss_bb: evGrade.ev_loss_bb,
+          best_action: evGrade.best_action,
+          action_evs: evGrade.ev,
+          hero_equity: evGrade.hero_equity,
+          raise_to_bb: evGrade.raise_to_bb,
+        }
+        : {}),
       training_event_id: eventId,
     };
-    const skillRating = await updateSkillRatingIfAllowed(supabaseUser, enforcedLeakTag, correct, now);
+    // The library row's difficulty moves once per user and hand within the window (first decision of a multi-street hand)
+    let ratedLibraryId: string | null = null;
+    if (libraryScenario && handLibraryId) {
+      const since = new Date(Date.now() - LIBRARY_RATING_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      const { count, error: countError } = await supabaseUser
+        .from('training_events')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('hand_library_id', handLibraryId)
+        .gte('created_at', since)
+        .neq('id', eventId);
+      if (countError) console.error('training_events count failed:', countError);
+      ratedLibraryId = !countError && count === 0 ? handLibraryId : null;
+    }
+    const skillRating = await updateSkillRatingIfAllowed(
+      supabaseService,
+      userId,
+      enforcedLeakTag,
+      correct,
+      now,
+      ratedLibraryId,
+      evGrade?.score ?? null,
+    );
     return json(skillRating != null ? { ...baseResponse, skill_rating: skillRating } : baseResponse);
   } catch (e) {
     if (e instanceof AuthError) {
@@ -1,6 +1,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { corsHeaders } from '../_shared/cors.ts';
 import { requireUserClient, AuthError } from '../_shared/userAuth.ts';
+import { createLlm, llmErrorDetail, type LlmChatResult } from '../_shared/llm/index.ts';
 
 type SummarizeBody = {
   thread_id: string;
@@ -33,30 +34,6 @@ function json(data: unknown, status = 200) {
   });
 }
 
-async function getEmbedding(openAiKey: string, text: string): Promise<number[]> {
-  const res = await fetch('https://api.openai.com/v1/embeddings', {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${openAiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'text-embedding-ada-002',
-      input: text.slice(0, 8000),
-    }),
-  });
-  if (!res.ok) {
-    const errText = await res.text();
-    throw new Error(`Embedding failed: ${errText}`);
-  }
-  const data = (await res.json()) as { data?: Array<{ embedding?: number[] }> };
-  const embedding = data.data?.[0]?.embedding;
-  if (!Array.isArray(embedding) || embedding.length !== 1536) {
-    throw new Error('Invalid embedding response');
-  }
-  return embedding;
-}
-
 function mergeMessageIds(a: string[] | undefined, b: string[]): string[] {
   const set = new Set<string>([...(a ?? []), ...b]);
   return Array.from(set);
@@ -95,8 +72,8 @@ serve(async (req) => {
       ? Math.min(body.max_messages, 100)
       : 40;
 
-    const openAiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openAiKey) {
+    const llm = createLlm('ai-summarize-chat-thread');
+    if (!llm) {
       return json({ error: 'Missing OPENAI_API_KEY secret' }, 500);
     }
 
@@ -147,14 +124,9 @@ serve(async (req) => {
 }
 Правила: evidence_message_ids — только id сообщений с role=user из списка выше. Не выдумывай id. Если нет достаточного основания — не добавляй память. Запрещены медицинские или чувствительные личные догадки.`;
 
-    const openaiRes = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${openAiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: Deno.env.get('OPENAI_MODEL') ?? 'gpt-4o-mini',
+    let completion: LlmChatResult;
+    try {
+      completion = await llm.chat({
         messages: [
           {
             role: 'system',
@@ -166,17 +138,13 @@ serve(async (req) => {
           },
         ],
         temperature: 0.3,
-        max_tokens: 2000,
-      }),
-    });
-
-    if (!openaiRes.ok) {
-      const errText = await openaiRes.text();
-      return json({ error: 'OpenAI request failed', detail: errText }, 502);
+        maxTokens: 2000,
+      });
+    } catch (e) {
+      return json({ error: 'OpenAI request failed', detail: llmErrorDetail(e) }, 502);
     }
 
-    const payload = (await openaiRes.json()) as { choices?: Array<{ message?: { content?: string } }> };
-    const rawContent = payload.choices?.[0]?.message?.content?.trim() ?? '';
+    const rawContent = completion.text?.trim() ?? '';
 
     let parsed: OpenAIResponse;
     try {
@@ -240,7 +208,7 @@ serve(async (req) => {
 
       let embedding: number[];
       try {
-        embedding = await getEmbedding(openAiKey, content);
+        embedding = await llm.embed(content);
       } catch {
         skipped += 1;
         continue;
@@ -2,6 +2,9 @@ import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { corsHeaders } from '../_shared/cors.ts';
 import { enforceAllowedLeakTag } from '../_shared/leaks.ts';
 import { requireUserClient, AuthError } from '../_shared/userAuth.ts';
+import { createLlm, llmErrorDetail, type LlmChatResult } from '../_shared/llm/index.ts';
+import { checkQuota, limitReachedBody, recordUsage } from '../_shared/quota/index.ts';
+import { aggregateStats, statDeviations, MIN_SAMPLE, type StatsHandRow } from '../_shared/stats.ts';
 
 type LeakAggregation = {
   tag: string;
@@ -40,11 +43,18 @@ serve(async (req) => {
     // Authenticate user and get user-scoped client
     const { userId, supabaseUser } = await requireUserClient(req);
 
+    const quota = await checkQuota(supabaseUser, userId, 'leak_summary');
+    if (!quota.allowed) {
+      return json(limitReachedBody(quota), 403);
+    }
+
     // Fetch last 30 hand analyses
     const { data: analyses, error: analysesError } = await supabaseUser
       .from('hand_analyses')
-      .select('id, result, created_at')
+      .select('id, result, mistake_tags, created_at')
       .eq('user_id', userId)
+      // Re-runs (revisions) of a hand would count its leaks twice
+      .is('parent_id', null)
       .order('created_at', { ascending: false })
       .limit(30);
 
@@ -52,8 +62,19 @@ serve(async (req) => {
       return json({ error: 'Failed to fetch analyses', detail: analysesError.message }, 500);
     }
 
-    // Check minimum data requirement
-    if (!analyses || analyses.length < 5) {
+    // Objective stats from imported hand histories (may be empty)
+    const { data: statHands } = await supabaseUser
+      .from('hands')
+      .select('hero_pos, stakes, stat_flags')
+      .eq('user_id', userId)
+      .order('played_at', { ascending: false })
+      .limit(5000);
+
+    const stats = aggregateStats((statHands ?? []) as StatsHandRow[]);
+    const deviations = statDeviations(stats);
+
+    // Check minimum data requirement (enough analyses, or enough imported hands)
+    if ((!analyses || analyses.length < 5) && stats.overall.hands < MIN_SAMPLE) {
       return json({
         error: 'insufficient_data',
         message: 'Недостаточно данных для анализа. Добавь ещё разборы.',
@@ -65,14 +86,20 @@ serve(async (req) => {
     // Aggregate leaks by allowed canonical tag
     const leakMap = new Map<string, LeakAggregation>();
 
-    for (const analysis of analyses) {
+    for (const analysis of analyses ?? []) {
       const result = analysis.result;
-      const rawTag = result?.leak_link?.tag;
+      // Decision-level mistakes when the analysis has them, otherwise the hand-level leak tag
+      const rawTags: unknown[] =
+        Array.isArray(analysis.mistake_tags) && analysis.mistake_tags.length > 0
+          ? analysis.mistake_tags
+          : [result?.leak_link?.tag];
+
+      for (const rawTag of rawTags) {
+        if (!rawTag || typeof rawTag !== 'string') continue;
 
-      if (rawTag && typeof rawTag === 'string') {
         // Enforce allowed tags for grouping
         const canonicalTag = enforceAllowedLeakTag(rawTag);
-        
+
         // Skip if tag is null or empty
         if (!canonicalTag) continue;
 
@@ -87,9 +114,13 @@ serve(async (req) => {
         const leak = leakMap.get(canonicalTag)!;
         leak.count += 1;
 
-        // Store first reason as example
-        if (leak.examples.length < 3 && result.why && Array.isArray(result.why)) {
-          leak.examples.push(result.why[0]);
+        // Example: the decision comment for this tag, else the first reason
+        const decision = Array.isArray(result?.decisions)
+          ? result.decisions.find((d: any) => d?.verdict === 'mistake' && d?.leak_tag === canonicalTag)
+          : null;
+        const example = decision?.comment || (Array.isArray(result?.why) ? result.why[0] : null);
+        if (leak.examples.length < 3 && example) {
+          leak.examples.push(example);
         }
       }
     }
@@ -99,7 +130,7 @@ serve(async (req) => {
       .sort((a, b) => b.count - a.count)
       .slice(0, 3);
 
-    if (topLeaks.length === 0) {
+    if (topLeaks.length === 0 && deviations.length === 0) {
       return json({
         error: 'no_leaks_found',
         message: 'Не найдено ошибок для анализа',
@@ -115,32 +146,45 @@ serve(async (req) => {
       .order('created_at', { ascending: false })
       .limit(5);
 
-    // Get OpenAI API key
-    const openAiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openAiKey) {
+    const llm = createLlm('ai-summarize-leaks');
+    if (!llm) {
       return json({ error: 'Missing OPENAI_API_KEY secret' }, 500);
     }
 
-    const model = Deno.env.get('OPENAI_MODEL') ?? 'gpt-4o-mini';
-
     // Build prompt
     const systemPrompt = `Ты — персональный тренер по покеру. Анализируешь повторяющиеся ошибки игрока.
 
 Правила:
 - Получаешь топ-3 ошибки (leak tags) с количеством повторений
+- Если есть статистика по импортированным рукам (VPIP, PFR, 3bet, WTSD, AF) — это объективные данные: опирайся на них в объяснениях и приводи цифры
+- Если ошибка видна только в статистике, выбери для неё подходящий тег (например preflop_opening, preflop_3bet_defense, position_awareness, passive_play)
 - Для каждой ошибки дай краткое объяснение (2-3 предложения)
 - Составь план улучшения из 3-5 пунктов
 - Пиши на русском, конкретно и по делу
 - Формат строго JSON по схеме`;
 
-    let userPrompt = 'Топ ошибок игрока за последние 30 раздач:\n\n';
+    let userPrompt = '';
+
+    if (topLeaks.length > 0) {
+      userPrompt += 'Топ ошибок игрока за последние 30 раздач:\n\n';
+      topLeaks.forEach((leak, idx) => {
+        userPrompt += `${idx + 1}. ${leak.tag}: ${leak.count} раз\n`;
+        if (leak.examples.length > 0) {
+          userPrompt += `   Примеры: ${leak.examples.join('; ')}\n`;
+        }
+      });
+    }
 
-    topLeaks.forEach((leak, idx) => {
-      userPrompt += `${idx + 1}. ${leak.tag}: ${leak.count} раз\n`;
-      if (leak.examples.length > 0) {
-        userPrompt += `   Примеры: ${leak.examples.join('; ')}\n`;
+    if (stats.overall.hands > 0) {
+      const o = stats.overall;
+      userPrompt += `\n\nСтатистика по ${o.hands} импортированным рукам: VPIP ${o.vpip ?? '—'}%, PFR ${o.pfr ?? '—'}%, 3bet ${o.three_bet ?? '—'}%, WTSD ${o.wtsd ?? '—'}%, AF ${o.af ?? '—'}\n`;
+      if (deviations.length > 0) {
+        userPrompt += 'Отклонения от базовых значений:\n';
+        deviations.slice(0, 6).forEach((d) => {
+          userPrompt += `- ${d.text}\n`;
+        });
       }
-    });
+    }
 
     if (memoryExamples && memoryExamples.length > 0) {
       userPrompt += '\n\nНекоторые прошлые разборы:\n';
@@ -179,38 +223,21 @@ serve(async (req) => {
       required: ['top_leaks', 'improvement_plan'],
     };
 
-    // Call OpenAI Chat Completions API
-    const openaiRes = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${openAiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model,
+    let completion: LlmChatResult;
+    try {
+      completion = await llm.chat({
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt },
         ],
-        response_format: {
-          type: 'json_schema',
-          json_schema: {
-            name: 'leak_summary',
-            schema,
-            strict: true,
-          },
-        },
+        jsonSchema: { name: 'leak_summary', schema },
         user: userId,
-      }),
-    });
-
-    if (!openaiRes.ok) {
-      const errText = await openaiRes.text();
-      return json({ error: 'OpenAI request failed', detail: errText }, 502);
+      });
+    } catch (e) {
+      return json({ error: 'OpenAI request failed', detail: llmErrorDetail(e) }, 502);
     }
 
-    const payload = await openaiRes.json();
-    const text = payload.choices?.[0]?.message?.content;
+    const text = completion.text;
 
     if (!text) {
       return json({ error: 'OpenAI returned empty response' }, 502);
@@ -261,12 +288,16 @@ serve(async (req) => {
       // Don't fail the request, still return the summary
     }
 
+    await recordUsage(supabaseUser, userId, 'leak_summary', 'ai-summarize-leaks', llm);
+
     // Return response
     return json({
       summary_id: insertData?.id || null,
       period_start: periodStart.toISOString().split('T')[0],
       period_end: periodEnd.toISOString().split('T')[0],
-      total_analyses: analyses.length,
+      total_analyses: analyses?.length ?? 0,
+      stats_hands: stats.overall.hands,
+      stat_deviations: deviations,
       summary: summary,
     });
   } catch (e) {
@@ -0,0 +1,35 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { requireUserClient, AuthError } from '../_shared/userAuth.ts';
+import { getUsageSummary } from '../_shared/quota/index.ts';
+
+/** Today's usage and limits per metered AI feature, so the app can show what is left before LIMIT_REACHED. */
+
+function json(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const { userId, supabaseUser } = await requireUserClient(req);
+    return json(await getUsageSummary(supabaseUser, userId));
+  } catch (e) {
+    if (e instanceof AuthError) {
+      return json(e.body, e.status);
+    }
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error('get-usage', msg);
+    return json({ error: 'internal', detail: msg }, 500);
+  }
+});
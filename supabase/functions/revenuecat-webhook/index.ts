@@ -0,0 +1,212 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { corsHeaders } from '../_shared/cors.ts';
+import {
+  decideRevenueCatEvent,
+  parseRevenueCatEvent,
+  supabaseUserIds,
+  type EntitlementChange,
+  type RevenueCatEvent,
+  type WebhookDecision,
+} from '../_shared/subscription.ts';
+
+/**
+ * RevenueCat webhook: the only writer of profiles.subscription_tier (migration 039 discards client writes).
+ * RevenueCat sends the Authorization header configured in its dashboard; it must equal REVENUECAT_WEBHOOK_SECRET.
+ * Each event is stored in entitlement_events after it was applied, so a retried event (same id) that is already
+ * recorded is acknowledged without re-applying, while one whose profile update failed is applied on the retry.
+ * Non-2xx responses make RevenueCat retry, so only auth and payload errors are 4xx.
+ */
+
+function json(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/** Constant-time string comparison for the shared secret. */
+function secretMatches(received: string, expected: string): boolean {
+  const a = new TextEncoder().encode(received);
+  const b = new TextEncoder().encode(expected);
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < b.length; i++) diff |= (a[i] ?? 0) ^ b[i];
+  return diff === 0;
+}
+
+function authorized(req: Request, secret: string): boolean {
+  const header = req.headers.get('authorization')?.trim() ?? '';
+  const token = header.toLowerCase().startsWith('bearer ') ? header.slice(7).trim() : header;
+  return secretMatches(token, secret);
+}
+
+type ProfileSubscription = {
+  subscription_tier: string | null;
+  subscription_event_at: string | null;
+};
+
+/** Why a change must not be applied to this profile, or null to apply it. */
+function skipReason(
+  profile: ProfileSubscription | null,
+  change: EntitlementChange,
+  decision: WebhookDecision,
+): string | null {
+  if (!profile) return 'no profile for user';
+  // Affiliate PRO comes from Pokerok reports (scripts/import_affiliate_report.ts); store events must not downgrade it
+  if (profile.subscription_tier === 'affiliate_pro' && change.tier === 'free') {
+    return 'affiliate_pro tier is managed by affiliate reports';
+  }
+  // Compared as instants: timestamptz comes back as "2026-01-01T10:00:00+00:00", eventAt is "...T10:00:00.000Z"
+  if (profile.subscription_event_at && Date.parse(profile.subscription_event_at) > Date.parse(decision.eventAt)) {
+    return 'older than the last applied event';
+  }
+  return null;
+}
+
+function historyRow(
+  event: RevenueCatEvent,
+  decision: WebhookDecision,
+  appUserId: string,
+  userId: string | null,
+  change: EntitlementChange | null,
+  ignoredReason: string | null,
+) {
+  return {
+    event_id: event.id,
+    event_type: event.type,
+    app_user_id: appUserId,
+    user_id: userId,
+    environment: event.environment ?? null,
+    store: event.store ?? null,
+    product_id: event.product_id ?? null,
+    entitlement_ids: event.entitlement_ids ?? [],
+    tier_after: change?.tier ?? null,
+    status_after: change?.status ?? null,
+    expires_at: change?.expiresAt ?? null,
+    event_at: decision.eventAt,
+    ignored_reason: ignoredReason,
+    payload: event,
+  };
+}
+
+/** True when this event was already recorded (and so applied) for the user: a webhook retry. */
+async function isRecorded(supabase: any, eventId: string, appUserId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('entitlement_events')
+    .select('id')
+    .eq('event_id', eventId)
+    .eq('app_user_id', appUserId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to check entitlement event: ${error.message}`);
+  return data != null;
+}
+
+/**
+ * Inserts the history row once the event was applied; false when a concurrent retry recorded it first.
+ * A failure here returns 500, and the retry re-applies the same (idempotent) update before recording again.
+ */
+async function recordEvent(supabase: any, row: ReturnType<typeof historyRow>): Promise<boolean> {
+  const { error } = await supabase.from('entitlement_events').insert(row);
+  if (!error) return true;
+  if (error.code === '23505') return false;
+  throw new Error(`Failed to record entitlement event: ${error.message}`);
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const secret = Deno.env.get('REVENUECAT_WEBHOOK_SECRET');
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!secret || !supabaseUrl || !serviceRoleKey) {
+    console.error('revenuecat-webhook: missing REVENUECAT_WEBHOOK_SECRET, SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+    return json({ error: 'Server misconfiguration' }, 500);
+  }
+
+  if (!authorized(req, secret)) {
+    return json({ error: 'unauthorized' }, 401);
+  }
+
+  let event: RevenueCatEvent | null;
+  try {
+    event = parseRevenueCatEvent(await req.json());
+  } catch {
+    event = null;
+  }
+  if (!event) {
+    return json({ error: 'invalid_payload', detail: 'Expected a RevenueCat webhook body with event.id and event.type' }, 400);
+  }
+
+  try {
+    const supabaseService = createClient(supabaseUrl, serviceRoleKey);
+    const decision = decideRevenueCatEvent(event);
+
+    if (decision.changes.length === 0) {
+      const userId = supabaseUserIds([event.app_user_id, event.original_app_user_id])[0] ?? null;
+      const { data: profile } = userId
+        ? await supabaseService.from('profiles').select('id').eq('id', userId).maybeSingle()
+        : { data: null };
+      const recorded = await recordEvent(
+        supabaseService,
+        historyRow(event, decision, event.app_user_id ?? 'unknown', profile ? userId : null, null, decision.ignored),
+      );
+      console.log(JSON.stringify({ revenuecat: event.type, event_id: event.id, ignored: decision.ignored, duplicate: !recorded }));
+      return json({ ok: true, event_id: event.id, applied: 0, ignored: decision.ignored });
+    }
+
+    let applied = 0;
+    const skipped: Array<{ user_id: string; reason: string }> = [];
+    for (const change of decision.changes) {
+      if (await isRecorded(supabaseService, event.id, change.userId)) {
+        skipped.push({ user_id: change.userId, reason: 'duplicate event' });
+        continue;
+      }
+
+      const { data: profile, error: profileError } = await supabaseService
+        .from('profiles')
+        .select('subscription_tier, subscription_event_at')
+        .eq('id', change.userId)
+        .maybeSingle();
+      if (profileError) throw new Error(`Failed to load profile: ${profileError.message}`);
+
+      const reason = skipReason(profile as ProfileSubscription | null, change, decision);
+      if (!reason) {
+        const { error: updateError } = await supabaseService
+          .from('profiles')
+          .update({
+            subscription_tier: change.tier,
+            subscription_status: change.status,
+            subscription_expires_at: change.expiresAt,
+            subscription_event_at: decision.eventAt,
+          })
+          .eq('id', change.userId);
+        if (updateError) throw new Error(`Failed to update subscription: ${updateError.message}`);
+      }
+
+      const recorded = await recordEvent(
+        supabaseService,
+        historyRow(event, decision, change.userId, profile ? change.userId : null, change, reason),
+      );
+      if (!recorded) {
+        skipped.push({ user_id: change.userId, reason: 'duplicate event' });
+      } else if (reason) {
+        skipped.push({ user_id: change.userId, reason });
+      } else {
+        applied += 1;
+      }
+    }
+
+    console.log(JSON.stringify({ revenuecat: event.type, event_id: event.id, applied, skipped }));
+    return json({ ok: true, event_id: event.id, applied, skipped });
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error('revenuecat-webhook', event.id, msg);
+    return json({ error: 'internal', detail: msg }, 500);
+  }
+});
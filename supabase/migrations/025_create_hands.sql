@@ -0,0 +1,58 @@
+-- Imported hand histories (bulk HH import, PokerStars / GG / Pokerok).
+-- One row per hand; dedupe by (user_id, site, hand_id). Linked to the bankroll session it was played in.
+create table if not exists public.hands (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  session_id uuid null references public.bankroll_sessions(id) on delete set null,
+  site text not null check (site in ('pokerstars', 'ggpoker', 'pokerok')),
+  hand_id text not null,
+  played_at timestamptz null,
+  game text not null default 'NLH',
+  stakes text null,
+  big_blind numeric not null default 0,
+  is_tournament boolean not null default false,
+  hero_pos text null,
+  hero_cards text null,
+  board jsonb not null default '[]'::jsonb,
+  pot_bb numeric null,
+  hero_net numeric null,
+  hero_net_bb numeric null,
+  -- Heuristic review flags: 'big_pot' | 'all_in' | 'river_fold'
+  review_flags text[] not null default '{}',
+  raw_text text not null,
+  analysis_id uuid null references public.hand_analyses(id) on delete set null,
+  created_at timestamptz not null default now(),
+  unique (user_id, site, hand_id)
+);
+
+comment on table public.hands is 'Hands imported from hand-history files; picked hands are sent to ai-analyze-hand (analysis_id).';
+
+alter table public.hands enable row level security;
+
+create policy "Users can select own hands"
+on public.hands for select
+using (auth.uid() = user_id);
+
+create policy "Users can insert own hands"
+on public.hands for insert
+with check (auth.uid() = user_id);
+
+create policy "Users can update own hands"
+on public.hands for update
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+create policy "Users can delete own hands"
+on public.hands for delete
+using (auth.uid() = user_id);
+
+create index if not exists hands_user_session_idx
+on public.hands(user_id, session_id);
+
+create index if not exists hands_user_played_at_idx
+on public.hands(user_id, played_at desc);
+
+-- Review queue: flagged hands that were not analyzed yet.
+create index if not exists hands_user_review_idx
+on public.hands(user_id, played_at desc)
+where analysis_id is null and cardinality(review_flags) > 0;
@@ -0,0 +1,5 @@
+-- hands: per-hand hero stat counters (VPIP/PFR/3bet/WTSD/AF inputs), computed at import
+alter table public.hands
+  add column if not exists stat_flags jsonb null;
+
+comment on column public.hands.stat_flags is 'HeroStatFlags from _shared/stats.ts: vpip, pfr, three_bet_opp, three_bet, saw_flop, wtsd, wsd, postflop_aggr, postflop_calls.';
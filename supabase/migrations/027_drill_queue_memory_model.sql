@@ -0,0 +1,49 @@
+-- drill_queue: per-item memory model for the spaced-repetition scheduler (_shared/srs.ts)
+alter table drill_queue
+  add column if not exists stability real null,
+  add column if not exists difficulty real null,
+  add column if not exists lapses int not null default 0,
+  add column if not exists last_reviewed_at timestamptz null,
+  add column if not exists last_latency_ms int null,
+  add column if not exists last_grade smallint null check (last_grade is null or last_grade between 1 and 4);
+
+comment on column drill_queue.stability is 'Days until recall probability drops to 90%; null = never reviewed';
+comment on column drill_queue.difficulty is 'Item difficulty 1..10; null = never reviewed';
+comment on column drill_queue.lapses is 'Times the item was answered wrong after being learned';
+comment on column drill_queue.last_latency_ms is 'Answer latency of the last review, ms';
+comment on column drill_queue.last_grade is '1 again, 2 hard, 3 good, 4 easy';
+
+-- Backfill items scheduled by the old fixed interval table (1,2,3,5,8,13,14 days by repetition)
+update drill_queue
+set
+  stability = (array[1, 2, 3, 5, 8, 13, 14])[least(repetition, 7)],
+  difficulty = 5,
+  last_reviewed_at = updated_at
+where repetition > 0 and stability is null;
+
+-- RPC: drills due per day over the next days_n days (overdue items count towards today)
+create or replace function rpc_get_review_forecast(days_n int default 14, tz text default 'UTC')
+returns table (day date, due_count int)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with days as (
+    select (timezone(tz, now()))::date + g as day
+    from generate_series(0, greatest(days_n, 1) - 1) as g
+  ),
+  due as (
+    select greatest((timezone(tz, due_at))::date, (timezone(tz, now()))::date) as day
+    from drill_queue
+    where user_id = auth.uid()
+      and status in ('due', 'scheduled')
+  )
+  select d.day, count(due.day)::int as due_count
+  from days d
+  left join due on due.day = d.day
+  group by d.day
+  order by d.day;
+$$;
+
+comment on function rpc_get_review_forecast(int, text) is 'Number of drill_queue items due per day for the current user, starting today in the given time zone.';
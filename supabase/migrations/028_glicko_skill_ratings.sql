@@ -0,0 +1,192 @@
+-- Glicko-style ratings for skill_ratings (per user per leak_tag) and hand_library scenarios (_shared/rating.ts).
+-- skill_ratings.rating stays the 0..100 display value, derived from glicko_rating.
+alter table skill_ratings
+  add column if not exists glicko_rating real not null default 1500,
+  add column if not exists rating_rd real not null default 350;
+
+comment on column skill_ratings.glicko_rating is 'Glicko rating for this leak_tag; rating = clamp((glicko_rating - 1000) / 10, 0, 100)';
+comment on column skill_ratings.rating_rd is 'Rating deviation (uncertainty); 350 = unknown, grows back with inactivity';
+
+alter table public.hand_library
+  add column if not exists difficulty_rating real not null default 1500,
+  add column if not exists difficulty_rd real not null default 350,
+  add column if not exists attempts int not null default 0;
+
+comment on column public.hand_library.difficulty_rating is 'Glicko rating of the scenario: beats players rated below it more often than not';
+comment on column public.hand_library.difficulty_rd is 'Rating deviation of the scenario; shrinks with attempts';
+
+create index if not exists hand_library_difficulty_rating_idx on public.hand_library(difficulty_rating);
+
+-- Backfill from the old +4/-6 rating: same display value, uncertainty shrinking with attempts
+update skill_ratings
+set
+  glicko_rating = 1000 + rating * 10,
+  rating_rd = greatest(80, 350 - 10 * total_attempts)
+where total_attempts > 0 and glicko_rating = 1500 and rating_rd = 350;
+
+-- Glicko g(RD): discounts the result against an opponent whose rating is uncertain
+create or replace function glicko_g(rd double precision)
+returns double precision
+language sql
+immutable
+as $$
+  select 1 / sqrt(1 + 3 * power(ln(10) / 400, 2) * power(rd, 2) / power(pi(), 2));
+$$;
+
+-- RPC: rate one table-drill attempt. Player (skill_ratings row) and scenario (hand_library row) update against
+-- each other; without p_hand_library_id the scenario is assumed to sit at the player's level with full uncertainty.
+-- Security definer because users cannot write hand_library; the skill_ratings side is scoped to auth.uid().
+drop function if exists rpc_update_skill_rating(text, boolean, timestamptz);
+
+create or replace function rpc_update_skill_rating(
+  p_leak_tag text,
+  p_is_correct boolean,
+  p_practiced_at timestamptz default now(),
+  p_hand_library_id uuid default null
+)
+returns skill_ratings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  q constant double precision := ln(10) / 400;
+  v_user uuid := auth.uid();
+  v_row skill_ratings;
+  v_prev skill_ratings;
+  v_r double precision := 1500;
+  v_rd double precision := 350;
+  v_hr double precision;
+  v_hrd double precision;
+  v_s double precision := case when p_is_correct then 1 else 0 end;
+  v_e double precision;
+  v_g double precision;
+  v_d2 double precision;
+  v_new_r double precision;
+  v_new_rd double precision;
+  v_attempts_7d int;
+  v_correct_7d int;
+  v_attempts_30d int;
+  v_correct_30d int;
+begin
+  if v_user is null then
+    raise exception 'not_authenticated';
+  end if;
+
+  select * into v_prev from skill_ratings where user_id = v_user and leak_tag = p_leak_tag for update;
+  if found then
+    v_r := v_prev.glicko_rating;
+    v_rd := v_prev.rating_rd;
+    if v_prev.last_practice_at is not null then
+      v_rd := least(350, sqrt(power(v_rd, 2)
+        + 330 * greatest(0, extract(epoch from p_practiced_at - v_prev.last_practice_at) / 86400)));
+    end if;
+  end if;
+
+  if p_hand_library_id is not null then
+    select difficulty_rating, difficulty_rd into v_hr, v_hrd
+    from hand_library where id = p_hand_library_id for update;
+  end if;
+  v_hr := coalesce(v_hr, v_r);
+  v_hrd := coalesce(v_hrd, 350);
+
+  -- Player side
+  v_g := glicko_g(v_hrd);
+  v_e := 1 / (1 + power(10, -v_g * (v_r - v_hr) / 400));
+  v_d2 := 1 / (power(q, 2) * power(v_g, 2) * v_e * (1 - v_e));
+  v_new_r := v_r + q / (1 / power(v_rd, 2) + 1 / v_d2) * v_g * (v_s - v_e);
+  v_new_rd := greatest(40, sqrt(1 / (1 / power(v_rd, 2) + 1 / v_d2)));
+
+  -- Scenario side (opposite result, against the player's pre-attempt rating)
+  if p_hand_library_id is not null then
+    v_g := glicko_g(v_rd);
+    v_e := 1 / (1 + power(10, -v_g * (v_hr - v_r) / 400));
+    v_d2 := 1 / (power(q, 2) * power(v_g, 2) * v_e * (1 - v_e));
+    update hand_library set
+      difficulty_rating = v_hr + q / (1 / power(v_hrd, 2) + 1 / v_d2) * v_g * ((1 - v_s) - v_e),
+      difficulty_rd = greatest(40, sqrt(1 / (1 / power(v_hrd, 2) + 1 / v_d2))),
+      attempts = attempts + 1
+    where id = p_hand_library_id;
+  end if;
+
+  -- Count 7d / 30d from training_events (uses is_correct and leak_tag)
+  select
+    count(*)::int,
+    count(*) filter (where is_correct)::int
+  into v_attempts_7d, v_correct_7d
+  from training_events
+  where user_id = v_user
+    and leak_tag = p_leak_tag
+    and created_at >= now() - interval '7 days';
+
+  select
+    count(*)::int,
+    count(*) filter (where is_correct)::int
+  into v_attempts_30d, v_correct_30d
+  from training_events
+  where user_id = v_user
+    and leak_tag = p_leak_tag
+    and created_at >= now() - interval '30 days';
+
+  insert into skill_ratings (
+    user_id, leak_tag, rating, glicko_rating, rating_rd, streak_correct, last_practice_at, last_mistake_at,
+    total_attempts, total_correct, attempts_7d, correct_7d, attempts_30d, correct_30d, updated_at, created_at
+  )
+  values (
+    v_user, p_leak_tag,
+    greatest(0, least(100, round((v_new_r - 1000) / 10)))::int,
+    v_new_r, v_new_rd,
+    case when p_is_correct then 1 else 0 end,
+    p_practiced_at,
+    case when not p_is_correct then p_practiced_at else null end,
+    1,
+    case when p_is_correct then 1 else 0 end,
+    coalesce(v_attempts_7d, 0), coalesce(v_correct_7d, 0), coalesce(v_attempts_30d, 0), coalesce(v_correct_30d, 0),
+    now(), now()
+  )
+  on conflict (user_id, leak_tag) do update set
+    rating = excluded.rating,
+    glicko_rating = excluded.glicko_rating,
+    rating_rd = excluded.rating_rd,
+    streak_correct = case when p_is_correct then skill_ratings.streak_correct + 1 else 0 end,
+    last_practice_at = p_practiced_at,
+    last_mistake_at = case when not p_is_correct then p_practiced_at else skill_ratings.last_mistake_at end,
+    total_attempts = skill_ratings.total_attempts + 1,
+    total_correct = skill_ratings.total_correct + case when p_is_correct then 1 else 0 end,
+    attempts_7d = coalesce(v_attempts_7d, 0),
+    correct_7d = coalesce(v_correct_7d, 0),
+    attempts_30d = coalesce(v_attempts_30d, 0),
+    correct_30d = coalesce(v_correct_30d, 0),
+    updated_at = now()
+  returning * into v_row;
+
+  return v_row;
+end;
+$$;
+
+-- RPC: one hand_library scenario rated close to p_target (random among the nearest few so drills vary).
+-- Scenarios for p_leak_tag / p_drill_type are preferred when there are any.
+create or replace function public.get_hand_near_rating(
+  p_target real,
+  p_leak_tag text default null,
+  p_drill_type text default null
+)
+returns setof public.hand_library
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select * from (
+    select * from public.hand_library
+    order by
+      (p_leak_tag is not null and leak_tag = p_leak_tag) desc,
+      (p_drill_type is not null and coalesce(drill_type, 'action_decision') = p_drill_type) desc,
+      abs(difficulty_rating - p_target)
+    limit 20
+  ) near
+  order by random()
+  limit 1;
+$$;
+
+comment on function public.get_hand_near_rating(real, text, text) is 'Returns one hand_library row rated near p_target for table drill training.';
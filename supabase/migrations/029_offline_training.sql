@@ -0,0 +1,31 @@
+-- Offline training: answers graded on device are replayed later; client_event_id makes the replay idempotent.
+alter table training_events
+  add column if not exists client_event_id uuid null;
+
+comment on column training_events.client_event_id is 'Id generated on the device per answer; a replayed submission with a known id is not counted again';
+
+create unique index if not exists training_events_user_client_event_idx
+  on training_events(user_id, client_event_id)
+  where client_event_id is not null;
+
+-- RPC: a pack of hand_library scenarios near p_target for the offline cache (nearest p_limit * 2, random half).
+create or replace function public.get_hand_pack(
+  p_target real,
+  p_limit int default 40
+)
+returns setof public.hand_library
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select * from (
+    select * from public.hand_library
+    order by abs(difficulty_rating - p_target)
+    limit least(greatest(p_limit, 1), 100) * 2
+  ) near
+  order by random()
+  limit least(greatest(p_limit, 1), 100);
+$$;
+
+comment on function public.get_hand_pack(real, int) is 'Returns up to p_limit hand_library rows rated near p_target for the offline scenario cache.';
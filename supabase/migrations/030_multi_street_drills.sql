@@ -0,0 +1,47 @@
+-- Multi-street table drills (_shared/multiStreet.ts): one hand, a hero decision per street.
+alter table public.hand_library
+  add column if not exists steps jsonb null;
+
+comment on column public.hand_library.steps is 'Multi-street hand: [{street, pot_bb, action_to_hero, correct_action, explanation, villain_response}]; null = single decision';
+
+-- Every decision of a multi-street hand is its own training_events row, linked by hand_id
+alter table training_events
+  add column if not exists hand_id uuid null,
+  add column if not exists step_index smallint null;
+
+comment on column training_events.hand_id is 'Shared id of the decisions of one multi-street drill hand (generated by the client per hand)';
+comment on column training_events.step_index is '0-based decision index within the multi-street hand';
+
+create index if not exists training_events_user_hand_idx
+  on training_events(user_id, hand_id)
+  where hand_id is not null;
+
+-- get_hand_near_rating: optionally prefer multi-street (p_multi_street = true) or single-decision hands
+drop function if exists public.get_hand_near_rating(real, text, text);
+
+create or replace function public.get_hand_near_rating(
+  p_target real,
+  p_leak_tag text default null,
+  p_drill_type text default null,
+  p_multi_street boolean default null
+)
+returns setof public.hand_library
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select * from (
+    select * from public.hand_library
+    order by
+      (p_multi_street is not null and (steps is not null) = p_multi_street) desc,
+      (p_leak_tag is not null and leak_tag = p_leak_tag) desc,
+      (p_drill_type is not null and coalesce(drill_type, 'action_decision') = p_drill_type) desc,
+      abs(difficulty_rating - p_target)
+    limit 20
+  ) near
+  order by random()
+  limit 1;
+$$;
+
+comment on function public.get_hand_near_rating(real, text, text, boolean) is 'Returns one hand_library row rated near p_target for table drill training.';
@@ -0,0 +1,29 @@
+-- Preflop range charts for preflop_range drills (_shared/preflopCharts.ts); seeded by scripts/import_preflop_charts.ts.
+create table if not exists public.preflop_charts (
+  id uuid primary key default gen_random_uuid(),
+  format text not null check (format in ('cash', 'mtt')),
+  stack_bb numeric not null,
+  hero_pos text not null,
+  -- '' = hero is first in (RFI chart)
+  opener_pos text not null default '',
+  raise_range text not null,
+  call_range text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (format, stack_bb, hero_pos, opener_pos)
+);
+
+comment on table public.preflop_charts is 'Preflop strategy per format, stack depth, hero position and opener: raise (open / 3bet) and call ranges in range notation; everything else folds.';
+comment on column public.preflop_charts.raise_range is 'Open range when opener_pos is empty, 3bet range otherwise; weights allowed ("A5s:0.5")';
+comment on column public.preflop_charts.call_range is 'Flat range vs the open; null for RFI charts and raise-or-fold spots';
+
+-- Read-only for the app (drills are dealt on the device); only service_role (the seed script) writes.
+alter table public.preflop_charts enable row level security;
+
+create policy "Allow read preflop_charts"
+  on public.preflop_charts for select
+  using (true);
+
+-- drill_type is free text; preflop_range joins the other two types
+comment on column drill_queue.drill_type is 'action_decision | raise_sizing | preflop_range';
+comment on column training_events.drill_type is 'action_decision | raise_sizing | preflop_range';
@@ -0,0 +1,91 @@
+-- Scenario selection for table drills: get_training_hand replaces get_random_hand (order by random() over the whole
+-- library) and get_hand_near_rating (sorts the whole library per call).
+
+-- Precomputed buckets: drill kind (null / legacy 'postflop' = action_decision) and a random key fixed per row,
+-- so a pick reads one (leak_tag, drill_kind) bucket through the index instead of sorting the whole library.
+alter table public.hand_library
+  add column if not exists drill_kind text generated always as (
+    case when drill_type is null or drill_type = 'postflop' then 'action_decision' else drill_type end
+  ) stored,
+  add column if not exists selection_key double precision not null default random();
+
+comment on column public.hand_library.drill_kind is 'drill_type with null / postflop folded into action_decision (selection bucket)';
+comment on column public.hand_library.selection_key is 'Random key fixed per row: get_training_hand picks the first key after a random point';
+
+create index if not exists hand_library_selection_idx
+  on public.hand_library(leak_tag, drill_kind, selection_key);
+
+create index if not exists hand_library_kind_selection_idx
+  on public.hand_library(drill_kind, selection_key);
+
+-- Which library scenario an answer was for (scenario.hand_library_id), to skip hands the user saw recently
+alter table training_events
+  add column if not exists hand_library_id uuid null;
+
+comment on column training_events.hand_library_id is 'hand_library row the drill was dealt from; null for generated and preflop drills';
+
+create index if not exists training_events_user_library_idx
+  on training_events(user_id, hand_library_id, created_at desc)
+  where hand_library_id is not null;
+
+-- RPC: one scenario for the user's due drill. Filters: leak tag, drill type, street, multi-street or not, rating
+-- within a window of p_target, not answered in the last p_exclude_days. When nothing matches, constraints are
+-- relaxed one at a time (street, rating window, multi-street, leak tag, recently seen) so a drill is always dealt
+-- if the library has any row of the drill type.
+create or replace function public.get_training_hand(
+  p_target real,
+  p_leak_tag text default null,
+  p_drill_type text default null,
+  p_street text default null,
+  p_multi_street boolean default null,
+  p_exclude_days int default 7
+)
+returns setof public.hand_library
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_kind text := case when p_drill_type is null or p_drill_type = 'postflop' then 'action_decision' else p_drill_type end;
+  v_street text;
+  v_window real;
+  v_leak text;
+  v_multi boolean;
+  v_since timestamptz;
+  v_r double precision;
+  v_row public.hand_library;
+begin
+  for v_level in 0..6 loop
+    v_street := case when v_level = 0 then p_street end;
+    v_window := case when v_level <= 1 then 150 when v_level = 2 then 400 end;
+    v_multi := case when v_level <= 3 then p_multi_street end;
+    v_leak := case when v_level <= 4 then p_leak_tag end;
+    v_since := case when v_level <= 5 and v_user is not null then now() - make_interval(days => greatest(p_exclude_days, 0)) end;
+    v_r := random();
+
+    select h.* into v_row
+    from public.hand_library h
+    where h.drill_kind = v_kind
+      and (v_leak is null or h.leak_tag = v_leak)
+      and (v_street is null or h.street = v_street)
+      and (v_multi is null or (h.steps is not null) = v_multi)
+      and (v_window is null or p_target is null or h.difficulty_rating between p_target - v_window and p_target + v_window)
+      and (v_since is null or not exists (
+        select 1 from training_events te
+        where te.user_id = v_user and te.hand_library_id = h.id and te.created_at >= v_since
+      ))
+    -- First key at or after the random point, wrapping around to the smallest key
+    order by (h.selection_key < v_r), h.selection_key
+    limit 1;
+
+    if found then
+      return next v_row;
+      return;
+    end if;
+  end loop;
+end;
+$$;
+
+comment on function public.get_training_hand(real, text, text, text, boolean, int) is 'Returns one hand_library row for a table drill: matching leak tag / drill type / street near p_target, not seen recently; relaxes filters when nothing matches.';
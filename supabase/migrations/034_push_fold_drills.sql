@@ -0,0 +1,6 @@
+-- Push/fold drills for tournament short stacks (_shared/icm.ts): dealt and graded by ICM on the device and the
+-- server, so no library rows or charts are stored.
+
+-- drill_type is free text; push_fold joins the other three types
+comment on column drill_queue.drill_type is 'action_decision | raise_sizing | preflop_range | push_fold';
+comment on column training_events.drill_type is 'action_decision | raise_sizing | preflop_range | push_fold';
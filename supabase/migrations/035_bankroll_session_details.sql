@@ -0,0 +1,23 @@
+-- Bankroll sessions: stakes, duration, venue, currency and tournament fields for hourly rate, bb/100 and per-stake
+-- analytics (lib/bankroll.ts). All new columns are optional; old rows count toward profit and ROI only.
+alter table public.bankroll_sessions
+  add column if not exists stakes text null,
+  add column if not exists big_blind numeric null check (big_blind is null or big_blind > 0),
+  add column if not exists duration_minutes integer null check (duration_minutes is null or duration_minutes > 0),
+  add column if not exists hands_played integer null check (hands_played is null or hands_played >= 0),
+  add column if not exists venue text null,
+  add column if not exists currency text not null default 'USD',
+  add column if not exists entries integer null check (entries is null or entries > 0),
+  add column if not exists finish_place integer null check (finish_place is null or finish_place > 0),
+  add constraint bankroll_sessions_finish_place_check check (finish_place is null or entries is null or finish_place <= entries);
+
+comment on column public.bankroll_sessions.stakes is 'Cash: blinds as played (e.g. 0.05/0.10, NL10); tournaments: free label';
+comment on column public.bankroll_sessions.big_blind is 'Big blind in session currency; with hands_played gives bb/100 (cash only)';
+comment on column public.bankroll_sessions.duration_minutes is 'Time played; sessions without it are left out of the hourly rate';
+comment on column public.bankroll_sessions.venue is 'Casino or site';
+comment on column public.bankroll_sessions.currency is 'ISO code (USD, EUR, RUB, ...); stats are never summed across currencies';
+comment on column public.bankroll_sessions.entries is 'Tournaments: number of entrants';
+comment on column public.bankroll_sessions.finish_place is 'Tournaments: Hero finishing place, 1 = winner';
+
+create index if not exists bankroll_sessions_user_date_idx
+  on public.bankroll_sessions(user_id, date desc);
@@ -0,0 +1,38 @@
+-- Bankroll management rules (lib/bankrollRules.ts): starting bankroll and buy-in policy per game type.
+-- The bankroll is starting_bankroll plus the profit of sessions in the same currency dated from started_at.
+create table if not exists public.bankroll_rules (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  currency text not null default 'USD',
+  starting_bankroll numeric not null default 0 check (starting_bankroll >= 0),
+  started_at timestamptz not null default now(),
+  preset text not null default 'standard' check (preset in ('conservative', 'standard', 'aggressive', 'custom')),
+  -- Buy-ins to hold for a stake, and the level below which the stake is too high (move down)
+  cash_buyins integer not null default 30 check (cash_buyins > 0),
+  cash_move_down_buyins integer not null default 20 check (cash_move_down_buyins > 0),
+  mtt_buyins integer not null default 100 check (mtt_buyins > 0),
+  mtt_move_down_buyins integer not null default 70 check (mtt_move_down_buyins > 0),
+  spin_buyins integer not null default 100 check (spin_buyins > 0),
+  spin_move_down_buyins integer not null default 60 check (spin_move_down_buyins > 0),
+  updated_at timestamptz not null default now()
+);
+
+comment on table public.bankroll_rules is 'Per-user bankroll policy; stake advice and risk of ruin are computed on the device from bankroll_sessions.';
+
+alter table public.bankroll_rules enable row level security;
+
+create policy "Users can select own bankroll rules"
+on public.bankroll_rules for select
+using (auth.uid() = user_id);
+
+create policy "Users can insert own bankroll rules"
+on public.bankroll_rules for insert
+with check (auth.uid() = user_id);
+
+create policy "Users can update own bankroll rules"
+on public.bankroll_rules for update
+using (auth.uid() = user_id)
+with check (auth.uid() = user_id);
+
+create policy "Users can delete own bankroll rules"
+on public.bankroll_rules for delete
+using (auth.uid() = user_id);
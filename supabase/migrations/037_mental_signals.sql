@@ -0,0 +1,34 @@
+-- Tilt detection (supabase/functions/_shared/tilt.ts): bankroll sessions and drill answers → mental signals.
+-- started_at is the actual session start (date alone is noon); late-night detection needs it.
+alter table public.bankroll_sessions
+  add column if not exists started_at timestamptz null;
+
+-- Detected mental state, recorded by ai-daily-checkin and ai-coach-chat when it changes or is not ok.
+create table if not exists public.mental_signals (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  level text not null check (level in ('ok', 'caution', 'tilt')),
+  score integer not null default 0,
+  recommendation text not null default 'none' check (recommendation in ('none', 'cooldown', 'break')),
+  -- [{ code, severity, message, data }]
+  signals jsonb not null default '[]'::jsonb,
+  source text not null check (source in ('daily_checkin', 'coach_chat')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists mental_signals_user_created_at_idx
+  on public.mental_signals (user_id, created_at desc);
+
+alter table public.mental_signals enable row level security;
+
+create policy "Users can select own mental signals"
+on public.mental_signals for select
+using (auth.uid() = user_id);
+
+create policy "Users can insert own mental signals"
+on public.mental_signals for insert
+with check (auth.uid() = user_id);
+
+create policy "Users can delete own mental signals"
+on public.mental_signals for delete
+using (auth.uid() = user_id);
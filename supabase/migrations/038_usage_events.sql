@@ -0,0 +1,30 @@
+-- AI usage metering (supabase/functions/_shared/quota): one row per metered use of an AI endpoint.
+-- Daily quotas sum units since UTC midnight per feature; tokens and cost are for cost accounting.
+create table if not exists public.usage_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  feature text not null check (feature in ('hand_analysis', 'coach_message', 'ocr', 'table_drill', 'leak_summary')),
+  -- Edge function that recorded the event
+  fn text not null,
+  -- 1 = counts against the quota; 0 = metered only (e.g. coach chat "continue")
+  units integer not null default 1 check (units >= 0),
+  llm_calls integer not null default 0,
+  prompt_tokens integer not null default 0,
+  completion_tokens integer not null default 0,
+  cost_usd numeric(12, 6) not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists usage_events_user_feature_created_at_idx
+  on public.usage_events (user_id, feature, created_at desc);
+
+alter table public.usage_events enable row level security;
+
+-- No update/delete policies: users cannot rewrite their own usage.
+create policy "Users can select own usage events"
+on public.usage_events for select
+using (auth.uid() = user_id);
+
+create policy "Users can insert own usage events"
+on public.usage_events for insert
+with check (auth.uid() = user_id);
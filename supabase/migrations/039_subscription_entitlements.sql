@@ -0,0 +1,82 @@
+-- Server-side subscriptions: the revenuecat-webhook edge function (service role) is the only writer of the tier.
+-- subscription_tier was written by the app after a purchase; now client writes to these columns are discarded.
+alter table public.profiles
+  add column if not exists subscription_tier text null;
+
+update public.profiles set subscription_tier = 'free' where subscription_tier is null;
+
+alter table public.profiles
+  alter column subscription_tier set default 'free',
+  alter column subscription_tier set not null,
+  add column if not exists subscription_status text null,
+  -- End of paid access (grace period end during a billing issue); null = no end known
+  add column if not exists subscription_expires_at timestamptz null,
+  -- Timestamp of the last applied RevenueCat event; older (out-of-order) events do not override it
+  add column if not exists subscription_event_at timestamptz null;
+
+alter table public.profiles
+  drop constraint if exists profiles_subscription_tier_check;
+alter table public.profiles
+  add constraint profiles_subscription_tier_check check (subscription_tier in ('free', 'pro', 'affiliate_pro'));
+
+-- Policies cannot restrict columns, so a trigger keeps the subscription columns for API users (anon/authenticated):
+-- an insert starts free, an update keeps the stored values. Service role and migrations are not affected.
+create or replace function public.protect_subscription_columns()
+returns trigger as $$
+begin
+  if current_user in ('anon', 'authenticated') then
+    if tg_op = 'INSERT' then
+      new.subscription_tier := 'free';
+      new.subscription_status := null;
+      new.subscription_expires_at := null;
+      new.subscription_event_at := null;
+    else
+      new.subscription_tier := old.subscription_tier;
+      new.subscription_status := old.subscription_status;
+      new.subscription_expires_at := old.subscription_expires_at;
+      new.subscription_event_at := old.subscription_event_at;
+    end if;
+  end if;
+  return new;
+end;
+$$ language plpgsql;
+
+drop trigger if exists protect_profiles_subscription on public.profiles;
+create trigger protect_profiles_subscription
+  before insert or update on public.profiles
+  for each row
+  execute function public.protect_subscription_columns();
+
+-- Entitlement history: one row per RevenueCat event and affected user, written by revenuecat-webhook.
+create table if not exists public.entitlement_events (
+  id uuid primary key default gen_random_uuid(),
+  -- RevenueCat event id; (event_id, app_user_id) makes webhook retries idempotent
+  event_id text not null,
+  event_type text not null,
+  app_user_id text not null,
+  -- null when the app user id is not a Supabase user (anonymous RevenueCat id)
+  user_id uuid null references auth.users(id) on delete set null,
+  environment text null,
+  store text null,
+  product_id text null,
+  entitlement_ids text[] not null default '{}',
+  tier_after text null check (tier_after in ('free', 'pro')),
+  status_after text null,
+  expires_at timestamptz null,
+  event_at timestamptz not null,
+  -- Why the event did not change the tier (test event, other entitlement, older than the applied one)
+  ignored_reason text null,
+  payload jsonb not null,
+  created_at timestamptz not null default now(),
+  unique (event_id, app_user_id)
+);
+
+create index if not exists entitlement_events_user_event_at_idx
+  on public.entitlement_events (user_id, event_at desc);
+
+alter table public.entitlement_events enable row level security;
+
+-- Read-only for users; inserts come from the webhook with the service role
+create policy "Users can select own entitlement events"
+on public.entitlement_events for select
+using (auth.uid() = user_id);
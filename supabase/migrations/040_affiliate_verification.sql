@@ -0,0 +1,58 @@
+-- Pokerok affiliate verification for the affiliate_pro tier.
+-- affiliate-link (edge function) registers the player id a user enters; scripts/import_affiliate_report.ts loads
+-- partner reports with the service role, then grants or revokes affiliate_pro on profiles. Users can only read.
+
+-- One row per user who entered a Pokerok id or was matched by anid in a partner report
+create table if not exists public.affiliate_accounts (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  pokerok_id text null,
+  status text not null default 'pending' check (status in ('pending', 'verified', 'expired')),
+  -- How the latest report rows were matched: anid from the paywall link or the entered player id
+  matched_by text null check (matched_by in ('anid', 'player_id')),
+  verified_at timestamptz null,
+  -- End of affiliate_pro access; mirrored to profiles.subscription_expires_at
+  access_expires_at timestamptz null,
+  -- Activity in the rolling window at the last check (see _shared/affiliate.ts for thresholds)
+  window_rake_usd numeric(12,2) not null default 0,
+  window_hands integer not null default 0,
+  last_activity_at date null,
+  checked_at timestamptz null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists affiliate_accounts_pokerok_id_idx
+  on public.affiliate_accounts (pokerok_id);
+
+alter table public.affiliate_accounts enable row level security;
+
+create policy "Users can select own affiliate account"
+on public.affiliate_accounts for select
+using (auth.uid() = user_id);
+
+-- Partner report rows; re-importing the same period for a player replaces the numbers
+create table if not exists public.affiliate_activity (
+  id uuid primary key default gen_random_uuid(),
+  player_id text not null,
+  anid uuid null,
+  -- null until the row is matched to a user
+  user_id uuid null references auth.users(id) on delete set null,
+  matched_by text null check (matched_by in ('anid', 'player_id')),
+  period_start date not null,
+  period_end date not null,
+  rake_usd numeric(12,2) not null default 0,
+  hands integer not null default 0,
+  -- Report file name, for tracing where the numbers came from
+  source text null,
+  imported_at timestamptz not null default now(),
+  unique (player_id, period_start, period_end)
+);
+
+create index if not exists affiliate_activity_user_period_idx
+  on public.affiliate_activity (user_id, period_end desc);
+
+alter table public.affiliate_activity enable row level security;
+
+create policy "Users can select own affiliate activity"
+on public.affiliate_activity for select
+using (auth.uid() = user_id);
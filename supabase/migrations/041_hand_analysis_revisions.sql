@@ -0,0 +1,12 @@
+-- Re-runs of a hand analysis (another coach style, model or fresher profile context) kept as revisions.
+-- The first analysis of a hand is the root (parent_id null, revision 1); re-runs point to the root and copy its input.
+-- History lists and leak statistics count roots only, so a re-run is not a new hand.
+alter table public.hand_analyses
+  add column if not exists parent_id uuid null references public.hand_analyses(id) on delete cascade,
+  add column if not exists revision integer not null default 1,
+  add column if not exists coach_style text null,
+  add column if not exists model text null;
+
+create index if not exists hand_analyses_parent_revision_idx
+  on public.hand_analyses (parent_id, revision)
+  where parent_id is not null;
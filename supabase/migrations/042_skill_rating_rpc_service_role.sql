@@ -0,0 +1,139 @@
+-- rpc_update_skill_rating moves the shared hand_library.difficulty_rating, so it must not be callable by users
+-- directly through PostgREST with an arbitrary hand and outcome. It now takes the user explicitly and is executable
+-- only by the service role: ai-submit-table-drill-result calls it after grading the answer server-side.
+drop function if exists rpc_update_skill_rating(text, boolean, timestamptz, uuid, real);
+
+create or replace function rpc_update_skill_rating(
+  p_user_id uuid,
+  p_leak_tag text,
+  p_is_correct boolean,
+  p_practiced_at timestamptz default now(),
+  p_hand_library_id uuid default null,
+  p_score real default null
+)
+returns skill_ratings
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  q constant double precision := ln(10) / 400;
+  v_user uuid := p_user_id;
+  v_row skill_ratings;
+  v_prev skill_ratings;
+  v_r double precision := 1500;
+  v_rd double precision := 350;
+  v_hr double precision;
+  v_hrd double precision;
+  v_s double precision := coalesce(greatest(0, least(1, p_score)), case when p_is_correct then 1 else 0 end);
+  v_e double precision;
+  v_g double precision;
+  v_d2 double precision;
+  v_new_r double precision;
+  v_new_rd double precision;
+  v_attempts_7d int;
+  v_correct_7d int;
+  v_attempts_30d int;
+  v_correct_30d int;
+  v_ev_loss_30d real;
+begin
+  if v_user is null then
+    raise exception 'p_user_id is required';
+  end if;
+
+  select * into v_prev from skill_ratings where user_id = v_user and leak_tag = p_leak_tag for update;
+  if found then
+    v_r := v_prev.glicko_rating;
+    v_rd := v_prev.rating_rd;
+    if v_prev.last_practice_at is not null then
+      v_rd := least(350, sqrt(power(v_rd, 2)
+        + 330 * greatest(0, extract(epoch from p_practiced_at - v_prev.last_practice_at) / 86400)));
+    end if;
+  end if;
+
+  if p_hand_library_id is not null then
+    select difficulty_rating, difficulty_rd into v_hr, v_hrd
+    from hand_library where id = p_hand_library_id for update;
+  end if;
+  v_hr := coalesce(v_hr, v_r);
+  v_hrd := coalesce(v_hrd, 350);
+
+  -- Player side
+  v_g := glicko_g(v_hrd);
+  v_e := 1 / (1 + power(10, -v_g * (v_r - v_hr) / 400));
+  v_d2 := 1 / (power(q, 2) * power(v_g, 2) * v_e * (1 - v_e));
+  v_new_r := v_r + q / (1 / power(v_rd, 2) + 1 / v_d2) * v_g * (v_s - v_e);
+  v_new_rd := greatest(40, sqrt(1 / (1 / power(v_rd, 2) + 1 / v_d2)));
+
+  -- Scenario side (opposite result, against the player's pre-attempt rating)
+  if p_hand_library_id is not null then
+    v_g := glicko_g(v_rd);
+    v_e := 1 / (1 + power(10, -v_g * (v_hr - v_r) / 400));
+    v_d2 := 1 / (power(q, 2) * power(v_g, 2) * v_e * (1 - v_e));
+    update hand_library set
+      difficulty_rating = v_hr + q / (1 / power(v_hrd, 2) + 1 / v_d2) * v_g * ((1 - v_s) - v_e),
+      difficulty_rd = greatest(40, sqrt(1 / (1 / power(v_hrd, 2) + 1 / v_d2))),
+      attempts = attempts + 1
+    where id = p_hand_library_id;
+  end if;
+
+  -- Count 7d / 30d from training_events (uses is_correct and leak_tag)
+  select
+    count(*)::int,
+    count(*) filter (where is_correct)::int
+  into v_attempts_7d, v_correct_7d
+  from training_events
+  where user_id = v_user
+    and leak_tag = p_leak_tag
+    and created_at >= now() - interval '7 days';
+
+  select
+    count(*)::int,
+    count(*) filter (where is_correct)::int,
+    avg(ev_loss_bb)::real
+  into v_attempts_30d, v_correct_30d, v_ev_loss_30d
+  from training_events
+  where user_id = v_user
+    and leak_tag = p_leak_tag
+    and created_at >= now() - interval '30 days';
+
+  insert into skill_ratings (
+    user_id, leak_tag, rating, glicko_rating, rating_rd, streak_correct, last_practice_at, last_mistake_at,
+    total_attempts, total_correct, attempts_7d, correct_7d, attempts_30d, correct_30d, ev_loss_30d, updated_at, created_at
+  )
+  values (
+    v_user, p_leak_tag,
+    greatest(0, least(100, round((v_new_r - 1000) / 10)))::int,
+    v_new_r, v_new_rd,
+    case when p_is_correct then 1 else 0 end,
+    p_practiced_at,
+    case when not p_is_correct then p_practiced_at else null end,
+    1,
+    case when p_is_correct then 1 else 0 end,
+    coalesce(v_attempts_7d, 0), coalesce(v_correct_7d, 0), coalesce(v_attempts_30d, 0), coalesce(v_correct_30d, 0),
+    v_ev_loss_30d,
+    now(), now()
+  )
+  on conflict (user_id, leak_tag) do update set
+    rating = excluded.rating,
+    glicko_rating = excluded.glicko_rating,
+    rating_rd = excluded.rating_rd,
+    streak_correct = case when p_is_correct then skill_ratings.streak_correct + 1 else 0 end,
+    last_practice_at = p_practiced_at,
+    last_mistake_at = case when not p_is_correct then p_practiced_at else skill_ratings.last_mistake_at end,
+    total_attempts = skill_ratings.total_attempts + 1,
+    total_correct = skill_ratings.total_correct + case when p_is_correct then 1 else 0 end,
+    attempts_7d = coalesce(v_attempts_7d, 0),
+    correct_7d = coalesce(v_correct_7d, 0),
+    attempts_30d = coalesce(v_attempts_30d, 0),
+    correct_30d = coalesce(v_correct_30d, 0),
+    ev_loss_30d = v_ev_loss_30d,
+    updated_at = now()
+  returning * into v_row;
+
+  return v_row;
+end;
+$$;
+
+revoke execute on function rpc_update_skill_rating(uuid, text, boolean, timestamptz, uuid, real) from public, anon, authenticated;
+grant execute on function rpc_update_skill_rating(uuid, text, boolean, timestamptz, uuid, real) to service_role;
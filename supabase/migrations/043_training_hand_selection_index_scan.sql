@@ -0,0 +1,72 @@
+-- get_training_hand (033) ordered by (selection_key < v_r), selection_key: no index serves that order, so every pick
+-- sorted the whole filtered bucket and ran the recently-seen check on each row. Each level now reads the index from
+-- the random point up (selection_key >= v_r) and, when that finds nothing, wraps around to the keys below it; the
+-- scan stops at the first row that passes the filters.
+-- The selection functions call random(), so they are volatile: a stable function may be evaluated once per statement.
+create or replace function public.get_training_hand(
+  p_target real,
+  p_leak_tag text default null,
+  p_drill_type text default null,
+  p_street text default null,
+  p_multi_street boolean default null,
+  p_exclude_days int default 7
+)
+returns setof public.hand_library
+language plpgsql
+volatile
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_kind text := case when p_drill_type is null or p_drill_type = 'postflop' then 'action_decision' else p_drill_type end;
+  v_street text;
+  v_window real;
+  v_leak text;
+  v_multi boolean;
+  v_since timestamptz;
+  v_r double precision;
+  v_lo double precision;
+  v_hi double precision;
+  v_row public.hand_library;
+begin
+  for v_level in 0..6 loop
+    v_street := case when v_level = 0 then p_street end;
+    v_window := case when v_level <= 1 then 150 when v_level = 2 then 400 end;
+    v_multi := case when v_level <= 3 then p_multi_street end;
+    v_leak := case when v_level <= 4 then p_leak_tag end;
+    v_since := case when v_level <= 5 and v_user is not null then now() - make_interval(days => greatest(p_exclude_days, 0)) end;
+    v_r := random();
+
+    -- Pass 0: keys in [v_r, 1]; pass 1 (wraparound): keys in [0, v_r)
+    for v_pass in 0..1 loop
+      v_lo := case when v_pass = 0 then v_r else 0 end;
+      v_hi := case when v_pass = 0 then 2 else v_r end;
+
+      select h.* into v_row
+      from public.hand_library h
+      where h.drill_kind = v_kind
+        and h.selection_key >= v_lo
+        and h.selection_key < v_hi
+        and (v_leak is null or h.leak_tag = v_leak)
+        and (v_street is null or h.street = v_street)
+        and (v_multi is null or (h.steps is not null) = v_multi)
+        and (v_window is null or p_target is null or h.difficulty_rating between p_target - v_window and p_target + v_window)
+        and (v_since is null or not exists (
+          select 1 from training_events te
+          where te.user_id = v_user and te.hand_library_id = h.id and te.created_at >= v_since
+        ))
+      order by h.selection_key
+      limit 1;
+
+      if found then
+        return next v_row;
+        return;
+      end if;
+    end loop;
+  end loop;
+end;
+$$;
+
+alter function public.get_hand_near_rating(real, text, text, boolean) volatile;
+alter function public.get_hand_pack(real, int) volatile;
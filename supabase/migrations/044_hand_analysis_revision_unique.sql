@@ -0,0 +1,19 @@
+-- Two concurrent re-runs of a hand could both save the same revision number (041 only had a plain index), and the
+-- compare view could not tell them apart. Existing duplicates are renumbered, then the number is unique per hand;
+-- ai-analyze-hand retries with the next number when its insert hits the constraint.
+with numbered as (
+  select id, row_number() over (partition by parent_id order by revision, created_at, id) + 1 as next_revision
+  from public.hand_analyses
+  where parent_id is not null
+)
+update public.hand_analyses h
+set revision = numbered.next_revision
+from numbered
+where h.id = numbered.id
+  and h.revision <> numbered.next_revision;
+
+drop index if exists public.hand_analyses_parent_revision_idx;
+
+create unique index if not exists hand_analyses_parent_revision_key
+  on public.hand_analyses (parent_id, revision)
+  where parent_id is not null;
@@ -0,0 +1,27 @@
+-- rpc_get_review_forecast (027) passed days_n straight to generate_series, so any caller could request millions of
+-- rows. The app asks for two weeks; clamp the horizon to 1..60 days.
+create or replace function rpc_get_review_forecast(days_n int default 14, tz text default 'UTC')
+returns table (day date, due_count int)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with days as (
+    select (timezone(tz, now()))::date + g as day
+    from generate_series(0, least(greatest(days_n, 1), 60) - 1) as g
+  ),
+  due as (
+    select greatest((timezone(tz, due_at))::date, (timezone(tz, now()))::date) as day
+    from drill_queue
+    where user_id = auth.uid()
+      and status in ('due', 'scheduled')
+  )
+  select d.day, count(due.day)::int as due_count
+  from days d
+  left join due on due.day = d.day
+  group by d.day
+  order by d.day;
+$$;
+
+comment on function rpc_get_review_forecast(int, text) is 'Number of drill_queue items due per day (at most 60 days) for the current user, starting today in the given time zone.';
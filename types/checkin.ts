@@ -1,4 +1,5 @@
 // Daily check-in types
+import type { MentalState } from '../lib/tilt';
 
 export type DailyCheckin = {
   date: string;
@@ -12,6 +13,8 @@ export type DailyCheckin = {
     question: string;
     answer: string;
   };
+  // Tilt detection at request time (ai-daily-checkin); not stored in daily_checkins
+  mental?: MentalState | null;
 };
 
 export type DailyCheckinRow = {
@@ -12,7 +12,10 @@ export type Database = {
           goals: string[] | null;
           weak_areas: string[] | null;
           coach_style: string | null;
-          subscription_tier: 'free' | 'pro' | 'affiliate_pro' | null;
+          subscription_tier: 'free' | 'pro' | 'affiliate_pro';
+          subscription_status: string | null;
+          subscription_expires_at: string | null;
+          subscription_event_at: string | null;
           pokerok_id: string | null;
           created_at: string;
           updated_at: string;
@@ -25,7 +28,10 @@ export type Database = {
           goals?: string[] | null;
           weak_areas?: string[] | null;
           coach_style?: string | null;
-          subscription_tier?: 'free' | 'pro' | 'affiliate_pro' | null;
+          subscription_tier?: 'free' | 'pro' | 'affiliate_pro';
+          subscription_status?: string | null;
+          subscription_expires_at?: string | null;
+          subscription_event_at?: string | null;
           pokerok_id?: string | null;
           created_at?: string;
           updated_at?: string;
@@ -38,7 +44,10 @@ export type Database = {
           goals?: string[] | null;
           weak_areas?: string[] | null;
           coach_style?: string | null;
-          subscription_tier?: 'free' | 'pro' | 'affiliate_pro' | null;
+          subscription_tier?: 'free' | 'pro' | 'affiliate_pro';
+          subscription_status?: string | null;
+          subscription_expires_at?: string | null;
+          subscription_event_at?: string | null;
           pokerok_id?: string | null;
           created_at?: string;
           updated_at?: string;
@@ -52,6 +61,10 @@ export type Database = {
           result: Json; // jsonb
           mistake_tags: string[];
           is_deleted: boolean;
+          parent_id: string | null;
+          revision: number;
+          coach_style: string | null;
+          model: string | null;
           created_at: string;
         };
         Insert: {
@@ -61,6 +74,10 @@ export type Database = {
           result: Json;
           mistake_tags?: string[];
           is_deleted?: boolean;
+          parent_id?: string | null;
+          revision?: number;
+          coach_style?: string | null;
+          model?: string | null;
           created_at?: string;
         };
         Update: {
@@ -70,6 +87,10 @@ export type Database = {
           result?: Json;
           mistake_tags?: string[];
           is_deleted?: boolean;
+          parent_id?: string | null;
+          revision?: number;
+          coach_style?: string | null;
+          model?: string | null;
           created_at?: string;
         };
       };
@@ -142,6 +163,13 @@ export type Database = {
           leak_tag: string | null;
           drill_type: string | null;
           user_answer: string | null;
+          client_event_id: string | null;
+          hand_id: string | null;
+          step_index: number | null;
+          hand_library_id: string | null;
+          ev_loss_bb: number | null;
+          ev_band: 'best' | 'close' | 'blunder' | null;
+          action_evs: Json | null;
         };
         Insert: {
           id?: string;
@@ -156,6 +184,13 @@ export type Database = {
           leak_tag?: string | null;
           drill_type?: string | null;
           user_answer?: string | null;
+          client_event_id?: string | null;
+          hand_id?: string | null;
+          step_index?: number | null;
+          hand_library_id?: string | null;
+          ev_loss_bb?: number | null;
+          ev_band?: 'best' | 'close' | 'blunder' | null;
+          action_evs?: Json | null;
         };
         Update: {
           id?: string;
@@ -170,6 +205,13 @@ export type Database = {
           leak_tag?: string | null;
           drill_type?: string | null;
           user_answer?: string | null;
+          client_event_id?: string | null;
+          hand_id?: string | null;
+          step_index?: number | null;
+          hand_library_id?: string | null;
+          ev_loss_bb?: number | null;
+          ev_band?: 'best' | 'close' | 'blunder' | null;
+          action_evs?: Json | null;
         };
       };
       daily_checkins: {
@@ -240,6 +282,12 @@ export type Database = {
           created_at: string;
           updated_at: string;
           drill_type: string;
+          stability: number | null;
+          difficulty: number | null;
+          lapses: number;
+          last_reviewed_at: string | null;
+          last_latency_ms: number | null;
+          last_grade: number | null;
         };
         Insert: {
           id?: string;
@@ -253,6 +301,12 @@ export type Database = {
           created_at?: string;
           updated_at?: string;
           drill_type?: string;
+          stability?: number | null;
+          difficulty?: number | null;
+          lapses?: number;
+          last_reviewed_at?: string | null;
+          last_latency_ms?: number | null;
+          last_grade?: number | null;
         };
         Update: {
           id?: string;
@@ -266,6 +320,12 @@ export type Database = {
           created_at?: string;
           updated_at?: string;
           drill_type?: string;
+          stability?: number | null;
+          difficulty?: number | null;
+          lapses?: number;
+          last_reviewed_at?: string | null;
+          last_latency_ms?: number | null;
+          last_grade?: number | null;
         };
       };
       chat_threads: {
@@ -297,12 +357,456 @@ export type Database = {
           leak_tag?: string | null;
         };
       };
+      bankroll_sessions: {
+        Row: {
+          id: string;
+          user_id: string;
+          date: string;
+          game_type: string;
+          buy_in: number;
+          cash_out: number;
+          profit: number;
+          notes: string | null;
+          created_at: string;
+          stakes: string | null;
+          big_blind: number | null;
+          duration_minutes: number | null;
+          hands_played: number | null;
+          venue: string | null;
+          currency: string;
+          entries: number | null;
+          finish_place: number | null;
+          started_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          date?: string;
+          game_type: string;
+          buy_in?: number;
+          cash_out?: number;
+          notes?: string | null;
+          created_at?: string;
+          stakes?: string | null;
+          big_blind?: number | null;
+          duration_minutes?: number | null;
+          hands_played?: number | null;
+          venue?: string | null;
+          currency?: string;
+          entries?: number | null;
+          finish_place?: number | null;
+          started_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          date?: string;
+          game_type?: string;
+          buy_in?: number;
+          cash_out?: number;
+          notes?: string | null;
+          created_at?: string;
+          stakes?: string | null;
+          big_blind?: number | null;
+          duration_minutes?: number | null;
+          hands_played?: number | null;
+          venue?: string | null;
+          currency?: string;
+          entries?: number | null;
+          finish_place?: number | null;
+          started_at?: string | null;
+        };
+      };
+      bankroll_rules: {
+        Row: {
+          user_id: string;
+          currency: string;
+          starting_bankroll: number;
+          started_at: string;
+          preset: 'conservative' | 'standard' | 'aggressive' | 'custom';
+          cash_buyins: number;
+          cash_move_down_buyins: number;
+          mtt_buyins: number;
+          mtt_move_down_buyins: number;
+          spin_buyins: number;
+          spin_move_down_buyins: number;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          currency?: string;
+          starting_bankroll?: number;
+          started_at?: string;
+          preset?: 'conservative' | 'standard' | 'aggressive' | 'custom';
+          cash_buyins?: number;
+          cash_move_down_buyins?: number;
+          mtt_buyins?: number;
+          mtt_move_down_buyins?: number;
+          spin_buyins?: number;
+          spin_move_down_buyins?: number;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          currency?: string;
+          starting_bankroll?: number;
+          started_at?: string;
+          preset?: 'conservative' | 'standard' | 'aggressive' | 'custom';
+          cash_buyins?: number;
+          cash_move_down_buyins?: number;
+          mtt_buyins?: number;
+          mtt_move_down_buyins?: number;
+          spin_buyins?: number;
+          spin_move_down_buyins?: number;
+          updated_at?: string;
+        };
+      };
+      mental_signals: {
+        Row: {
+          id: string;
+          user_id: string;
+          level: 'ok' | 'caution' | 'tilt';
+          score: number;
+          recommendation: 'none' | 'cooldown' | 'break';
+          signals: Json; // jsonb: [{ code, severity, message, data }]
+          source: 'daily_checkin' | 'coach_chat';
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          level: 'ok' | 'caution' | 'tilt';
+          score?: number;
+          recommendation?: 'none' | 'cooldown' | 'break';
+          signals?: Json;
+          source: 'daily_checkin' | 'coach_chat';
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          level?: 'ok' | 'caution' | 'tilt';
+          score?: number;
+          recommendation?: 'none' | 'cooldown' | 'break';
+          signals?: Json;
+          source?: 'daily_checkin' | 'coach_chat';
+          created_at?: string;
+        };
+      };
+      usage_events: {
+        Row: {
+          id: string;
+          user_id: string;
+          feature: 'hand_analysis' | 'coach_message' | 'ocr' | 'table_drill' | 'leak_summary';
+          fn: string;
+          units: number;
+          llm_calls: number;
+          prompt_tokens: number;
+          completion_tokens: number;
+          cost_usd: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          feature: 'hand_analysis' | 'coach_message' | 'ocr' | 'table_drill' | 'leak_summary';
+          fn: string;
+          units?: number;
+          llm_calls?: number;
+          prompt_tokens?: number;
+          completion_tokens?: number;
+          cost_usd?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          feature?: 'hand_analysis' | 'coach_message' | 'ocr' | 'table_drill' | 'leak_summary';
+          fn?: string;
+          units?: number;
+          llm_calls?: number;
+          prompt_tokens?: number;
+          completion_tokens?: number;
+          cost_usd?: number;
+          created_at?: string;
+        };
+      };
+      entitlement_events: {
+        Row: {
+          id: string;
+          event_id: string;
+          event_type: string;
+          app_user_id: string;
+          user_id: string | null;
+          environment: string | null;
+          store: string | null;
+          product_id: string | null;
+          entitlement_ids: string[];
+          tier_after: 'free' | 'pro' | null;
+          status_after: string | null;
+          expires_at: string | null;
+          event_at: string;
+          ignored_reason: string | null;
+          payload: Json;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          event_id: string;
+          event_type: string;
+          app_user_id: string;
+          user_id?: string | null;
+          environment?: string | null;
+          store?: string | null;
+          product_id?: string | null;
+          entitlement_ids?: string[];
+          tier_after?: 'free' | 'pro' | null;
+          status_after?: string | null;
+          expires_at?: string | null;
+          event_at: string;
+          ignored_reason?: string | null;
+          payload: Json;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          event_id?: string;
+          event_type?: string;
+          app_user_id?: string;
+          user_id?: string | null;
+          environment?: string | null;
+          store?: string | null;
+          product_id?: string | null;
+          entitlement_ids?: string[];
+          tier_after?: 'free' | 'pro' | null;
+          status_after?: string | null;
+          expires_at?: string | null;
+          event_at?: string;
+          ignored_reason?: string | null;
+          payload?: Json;
+          created_at?: string;
+        };
+      };
+      affiliate_accounts: {
+        Row: {
+          user_id: string;
+          pokerok_id: string | null;
+          status: 'pending' | 'verified' | 'expired';
+          matched_by: 'anid' | 'player_id' | null;
+          verified_at: string | null;
+          access_expires_at: string | null;
+          window_rake_usd: number;
+          window_hands: number;
+          last_activity_at: string | null;
+          checked_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          pokerok_id?: string | null;
+          status?: 'pending' | 'verified' | 'expired';
+          matched_by?: 'anid' | 'player_id' | null;
+          verified_at?: string | null;
+          access_expires_at?: string | null;
+          window_rake_usd?: number;
+          window_hands?: number;
+          last_activity_at?: string | null;
+          checked_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          pokerok_id?: string | null;
+          status?: 'pending' | 'verified' | 'expired';
+          matched_by?: 'anid' | 'player_id' | null;
+          verified_at?: string | null;
+          access_expires_at?: string | null;
+          window_rake_usd?: number;
+          window_hands?: number;
+          last_activity_at?: string | null;
+          checked_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      affiliate_activity: {
+        Row: {
+          id: string;
+          player_id: string;
+          anid: string | null;
+          user_id: string | null;
+          matched_by: 'anid' | 'player_id' | null;
+          period_start: string;
+          period_end: string;
+          rake_usd: number;
+          hands: number;
+          source: string | null;
+          imported_at: string;
+        };
+        Insert: {
+          id?: string;
+          player_id: string;
+          anid?: string | null;
+          user_id?: string | null;
+          matched_by?: 'anid' | 'player_id' | null;
+          period_start: string;
+          period_end: string;
+          rake_usd?: number;
+          hands?: number;
+          source?: string | null;
+          imported_at?: string;
+        };
+        Update: {
+          id?: string;
+          player_id?: string;
+          anid?: string | null;
+          user_id?: string | null;
+          matched_by?: 'anid' | 'player_id' | null;
+          period_start?: string;
+          period_end?: string;
+          rake_usd?: number;
+          hands?: number;
+          source?: string | null;
+          imported_at?: string;
+        };
+      };
+      hands: {
+        Row: {
+          id: string;
+          user_id: string;
+          session_id: string | null;
+          site: 'pokerstars' | 'ggpoker' | 'pokerok';
+          hand_id: string;
+          played_at: string | null;
+          game: string;
+          stakes: string | null;
+          big_blind: number;
+          is_tournament: boolean;
+          hero_pos: string | null;
+          hero_cards: string | null;
+          board: Json; // jsonb string[]
+          pot_bb: number | null;
+          hero_net: number | null;
+          hero_net_bb: number | null;
+          review_flags: string[];
+          raw_text: string;
+          analysis_id: string | null;
+          stat_flags: Json | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          session_id?: string | null;
+          site: 'pokerstars' | 'ggpoker' | 'pokerok';
+          hand_id: string;
+          played_at?: string | null;
+          game?: string;
+          stakes?: string | null;
+          big_blind?: number;
+          is_tournament?: boolean;
+          hero_pos?: string | null;
+          hero_cards?: string | null;
+          board?: Json;
+          pot_bb?: number | null;
+          hero_net?: number | null;
+          hero_net_bb?: number | null;
+          review_flags?: string[];
+          raw_text: string;
+          analysis_id?: string | null;
+          stat_flags?: Json | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          session_id?: string | null;
+          site?: 'pokerstars' | 'ggpoker' | 'pokerok';
+          hand_id?: string;
+          played_at?: string | null;
+          game?: string;
+          stakes?: string | null;
+          big_blind?: number;
+          is_tournament?: boolean;
+          hero_pos?: string | null;
+          hero_cards?: string | null;
+          board?: Json;
+          pot_bb?: number | null;
+          hero_net?: number | null;
+          hero_net_bb?: number | null;
+          review_flags?: string[];
+          raw_text?: string;
+          analysis_id?: string | null;
+          stat_flags?: Json | null;
+          created_at?: string;
+        };
+      };
+      preflop_charts: {
+        Row: {
+          id: string;
+          format: 'cash' | 'mtt';
+          stack_bb: number;
+          hero_pos: string;
+          opener_pos: string; // '' = RFI
+          raise_range: string;
+          call_range: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          format: 'cash' | 'mtt';
+          stack_bb: number;
+          hero_pos: string;
+          opener_pos?: string;
+          raise_range: string;
+          call_range?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          format?: 'cash' | 'mtt';
+          stack_bb?: number;
+          hero_pos?: string;
+          opener_pos?: string;
+          raise_range?: string;
+          call_range?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
     };
     Functions: {
       rpc_get_due_drills: {
         Args: { limit_n?: number };
         Returns: Database['public']['Tables']['drill_queue']['Row'][];
       };
+      rpc_get_review_forecast: {
+        Args: { days_n?: number; tz?: string };
+        Returns: { day: string; due_count: number }[];
+      };
+      get_hand_pack: {
+        Args: { p_target: number; p_limit?: number };
+        Returns: Record<string, unknown>[];
+      };
+      get_hand_near_rating: {
+        Args: { p_target: number; p_leak_tag?: string | null; p_drill_type?: string | null; p_multi_street?: boolean | null };
+        Returns: Record<string, unknown>[];
+      };
+      get_training_hand: {
+        Args: {
+          p_target: number;
+          p_leak_tag?: string | null;
+          p_drill_type?: string | null;
+          p_street?: string | null;
+          p_multi_street?: boolean | null;
+          p_exclude_days?: number;
+        };
+        Returns: Record<string, unknown>[];
+      };
     };
   };
 };
@@ -315,4 +819,13 @@ export type TrainingEventRow = Database['public']['Tables']['training_events']['
 export type DailyCheckinRow = Database['public']['Tables']['daily_checkins']['Row'];
 export type ActionPlanRow = Database['public']['Tables']['action_plans']['Row'];
 export type DrillQueueRow = Database['public']['Tables']['drill_queue']['Row'];
+export type PreflopChartRow = Database['public']['Tables']['preflop_charts']['Row'];
 export type ChatThreadRow = Database['public']['Tables']['chat_threads']['Row'];
+export type BankrollSessionRow = Database['public']['Tables']['bankroll_sessions']['Row'];
+export type BankrollRulesRow = Database['public']['Tables']['bankroll_rules']['Row'];
+export type MentalSignalRow = Database['public']['Tables']['mental_signals']['Row'];
+export type UsageEventRow = Database['public']['Tables']['usage_events']['Row'];
+export type EntitlementEventRow = Database['public']['Tables']['entitlement_events']['Row'];
+export type AffiliateAccountRow = Database['public']['Tables']['affiliate_accounts']['Row'];
+export type AffiliateActivityRow = Database['public']['Tables']['affiliate_activity']['Row'];
+export type HandRow = Database['public']['Tables']['hands']['Row'];
@@ -27,9 +27,23 @@ export type DrillGradeResult = {
 // --- Table drill (Poker Table UI) ---
 
 export type TableDrillPos = 'BTN' | 'SB' | 'BB' | 'CO' | 'HJ' | 'UTG' | 'MP';
-export type TableDrillStreet = 'flop' | 'turn' | 'river';
+export type TableDrillStreet = 'preflop' | 'flop' | 'turn' | 'river';
 export type TableDrillCorrectAction = 'fold' | 'call' | 'raise';
 export type RaiseSizingOption = '2.5x' | '3x' | 'overbet';
+export type PreflopDrillAction = 'open' | '3bet' | 'call' | 'fold';
+export type PushFoldDrillAction = 'shove' | 'fold';
+
+/** push_fold: стол для ICM-оценки пуша (см. lib/icm); Hero — hero_pos / hero_cards сценария, коллирует BB. */
+export type PushFoldDrillTable = {
+  format: 'sng' | 'mtt' | 'spin';
+  positions: string[];
+  stacks_bb: number[];
+  /** Оставшиеся призовые места, % призового фонда. */
+  payouts: number[];
+  ante_bb: number;
+  /** BB коллирует топ call_pct% рук. */
+  call_pct: number;
+};
 export type ActionToHeroType = 'bet' | 'check' | 'raise';
 
 export type TableDrillScenario = {
@@ -39,7 +53,8 @@ export type TableDrillScenario = {
   effective_stack_bb: number;
   hero_cards: [string, string];
   board: {
-    flop: [string, string, string];
+    /** Пустой для префлоп-тренировки (preflop_range). */
+    flop: [string, string, string] | [];
     turn: string | null;
     river: string | null;
   };
@@ -51,11 +66,31 @@ export type TableDrillScenario = {
   villain_bet: number;
   correct_action?: TableDrillCorrectAction;
   explanation: string;
-  /** action_decision (default) | raise_sizing */
-  drill_type?: 'action_decision' | 'raise_sizing';
+  /** action_decision (default) | raise_sizing | preflop_range | push_fold */
+  drill_type?: 'action_decision' | 'raise_sizing' | 'preflop_range' | 'push_fold';
   /** For raise_sizing: options and correct choice */
   options?: [string, string, string];
   correct_option?: string;
   rule_of_thumb?: string;
   leak_tag?: string;
+  /** Диапазон оппонента в стандартной нотации ("TT+, AQs+, 76s-54s"), см. lib/ranges. */
+  villain_range?: string;
+  /** Эквити Hero (0..1) против villain_range на текущей улице. */
+  hero_equity?: number;
+  /** Карты оппонента из hand_library: с ними (или с villain_range) ответ оценивается по EV, см. lib/ev. */
+  villain_cards?: string[];
+  /** id строки hand_library — по нему после ответа обновляется рейтинг сложности сценария. */
+  hand_library_id?: string;
+  /** Подписанные сервером поля оценки сгенерированного сценария; отправляется обратно вместе с ответом как есть. */
+  grading_token?: string;
+  /** preflop_range: ключ чарта (формат, глубина стека, позиция оппонента-опенера; null — Hero первым в банк). */
+  format?: 'cash' | 'mtt';
+  stack_bb?: number;
+  opener_pos?: TableDrillPos | null;
+  /** preflop_range: кнопки ответа и действия, которые чарт засчитывает (для оценки без сети). */
+  preflop_options?: PreflopDrillAction[];
+  preflop_accepted?: PreflopDrillAction[];
+  /** push_fold: стол и ответы, которые засчитывает ICM-оценка (для оценки без сети). */
+  push_fold?: PushFoldDrillTable;
+  push_fold_accepted?: PushFoldDrillAction[];
 };
@@ -1,5 +1,7 @@
 // Hand analysis types
 
+import type { HandDecision } from '../lib/handDecisions';
+
 export type CoachStyle = 'TOXIC' | 'MENTAL' | 'MATH';
 
 export type HandInput = {
@@ -10,6 +12,7 @@ export type HandInput = {
   board?: string;            // "As7d2c | turn 9h | river Qs"
   notes?: string;            // optional
   raw_text?: string;         // fallback: пользователь вставил текст раздачи
+  villain_range?: string;    // "22+, A2s+, KTo+" (см. lib/ranges)
 };
 
 export type HandAnalysisRequest = {
@@ -32,11 +35,16 @@ export type HandAnalysisResult = {
     title: string;
     steps: string[];
   };
+  /** Verdict per Hero decision; absent in analyses saved before decision-level output. */
+  decisions?: HandDecision[];
 };
 
 export type HandAnalysisResponse = {
   analysis_id: string;
   result: HandAnalysisResult;
+  /** Root analysis of the hand when this is a re-run (revision_of), else null. */
+  parent_id: string | null;
+  revision: number;
 };
 
 export type HandAnalysis = {
@@ -45,5 +53,10 @@ export type HandAnalysis = {
   input: HandInput;
   result: HandAnalysisResult;
   mistake_tags: string[];
+  /** Revisions: re-runs point to the first analysis of the hand (parent_id null, revision 1). */
+  parent_id?: string | null;
+  revision?: number;
+  coach_style?: CoachStyle | null;
+  model?: string | null;
   created_at: string;
 };